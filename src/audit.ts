@@ -0,0 +1,294 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { createHash } from 'node:crypto';
+import { appendFile, open, type FileHandle } from 'node:fs/promises';
+
+import type { ToolName } from './contracts.js';
+
+/** `prev_hash` of the first entry in a log */
+export const GENESIS_HASH = '0'.repeat(64);
+
+/**
+ * A message changed by a write tool, as reported by the tool implementation.
+ */
+export type AuditMessageChange = Readonly<{
+  mailbox: string;
+  uidvalidity?: number | undefined;
+  uid: number;
+  /** Flags before the change; omitted when the tool did not read them */
+  flags_before?: readonly string[] | undefined;
+  /** Flags after the change; omitted when the message left the mailbox */
+  flags_after?: readonly string[] | undefined;
+  destination_mailbox?: string | undefined;
+  destination_uidvalidity?: number | undefined;
+  destination_uid?: number | undefined;
+}>;
+
+/**
+ * What the caller records for one write tool invocation.
+ */
+export type AuditRecord = Readonly<{
+  tool: ToolName;
+  account_id: string;
+  mailbox?: string | undefined;
+  destination_account_id?: string | undefined;
+  destination_mailbox?: string | undefined;
+  message_ids?: readonly string[] | undefined;
+  messages?: readonly AuditMessageChange[] | undefined;
+  /** Operation that imap_undo can revert, when the call was journaled */
+  undo_operation_id?: string | undefined;
+  outcome: 'ok' | 'error';
+  error?: string | undefined;
+  duration_ms: number;
+}>;
+
+/**
+ * One line of the audit log.
+ *
+ * `hash` is the SHA-256 of the entry without its `hash` field, and `prev_hash`
+ * is the hash of the preceding entry, so editing, removing, or reordering
+ * entries breaks the chain from that point on.
+ */
+export type AuditEntry = AuditRecord &
+  Readonly<{
+    seq: number;
+    timestamp: string;
+    prev_hash: string;
+    hash: string;
+  }>;
+
+/**
+ * Result of checking the hash chain of the entries read from an audit log.
+ */
+export type AuditChainStatus = Readonly<{
+  valid: boolean;
+  entries_checked: number;
+  /** `seq` of the oldest checked entry that breaks the chain (its hash, or its link to the entry before it) */
+  first_invalid_seq?: number;
+}>;
+
+/**
+ * Options for reading the newest entries of an audit log.
+ */
+export type AuditLogQuery = Readonly<{
+  /** Maximum number of entries to return */
+  limit: number;
+  /** Only entries for which this returns true are returned */
+  filter?: ((entry: AuditEntry) => boolean) | undefined;
+}>;
+
+/** Bytes read per step when reading an audit log from its end */
+const READ_CHUNK_BYTES = 64 * 1024;
+
+type ChainHead = Readonly<{ seq: number; hash: string }>;
+
+/** Last entry written to each log by this process */
+const chainHeads = new Map<string, ChainHead>();
+/** Appends are serialized so every entry links to the one written before it */
+let appendQueue: Promise<unknown> = Promise.resolve();
+
+const messageChanges = new AsyncLocalStorage<AuditMessageChange[]>();
+
+/**
+ * Run a tool call while collecting the message changes it reports.
+ *
+ * Changes are pushed into `messages` as they are reported, so they are kept
+ * even when the call throws part-way through.
+ *
+ * @param messages - Receives the reported changes
+ * @param operation - The tool call to run
+ * @returns The result of the call
+ */
+export function collectAuditMessages<T>(
+  messages: AuditMessageChange[],
+  operation: () => Promise<T>,
+): Promise<T> {
+  return messageChanges.run(messages, operation);
+}
+
+/**
+ * Report message changes for the audit log of the current tool call.
+ *
+ * Does nothing outside of {@link collectAuditMessages}, so tool implementations
+ * can call it unconditionally.
+ */
+export function recordAuditMessages(changes: readonly AuditMessageChange[]): void {
+  messageChanges.getStore()?.push(...changes);
+}
+
+/**
+ * Append an entry to a JSONL audit log, linking it to the previous entry.
+ *
+ * The file is created with owner-only permissions if it does not exist.
+ *
+ * @param path - Path to the audit log file
+ * @param record - The invocation to record
+ * @returns The entry as written
+ * @throws An Error if the log cannot be read or written, or its last entry is unreadable
+ */
+export function appendAuditEntry(path: string, record: AuditRecord): Promise<AuditEntry> {
+  const append = appendQueue.then(async () => {
+    const head = chainHeads.get(path) ?? (await readChainHead(path));
+    const unsigned = {
+      seq: head.seq + 1,
+      timestamp: new Date().toISOString(),
+      ...record,
+      prev_hash: head.hash,
+    };
+    const entry: AuditEntry = { ...unsigned, hash: hashEntry(unsigned) };
+    await appendFile(path, `${JSON.stringify(entry)}\n`, { encoding: 'utf8', mode: 0o600 });
+    chainHeads.set(path, { seq: entry.seq, hash: entry.hash });
+    return entry;
+  });
+  appendQueue = append.catch(() => undefined);
+  return append;
+}
+
+/**
+ * Read the newest entries of an audit log and verify their hash chain.
+ *
+ * The file is read from its end and reading stops once `limit` matching
+ * entries are found, so the cost of a query does not grow with the log. The
+ * chain is verified for the entries read, including entries the filter skips;
+ * when the start of the file is reached, the oldest entry must link to
+ * {@link GENESIS_HASH}. A missing file is an empty, valid log.
+ *
+ * @param path - Path to the audit log file
+ * @param query - The maximum number of entries and an optional filter
+ * @returns The matching entries, newest first, whether older entries were left
+ *   unread, and the chain status of the entries read
+ */
+export async function readAuditLog(
+  path: string,
+  query: AuditLogQuery,
+): Promise<{ entries: AuditEntry[]; has_more: boolean; chain: AuditChainStatus }> {
+  const entries: AuditEntry[] = [];
+  let checked = 0;
+  let unreadable = false;
+  let firstInvalidSeq: number | undefined;
+  let hasMore = false;
+  // The entry read before the current one, which is the next newer entry in the file
+  let newer: AuditEntry | undefined;
+
+  for await (const line of readLinesFromEnd(path)) {
+    if (entries.length === query.limit) {
+      hasMore = true;
+      break;
+    }
+    checked += 1;
+    const entry = parseEntry(line);
+    if (!entry) {
+      unreadable = true;
+      firstInvalidSeq = newer?.seq ?? firstInvalidSeq;
+      newer = undefined;
+      continue;
+    }
+    if (newer && newer.prev_hash !== entry.hash) {
+      firstInvalidSeq = newer.seq;
+    }
+    const { hash, ...unsigned } = entry;
+    if (hashEntry(unsigned) !== hash) {
+      firstInvalidSeq = entry.seq;
+    }
+    if (!query.filter || query.filter(entry)) {
+      entries.push(entry);
+    }
+    newer = entry;
+  }
+  if (!hasMore && newer && newer.prev_hash !== GENESIS_HASH) {
+    firstInvalidSeq = newer.seq;
+  }
+
+  return {
+    entries,
+    has_more: hasMore,
+    chain: {
+      valid: !unreadable && firstInvalidSeq === undefined,
+      entries_checked: checked,
+      ...(firstInvalidSeq !== undefined ? { first_invalid_seq: firstInvalidSeq } : {}),
+    },
+  };
+}
+
+/**
+ * Find the entry a new entry has to link to, reading the end of an existing log.
+ */
+async function readChainHead(path: string): Promise<ChainHead> {
+  for await (const last of readLinesFromEnd(path)) {
+    const entry = parseEntry(last);
+    if (!entry) {
+      throw new Error(
+        'The last audit log entry is unreadable; the hash chain cannot be continued.',
+      );
+    }
+    return { seq: entry.seq, hash: entry.hash };
+  }
+  return { seq: 0, hash: GENESIS_HASH };
+}
+
+/**
+ * Yield the non-empty lines of a file from last to first, reading it backwards
+ * in chunks. A missing file has no lines.
+ */
+async function* readLinesFromEnd(path: string): AsyncGenerator<string> {
+  let handle: FileHandle;
+  try {
+    handle = await open(path, 'r');
+  } catch (error: unknown) {
+    if ((error as { code?: unknown }).code === 'ENOENT') {
+      return;
+    }
+    throw error;
+  }
+  try {
+    let position = (await handle.stat()).size;
+    // Bytes of the line that continues into the chunk before the current one
+    let partial = Buffer.alloc(0);
+    while (position > 0) {
+      const size = Math.min(READ_CHUNK_BYTES, position);
+      position -= size;
+      const chunk = Buffer.alloc(size);
+      await handle.read(chunk, 0, size, position);
+      const buffer = Buffer.concat([chunk, partial]);
+      // Splitting on the newline byte is safe for UTF-8, which never uses it inside a character
+      let end = buffer.length;
+      let newline = buffer.lastIndexOf(0x0a, end - 1);
+      while (newline !== -1) {
+        const line = buffer.toString('utf8', newline + 1, end);
+        if (line.trim() !== '') {
+          yield line;
+        }
+        end = newline;
+        newline = end > 0 ? buffer.lastIndexOf(0x0a, end - 1) : -1;
+      }
+      partial = buffer.subarray(0, end);
+    }
+    const first = partial.toString('utf8');
+    if (first.trim() !== '') {
+      yield first;
+    }
+  } finally {
+    await handle.close();
+  }
+}
+
+function parseEntry(line: string): AuditEntry | null {
+  try {
+    const value = JSON.parse(line) as Partial<AuditEntry> | null;
+    return value &&
+      typeof value === 'object' &&
+      typeof value.seq === 'number' &&
+      typeof value.hash === 'string' &&
+      typeof value.prev_hash === 'string'
+      ? (value as AuditEntry)
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Hash an entry without its `hash` field, keeping the field order as written.
+ */
+function hashEntry(unsigned: Readonly<Record<string, unknown>>): string {
+  return createHash('sha256').update(JSON.stringify(unsigned)).digest('hex');
+}
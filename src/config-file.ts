@@ -0,0 +1,164 @@
+import { readFileSync } from 'node:fs';
+import { extname } from 'node:path';
+
+import { parse as parseYaml } from 'yaml';
+import { z } from 'zod';
+
+import { normalizeEnvSegment } from './config.js';
+
+const HostSchema = z.string().min(1).max(255);
+const PortSchema = z.number().int().min(1).max(65535);
+const SecretSchema = z.string().min(1);
+const TimeoutSchema = z.number().int().positive();
+const StringListSchema = z.array(z.string().min(1).max(256)).max(500);
+
+const TlsSchema = z
+  .object({
+    /** Reject servers whose certificate cannot be verified (default true) */
+    reject_unauthorized: z.boolean().optional(),
+    /** Minimum TLS protocol version */
+    min_version: z.enum(['TLSv1.2', 'TLSv1.3']).optional(),
+    /** Server name for SNI and certificate verification, when it differs from the host */
+    servername: HostSchema.optional(),
+  })
+  .strict();
+
+const OAuth2Schema = z
+  .object({
+    access_token: SecretSchema.optional(),
+    refresh_token: SecretSchema.optional(),
+    client_id: z.string().min(1).optional(),
+    client_secret: SecretSchema.optional(),
+    token_url: z.url().optional(),
+    scope: z.string().min(1).optional(),
+  })
+  .strict();
+
+const SmtpSchema = z
+  .object({
+    host: HostSchema,
+    port: PortSchema.optional(),
+    secure: z.boolean().optional(),
+    user: z.string().min(1).optional(),
+    pass: SecretSchema.optional(),
+    allowed_recipients: StringListSchema.optional(),
+  })
+  .strict();
+
+const AccountSchema = z
+  .object({
+    host: HostSchema,
+    port: PortSchema.optional(),
+    secure: z.boolean().optional(),
+    user: z.string().min(1),
+    auth: z.enum(['password', 'oauth2']).optional(),
+    pass: SecretSchema.optional(),
+    oauth2: OAuth2Schema.optional(),
+    tls: TlsSchema.optional(),
+    read_only: z.boolean().optional(),
+    allowed_tools: StringListSchema.optional(),
+    denied_tools: StringListSchema.optional(),
+    allowed_mailboxes: StringListSchema.optional(),
+    denied_mailboxes: StringListSchema.optional(),
+    max_messages_per_call: z.number().int().min(1).optional(),
+    delete_strategy: z.enum(['trash', 'expunge']).optional(),
+    smtp: SmtpSchema.optional(),
+  })
+  .strict();
+
+const SettingsSchema = z
+  .object({
+    write_enabled: z.boolean().optional(),
+    send_enabled: z.boolean().optional(),
+    connect_timeout_ms: TimeoutSchema.optional(),
+    greeting_timeout_ms: TimeoutSchema.optional(),
+    socket_timeout_ms: TimeoutSchema.optional(),
+    pool_max_size: z.number().int().min(1).optional(),
+    pool_idle_timeout_ms: TimeoutSchema.optional(),
+    max_subscriptions: z.number().int().min(0).optional(),
+    audit_log: z.string().min(1).optional(),
+    undo_mailbox: z.string().max(256).optional(),
+  })
+  .strict();
+
+/**
+ * Schema of the optional configuration file named by MAIL_IMAP_CONFIG.
+ *
+ * Account keys are account IDs; every value has an environment variable
+ * equivalent, which takes precedence over the file. Credentials are not
+ * required here because they may come from the environment instead; they are
+ * checked once both sources are merged.
+ *
+ * Account IDs become `MAIL_IMAP_<ID>_*` settings, so IDs that differ only in
+ * case or in "_" versus "-" would overwrite each other and are rejected.
+ */
+export const ConfigFileSchema = z
+  .object({
+    settings: SettingsSchema.optional(),
+    accounts: z
+      .record(
+        z.string().regex(/^[A-Za-z0-9_-]+$/, {
+          message: 'Account ID must be env-var friendly (letters, numbers, "_" or "-").',
+        }),
+        AccountSchema,
+      )
+      .default({})
+      .superRefine((accounts, ctx) => {
+        const seen = new Map<string, string>();
+        for (const accountId of Object.keys(accounts)) {
+          const segment = normalizeEnvSegment(accountId);
+          const other = seen.get(segment);
+          if (other !== undefined) {
+            ctx.addIssue({
+              code: z.ZodIssueCode.custom,
+              path: [accountId],
+              message: `Account ID collides with '${other}'; both map to MAIL_IMAP_${segment}_* settings.`,
+            });
+          }
+          seen.set(segment, other ?? accountId);
+        }
+      }),
+  })
+  .strict();
+
+export type ConfigFile = z.infer<typeof ConfigFileSchema>;
+
+/**
+ * Read and validate a JSON or YAML configuration file.
+ *
+ * Files ending in `.json` are parsed as JSON; anything else is parsed as YAML
+ * (which also accepts JSON).
+ *
+ * @param path - Path to the configuration file
+ * @returns The validated configuration
+ * @throws An Error describing why the file could not be read, parsed, or validated
+ */
+export function readConfigFile(path: string): ConfigFile {
+  let source: string;
+  try {
+    source = readFileSync(path, 'utf8');
+  } catch (error: unknown) {
+    const code = (error as { code?: unknown }).code;
+    throw new Error(`cannot be read (${typeof code === 'string' ? code : 'unknown error'}).`);
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = extname(path).toLowerCase() === '.json' ? JSON.parse(source) : parseYaml(source);
+  } catch (error: unknown) {
+    throw new Error(`is not valid ${extname(path).toLowerCase() === '.json' ? 'JSON' : 'YAML'}.`, {
+      cause: error,
+    });
+  }
+
+  const result = ConfigFileSchema.safeParse(parsed ?? {});
+  if (!result.success) {
+    // Values are never echoed, so secrets in the file do not end up in errors
+    const issues = result.error.issues.map((issue) => {
+      const location = issue.path.length > 0 ? issue.path.join('.') : 'file';
+      return `${location}: ${issue.message}`;
+    });
+    throw new Error(`is invalid: ${issues.join('; ')}`);
+  }
+  return result.data;
+}
@@ -1,3 +1,5 @@
+import { readConfigFile, type ConfigFile } from './config-file.js';
+
 /**
  * Configuration for a single IMAP account.
  *
@@ -13,16 +15,280 @@ type AccountConfig = Readonly<{
   secure: boolean;
   /** IMAP username for authentication */
   user: string;
-  /** IMAP password or app-specific token for authentication */
-  pass: string;
+  /** IMAP password or app-specific token for password authentication */
+  pass?: string | undefined;
+  /** OAuth2 settings for XOAUTH2 authentication; when present, `pass` is not used */
+  oauth2?: OAuth2Config | undefined;
+  /** TLS options for the connection, when they differ from the defaults */
+  tls?: TlsConfig | undefined;
+  /** Whether write and send tools are refused for this account */
+  read_only?: boolean | undefined;
+  /** Tool names or `*` patterns that may be used; when unset, every tool may be used */
+  allowed_tools?: readonly string[] | undefined;
+  /** Tool names or `*` patterns that may never be used (takes precedence over allowed_tools) */
+  denied_tools?: readonly string[] | undefined;
+  /** Mailbox names or `*` patterns tools may access; when unset, every mailbox is accessible */
+  allowed_mailboxes?: readonly string[] | undefined;
+  /** Mailbox names or `*` patterns tools may never access (takes precedence over allowed_mailboxes) */
+  denied_mailboxes?: readonly string[] | undefined;
+  /** Maximum number of messages a single write call may act on */
+  max_messages_per_call?: number | undefined;
+  /** How deletes are carried out: moved to the `\Trash` mailbox (default) or expunged */
+  delete_strategy?: DeleteStrategy | undefined;
+}>;
+
+/**
+ * How an account deletes messages: `trash` moves them to the `\Trash`
+ * special-use mailbox, `expunge` deletes them permanently.
+ */
+type DeleteStrategy = 'trash' | 'expunge';
+
+/**
+ * TLS options for an account's IMAP connection.
+ */
+type TlsConfig = Readonly<{
+  /** Reject servers whose certificate cannot be verified */
+  reject_unauthorized?: boolean | undefined;
+  /** Minimum TLS protocol version */
+  min_version?: 'TLSv1.2' | 'TLSv1.3' | undefined;
+  /** Server name for SNI and certificate verification */
+  servername?: string | undefined;
+}>;
+
+/**
+ * OAuth2 credentials for an account using `MAIL_IMAP_{ACCOUNT_ID}_AUTH=oauth2`.
+ *
+ * Either a static access token is supplied, or a refresh token with client
+ * credentials that is exchanged at the token endpoint for short-lived access
+ * tokens. When both are present, the refresh token is used.
+ */
+type OAuth2Config = Readonly<{
+  /** Pre-issued access token, used as-is */
+  access_token?: string | undefined;
+  /** Refresh token exchanged for access tokens */
+  refresh_token?: string | undefined;
+  /** OAuth2 client identifier registered with the provider */
+  client_id?: string | undefined;
+  /** OAuth2 client secret (omitted for public clients) */
+  client_secret?: string | undefined;
+  /** Token endpoint URL used for refreshing */
+  token_url?: string | undefined;
+  /** Scope requested when refreshing, if the provider requires one */
+  scope?: string | undefined;
+}>;
+
+/**
+ * Optional SMTP submission settings for an account.
+ *
+ * Only present when `MAIL_SMTP_{ACCOUNT_ID}_HOST` is set. Credentials default
+ * to the account's IMAP credentials.
+ */
+type SmtpConfig = Readonly<{
+  /** SMTP server hostname or IP address */
+  host: string;
+  /** SMTP server port number (typically 465 for implicit TLS, 587 for STARTTLS) */
+  port: number;
+  /** Whether to use implicit TLS; when false, STARTTLS is used if offered */
+  secure: boolean;
+  /** SMTP username for authentication */
+  user: string;
+  /** SMTP password or app-specific token for password authentication */
+  pass?: string | undefined;
+  /** OAuth2 settings shared with the IMAP account when it uses XOAUTH2 and no SMTP password is set */
+  oauth2?: OAuth2Config | undefined;
+  /** Recipient addresses or `@domain` entries allowed for sending; empty allows any */
+  allowed_recipients: readonly string[];
 }>;
 
 export const DEFAULT_PORT = 993;
+export const DEFAULT_AUTH = 'password';
+export const DEFAULT_SMTP_PORT = 465;
+export const DEFAULT_SMTP_SECURE = true;
 export const DEFAULT_SECURE = true;
 export const DEFAULT_WRITE_ENABLED = false;
+export const DEFAULT_SEND_ENABLED = false;
 export const DEFAULT_CONNECT_TIMEOUT_MS = 30_000;
 export const DEFAULT_GREETING_TIMEOUT_MS = 15_000;
 export const DEFAULT_SOCKET_TIMEOUT_MS = 300_000;
+export const DEFAULT_POOL_MAX_SIZE = 3;
+export const DEFAULT_POOL_IDLE_TIMEOUT_MS = 120_000;
+export const DEFAULT_MAX_SUBSCRIPTIONS = 10;
+
+/** Environment variable naming the optional JSON or YAML configuration file */
+export const CONFIG_FILE_ENV = 'MAIL_IMAP_CONFIG';
+
+/**
+ * A setting from the configuration file. Lists keep their entries, so names
+ * containing commas are not split the way comma-separated environment
+ * variables are.
+ */
+type FileSettingValue = string | readonly string[];
+
+/**
+ * Settings loaded from the configuration file, keyed by their environment
+ * variable names.
+ */
+type ConfigFileState = Readonly<{
+  path: string;
+  values: ReadonlyMap<string, FileSettingValue>;
+  error?: string | undefined;
+}>;
+
+let configFileState: ConfigFileState | undefined;
+
+/**
+ * Load the configuration file named by MAIL_IMAP_CONFIG, once per path.
+ *
+ * A file that cannot be loaded contributes no settings; the error is reported
+ * by validateEnvironment so startup fails with a clear message.
+ */
+function getConfigFileState(): ConfigFileState | undefined {
+  const path = process.env[CONFIG_FILE_ENV];
+  if (!path) {
+    return undefined;
+  }
+  if (configFileState?.path !== path) {
+    try {
+      configFileState = { path, values: flattenConfigFile(readConfigFile(path)) };
+    } catch (error: unknown) {
+      const reason = error instanceof Error ? error.message : String(error);
+      configFileState = { path, values: new Map(), error: `Config file '${path}' ${reason}` };
+    }
+  }
+  return configFileState;
+}
+
+/**
+ * Map a configuration file onto the environment variables it stands in for.
+ *
+ * Every file setting has an environment variable equivalent, so the rest of
+ * the server reads a single set of names and environment variables can
+ * override individual file values. Lists are kept as arrays; see readListSetting.
+ */
+function flattenConfigFile(config: ConfigFile): Map<string, FileSettingValue> {
+  const values = new Map<string, FileSettingValue>();
+  const set = (
+    name: string,
+    value: string | number | boolean | readonly string[] | undefined,
+  ): void => {
+    if (value !== undefined) {
+      values.set(name, typeof value === 'object' ? [...value] : String(value));
+    }
+  };
+
+  const settings = config.settings ?? {};
+  set('MAIL_IMAP_WRITE_ENABLED', settings.write_enabled);
+  set('MAIL_IMAP_SEND_ENABLED', settings.send_enabled);
+  set('MAIL_IMAP_CONNECT_TIMEOUT_MS', settings.connect_timeout_ms);
+  set('MAIL_IMAP_GREETING_TIMEOUT_MS', settings.greeting_timeout_ms);
+  set('MAIL_IMAP_SOCKET_TIMEOUT_MS', settings.socket_timeout_ms);
+  set('MAIL_IMAP_POOL_MAX_SIZE', settings.pool_max_size);
+  set('MAIL_IMAP_POOL_IDLE_TIMEOUT_MS', settings.pool_idle_timeout_ms);
+  set('MAIL_IMAP_MAX_SUBSCRIPTIONS', settings.max_subscriptions);
+  set('MAIL_IMAP_AUDIT_LOG', settings.audit_log);
+  set('MAIL_IMAP_UNDO_MAILBOX', settings.undo_mailbox);
+
+  for (const [accountId, account] of Object.entries(config.accounts)) {
+    const segment = normalizeEnvSegment(accountId);
+    const prefix = `MAIL_IMAP_${segment}_`;
+    set(`${prefix}HOST`, account.host);
+    set(`${prefix}PORT`, account.port);
+    set(`${prefix}SECURE`, account.secure);
+    set(`${prefix}USER`, account.user);
+    set(`${prefix}AUTH`, account.auth);
+    set(`${prefix}PASS`, account.pass);
+    set(`${prefix}ACCESS_TOKEN`, account.oauth2?.access_token);
+    set(`${prefix}OAUTH_REFRESH_TOKEN`, account.oauth2?.refresh_token);
+    set(`${prefix}OAUTH_CLIENT_ID`, account.oauth2?.client_id);
+    set(`${prefix}OAUTH_CLIENT_SECRET`, account.oauth2?.client_secret);
+    set(`${prefix}OAUTH_TOKEN_URL`, account.oauth2?.token_url);
+    set(`${prefix}OAUTH_SCOPE`, account.oauth2?.scope);
+    set(`${prefix}TLS_REJECT_UNAUTHORIZED`, account.tls?.reject_unauthorized);
+    set(`${prefix}TLS_MIN_VERSION`, account.tls?.min_version);
+    set(`${prefix}TLS_SERVERNAME`, account.tls?.servername);
+    set(`${prefix}READ_ONLY`, account.read_only);
+    set(`${prefix}ALLOWED_TOOLS`, account.allowed_tools);
+    set(`${prefix}DENIED_TOOLS`, account.denied_tools);
+    set(`${prefix}ALLOWED_MAILBOXES`, account.allowed_mailboxes);
+    set(`${prefix}DENIED_MAILBOXES`, account.denied_mailboxes);
+    set(`${prefix}MAX_MESSAGES_PER_CALL`, account.max_messages_per_call);
+    set(`${prefix}DELETE_STRATEGY`, account.delete_strategy);
+
+    const smtpPrefix = `MAIL_SMTP_${segment}_`;
+    set(`${smtpPrefix}HOST`, account.smtp?.host);
+    set(`${smtpPrefix}PORT`, account.smtp?.port);
+    set(`${smtpPrefix}SECURE`, account.smtp?.secure);
+    set(`${smtpPrefix}USER`, account.smtp?.user);
+    set(`${smtpPrefix}PASS`, account.smtp?.pass);
+    set(`${smtpPrefix}ALLOWED_RECIPIENTS`, account.smtp?.allowed_recipients);
+  }
+  return values;
+}
+
+/**
+ * Read a setting by its environment variable name.
+ *
+ * Environment variables take precedence over the configuration file. List
+ * settings from the file are not returned; read them with readListSetting.
+ *
+ * @param name - The environment variable name, e.g. `MAIL_IMAP_WORK_HOST`
+ * @returns The configured value, or undefined if it is set nowhere
+ */
+export function readSetting(name: string): string | undefined {
+  const envValue = process.env[name];
+  if (envValue !== undefined) {
+    return envValue;
+  }
+  const fileValue = getConfigFileState()?.values.get(name);
+  return typeof fileValue === 'string' ? fileValue : undefined;
+}
+
+/**
+ * Read a list setting by its environment variable name.
+ *
+ * Environment variables are comma-separated; lists from the configuration file
+ * are used entry by entry, so their entries may contain commas.
+ *
+ * @param name - The environment variable name, e.g. `MAIL_IMAP_WORK_DENIED_MAILBOXES`
+ * @returns The configured entries, or undefined if the list is set nowhere
+ */
+export function readListSetting(name: string): readonly string[] | undefined {
+  const envValue = process.env[name];
+  if (envValue !== undefined) {
+    return parseListEnv(envValue);
+  }
+  const fileValue = getConfigFileState()?.values.get(name);
+  return typeof fileValue === 'string' ? parseListEnv(fileValue) : fileValue;
+}
+
+/**
+ * Report where a setting comes from, for the help output.
+ */
+export function getSettingSource(name: string): 'env' | 'file' | undefined {
+  if (process.env[name] !== undefined) {
+    return 'env';
+  }
+  return getConfigFileState()?.values.has(name) ? 'file' : undefined;
+}
+
+/**
+ * Get the path of the configuration file and the error loading it, if any.
+ */
+export function getConfigFileStatus():
+  | Readonly<{ path: string; error?: string | undefined }>
+  | undefined {
+  const state = getConfigFileState();
+  return state ? { path: state.path, error: state.error } : undefined;
+}
+
+/**
+ * Names of all settings from the environment and the configuration file.
+ */
+function settingNames(): string[] {
+  return [
+    ...new Set([...Object.keys(process.env), ...(getConfigFileState()?.values.keys() ?? [])]),
+  ];
+}
 
 /**
  * Parse an environment variable string into a boolean value.
@@ -67,6 +333,16 @@ function parseNumberEnv(value: string | undefined, defaultValue: number): number
   return Number.isFinite(parsed) ? parsed : defaultValue;
 }
 
+/**
+ * Parse a comma-separated environment variable string into its trimmed, non-empty entries.
+ */
+function parseListEnv(value: string): string[] {
+  return value
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+}
+
 /**
  * Normalize an account identifier for use in environment variable names.
  *
@@ -90,11 +366,40 @@ export function normalizeEnvSegment(value: string): string {
     .replaceAll(/^_+|_+$/g, '');
 }
 
+/**
+ * Token endpoints of providers whose IMAP hosts are recognized, so the token URL
+ * does not need to be configured for them.
+ */
+const OAUTH_TOKEN_URLS: ReadonlyArray<readonly [RegExp, string]> = [
+  [/(^|\.)(gmail|googlemail)\.com$/i, 'https://oauth2.googleapis.com/token'],
+  [
+    /(^|\.)(office365|outlook)\.com$/i,
+    'https://login.microsoftonline.com/common/oauth2/v2.0/token',
+  ],
+];
+
+/**
+ * Resolve the OAuth2 token endpoint for an account, falling back to the known
+ * endpoint of the provider that hosts the IMAP server.
+ *
+ * @param prefix - The account's environment variable prefix, e.g. `MAIL_IMAP_WORK_`
+ * @param host - The IMAP server hostname
+ * @returns The token URL, or undefined if it is neither configured nor known
+ */
+function resolveOAuthTokenUrl(prefix: string, host: string): string | undefined {
+  const configured = readSetting(`${prefix}OAUTH_TOKEN_URL`);
+  if (configured) {
+    return configured;
+  }
+  return OAUTH_TOKEN_URLS.find(([pattern]) => pattern.test(host.trim()))?.[1];
+}
+
 /**
  * Validate that all required environment variables are configured.
  *
  * Scans environment variables for IMAP account configurations and validates
- * that each account has the required fields (HOST, USER, PASS). If no accounts
+ * that each account has the required fields (HOST, USER, and PASS or OAuth2
+ * credentials, depending on AUTH). If no accounts
  * are explicitly configured, validates the default account configuration.
  *
  * @returns An array of error messages describing missing configuration.
@@ -108,7 +413,7 @@ export function getAccountEnvEntries(): AccountEnvEntry[] {
 
   // Scan environment variables for IMAP account configurations
   // We look for keys ending in _HOST to discover configured accounts
-  for (const key of Object.keys(process.env)) {
+  for (const key of settingNames()) {
     const match = hostKeyPattern.exec(key);
     if (!match) {
       continue;
@@ -129,27 +434,49 @@ export function getAccountEnvEntries(): AccountEnvEntry[] {
 }
 
 export function validateEnvironment(): string[] {
+  const configFileError = getConfigFileStatus()?.error;
+  if (configFileError) {
+    return [configFileError];
+  }
+
   const errors: string[] = [];
   const requiredKeys = getAccountEnvEntries();
 
-  // Validate that each account has all required fields (HOST, USER, PASS)
+  // Validate that each account has all required fields (HOST, USER, and PASS or OAuth2 credentials)
   for (const entry of requiredKeys) {
+    const accountName = entry.accountId.toLowerCase();
+    const auth = (readSetting(`${entry.prefix}AUTH`) ?? DEFAULT_AUTH).trim().toLowerCase();
+    if (auth !== 'password' && auth !== 'oauth2') {
+      errors.push(
+        `Account '${accountName}' has unsupported ${entry.prefix}AUTH '${auth}' (expected password or oauth2)`,
+      );
+      continue;
+    }
+
     const missing: string[] = [];
-    if (!process.env[`${entry.prefix}HOST`]) {
+    const host = readSetting(`${entry.prefix}HOST`);
+    if (!host) {
       missing.push(`${entry.prefix}HOST`);
     }
-    if (!process.env[`${entry.prefix}USER`]) {
+    if (!readSetting(`${entry.prefix}USER`)) {
       missing.push(`${entry.prefix}USER`);
     }
-    if (!process.env[`${entry.prefix}PASS`]) {
-      missing.push(`${entry.prefix}PASS`);
+    if (auth === 'password') {
+      if (!readSetting(`${entry.prefix}PASS`)) {
+        missing.push(`${entry.prefix}PASS`);
+      }
+    } else if (readSetting(`${entry.prefix}OAUTH_REFRESH_TOKEN`)) {
+      if (!readSetting(`${entry.prefix}OAUTH_CLIENT_ID`)) {
+        missing.push(`${entry.prefix}OAUTH_CLIENT_ID`);
+      }
+      if (host && !resolveOAuthTokenUrl(entry.prefix, host)) {
+        missing.push(`${entry.prefix}OAUTH_TOKEN_URL`);
+      }
+    } else if (!readSetting(`${entry.prefix}ACCESS_TOKEN`)) {
+      missing.push(`${entry.prefix}ACCESS_TOKEN or ${entry.prefix}OAUTH_REFRESH_TOKEN`);
     }
     if (missing.length > 0) {
-      errors.push(
-        `Account '${entry.accountId.toLowerCase()}' is missing required env vars: ${missing.join(
-          ', ',
-        )}`,
-      );
+      errors.push(`Account '${accountName}' is missing required env vars: ${missing.join(', ')}`);
     }
   }
 
@@ -161,7 +488,9 @@ export function validateEnvironment(): string[] {
  *
  * Retrieves and parses environment variables for the specified account ID.
  * The expected variable names follow the pattern `MAIL_IMAP_{ACCOUNT_ID}_*`
- * where `{ACCOUNT_ID}` is the normalized version of the provided ID.
+ * where `{ACCOUNT_ID}` is the normalized version of the provided ID. Values
+ * from the configuration file are merged in first, so an account defined in
+ * the file may take its password or tokens from the environment.
  *
  * @example
  * ```ts
@@ -171,6 +500,12 @@ export function validateEnvironment(): string[] {
  * // MAIL_IMAP_MY_ACCOUNT_SECURE=true
  * // MAIL_IMAP_MY_ACCOUNT_USER=user@example.com
  * // MAIL_IMAP_MY_ACCOUNT_PASS=password
+ * //
+ * // or, for OAuth2 (XOAUTH2):
+ * // MAIL_IMAP_MY_ACCOUNT_AUTH=oauth2
+ * // MAIL_IMAP_MY_ACCOUNT_OAUTH_REFRESH_TOKEN=...
+ * // MAIL_IMAP_MY_ACCOUNT_OAUTH_CLIENT_ID=...
+ * // MAIL_IMAP_MY_ACCOUNT_OAUTH_CLIENT_SECRET=...
  * ```
  *
  * @param accountId - The account identifier to load configuration for
@@ -179,39 +514,179 @@ export function validateEnvironment(): string[] {
 export function loadAccountConfig(accountId: string): AccountConfig | null {
   const prefix = `MAIL_IMAP_${normalizeEnvSegment(accountId)}_`;
 
-  const host = process.env[`${prefix}HOST`];
-  const user = process.env[`${prefix}USER`];
-  const pass = process.env[`${prefix}PASS`];
+  const host = readSetting(`${prefix}HOST`);
+  const user = readSetting(`${prefix}USER`);
+  if (!host || !user) {
+    return null;
+  }
+
+  const port = parseNumberEnv(readSetting(`${prefix}PORT`), DEFAULT_PORT);
+  const secure = parseBooleanEnv(readSetting(`${prefix}SECURE`), DEFAULT_SECURE);
+  const auth = (readSetting(`${prefix}AUTH`) ?? DEFAULT_AUTH).trim().toLowerCase();
 
-  if (!host || !user || !pass) {
+  if (auth === 'oauth2') {
+    const oauth2: OAuth2Config = {
+      access_token: readSetting(`${prefix}ACCESS_TOKEN`) || undefined,
+      refresh_token: readSetting(`${prefix}OAUTH_REFRESH_TOKEN`) || undefined,
+      client_id: readSetting(`${prefix}OAUTH_CLIENT_ID`) || undefined,
+      client_secret: readSetting(`${prefix}OAUTH_CLIENT_SECRET`) || undefined,
+      token_url: resolveOAuthTokenUrl(prefix, host),
+      scope: readSetting(`${prefix}OAUTH_SCOPE`) || undefined,
+    };
+    const canRefresh = Boolean(oauth2.refresh_token && oauth2.client_id && oauth2.token_url);
+    if (!canRefresh && !oauth2.access_token) {
+      return null;
+    }
+    return { host, port, secure, user, oauth2, ...loadAccountOptions(prefix) };
+  }
+
+  const pass = readSetting(`${prefix}PASS`);
+  if (auth !== 'password' || !pass) {
     return null;
   }
+  return { host, port, secure, user, pass, ...loadAccountOptions(prefix) };
+}
 
-  const port = parseNumberEnv(process.env[`${prefix}PORT`], DEFAULT_PORT);
-  const secure = parseBooleanEnv(process.env[`${prefix}SECURE`], DEFAULT_SECURE);
+/**
+ * Load the optional TLS, policy, and delete strategy settings of an account.
+ *
+ * Settings that are not configured are omitted rather than set to defaults.
+ */
+function loadAccountOptions(
+  prefix: string,
+): Pick<
+  AccountConfig,
+  | 'tls'
+  | 'read_only'
+  | 'allowed_tools'
+  | 'denied_tools'
+  | 'allowed_mailboxes'
+  | 'denied_mailboxes'
+  | 'max_messages_per_call'
+  | 'delete_strategy'
+> {
+  const rejectUnauthorized = readSetting(`${prefix}TLS_REJECT_UNAUTHORIZED`);
+  const minVersion = readSetting(`${prefix}TLS_MIN_VERSION`);
+  const servername = readSetting(`${prefix}TLS_SERVERNAME`);
+  const tls: TlsConfig = {
+    ...(rejectUnauthorized !== undefined
+      ? { reject_unauthorized: parseBooleanEnv(rejectUnauthorized, true) }
+      : {}),
+    ...(minVersion === 'TLSv1.2' || minVersion === 'TLSv1.3' ? { min_version: minVersion } : {}),
+    ...(servername ? { servername } : {}),
+  };
+  const readOnly = readSetting(`${prefix}READ_ONLY`);
+  const maxMessages = Math.floor(parseNumberEnv(readSetting(`${prefix}MAX_MESSAGES_PER_CALL`), 0));
+  const deleteStrategy = readSetting(`${prefix}DELETE_STRATEGY`)?.trim().toLowerCase();
+  const lists = {
+    allowed_tools: readListSetting(`${prefix}ALLOWED_TOOLS`),
+    denied_tools: readListSetting(`${prefix}DENIED_TOOLS`),
+    allowed_mailboxes: readListSetting(`${prefix}ALLOWED_MAILBOXES`),
+    denied_mailboxes: readListSetting(`${prefix}DENIED_MAILBOXES`),
+  };
 
-  return { host, port, secure, user, pass };
+  return {
+    ...(Object.keys(tls).length > 0 ? { tls } : {}),
+    ...(readOnly !== undefined ? { read_only: parseBooleanEnv(readOnly, false) } : {}),
+    ...Object.fromEntries(Object.entries(lists).filter((entry) => entry[1] !== undefined)),
+    ...(maxMessages > 0 ? { max_messages_per_call: maxMessages } : {}),
+    ...(deleteStrategy === 'trash' || deleteStrategy === 'expunge'
+      ? { delete_strategy: deleteStrategy }
+      : {}),
+  };
+}
+
+/**
+ * Load optional SMTP submission configuration from environment variables.
+ *
+ * SMTP is configured per account with variables following the pattern
+ * `MAIL_SMTP_{ACCOUNT_ID}_*`. USER and PASS fall back to the account's IMAP
+ * credentials, which is what most providers expect; an OAuth2 account without
+ * an SMTP password authenticates to SMTP with the same OAuth2 token.
+ *
+ * @example
+ * ```ts
+ * // For account ID "work", reads:
+ * // MAIL_SMTP_WORK_HOST=smtp.example.com
+ * // MAIL_SMTP_WORK_PORT=587
+ * // MAIL_SMTP_WORK_SECURE=false
+ * // MAIL_SMTP_WORK_ALLOWED_RECIPIENTS=boss@example.com,@example.com
+ * ```
+ *
+ * @param accountId - The account identifier to load SMTP configuration for
+ * @returns The parsed SMTP configuration, or null if SMTP is not configured
+ */
+export function loadSmtpConfig(accountId: string): SmtpConfig | null {
+  const segment = normalizeEnvSegment(accountId);
+  const prefix = `MAIL_SMTP_${segment}_`;
+
+  const host = readSetting(`${prefix}HOST`);
+  const user = readSetting(`${prefix}USER`) ?? readSetting(`MAIL_IMAP_${segment}_USER`);
+  const pass = readSetting(`${prefix}PASS`) ?? readSetting(`MAIL_IMAP_${segment}_PASS`);
+  const oauth2 = readSetting(`${prefix}PASS`) ? undefined : loadAccountConfig(accountId)?.oauth2;
+
+  if (!host || !user || (!pass && !oauth2)) {
+    return null;
+  }
+
+  const port = parseNumberEnv(readSetting(`${prefix}PORT`), DEFAULT_SMTP_PORT);
+  const secure = parseBooleanEnv(readSetting(`${prefix}SECURE`), DEFAULT_SMTP_SECURE);
+  const allowed_recipients = (readListSetting(`${prefix}ALLOWED_RECIPIENTS`) ?? []).map((entry) =>
+    entry.toLowerCase(),
+  );
+
+  if (oauth2) {
+    return { host, port, secure, user, oauth2, allowed_recipients };
+  }
+  return { host, port, secure, user, pass, allowed_recipients };
 }
 
 /** Whether write operations (move, delete, flag updates) are enabled for this server instance */
 export const WRITE_ENABLED = parseBooleanEnv(
-  process.env['MAIL_IMAP_WRITE_ENABLED'],
+  readSetting('MAIL_IMAP_WRITE_ENABLED'),
   DEFAULT_WRITE_ENABLED,
 );
+/** Whether sending drafts over SMTP is enabled for this server instance (separate from writes) */
+export const SEND_ENABLED = parseBooleanEnv(
+  readSetting('MAIL_IMAP_SEND_ENABLED'),
+  DEFAULT_SEND_ENABLED,
+);
 /** Maximum time in milliseconds to wait for an IMAP connection to be established */
 export const CONNECT_TIMEOUT_MS = parseNumberEnv(
-  process.env['MAIL_IMAP_CONNECT_TIMEOUT_MS'],
+  readSetting('MAIL_IMAP_CONNECT_TIMEOUT_MS'),
   DEFAULT_CONNECT_TIMEOUT_MS,
 );
 /** Maximum time in milliseconds to wait for the IMAP server greeting message */
 export const GREETING_TIMEOUT_MS = parseNumberEnv(
-  process.env['MAIL_IMAP_GREETING_TIMEOUT_MS'],
+  readSetting('MAIL_IMAP_GREETING_TIMEOUT_MS'),
   DEFAULT_GREETING_TIMEOUT_MS,
 );
 /** Maximum time in milliseconds to wait for activity on the IMAP socket before timing out */
 export const SOCKET_TIMEOUT_MS = parseNumberEnv(
-  process.env['MAIL_IMAP_SOCKET_TIMEOUT_MS'],
+  readSetting('MAIL_IMAP_SOCKET_TIMEOUT_MS'),
   DEFAULT_SOCKET_TIMEOUT_MS,
 );
+/** Maximum number of pooled IMAP connections kept open per account */
+export const POOL_MAX_SIZE = Math.max(
+  1,
+  Math.floor(parseNumberEnv(readSetting('MAIL_IMAP_POOL_MAX_SIZE'), DEFAULT_POOL_MAX_SIZE)),
+);
+/** Time in milliseconds an idle pooled IMAP connection is kept open before logging out */
+export const POOL_IDLE_TIMEOUT_MS = parseNumberEnv(
+  readSetting('MAIL_IMAP_POOL_IDLE_TIMEOUT_MS'),
+  DEFAULT_POOL_IDLE_TIMEOUT_MS,
+);
+/** Maximum number of mailbox resources that can be subscribed to at once (one IDLE connection each) */
+export const MAX_SUBSCRIPTIONS = Math.max(
+  0,
+  Math.floor(parseNumberEnv(readSetting('MAIL_IMAP_MAX_SUBSCRIPTIONS'), DEFAULT_MAX_SUBSCRIPTIONS)),
+);
+/** Path of the JSONL audit log for write tool invocations; auditing is off when unset */
+export const AUDIT_LOG_PATH = readSetting('MAIL_IMAP_AUDIT_LOG')?.trim() || undefined;
+/**
+ * Mailbox that keeps a copy of permanently deleted messages so imap_undo can restore
+ * them; off when unset. Copies stay there until they are restored or removed by hand.
+ */
+export const UNDO_MAILBOX = readSetting('MAIL_IMAP_UNDO_MAILBOX')?.trim() || undefined;
 
-export type { AccountConfig };
+export type { AccountConfig, DeleteStrategy, OAuth2Config, SmtpConfig, TlsConfig };
@@ -0,0 +1,396 @@
+import type { ImapFlow } from 'imapflow';
+
+import type { AccountConfig } from './config.js';
+
+export type ConnectionPoolOptions = Readonly<{
+  /** Maximum number of open connections kept per account */
+  max_size: number;
+  /** Time in milliseconds an unused connection is kept open before it is logged out */
+  idle_timeout_ms: number;
+  /** Idle time in milliseconds after which a connection is verified with NOOP before reuse */
+  health_check_after_ms: number;
+  /** Maximum time in milliseconds to wait for a connection when the pool is exhausted */
+  acquire_timeout_ms: number;
+}>;
+
+/**
+ * Point-in-time statistics for the connections of a single account.
+ */
+export type ConnectionPoolStats = Readonly<{
+  /** Maximum number of connections the pool will open for the account */
+  max_size: number;
+  /** Connections currently open (idle + busy) */
+  open: number;
+  /** Open connections waiting to be reused */
+  idle: number;
+  /** Connections currently leased by a tool call */
+  busy: number;
+  /** Tool calls waiting for a connection to become available */
+  waiting: number;
+  /** Connections created since startup */
+  created_total: number;
+  /** Times an existing connection was handed out instead of opening a new one */
+  reused_total: number;
+  /** Connections closed because they were broken, evicted, or still holding a mailbox lock */
+  discarded_total: number;
+}>;
+
+/**
+ * Factory used to construct a (not yet connected) IMAP client for an account.
+ *
+ * May be asynchronous, e.g. to obtain an OAuth2 access token first.
+ */
+export type ImapClientFactory = (account: AccountConfig) => ImapFlow | Promise<ImapFlow>;
+
+type PoolEntry = {
+  client: ImapFlow;
+  busy: boolean;
+  last_used_at_ms: number;
+  idle_timer: ReturnType<typeof setTimeout> | undefined;
+  /** Mailbox locks requested on the client and not yet released (held or queued) */
+  mailbox_locks: number;
+};
+
+type AccountPool = {
+  entries: PoolEntry[];
+  waiters: Array<() => void>;
+  connecting: number;
+  created_total: number;
+  reused_total: number;
+  discarded_total: number;
+};
+
+/**
+ * Build the key used to share connections between calls for the same login.
+ *
+ * The key deliberately contains only connection identity (never secrets), so two
+ * account ids pointing at the same mailbox login share one pool. TLS options and
+ * the authentication method are part of that identity: accounts that differ in
+ * either never share a connection.
+ */
+function poolKey(account: AccountConfig): string {
+  const { tls, oauth2 } = account;
+  return JSON.stringify([
+    account.user,
+    account.host,
+    account.port,
+    account.secure ? 'tls' : 'plain',
+    tls?.reject_unauthorized ?? true,
+    tls?.min_version ?? null,
+    tls?.servername ?? null,
+    oauth2 ? ['oauth2', oauth2.client_id ?? null, oauth2.token_url ?? null] : 'password',
+  ]);
+}
+
+/**
+ * Count the mailbox locks taken on a pooled client in its pool entry.
+ *
+ * A connection returned to the pool with a lock still held would block every
+ * later getMailboxLock call, so release() discards connections whose count is
+ * not back to zero. A lock is counted from the moment it is requested, so locks
+ * still queued behind another one are included.
+ */
+function trackMailboxLocks(entry: PoolEntry): void {
+  const { client } = entry;
+  const getMailboxLock = client.getMailboxLock.bind(client);
+  client.getMailboxLock = async (...args) => {
+    entry.mailbox_locks += 1;
+    let lock: Awaited<ReturnType<ImapFlow['getMailboxLock']>>;
+    try {
+      lock = await getMailboxLock(...args);
+    } catch (error: unknown) {
+      entry.mailbox_locks -= 1;
+      throw error;
+    }
+    let released = false;
+    return {
+      ...lock,
+      release: () => {
+        if (!released) {
+          released = true;
+          entry.mailbox_locks -= 1;
+        }
+        lock.release();
+      },
+    };
+  };
+}
+
+/**
+ * In-memory pool of authenticated IMAP connections, partitioned per account.
+ *
+ * Each tool call leases a connection exclusively, so mailbox locks taken by one
+ * call never interleave with another call on the same connection. Concurrent
+ * calls for the same account get separate connections up to `max_size`; beyond
+ * that they wait for a connection to be released.
+ *
+ * Lifecycle rules:
+ * - Idle connections are logged out after `idle_timeout_ms`
+ * - Connections idle longer than `health_check_after_ms` are verified with NOOP before reuse
+ * - Connections closed by the server (BYE, socket errors) are dropped and replaced on demand
+ * - Connections released while still holding a mailbox lock are discarded
+ */
+export class ConnectionPool {
+  /** Per-account connection state, keyed by login identity */
+  private readonly pools = new Map<string, AccountPool>();
+  /** Reverse lookup from a leased client to its pool entry */
+  private readonly owners = new Map<ImapFlow, { pool: AccountPool; entry: PoolEntry }>();
+  private readonly options: ConnectionPoolOptions;
+  private readonly createClient: ImapClientFactory;
+  /** Set once drain() has been called; released connections are then closed */
+  private draining = false;
+
+  constructor(options: ConnectionPoolOptions, createClient: ImapClientFactory) {
+    this.options = options;
+    this.createClient = createClient;
+  }
+
+  /**
+   * Lease a connected client for an account.
+   *
+   * Reuses an idle connection when one is available (after a NOOP health check
+   * if it has been idle for a while), opens a new connection if the pool has
+   * room, and otherwise waits for another call to release one.
+   *
+   * @param account - The account to lease a connection for
+   * @returns A connected client that must be handed back with release()
+   * @throws The connection error if a new connection cannot be established, or a
+   *         timeout error if no connection becomes available in time
+   */
+  async acquire(account: AccountConfig): Promise<ImapFlow> {
+    const pool = this.getAccountPool(poolKey(account));
+    const deadline = Date.now() + this.options.acquire_timeout_ms;
+
+    for (;;) {
+      const idle = pool.entries.find((entry) => !entry.busy);
+      if (idle) {
+        idle.busy = true;
+        clearIdleTimer(idle);
+        if (!idle.client.usable) {
+          this.discard(pool, idle);
+          continue;
+        }
+        if (Date.now() - idle.last_used_at_ms >= this.options.health_check_after_ms) {
+          try {
+            await idle.client.noop();
+          } catch {
+            this.discard(pool, idle);
+            continue;
+          }
+        }
+        pool.reused_total += 1;
+        return idle.client;
+      }
+
+      if (pool.entries.length + pool.connecting < this.options.max_size) {
+        return await this.open(account, pool);
+      }
+
+      await this.waitForRelease(pool, deadline);
+    }
+  }
+
+  /**
+   * Return a leased client to the pool.
+   *
+   * The connection is closed instead of reused when `discard` is set, when the
+   * connection is no longer usable, or when a mailbox lock is still held.
+   *
+   * @param client - A client previously returned by acquire()
+   * @param options - Whether the caller saw an error that makes the connection suspect
+   */
+  release(client: ImapFlow, options: Readonly<{ discard: boolean }> = { discard: false }): void {
+    const owner = this.owners.get(client);
+    if (!owner) {
+      void client.logout().catch(() => undefined);
+      return;
+    }
+    const { pool, entry } = owner;
+    entry.busy = false;
+    entry.last_used_at_ms = Date.now();
+
+    if (this.draining || options.discard || !client.usable || entry.mailbox_locks > 0) {
+      this.discard(pool, entry);
+      return;
+    }
+
+    entry.idle_timer = setTimeout(() => {
+      if (!entry.busy) {
+        this.discard(pool, entry);
+      }
+    }, this.options.idle_timeout_ms);
+    entry.idle_timer.unref();
+    notifyWaiter(pool);
+  }
+
+  /**
+   * Report connection statistics for an account.
+   *
+   * @param account - The account to report on
+   * @returns Counts of open, idle, busy, and waiting connections plus lifetime totals
+   */
+  stats(account: AccountConfig): ConnectionPoolStats {
+    const pool = this.pools.get(poolKey(account));
+    const busy = pool?.entries.filter((entry) => entry.busy).length ?? 0;
+    const open = pool?.entries.length ?? 0;
+    return {
+      max_size: this.options.max_size,
+      open,
+      idle: open - busy,
+      busy,
+      waiting: pool?.waiters.length ?? 0,
+      created_total: pool?.created_total ?? 0,
+      reused_total: pool?.reused_total ?? 0,
+      discarded_total: pool?.discarded_total ?? 0,
+    };
+  }
+
+  /**
+   * Log out all idle connections and discard busy ones as they are released.
+   *
+   * Called on server shutdown so pooled sockets do not keep the process alive.
+   */
+  async drain(): Promise<void> {
+    this.draining = true;
+    const closing: Promise<void>[] = [];
+    for (const pool of this.pools.values()) {
+      for (const entry of [...pool.entries]) {
+        if (entry.busy) {
+          continue;
+        }
+        clearIdleTimer(entry);
+        this.remove(pool, entry);
+        pool.discarded_total += 1;
+        closing.push(entry.client.logout().catch(() => undefined));
+      }
+    }
+    await Promise.all(closing);
+  }
+
+  private getAccountPool(key: string): AccountPool {
+    let pool = this.pools.get(key);
+    if (!pool) {
+      pool = {
+        entries: [],
+        waiters: [],
+        connecting: 0,
+        created_total: 0,
+        reused_total: 0,
+        discarded_total: 0,
+      };
+      this.pools.set(key, pool);
+    }
+    return pool;
+  }
+
+  private async open(account: AccountConfig, pool: AccountPool): Promise<ImapFlow> {
+    pool.connecting += 1;
+    let client: ImapFlow;
+    try {
+      client = await this.createClient(account);
+    } catch (error: unknown) {
+      pool.connecting -= 1;
+      notifyWaiter(pool);
+      throw error;
+    }
+    const entry: PoolEntry = {
+      client,
+      busy: true,
+      last_used_at_ms: Date.now(),
+      idle_timer: undefined,
+      mailbox_locks: 0,
+    };
+    trackMailboxLocks(entry);
+
+    // imapflow emits 'error' for socket failures; an unhandled 'error' event would
+    // crash the process, which matters for connections sitting idle in the pool.
+    client.on('error', (error: Error) => {
+      console.error(
+        JSON.stringify({
+          level: 'warn',
+          event: 'imap_pool_connection_error',
+          error: { name: error.name, message: error.message },
+        }),
+      );
+    });
+    // The server closing the connection (BYE, timeouts) drops it from the pool so
+    // the next acquire transparently reconnects.
+    client.on('close', () => {
+      if (!entry.busy && this.owners.has(client)) {
+        clearIdleTimer(entry);
+        this.remove(pool, entry);
+        pool.discarded_total += 1;
+      }
+    });
+
+    try {
+      await client.connect();
+    } catch (error: unknown) {
+      client.close();
+      throw error;
+    } finally {
+      pool.connecting -= 1;
+      // A failed connect frees capacity for the next waiter
+      notifyWaiter(pool);
+    }
+
+    pool.entries.push(entry);
+    this.owners.set(client, { pool, entry });
+    pool.created_total += 1;
+    return client;
+  }
+
+  private discard(pool: AccountPool, entry: PoolEntry): void {
+    clearIdleTimer(entry);
+    this.remove(pool, entry);
+    pool.discarded_total += 1;
+    void entry.client.logout().catch(() => undefined);
+    notifyWaiter(pool);
+  }
+
+  private remove(pool: AccountPool, entry: PoolEntry): void {
+    const index = pool.entries.indexOf(entry);
+    if (index >= 0) {
+      pool.entries.splice(index, 1);
+    }
+    this.owners.delete(entry.client);
+  }
+
+  private waitForRelease(pool: AccountPool, deadline: number): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const waiter = (): void => {
+        clearTimeout(timer);
+        resolve();
+      };
+      const timer = setTimeout(
+        () => {
+          const index = pool.waiters.indexOf(waiter);
+          if (index >= 0) {
+            pool.waiters.splice(index, 1);
+          }
+          reject(
+            Object.assign(new Error('Timed out waiting for a pooled IMAP connection.'), {
+              code: 'ETIMEDOUT',
+            }),
+          );
+        },
+        Math.max(0, deadline - Date.now()),
+      );
+      pool.waiters.push(waiter);
+    });
+  }
+}
+
+function clearIdleTimer(entry: PoolEntry): void {
+  if (entry.idle_timer) {
+    clearTimeout(entry.idle_timer);
+    entry.idle_timer = undefined;
+  }
+}
+
+function notifyWaiter(pool: AccountPool): void {
+  const waiter = pool.waiters.shift();
+  if (waiter) {
+    waiter();
+  }
+}
@@ -14,11 +14,24 @@ export type ToolName =
   | 'imap_search_messages'
   | 'imap_get_message'
   | 'imap_get_message_raw'
+  | 'imap_get_thread'
+  | 'imap_sync_mailbox'
   | 'imap_update_message_flags'
+  | 'imap_update_message_labels'
   | 'imap_copy_message'
   | 'imap_move_message'
   | 'imap_delete_message'
-  | 'imap_verify_account';
+  | 'imap_apply_to_search'
+  | 'imap_create_mailbox'
+  | 'imap_rename_mailbox'
+  | 'imap_delete_mailbox'
+  | 'imap_subscribe_mailbox'
+  | 'imap_unsubscribe_mailbox'
+  | 'imap_create_draft'
+  | 'imap_send_draft'
+  | 'imap_verify_account'
+  | 'imap_audit_log'
+  | 'imap_undo';
 
 /**
  * Definition of an IMAP tool including name, description, and schemas.
@@ -160,15 +173,140 @@ const CursorSchema = z
  */
 const FlagSchema = z.string().min(1).max(64).describe('IMAP system or user flag (e.g., \\Seen).');
 
+/**
+ * Schema for a Gmail label name (X-GM-LABELS).
+ *
+ * System labels are prefixed with a backslash (e.g., \\Important); user labels
+ * use their display name, with "/" separating nested labels.
+ */
+const GmailLabelSchema = z
+  .string()
+  .min(1)
+  .max(256)
+  .regex(/^[^\r\n]+$/, 'Labels must not contain line breaks.')
+  .describe('Gmail label (e.g., "Receipts" or "\\Important").');
+
+/**
+ * Maximum number of message identifiers accepted by a single bulk write call.
+ */
+export const MAX_BULK_MESSAGE_IDS = 50;
+
+/**
+ * Schema for validating a bounded list of message identifiers.
+ *
+ * Write tools accept either a single message_id or a message_ids array. Bulk
+ * requests are grouped by mailbox and UIDVALIDITY so each group is updated
+ * with a single UID set command.
+ */
+const MessageIdListSchema = z
+  .array(MessageIdSchema)
+  .min(1)
+  .max(MAX_BULK_MESSAGE_IDS)
+  .describe(
+    `Message identifiers to operate on in one call (1-${MAX_BULK_MESSAGE_IDS}). Use instead of message_id.`,
+  );
+
+/**
+ * Schema for opting in to a mailbox-wide EXPUNGE on servers without UIDPLUS.
+ *
+ * Write tools that remove messages from a mailbox use UID EXPUNGE, which only
+ * affects the given messages. Without UIDPLUS they refuse unless this is true.
+ */
+const AllowMailboxExpungeSchema = z
+  .boolean()
+  .optional()
+  .describe(
+    'Allow a mailbox-wide EXPUNGE when the server lacks UIDPLUS. This also permanently removes every other message flagged \\Deleted in the mailbox.',
+  );
+
+/**
+ * Require exactly one of message_id or message_ids on a write tool input.
+ */
+function refineMessageTarget(
+  value: { message_id?: string | undefined; message_ids?: string[] | undefined },
+  ctx: z.RefinementCtx,
+): void {
+  if (value.message_id === undefined && value.message_ids === undefined) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: 'Provide message_id or message_ids.',
+      path: ['message_id'],
+    });
+  }
+  if (value.message_id !== undefined && value.message_ids !== undefined) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: 'Provide either message_id or message_ids, not both.',
+      path: ['message_ids'],
+    });
+  }
+}
+
+/**
+ * Schema for the per-message outcome of a bulk write operation.
+ */
+const BulkMessageResultSchema = z
+  .object({
+    message_id: MessageIdSchema,
+    ok: z.boolean(),
+    error: z.string().min(1).max(512).optional(),
+    new_message_id: MessageIdSchema.optional(),
+    flags: z.array(FlagSchema).max(20).optional(),
+    labels: z.array(GmailLabelSchema).max(50).optional(),
+  })
+  .strict();
+
+/**
+ * Fields returned by write tools when called with message_ids.
+ */
+const BulkResultFields = {
+  results: z.array(BulkMessageResultSchema).max(MAX_BULK_MESSAGE_IDS).optional(),
+  succeeded: z.number().int().nonnegative().optional(),
+  failed: z.number().int().nonnegative().optional(),
+};
+
 /**
  * Input schema for the imap_list_mailboxes tool.
  *
- * Lists all available mailboxes for a configured IMAP account.
+ * Lists all available mailboxes for a configured IMAP account, optionally
+ * narrowed to a subtree, a LIST pattern, or subscribed mailboxes. Results are
+ * paginated with a cursor; when a cursor is given, the filters captured with
+ * it are used.
  * This is a read-only operation that discovers mailbox names.
  */
 export const ListMailboxesInputSchema = z
   .object({
     account_id: DefaultAccountIdSchema,
+    parent: MailboxSchema.optional().describe(
+      'Only list mailboxes below this mailbox (at any depth, or as narrowed by pattern).',
+    ),
+    pattern: z
+      .string()
+      .min(1)
+      .max(256)
+      .optional()
+      .describe(
+        'IMAP LIST pattern: * matches any characters, % matches any characters except the hierarchy delimiter. Relative to parent when set (e.g., % for direct children only).',
+      ),
+    subscribed_only: z.boolean().default(false).describe('Only list subscribed mailboxes.'),
+    tree: z
+      .boolean()
+      .default(false)
+      .describe('Nest each page of mailboxes under their parents as children.'),
+    limit: z
+      .number()
+      .int()
+      .min(1)
+      .max(200)
+      .default(200)
+      .describe('Maximum number of mailboxes to return (1-200).'),
+    cursor: CursorSchema.optional(),
+    include_counts: z
+      .boolean()
+      .default(false)
+      .describe(
+        'Include message and unread counts per mailbox (LIST-STATUS when supported, otherwise one STATUS per mailbox).',
+      ),
   })
   .strict();
 
@@ -179,51 +317,364 @@ export const ListMailboxesInputSchema = z
  */
 export const ListAccountsInputSchema = z.object({}).strict();
 
+/**
+ * Schema for validating custom IMAP keywords used in search filters.
+ *
+ * Keywords are user-defined flags without the backslash prefix (e.g., $Label1).
+ * Use the dedicated flag filters for system flags.
+ */
+const KeywordSchema = z
+  .string()
+  .min(1)
+  .max(64)
+  .regex(/^[^\\\s(){}%*"\]]+$/, 'Keywords must be IMAP atoms without a backslash prefix.')
+  .describe('Custom keyword (user flag) such as $Label1.');
+
+/**
+ * Schema for matching an arbitrary header field by name and substring.
+ */
+const HeaderFilterSchema = z
+  .object({
+    name: z
+      .string()
+      .min(1)
+      .max(64)
+      .regex(/^[!-9;-~]+$/, 'Header names must be printable ASCII without colons or spaces.')
+      .describe('Header field name (e.g., List-Id).'),
+    value: z
+      .string()
+      .max(256)
+      .describe('Substring to match; an empty string matches any message with the header.'),
+  })
+  .strict();
+
+/**
+ * Search criteria that compile directly to IMAP SEARCH keys.
+ *
+ * These fields are accepted at the top level of a search and inside any_of /
+ * none_of groups.
+ */
+const SearchCriteriaFields = {
+  last_days: z
+    .number()
+    .int()
+    .min(1)
+    .max(365)
+    .optional()
+    .describe('Search only messages from the last N days (UTC, inclusive).'),
+  query: z
+    .string()
+    .min(1)
+    .max(256)
+    .optional()
+    .describe('Free-text search across headers and body (server-dependent).'),
+  from: z
+    .string()
+    .min(1)
+    .max(256)
+    .optional()
+    .describe('Filter by sender email or display name substring.'),
+  to: z
+    .string()
+    .min(1)
+    .max(256)
+    .optional()
+    .describe('Filter by recipient email or display name substring.'),
+  cc: z.string().min(1).max(256).optional().describe('Filter by Cc recipient substring.'),
+  bcc: z.string().min(1).max(256).optional().describe('Filter by Bcc recipient substring.'),
+  subject: z.string().min(1).max(256).optional().describe('Filter by subject substring.'),
+  header: HeaderFilterSchema.optional().describe('Filter by an arbitrary header field.'),
+  unread_only: z.boolean().optional().describe('If true, return only unread messages.'),
+  flagged: z
+    .boolean()
+    .optional()
+    .describe('If true, only flagged messages; if false, only unflagged messages.'),
+  answered: z
+    .boolean()
+    .optional()
+    .describe('If true, only answered messages; if false, only unanswered messages.'),
+  draft: z.boolean().optional().describe('If true, only drafts; if false, exclude drafts.'),
+  deleted: z
+    .boolean()
+    .optional()
+    .describe('If true, only messages marked \\Deleted; if false, exclude them.'),
+  keywords: z
+    .array(KeywordSchema)
+    .min(1)
+    .max(5)
+    .optional()
+    .describe('Custom keywords that must all be set on the message.'),
+  exclude_keywords: z
+    .array(KeywordSchema)
+    .min(1)
+    .max(5)
+    .optional()
+    .describe('Custom keywords that must not be set on the message.'),
+  larger_than: z
+    .number()
+    .int()
+    .min(0)
+    .max(2_147_483_647)
+    .optional()
+    .describe('Only messages larger than this many bytes.'),
+  smaller_than: z
+    .number()
+    .int()
+    .min(1)
+    .max(2_147_483_647)
+    .optional()
+    .describe('Only messages smaller than this many bytes.'),
+  start_date: DateSchema.optional(),
+  end_date: DateSchema.optional(),
+};
+
+export type SearchCriteria = z.infer<z.ZodObject<typeof SearchCriteriaFields>>;
+
+/**
+ * A group of search criteria that must all match, optionally with nested groups.
+ */
+export type SearchGroup = SearchCriteria & {
+  any_of?: SearchGroup[] | undefined;
+  none_of?: SearchGroup[] | undefined;
+};
+
+/**
+ * Maximum nesting depth of any_of / none_of groups.
+ */
+export const MAX_SEARCH_GROUP_DEPTH = 3;
+
+/**
+ * Maximum number of groups in a single any_of / none_of list.
+ */
+const MAX_SEARCH_GROUPS = 5;
+
+/**
+ * Maximum number of groups in one search, across all nesting levels.
+ */
+const MAX_SEARCH_GROUPS_TOTAL = 20;
+
+/**
+ * Build the any_of / none_of fields of a search or of a nested group.
+ *
+ * Both reference the same recursive group schema, so the published JSON
+ * schema defines a group once; depth and count are checked by
+ * refineSearchGroups.
+ */
+function searchGroupFields(): {
+  any_of: z.ZodOptional<z.ZodArray<z.ZodType<SearchGroup>>>;
+  none_of: z.ZodOptional<z.ZodArray<z.ZodType<SearchGroup>>>;
+} {
+  return {
+    any_of: z
+      .array(SearchGroupSchema)
+      .min(1)
+      .max(MAX_SEARCH_GROUPS)
+      .optional()
+      .describe('Groups of criteria; a message must match at least one group.'),
+    none_of: z
+      .array(SearchGroupSchema)
+      .min(1)
+      .max(MAX_SEARCH_GROUPS)
+      .optional()
+      .describe('Groups of criteria; a message must match none of the groups.'),
+  };
+}
+
+const SearchGroupSchema: z.ZodType<SearchGroup> = z
+  .lazy(() =>
+    z
+      .object({ ...SearchCriteriaFields, ...searchGroupFields() })
+      .strict()
+      .superRefine((value, ctx) => {
+        refineSearchCriteria(value, ctx);
+        if (Object.values(value).every((entry) => entry === undefined)) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: 'Search groups must contain at least one criterion.',
+          });
+        }
+      })
+      .describe('Criteria that must all match (all criteria in a group are combined with AND).'),
+  )
+  .meta({ id: 'SearchGroup' });
+
+/**
+ * Search filter fields shared by imap_search_messages and imap_apply_to_search.
+ *
+ * Keeping a single definition guarantees that a search previewed with
+ * imap_search_messages selects exactly the same messages when acted upon.
+ */
+const SearchFilterFields = {
+  ...SearchCriteriaFields,
+  ...searchGroupFields(),
+  has_attachment: z
+    .boolean()
+    .optional()
+    .describe('If true, only messages with attachments; if false, only messages without.'),
+  gmail_query: z
+    .string()
+    .min(1)
+    .max(512)
+    .optional()
+    .describe(
+      'Gmail search syntax (e.g., "has:attachment older_than:1y"). Gmail servers (X-GM-EXT-1) only.',
+    ),
+};
+
+/**
+ * Search filter values accepted by buildSearchQuery.
+ */
+export type SearchFilters = z.infer<z.ZodObject<typeof SearchFilterFields>>;
+
+/**
+ * Names of every search filter field, used to detect filters combined with a cursor.
+ */
+export const SEARCH_FILTER_KEYS = Object.keys(SearchFilterFields) as (keyof SearchFilters)[];
+
+/**
+ * Validate the rules shared by every tool that accepts search filters.
+ */
+function refineSearchCriteria(value: SearchCriteria, ctx: z.RefinementCtx): void {
+  if (value.last_days !== undefined && (value.start_date || value.end_date)) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: 'Provide either last_days or start_date/end_date, not both.',
+      path: ['last_days'],
+    });
+  }
+  if (value.start_date && value.end_date && value.start_date > value.end_date) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: 'start_date must be on or before end_date.',
+      path: ['start_date'],
+    });
+  }
+  if (
+    value.larger_than !== undefined &&
+    value.smaller_than !== undefined &&
+    value.larger_than + 1 >= value.smaller_than
+  ) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: 'larger_than must be less than smaller_than with room for a match.',
+      path: ['larger_than'],
+    });
+  }
+  const excluded = new Set(value.exclude_keywords ?? []);
+  if ((value.keywords ?? []).some((keyword) => excluded.has(keyword))) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: 'A keyword cannot be both required and excluded.',
+      path: ['exclude_keywords'],
+    });
+  }
+}
+
+/**
+ * Validate the nesting depth and total number of any_of / none_of groups.
+ */
+function refineSearchGroups(
+  value: Pick<SearchGroup, 'any_of' | 'none_of'>,
+  ctx: z.RefinementCtx,
+): void {
+  let depth = 0;
+  let count = 0;
+  const visit = (groups: SearchGroup[] | undefined, level: number): void => {
+    for (const group of groups ?? []) {
+      depth = Math.max(depth, level);
+      count += 1;
+      visit(group.any_of, level + 1);
+      visit(group.none_of, level + 1);
+    }
+  };
+  visit(value.any_of, 1);
+  visit(value.none_of, 1);
+
+  const path = [value.any_of ? 'any_of' : 'none_of'];
+  if (depth > MAX_SEARCH_GROUP_DEPTH) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: `Search groups may nest at most ${MAX_SEARCH_GROUP_DEPTH} levels.`,
+      path,
+    });
+  }
+  if (count > MAX_SEARCH_GROUPS_TOTAL) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: `A search may contain at most ${MAX_SEARCH_GROUPS_TOTAL} groups in total.`,
+      path,
+    });
+  }
+}
+
+/**
+ * Maximum number of mailboxes searched by one multi-mailbox search.
+ */
+export const MAX_SEARCH_MAILBOXES = 50;
+
+/**
+ * Maximum number of accounts searched by one cross-account search.
+ */
+export const MAX_SEARCH_ACCOUNTS = 10;
+
 /**
  * Input schema for the imap_search_messages tool.
  *
  * Searches for messages in an IMAP mailbox based on various criteria.
- * Supports date ranges, sender/recipient/subject filters, full-text search,
- * read status filtering, and pagination. Multiple filters can be combined.
+ * Supports date ranges, sender/recipient/subject/header filters, full-text
+ * search, flag/keyword/size/attachment filtering, and pagination. Multiple
+ * filters can be combined. With `mailboxes` and/or `account_ids`, several
+ * mailboxes or accounts are searched and their results merged newest first.
  *
  * Validation rules:
  * - Cannot combine last_days with start_date/end_date
  * - start_date must be on or before end_date
+ * - larger_than must be less than smaller_than
+ * - A keyword cannot be both required and excluded
+ * - any_of / none_of groups nest at most 3 levels, number at most 20, and may not be empty
+ * - sort is not supported with mailboxes or account_ids
+ * - sort_order is only valid when sort is set
  * - snippet_max_chars is only valid when include_snippet is true
  */
 export const SearchMessagesInputSchema = z
   .object({
     account_id: DefaultAccountIdSchema,
-    mailbox: MailboxSchema,
-    last_days: z
-      .number()
-      .int()
-      .min(1)
-      .max(365)
-      .optional()
-      .describe('Search only messages from the last N days (UTC, inclusive).'),
-    query: z
-      .string()
-      .min(1)
-      .max(256)
+    account_ids: z
+      .union([z.literal('all'), z.array(AccountIdSchema).min(1).max(MAX_SEARCH_ACCOUNTS)])
       .optional()
-      .describe('Free-text search across headers and body (server-dependent).'),
-    from: z
-      .string()
-      .min(1)
-      .max(256)
+      .describe(
+        'Search several accounts instead of `account_id`: "all" or a list of account IDs. Each account searches `mailbox` or `mailboxes`.',
+      ),
+    mailbox: MailboxSchema,
+    mailboxes: z
+      .union([
+        z.literal('all'),
+        z
+          .array(
+            z
+              .string()
+              .min(1)
+              .max(256)
+              .describe('Mailbox name, or a special-use attribute such as \\Archive.'),
+          )
+          .min(1)
+          .max(MAX_SEARCH_MAILBOXES),
+      ])
       .optional()
-      .describe('Filter by sender email or display name substring.'),
-    to: z
-      .string()
-      .min(1)
-      .max(256)
+      .describe(
+        'Search several mailboxes instead of `mailbox`: "all", or a list of mailbox names and special-use attributes (e.g., ["\\Inbox", "\\Archive", "\\Sent"]).',
+      ),
+    ...SearchFilterFields,
+    sort: z
+      .enum(['date', 'arrival', 'from', 'subject', 'size'])
       .optional()
-      .describe('Filter by recipient email or display name substring.'),
-    subject: z.string().min(1).max(256).optional().describe('Filter by subject substring.'),
-    unread_only: z.boolean().optional().describe('If true, return only unread messages.'),
-    start_date: DateSchema.optional(),
-    end_date: DateSchema.optional(),
+      .describe(
+        'Sort key (uses server-side SORT when supported). If omitted, newest UIDs come first.',
+      ),
+    sort_order: z
+      .enum(['asc', 'desc'])
+      .default('desc')
+      .describe('Sort direction when sort is set.'),
     include_snippet: z
       .boolean()
       .default(false)
@@ -242,18 +693,21 @@ export const SearchMessagesInputSchema = z
   })
   .strict()
   .superRefine((value, ctx) => {
-    if (value.last_days !== undefined && (value.start_date || value.end_date)) {
+    refineSearchCriteria(value, ctx);
+    refineSearchGroups(value, ctx);
+    if ((value.mailboxes !== undefined || value.account_ids !== undefined) && value.sort) {
       ctx.addIssue({
         code: z.ZodIssueCode.custom,
-        message: 'Provide either last_days or start_date/end_date, not both.',
-        path: ['last_days'],
+        message:
+          'sort is not supported with mailboxes or account_ids; results are merged newest first.',
+        path: ['sort'],
       });
     }
-    if (value.start_date && value.end_date && value.start_date > value.end_date) {
+    if (value.sort === undefined && value.sort_order !== 'desc') {
       ctx.addIssue({
         code: z.ZodIssueCode.custom,
-        message: 'start_date must be on or before end_date.',
-        path: ['start_date'],
+        message: 'sort_order is only valid when sort is set.',
+        path: ['sort_order'],
       });
     }
     if (value.include_snippet !== true && value.snippet_max_chars !== 200) {
@@ -344,6 +798,70 @@ export const GetMessageRawInputSchema = z
   })
   .strict();
 
+/**
+ * Input schema for the imap_get_thread tool.
+ *
+ * Reconstructs the conversation containing a message. Uses the IMAP THREAD
+ * extension for the message's mailbox when available, and Message-ID /
+ * In-Reply-To / References header matching for the other searched mailboxes.
+ */
+export const GetThreadInputSchema = z
+  .object({
+    account_id: DefaultAccountIdSchema,
+    message_id: MessageIdSchema,
+    mailboxes: z
+      .array(MailboxSchema)
+      .min(1)
+      .max(5)
+      .optional()
+      .describe(
+        "Mailboxes to search for related messages, by name or special-use attribute (e.g. \\Sent). Defaults to the message's mailbox plus the Sent mailbox.",
+      ),
+    limit: z
+      .number()
+      .int()
+      .min(1)
+      .max(100)
+      .default(50)
+      .describe('Maximum number of thread messages to return (1-100).'),
+  })
+  .strict();
+
+/**
+ * Maximum number of flag changes or vanished UIDs reported by one sync call.
+ *
+ * Larger deltas are reported as a required full resync instead.
+ */
+export const MAX_SYNC_CHANGES = 5000;
+
+/**
+ * Input schema for the imap_sync_mailbox tool.
+ *
+ * Reports what changed in a mailbox since a previous sync_token. Without a
+ * token, the call only establishes a baseline token for the current state.
+ */
+export const SyncMailboxInputSchema = z
+  .object({
+    account_id: DefaultAccountIdSchema,
+    mailbox: MailboxSchema,
+    sync_token: z
+      .string()
+      .min(1)
+      .max(16_384)
+      .optional()
+      .describe(
+        'Token from a previous imap_sync_mailbox call. Omit to get a baseline token for the current state.',
+      ),
+    limit: z
+      .number()
+      .int()
+      .min(1)
+      .max(200)
+      .default(50)
+      .describe('Maximum number of new messages to return (1-200); call again while has_more.'),
+  })
+  .strict();
+
 /**
  * Input schema for the imap_update_message_flags tool.
  *
@@ -351,12 +869,14 @@ export const GetMessageRawInputSchema = z
  * added or removed. At least one of add_flags or remove_flags must be provided.
  *
  * Validation rules:
+ * - Must provide message_id or message_ids, not both
  * - Must provide add_flags, remove_flags, or both
  */
 export const UpdateMessageFlagsInputSchema = z
   .object({
     account_id: DefaultAccountIdSchema,
-    message_id: MessageIdSchema,
+    message_id: MessageIdSchema.optional(),
+    message_ids: MessageIdListSchema.optional(),
     add_flags: z
       .array(FlagSchema)
       .min(1)
@@ -372,6 +892,7 @@ export const UpdateMessageFlagsInputSchema = z
   })
   .strict()
   .superRefine((value, ctx) => {
+    refineMessageTarget(value, ctx);
     if (!value.add_flags && !value.remove_flags) {
       ctx.addIssue({
         code: z.ZodIssueCode.custom,
@@ -381,6 +902,57 @@ export const UpdateMessageFlagsInputSchema = z
     }
   });
 
+/**
+ * Input schema for the imap_update_message_labels tool.
+ *
+ * Adds or removes Gmail labels (X-GM-LABELS). Only available on servers that
+ * advertise the X-GM-EXT-1 extension.
+ *
+ * Validation rules:
+ * - Must provide message_id or message_ids, not both
+ * - Must provide add_labels, remove_labels, or both
+ * - A label cannot be both added and removed
+ */
+export const UpdateMessageLabelsInputSchema = z
+  .object({
+    account_id: DefaultAccountIdSchema,
+    message_id: MessageIdSchema.optional(),
+    message_ids: MessageIdListSchema.optional(),
+    add_labels: z
+      .array(GmailLabelSchema)
+      .min(1)
+      .max(20)
+      .optional()
+      .describe('Gmail labels to add to the message (e.g., ["Receipts"]).'),
+    remove_labels: z
+      .array(GmailLabelSchema)
+      .min(1)
+      .max(20)
+      .optional()
+      .describe('Gmail labels to remove from the message (e.g., ["\\\\Inbox"] to archive).'),
+  })
+  .strict()
+  .superRefine((value, ctx) => {
+    refineMessageTarget(value, ctx);
+    if (!value.add_labels && !value.remove_labels) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: 'Provide add_labels, remove_labels, or both.',
+        path: ['add_labels'],
+      });
+    }
+    const removed = new Set(value.remove_labels ?? []);
+    for (const label of value.add_labels ?? []) {
+      if (removed.has(label)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `Label '${label}' cannot be both added and removed.`,
+          path: ['remove_labels'],
+        });
+      }
+    }
+  });
+
 /**
  * Input schema for the imap_copy_message tool.
  *
@@ -389,57 +961,412 @@ export const UpdateMessageFlagsInputSchema = z
  * implemented by downloading the raw message source and appending it to the
  * destination mailbox.
  */
-export const CopyMessageInputSchema = z
+export const CopyMessageInputSchema = z
+  .object({
+    account_id: DefaultAccountIdSchema,
+    message_id: MessageIdSchema.optional(),
+    message_ids: MessageIdListSchema.optional(),
+    destination_mailbox: MailboxSchema,
+    destination_account_id: AccountIdSchema.optional().describe(
+      'Destination account identifier. Defaults to the source account_id when omitted.',
+    ),
+  })
+  .strict()
+  .superRefine(refineMessageTarget);
+
+/**
+ * Input schema for the imap_move_message tool.
+ *
+ * Moves a message from one mailbox to another. This operation removes the
+ * message from its original mailbox and places it in the destination mailbox.
+ * The tool automatically chooses the best strategy based on server capabilities.
+ */
+export const MoveMessageInputSchema = z
+  .object({
+    account_id: DefaultAccountIdSchema,
+    message_id: MessageIdSchema.optional(),
+    message_ids: MessageIdListSchema.optional(),
+    destination_mailbox: MailboxSchema,
+    allow_mailbox_expunge: AllowMailboxExpungeSchema,
+  })
+  .strict()
+  .superRefine(refineMessageTarget);
+
+/**
+ * Input schema for the imap_delete_message tool.
+ *
+ * Deletes a specific message from an IMAP mailbox by moving it to Trash, or
+ * permanently with permanent=true. Both require explicit confirmation via the
+ * confirm=true parameter to prevent accidental deletions.
+ */
+export const DeleteMessageInputSchema = z
+  .object({
+    account_id: DefaultAccountIdSchema,
+    message_id: MessageIdSchema.optional(),
+    message_ids: MessageIdListSchema.optional(),
+    permanent: z
+      .boolean()
+      .optional()
+      .describe(
+        'Delete permanently instead of moving to Trash. Messages already in Trash are always deleted permanently.',
+      ),
+    allow_mailbox_expunge: AllowMailboxExpungeSchema,
+    confirm: z.literal(true).describe('Must be true to delete the message(s).'),
+  })
+  .strict()
+  .superRefine(refineMessageTarget);
+
+/**
+ * Maximum number of messages a single imap_apply_to_search call may modify.
+ */
+export const MAX_SEARCH_ACTION_MESSAGES = 500;
+
+/**
+ * Input schema for the imap_apply_to_search tool.
+ *
+ * Applies a write action to every message matched by a search, using the
+ * same filters as imap_search_messages. Calls are dry runs unless dry_run is
+ * explicitly false, and execution additionally requires confirm=true.
+ *
+ * Validation rules:
+ * - flags is required for add_flags/remove_flags and rejected otherwise
+ * - destination_mailbox is required for move/copy and rejected otherwise
+ * - confirm=true is required when dry_run is false
+ */
+export const ApplyToSearchInputSchema = z
+  .object({
+    account_id: DefaultAccountIdSchema,
+    mailbox: MailboxSchema,
+    ...SearchFilterFields,
+    action: z
+      .enum(['add_flags', 'remove_flags', 'move', 'copy', 'delete'])
+      .describe('Action to apply to every matching message.'),
+    flags: z
+      .array(FlagSchema)
+      .min(1)
+      .max(20)
+      .optional()
+      .describe('Flags to add or remove (required for add_flags/remove_flags).'),
+    destination_mailbox: MailboxSchema.optional().describe(
+      'Destination mailbox (required for move/copy).',
+    ),
+    max_messages: z
+      .number()
+      .int()
+      .min(1)
+      .max(MAX_SEARCH_ACTION_MESSAGES)
+      .default(100)
+      .describe(
+        `Refuse to act when more than this many messages match (1-${MAX_SEARCH_ACTION_MESSAGES}).`,
+      ),
+    dry_run: z
+      .boolean()
+      .default(true)
+      .describe(
+        'If true (default), only report the match count and a sample without changing anything.',
+      ),
+    allow_mailbox_expunge: AllowMailboxExpungeSchema,
+    confirm: z.literal(true).optional().describe('Must be true when dry_run is false.'),
+  })
+  .strict()
+  .superRefine((value, ctx) => {
+    refineSearchCriteria(value, ctx);
+    refineSearchGroups(value, ctx);
+    const needsFlags = value.action === 'add_flags' || value.action === 'remove_flags';
+    if (needsFlags && !value.flags) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `flags is required for action ${value.action}.`,
+        path: ['flags'],
+      });
+    }
+    if (!needsFlags && value.flags) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: 'flags is only valid for add_flags/remove_flags.',
+        path: ['flags'],
+      });
+    }
+    const needsDestination = value.action === 'move' || value.action === 'copy';
+    if (needsDestination && !value.destination_mailbox) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `destination_mailbox is required for action ${value.action}.`,
+        path: ['destination_mailbox'],
+      });
+    }
+    if (!needsDestination && value.destination_mailbox) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: 'destination_mailbox is only valid for move/copy.',
+        path: ['destination_mailbox'],
+      });
+    }
+    if (value.dry_run === false && value.confirm !== true) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: 'confirm must be true when dry_run is false.',
+        path: ['confirm'],
+      });
+    }
+  });
+
+/**
+ * Input schema for the imap_create_mailbox tool.
+ *
+ * Creates a mailbox from a full path, or from a single name below an existing
+ * parent mailbox. With `parent`, the parent's hierarchy delimiter is used to
+ * build the path, so callers do not need to know whether the server separates
+ * levels with "/" or ".".
+ */
+export const CreateMailboxInputSchema = z
+  .object({
+    account_id: DefaultAccountIdSchema,
+    mailbox: MailboxSchema.describe(
+      'Mailbox to create: a full path (e.g., Projects/2024), or a single name when parent is set.',
+    ),
+    parent: MailboxSchema.optional().describe(
+      "Existing parent mailbox. The new mailbox is created below it using the server's hierarchy delimiter.",
+    ),
+  })
+  .strict();
+
+/**
+ * Input schema for the imap_rename_mailbox tool.
+ *
+ * Renames (or moves within the hierarchy) an existing mailbox. Child mailboxes
+ * are renamed along with it.
+ */
+export const RenameMailboxInputSchema = z
+  .object({
+    account_id: DefaultAccountIdSchema,
+    mailbox: MailboxSchema.describe('Existing mailbox to rename.'),
+    new_mailbox: MailboxSchema.describe('New full mailbox path.'),
+  })
+  .strict()
+  .superRefine((value, ctx) => {
+    if (value.mailbox === value.new_mailbox) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: 'new_mailbox must differ from mailbox.',
+        path: ['new_mailbox'],
+      });
+    }
+  });
+
+/**
+ * Input schema for the imap_delete_mailbox tool.
+ *
+ * Deletes a mailbox. This is a destructive operation that requires explicit
+ * confirmation, and mailboxes that still contain messages or child mailboxes
+ * are refused unless `force` is set.
+ */
+export const DeleteMailboxInputSchema = z
+  .object({
+    account_id: DefaultAccountIdSchema,
+    mailbox: MailboxSchema.describe('Mailbox to delete.'),
+    force: z
+      .boolean()
+      .default(false)
+      .describe('Delete the mailbox even if it contains messages or child mailboxes.'),
+    confirm: z.literal(true).describe('Must be true to delete the mailbox.'),
+  })
+  .strict();
+
+/**
+ * Input schema for the imap_subscribe_mailbox and imap_unsubscribe_mailbox tools.
+ *
+ * Subscriptions control which mailboxes mail clients show by default; they do
+ * not affect the mailbox contents.
+ */
+export const MailboxSubscriptionInputSchema = z
+  .object({
+    account_id: DefaultAccountIdSchema,
+    mailbox: MailboxSchema,
+  })
+  .strict();
+
+/**
+ * Maximum number of attachments copied into a single draft.
+ */
+export const MAX_DRAFT_ATTACHMENTS = 10;
+
+/**
+ * Schema for a draft recipient address.
+ */
+const DraftAddressSchema = z
+  .string()
+  .min(3)
+  .max(320)
+  .regex(/^[^\r\n]+$/, 'Addresses must not contain line breaks.')
+  .describe(
+    'Recipient address, optionally with a display name (e.g., "Jane Doe <jane@example.com>").',
+  );
+
+const DraftAddressListSchema = z.array(DraftAddressSchema).max(50);
+
+/**
+ * Schema for an attachment copied into a draft from an existing message part.
+ */
+const DraftAttachmentSchema = z
+  .object({
+    message_id: MessageIdSchema.describe('Message that contains the attachment.'),
+    part_id: z
+      .string()
+      .min(1)
+      .max(128)
+      .regex(/^\d+(\.\d+)*$/, 'part_id must be a MIME part number (e.g., 2 or 1.2).')
+      .describe('Attachment part_id as reported by imap_get_message.'),
+    filename: z
+      .string()
+      .min(1)
+      .max(255)
+      .optional()
+      .describe("Filename for the attachment. Defaults to the original part's filename."),
+  })
+  .strict();
+
+/**
+ * Input schema for the imap_create_draft tool.
+ *
+ * Composes a MIME message and appends it to the Drafts mailbox with the
+ * `\Draft` flag so a human can review and send it from their mail client.
+ * Attachments are copied from parts of existing messages. With
+ * `source_message_id`, the draft is threaded under that message via
+ * In-Reply-To and References; `mode` additionally derives the recipients,
+ * subject, quoted body, and (for forwards) attachments from it.
+ */
+export const CreateDraftInputSchema = z
+  .object({
+    account_id: DefaultAccountIdSchema,
+    to: DraftAddressListSchema.default([]).describe('To recipients.'),
+    cc: DraftAddressListSchema.default([]).describe('Cc recipients.'),
+    bcc: DraftAddressListSchema.default([]).describe('Bcc recipients (kept in the saved draft).'),
+    subject: z
+      .string()
+      .max(998)
+      .regex(/^[^\r\n]*$/, 'Subject must not contain line breaks.')
+      .default('')
+      .describe('Subject line.'),
+    text: z.string().max(100_000).default('').describe('Plain-text body.'),
+    html: z
+      .string()
+      .min(1)
+      .max(200_000)
+      .optional()
+      .describe('Optional HTML body, sent as an alternative to the plain-text body.'),
+    attachments: z
+      .array(DraftAttachmentSchema)
+      .max(MAX_DRAFT_ATTACHMENTS)
+      .default([])
+      .describe(`Attachments copied from existing message parts (up to ${MAX_DRAFT_ATTACHMENTS}).`),
+    source_message_id: MessageIdSchema.optional().describe(
+      'Message this draft replies to or forwards. Its Message-ID and References headers thread the draft.',
+    ),
+    mode: z
+      .enum(['reply', 'reply_all', 'forward'])
+      .optional()
+      .describe(
+        'Build the draft from source_message_id: reply to the sender, reply to all recipients, or forward with the original attachments. Recipients given in to/cc/bcc are added; text is placed above the quoted original; subject overrides the Re:/Fwd: subject.',
+      ),
+    mailbox: MailboxSchema.optional().describe(
+      'Mailbox to save the draft in. Defaults to the \\Drafts special-use mailbox.',
+    ),
+  })
+  .strict()
+  .superRefine((value, ctx) => {
+    if (value.mode !== undefined && value.source_message_id === undefined) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `source_message_id is required when mode is '${value.mode}'.`,
+        path: ['source_message_id'],
+      });
+    }
+  });
+
+/**
+ * Input schema for the imap_send_draft tool.
+ *
+ * Submits an existing draft over SMTP and files a copy in the Sent mailbox.
+ * Sending is irreversible, so it requires explicit confirmation and is gated
+ * separately from other write operations.
+ */
+export const SendDraftInputSchema = z
   .object({
     account_id: DefaultAccountIdSchema,
-    message_id: MessageIdSchema,
-    destination_mailbox: MailboxSchema,
-    destination_account_id: AccountIdSchema.optional().describe(
-      'Destination account identifier. Defaults to the source account_id when omitted.',
-    ),
+    message_id: MessageIdSchema.describe('Draft to send (must carry the \\Draft flag).'),
+    save_to_sent: z
+      .boolean()
+      .default(true)
+      .describe('Append a copy to the \\Sent mailbox after sending.'),
+    confirm: z.literal(true).describe('Must be true to send the draft.'),
   })
   .strict();
 
 /**
- * Input schema for the imap_move_message tool.
+ * Input schema for the imap_verify_account tool.
  *
- * Moves a message from one mailbox to another. This operation removes the
- * message from its original mailbox and places it in the destination mailbox.
- * The tool automatically chooses the best strategy based on server capabilities.
+ * Verifies connectivity and authentication for a configured account.
  */
-export const MoveMessageInputSchema = z
+export const VerifyAccountInputSchema = z
   .object({
     account_id: DefaultAccountIdSchema,
-    message_id: MessageIdSchema,
-    destination_mailbox: MailboxSchema,
   })
   .strict();
 
 /**
- * Input schema for the imap_delete_message tool.
+ * Input schema for the imap_audit_log tool.
  *
- * Permanently deletes a specific message from an IMAP mailbox. This is a
- * destructive operation that requires explicit confirmation via the confirm=true
- * parameter to prevent accidental deletions.
+ * Returns the most recent audit log entries, newest first, optionally filtered.
  */
-export const DeleteMessageInputSchema = z
+export const AuditLogInputSchema = z
   .object({
-    account_id: DefaultAccountIdSchema,
-    message_id: MessageIdSchema,
-    confirm: z.literal(true).describe('Must be true to delete the message.'),
+    account_id: AccountIdSchema.optional().describe('Only return entries for this account.'),
+    tool: z.string().min(1).max(64).optional().describe('Only return entries for this tool.'),
+    outcome: z.enum(['ok', 'error']).optional().describe('Only return entries with this outcome.'),
+    limit: z
+      .number()
+      .int()
+      .min(1)
+      .max(100)
+      .default(20)
+      .describe('Maximum number of entries to return (newest first).'),
   })
   .strict();
 
 /**
- * Input schema for the imap_verify_account tool.
+ * Input schema for the imap_undo tool.
  *
- * Verifies connectivity and authentication for a configured account.
+ * Reverts journaled write operations: the most recent `count` operations of the
+ * account, or the single operation named by operation_id.
  */
-export const VerifyAccountInputSchema = z
+export const UndoInputSchema = z
   .object({
     account_id: DefaultAccountIdSchema,
+    operation_id: z
+      .string()
+      .min(1)
+      .max(64)
+      .optional()
+      .describe('Operation to revert, from _meta.undo_operation_id of a write tool result.'),
+    count: z
+      .number()
+      .int()
+      .min(1)
+      .max(10)
+      .optional()
+      .describe('Revert the last N operations of the account, newest first (default 1).'),
   })
-  .strict();
+  .strict()
+  .superRefine((value, ctx) => {
+    if (value.operation_id !== undefined && value.count !== undefined) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: 'Provide operation_id or count, not both.',
+        path: ['count'],
+      });
+    }
+  });
 
 /**
  * Output schema for non-secret IMAP server connection details.
@@ -463,18 +1390,36 @@ export const AccountConnectionSchema = ServerConnectionSchema.extend({
  * Output schema for a mailbox summary.
  *
  * Contains basic information about a mailbox, including its name,
- * hierarchy delimiter, and message counts. This is returned by the
- * list_mailboxes tool.
+ * hierarchy delimiter, special-use attribute (RFC 6154), subscription and
+ * hierarchy state, and message counts (only when requested). This is returned
+ * by the list_mailboxes tool.
  */
 export const MailboxSummarySchema = z
   .object({
     name: MailboxSchema,
     delimiter: z.string().min(1).max(8).nullable().optional(),
+    special_use: z.string().min(1).max(32).optional(),
+    subscribed: z.boolean(),
+    noselect: z.boolean(),
+    parent: MailboxSchema.optional(),
+    has_children: z.boolean(),
     message_count: z.number().int().nonnegative().optional(),
     unread_count: z.number().int().nonnegative().optional(),
   })
   .strict();
 
+export type MailboxSummary = z.infer<typeof MailboxSummarySchema>;
+
+/**
+ * Output schema for a mailbox in tree mode: a mailbox summary with its child
+ * mailboxes nested below it.
+ */
+export const MailboxTreeNodeSchema: z.ZodType<MailboxTreeNode> = z.lazy(() =>
+  MailboxSummarySchema.extend({ children: z.array(MailboxTreeNodeSchema).max(200) }).strict(),
+);
+
+export type MailboxTreeNode = MailboxSummary & { children: MailboxTreeNode[] };
+
 /**
  * Output schema for an attachment summary.
  *
@@ -514,6 +1459,9 @@ export const AttachmentSummarySchema = z
 export const MessageSummarySchema = z
   .object({
     message_id: MessageIdSchema,
+    account_id: AccountIdSchema.optional().describe(
+      'Account holding the message (set by multi-mailbox and cross-account searches).',
+    ),
     message_uri: z
       .string()
       .min(1)
@@ -533,6 +1481,17 @@ export const MessageSummarySchema = z
     from: z.string().min(1).max(256).optional(),
     subject: z.string().min(1).max(256).optional(),
     flags: z.array(FlagSchema).max(20).optional(),
+    gmail_labels: z
+      .array(GmailLabelSchema)
+      .max(50)
+      .optional()
+      .describe('Gmail labels on the message (Gmail servers only).'),
+    gmail_thread_id: z
+      .string()
+      .min(1)
+      .max(32)
+      .optional()
+      .describe('Gmail conversation id (X-GM-THRID, Gmail servers only).'),
     snippet: z.string().min(1).max(500).optional(),
   })
   .strict();
@@ -578,13 +1537,20 @@ export const MessageDetailSchema = z
 /**
  * Output schema for the list_mailboxes tool.
  *
- * Returns all available mailboxes for an account along with their metadata.
- * Limited to 200 mailboxes per account to prevent excessive output.
+ * Returns a page of mailboxes for an account along with their metadata, as a
+ * flat list or (in tree mode) nested under their parents. Pages hold at most
+ * 200 mailboxes; next_cursor continues the listing.
  */
 export const ListMailboxesResultSchema = z
   .object({
     account_id: AccountIdSchema,
-    mailboxes: z.array(MailboxSummarySchema).max(200),
+    mailboxes: z.union([
+      z.array(MailboxSummarySchema).max(200),
+      z.array(MailboxTreeNodeSchema).max(200),
+    ]),
+    total: z.number().int().nonnegative(),
+    next_cursor: CursorSchema.optional(),
+    has_more: z.boolean(),
   })
   .strict();
 
@@ -597,8 +1563,20 @@ export const ListMailboxesResultSchema = z
  */
 export const SearchMessagesResultSchema = z
   .object({
-    account_id: AccountIdSchema,
-    mailbox: MailboxSchema,
+    account_id: AccountIdSchema.optional(),
+    account_ids: z
+      .array(AccountIdSchema)
+      .max(MAX_SEARCH_ACCOUNTS)
+      .optional()
+      .describe('Accounts searched by a cross-account search.'),
+    mailbox: MailboxSchema.optional(),
+    mailboxes: z
+      .array(MailboxSchema)
+      .max(MAX_SEARCH_MAILBOXES * MAX_SEARCH_ACCOUNTS)
+      .optional()
+      .describe(
+        'Mailboxes searched by a multi-mailbox search (unique names across accounts for cross-account searches).',
+      ),
     total: z.number().int().nonnegative().optional(),
     messages: z.array(MessageSummarySchema).max(50),
     next_cursor: CursorSchema.optional(),
@@ -646,18 +1624,101 @@ export const GetMessageRawResultSchema = z
   })
   .strict();
 
+/**
+ * Output schema for a message within a reconstructed thread.
+ *
+ * Messages are listed in depth-first conversation order; depth and
+ * parent_message_id describe the reply tree.
+ */
+export const ThreadMessageSchema = z
+  .object({
+    message_id: MessageIdSchema,
+    mailbox: MailboxSchema,
+    uidvalidity: z.number().int().nonnegative(),
+    uid: z.number().int().nonnegative(),
+    date: z.string().min(1).max(64),
+    from: z.string().min(1).max(256).optional(),
+    subject: z.string().min(1).max(256).optional(),
+    flags: z.array(FlagSchema).max(20).optional(),
+    depth: z.number().int().nonnegative(),
+    parent_message_id: MessageIdSchema.optional(),
+  })
+  .strict();
+
+/**
+ * Output schema for the get_thread tool.
+ */
+export const GetThreadResultSchema = z
+  .object({
+    account_id: AccountIdSchema,
+    message_id: MessageIdSchema,
+    total: z.number().int().nonnegative(),
+    truncated: z.boolean(),
+    messages: z.array(ThreadMessageSchema).max(100),
+  })
+  .strict();
+
+/**
+ * Output schema for a flag change reported by the sync_mailbox tool.
+ */
+const SyncFlagChangeSchema = z
+  .object({
+    message_id: MessageIdSchema,
+    uid: z.number().int().nonnegative(),
+    flags: z.array(FlagSchema).max(20),
+  })
+  .strict();
+
+/**
+ * Output schema for the sync_mailbox tool.
+ *
+ * Lists messages added after the previous token (oldest first), flag changes
+ * and vanished UIDs among previously reported messages, and the token for the
+ * next call. When full_resync_required is set, the caller must discard its
+ * state for the mailbox; the returned token then replays every message.
+ */
+export const SyncMailboxResultSchema = z
+  .object({
+    account_id: AccountIdSchema,
+    mailbox: MailboxSchema,
+    uidvalidity: z.number().int().nonnegative(),
+    full_resync_required: z.boolean(),
+    new_messages: z.array(MessageSummarySchema).max(200),
+    flag_changes: z.array(SyncFlagChangeSchema).max(MAX_SYNC_CHANGES),
+    vanished_uids: z.array(z.number().int().nonnegative()).max(MAX_SYNC_CHANGES),
+    sync_token: z.string().min(1),
+    has_more: z.boolean(),
+  })
+  .strict();
+
 /**
  * Output schema for the update_message_flags tool.
  *
  * Returns the updated set of flags for the message after the operation
  * completes. This reflects the actual state after both add and remove
- * operations were applied.
+ * operations were applied. Bulk calls return per-message results instead.
  */
 export const UpdateMessageFlagsResultSchema = z
   .object({
     account_id: AccountIdSchema,
-    message_id: MessageIdSchema,
-    flags: z.array(FlagSchema).max(20),
+    message_id: MessageIdSchema.optional(),
+    flags: z.array(FlagSchema).max(20).optional(),
+    ...BulkResultFields,
+  })
+  .strict();
+
+/**
+ * Output schema for the update_message_labels tool.
+ *
+ * Returns the Gmail labels of the message after the operation completes.
+ * Bulk calls return per-message results instead.
+ */
+export const UpdateMessageLabelsResultSchema = z
+  .object({
+    account_id: AccountIdSchema,
+    message_id: MessageIdSchema.optional(),
+    labels: z.array(GmailLabelSchema).max(50).optional(),
+    ...BulkResultFields,
   })
   .strict();
 
@@ -667,15 +1728,17 @@ export const UpdateMessageFlagsResultSchema = z
  * Returns confirmation that a message was copied, including source and
  * destination accounts and mailboxes. If the server supports UIDPLUS for the
  * chosen strategy, the new message ID for the copied message is also provided.
+ * Bulk calls return per-message results instead.
  */
 export const CopyMessageResultSchema = z
   .object({
     source_account_id: AccountIdSchema,
     destination_account_id: AccountIdSchema,
-    source_mailbox: MailboxSchema,
+    source_mailbox: MailboxSchema.optional(),
     destination_mailbox: MailboxSchema,
-    message_id: MessageIdSchema,
+    message_id: MessageIdSchema.optional(),
     new_message_id: MessageIdSchema.optional(),
+    ...BulkResultFields,
   })
   .strict();
 
@@ -684,15 +1747,17 @@ export const CopyMessageResultSchema = z
  *
  * Returns confirmation that a message was moved, including source and
  * destination mailboxes. If the server supports UIDPLUS, the new message
- * ID for the moved message is also provided.
+ * ID for the moved message is also provided. Bulk calls return per-message
+ * results instead.
  */
 export const MoveMessageResultSchema = z
   .object({
     account_id: AccountIdSchema,
-    source_mailbox: MailboxSchema,
+    source_mailbox: MailboxSchema.optional(),
     destination_mailbox: MailboxSchema,
-    message_id: MessageIdSchema,
+    message_id: MessageIdSchema.optional(),
     new_message_id: MessageIdSchema.optional(),
+    ...BulkResultFields,
   })
   .strict();
 
@@ -700,13 +1765,130 @@ export const MoveMessageResultSchema = z
  * Output schema for the delete_message tool.
  *
  * Returns confirmation that a message was deleted, including the account
- * ID, mailbox name, and the message ID of the deleted message.
+ * ID, mailbox name, and the message ID of the deleted message, plus the Trash
+ * mailbox and new message ID when it was moved to Trash. Bulk calls return
+ * per-message results instead.
  */
 export const DeleteMessageResultSchema = z
+  .object({
+    account_id: AccountIdSchema,
+    mailbox: MailboxSchema.optional(),
+    message_id: MessageIdSchema.optional(),
+    trash_mailbox: MailboxSchema.optional(),
+    new_message_id: MessageIdSchema.optional(),
+    ...BulkResultFields,
+  })
+  .strict();
+
+/**
+ * Output schema for the apply_to_search tool.
+ *
+ * Reports how many messages matched the search, how many were changed (zero
+ * for dry runs), and a small sample of the matching messages.
+ */
+export const ApplyToSearchResultSchema = z
+  .object({
+    account_id: AccountIdSchema,
+    mailbox: MailboxSchema,
+    action: z.enum(['add_flags', 'remove_flags', 'move', 'copy', 'delete']),
+    destination_mailbox: MailboxSchema.optional(),
+    dry_run: z.boolean(),
+    matched: z.number().int().nonnegative(),
+    affected: z.number().int().nonnegative(),
+    max_messages: z.number().int().min(1).max(MAX_SEARCH_ACTION_MESSAGES),
+    sample: z.array(MessageSummarySchema).max(10),
+  })
+  .strict();
+
+/**
+ * Output schema for the create_mailbox tool.
+ *
+ * Reports the full path of the mailbox and whether it was newly created
+ * (false when it already existed).
+ */
+export const CreateMailboxResultSchema = z
+  .object({
+    account_id: AccountIdSchema,
+    mailbox: MailboxSchema,
+    created: z.boolean(),
+    delimiter: z.string().max(8).optional(),
+  })
+  .strict();
+
+/**
+ * Output schema for the rename_mailbox tool.
+ */
+export const RenameMailboxResultSchema = z
+  .object({
+    account_id: AccountIdSchema,
+    mailbox: MailboxSchema,
+    new_mailbox: MailboxSchema,
+  })
+  .strict();
+
+/**
+ * Output schema for the delete_mailbox tool.
+ *
+ * Reports how many messages and child mailboxes the mailbox held when it was
+ * deleted.
+ */
+export const DeleteMailboxResultSchema = z
+  .object({
+    account_id: AccountIdSchema,
+    mailbox: MailboxSchema,
+    messages: z.number().int().nonnegative(),
+    child_mailboxes: z.number().int().nonnegative(),
+  })
+  .strict();
+
+/**
+ * Output schema for the subscribe_mailbox and unsubscribe_mailbox tools.
+ */
+export const MailboxSubscriptionResultSchema = z
+  .object({
+    account_id: AccountIdSchema,
+    mailbox: MailboxSchema,
+    subscribed: z.boolean(),
+  })
+  .strict();
+
+/**
+ * Output schema for the create_draft tool.
+ *
+ * `message_id` is only returned when the server reports the appended UID
+ * (UIDPLUS); `header_message_id` is the RFC 5322 Message-ID of the draft.
+ * The subject and To/Cc recipients are reported as saved, since reply modes
+ * derive them from the source message.
+ */
+export const CreateDraftResultSchema = z
   .object({
     account_id: AccountIdSchema,
     mailbox: MailboxSchema,
+    message_id: MessageIdSchema.optional(),
+    header_message_id: z.string().min(1).max(998),
+    subject: z.string().max(998),
+    to: z.array(z.string()).max(200),
+    cc: z.array(z.string()).max(200),
+    size_bytes: z.number().int().nonnegative(),
+    attachments: z.number().int().nonnegative(),
+  })
+  .strict();
+
+/**
+ * Output schema for the send_draft tool.
+ *
+ * `sent_message_id` is only returned when a copy was appended to the Sent
+ * mailbox and the server reported its UID (UIDPLUS).
+ */
+export const SendDraftResultSchema = z
+  .object({
+    account_id: AccountIdSchema,
     message_id: MessageIdSchema,
+    header_message_id: z.string().min(1).max(998).optional(),
+    accepted: z.array(z.string()).max(200),
+    rejected: z.array(z.string()).max(200),
+    sent_mailbox: MailboxSchema.optional(),
+    sent_message_id: MessageIdSchema.optional(),
   })
   .strict();
 
@@ -719,6 +1901,25 @@ export const ListAccountsResultSchema = z
   })
   .strict();
 
+/**
+ * Output schema for connection pool statistics of a single account.
+ *
+ * Reports how many pooled IMAP connections are open, idle, or in use, and
+ * lifetime counters that show whether connections are being reused.
+ */
+export const ConnectionPoolStatsSchema = z
+  .object({
+    max_size: z.number().int().positive(),
+    open: z.number().int().nonnegative(),
+    idle: z.number().int().nonnegative(),
+    busy: z.number().int().nonnegative(),
+    waiting: z.number().int().nonnegative(),
+    created_total: z.number().int().nonnegative(),
+    reused_total: z.number().int().nonnegative(),
+    discarded_total: z.number().int().nonnegative(),
+  })
+  .strict();
+
 /**
  * Output schema for the verify_account tool.
  */
@@ -729,6 +1930,89 @@ export const VerifyAccountResultSchema = z
     latency_ms: z.number().int().nonnegative(),
     server: ServerConnectionSchema,
     capabilities: z.array(z.string().min(1).max(128)).max(256),
+    pool: ConnectionPoolStatsSchema,
+  })
+  .strict();
+
+/**
+ * Output schema for a message change recorded in the audit log.
+ */
+export const AuditMessageChangeSchema = z
+  .object({
+    mailbox: MailboxSchema,
+    uidvalidity: z.number().int().nonnegative().optional(),
+    uid: z.number().int().positive(),
+    flags_before: z.array(z.string()).optional(),
+    flags_after: z.array(z.string()).optional(),
+    destination_mailbox: MailboxSchema.optional(),
+    destination_uidvalidity: z.number().int().nonnegative().optional(),
+    destination_uid: z.number().int().positive().optional(),
+  })
+  .strict();
+
+/**
+ * Output schema for one audit log entry.
+ */
+export const AuditEntrySchema = z
+  .object({
+    seq: z.number().int().positive(),
+    timestamp: z.string(),
+    tool: z.string(),
+    account_id: AccountIdSchema,
+    mailbox: MailboxSchema.optional(),
+    destination_account_id: AccountIdSchema.optional(),
+    destination_mailbox: MailboxSchema.optional(),
+    message_ids: z.array(z.string()).optional(),
+    messages: z.array(AuditMessageChangeSchema).optional(),
+    undo_operation_id: z.string().optional(),
+    outcome: z.enum(['ok', 'error']),
+    error: z.string().optional(),
+    duration_ms: z.number().int().nonnegative(),
+    prev_hash: z.string(),
+    hash: z.string(),
+  })
+  .strict();
+
+/**
+ * Output schema for the imap_audit_log tool.
+ */
+export const AuditLogResultSchema = z
+  .object({
+    entries: z.array(AuditEntrySchema).max(100),
+    has_more: z.boolean(),
+    chain: z
+      .object({
+        valid: z.boolean(),
+        entries_checked: z.number().int().nonnegative(),
+        first_invalid_seq: z.number().int().optional(),
+      })
+      .strict(),
+  })
+  .strict();
+
+/**
+ * Output schema for the imap_undo tool.
+ *
+ * Results are per message: `message_id` is the message as it was before the
+ * operation, and `new_message_id` is the restored message where known.
+ */
+export const UndoResultSchema = z
+  .object({
+    account_id: AccountIdSchema,
+    operations: z
+      .array(
+        z
+          .object({
+            operation_id: z.string(),
+            tool: z.string(),
+            kind: z.enum(['flags', 'move', 'delete']),
+            results: z.array(BulkMessageResultSchema).max(MAX_SEARCH_ACTION_MESSAGES),
+          })
+          .strict(),
+      )
+      .max(10),
+    succeeded: z.number().int().nonnegative(),
+    failed: z.number().int().nonnegative(),
   })
   .strict();
 
@@ -741,18 +2025,30 @@ export const VerifyAccountResultSchema = z
  *
  * Tools are categorized as:
  * - Read operations (list, search, get): Always available
- * - Write operations (move, delete, flag updates): Only available when
+ * - Write operations (move, delete, flag updates, search actions, mailbox management, drafts, undo): Only available when
  *   MAIL_IMAP_WRITE_ENABLED=true
+ * - Send operations (imap_send_draft): Only available when MAIL_IMAP_SEND_ENABLED=true
+ * - Audit log (imap_audit_log): Only available when MAIL_IMAP_AUDIT_LOG is set
  *
  * Tool purposes:
  * - imap_list_mailboxes: Discover available mailboxes
  * - imap_search_messages: Find messages matching criteria
  * - imap_get_message: Retrieve parsed message content
  * - imap_get_message_raw: Retrieve raw RFC822 source
+ * - imap_get_thread: Reconstruct the conversation containing a message
+ * - imap_sync_mailbox: Report mailbox changes since a previous sync token
  * - imap_update_message_flags: Modify message flags/labels
+ * - imap_update_message_labels: Add or remove Gmail labels
  * - imap_copy_message: Copy a message to another mailbox/account
  * - imap_move_message: Move message to another mailbox
  * - imap_delete_message: Permanently delete a message
+ * - imap_apply_to_search: Apply a write action to every search match
+ * - imap_create_mailbox / imap_rename_mailbox / imap_delete_mailbox: Manage mailboxes
+ * - imap_subscribe_mailbox / imap_unsubscribe_mailbox: Manage mailbox subscriptions
+ * - imap_create_draft: Save a composed message to the Drafts mailbox
+ * - imap_send_draft: Send a draft over SMTP (only when MAIL_IMAP_SEND_ENABLED=true)
+ * - imap_audit_log: Query recent write operations and verify the audit log's hash chain
+ * - imap_undo: Revert recent move, flag, and delete operations
  */
 export const TOOL_DEFINITIONS: readonly ToolDefinition[] = [
   {
@@ -765,14 +2061,14 @@ export const TOOL_DEFINITIONS: readonly ToolDefinition[] = [
   {
     name: 'imap_list_mailboxes',
     description:
-      "List mailboxes for an IMAP account. Use this to discover valid mailbox names (e.g., INBOX). If account_id is omitted, defaults to 'default'. Returns a concise list.",
+      "List mailboxes for an IMAP account. Use this to discover valid mailbox names (e.g., INBOX) and special-use roles (\\Sent, \\Trash, \\Junk, \\Archive, \\Drafts). Filter by parent, LIST pattern, or subscription; page with cursor; set tree to nest children; set include_counts for message/unread counts. If account_id is omitted, defaults to 'default'. Returns a concise list.",
     inputSchema: ListMailboxesInputSchema,
     outputSchema: ListMailboxesResultSchema,
   },
   {
     name: 'imap_search_messages',
     description:
-      "List or search messages in a mailbox by sender/subject/date/unread. If account_id is omitted, defaults to 'default'. Returns paginated summaries (token-efficient).",
+      "List or search messages in a mailbox by sender/subject/date/unread (or Gmail query syntax on Gmail). If account_id is omitted, defaults to 'default'. Returns paginated summaries (token-efficient).",
     inputSchema: SearchMessagesInputSchema,
     outputSchema: SearchMessagesResultSchema,
   },
@@ -790,39 +2086,130 @@ export const TOOL_DEFINITIONS: readonly ToolDefinition[] = [
     inputSchema: GetMessageRawInputSchema,
     outputSchema: GetMessageRawResultSchema,
   },
+  {
+    name: 'imap_get_thread',
+    description:
+      "Reconstruct the conversation containing a message as an ordered reply tree of summaries. Uses server THREAD for the message's mailbox when supported, and Message-ID/In-Reply-To/References matching for the other mailboxes (default: the message's mailbox plus Sent). If account_id is omitted, defaults to 'default'.",
+    inputSchema: GetThreadInputSchema,
+    outputSchema: GetThreadResultSchema,
+  },
+  {
+    name: 'imap_sync_mailbox',
+    description:
+      "Incrementally sync a mailbox: returns new messages, flag changes, and vanished UIDs since a previous sync_token, plus the next token. Without a token, returns a baseline token. Uses CONDSTORE/QRESYNC when available. A UIDVALIDITY change returns full_resync_required. If account_id is omitted, defaults to 'default'.",
+    inputSchema: SyncMailboxInputSchema,
+    outputSchema: SyncMailboxResultSchema,
+  },
   {
     name: 'imap_update_message_flags',
     description:
-      "Update flags on a message (e.g., mark read/unread). If account_id is omitted, defaults to 'default'. Write operations are disabled by default.",
+      "Update flags on a message, or on up to 50 messages via message_ids (e.g., mark read/unread). If account_id is omitted, defaults to 'default'. Bulk calls report per-message results. Write operations are disabled by default.",
     inputSchema: UpdateMessageFlagsInputSchema,
     outputSchema: UpdateMessageFlagsResultSchema,
   },
+  {
+    name: 'imap_update_message_labels',
+    description:
+      "Add or remove Gmail labels on a message, or on up to 50 messages via message_ids. Gmail servers (X-GM-EXT-1) only. If account_id is omitted, defaults to 'default'. Bulk calls report per-message results. Write operations are disabled by default.",
+    inputSchema: UpdateMessageLabelsInputSchema,
+    outputSchema: UpdateMessageLabelsResultSchema,
+  },
   {
     name: 'imap_copy_message',
     description:
-      'Copy a message to another mailbox, optionally across configured accounts. If destination_account_id is omitted, the copy stays within the same account. Write operations are disabled by default.',
+      'Copy a message, or up to 50 messages via message_ids, to another mailbox, optionally across configured accounts. If destination_account_id is omitted, the copy stays within the same account. Bulk calls report per-message results. Write operations are disabled by default.',
     inputSchema: CopyMessageInputSchema,
     outputSchema: CopyMessageResultSchema,
   },
   {
     name: 'imap_move_message',
     description:
-      "Move a message to another mailbox. If account_id is omitted, defaults to 'default'. Write operations are disabled by default.",
+      "Move a message, or up to 50 messages via message_ids, to another mailbox. If account_id is omitted, defaults to 'default'. Bulk calls report per-message results. Write operations are disabled by default.",
     inputSchema: MoveMessageInputSchema,
     outputSchema: MoveMessageResultSchema,
   },
   {
     name: 'imap_delete_message',
     description:
-      "Delete a message. If account_id is omitted, defaults to 'default'. Requires explicit confirmation; write operations are disabled by default.",
+      "Delete a message, or up to 50 messages via message_ids. Messages are moved to the \\Trash mailbox unless the account deletes permanently, permanent=true, or they already are in Trash. If account_id is omitted, defaults to 'default'. Bulk calls report per-message results. Requires explicit confirmation; write operations are disabled by default.",
     inputSchema: DeleteMessageInputSchema,
     outputSchema: DeleteMessageResultSchema,
   },
+  {
+    name: 'imap_apply_to_search',
+    description:
+      "Apply an action (add/remove flags, move, copy, delete) to every message matching search filters in one mailbox. If account_id is omitted, defaults to 'default'. Dry run by default (returns match count and sample); executing requires dry_run=false and confirm=true, and is refused above max_messages. Write operations are disabled by default.",
+    inputSchema: ApplyToSearchInputSchema,
+    outputSchema: ApplyToSearchResultSchema,
+  },
+  {
+    name: 'imap_create_mailbox',
+    description:
+      "Create a mailbox from a full path, or from a name below an existing parent (the server's hierarchy delimiter is applied). Reports created=false if it already exists. If account_id is omitted, defaults to 'default'. Write operations are disabled by default.",
+    inputSchema: CreateMailboxInputSchema,
+    outputSchema: CreateMailboxResultSchema,
+  },
+  {
+    name: 'imap_rename_mailbox',
+    description:
+      "Rename or move a mailbox (child mailboxes follow). INBOX cannot be renamed. If account_id is omitted, defaults to 'default'. Write operations are disabled by default.",
+    inputSchema: RenameMailboxInputSchema,
+    outputSchema: RenameMailboxResultSchema,
+  },
+  {
+    name: 'imap_delete_mailbox',
+    description:
+      "Delete a mailbox. Refuses mailboxes that contain messages or child mailboxes unless force=true. If account_id is omitted, defaults to 'default'. Requires explicit confirmation; write operations are disabled by default.",
+    inputSchema: DeleteMailboxInputSchema,
+    outputSchema: DeleteMailboxResultSchema,
+  },
+  {
+    name: 'imap_subscribe_mailbox',
+    description:
+      "Subscribe to a mailbox so mail clients show it. If account_id is omitted, defaults to 'default'. Write operations are disabled by default.",
+    inputSchema: MailboxSubscriptionInputSchema,
+    outputSchema: MailboxSubscriptionResultSchema,
+  },
+  {
+    name: 'imap_unsubscribe_mailbox',
+    description:
+      "Unsubscribe from a mailbox; its messages are kept. If account_id is omitted, defaults to 'default'. Write operations are disabled by default.",
+    inputSchema: MailboxSubscriptionInputSchema,
+    outputSchema: MailboxSubscriptionResultSchema,
+  },
+  {
+    name: 'imap_create_draft',
+    description:
+      "Compose a message (to/cc/bcc, subject, text and optional HTML, attachments copied from existing message parts) and save it to the Drafts mailbox for review. Set source_message_id to thread it as a reply, and mode (reply, reply_all, forward) to fill in recipients, Re:/Fwd: subject, quoted text, and forwarded attachments. Does not send mail. If account_id is omitted, defaults to 'default'. Write operations are disabled by default.",
+    inputSchema: CreateDraftInputSchema,
+    outputSchema: CreateDraftResultSchema,
+  },
+  {
+    name: 'imap_send_draft',
+    description:
+      "Send an existing draft over the account's SMTP server, then save a copy to the Sent mailbox. Recipients are taken from the draft's To/Cc/Bcc headers and must pass the account's recipient allowlist. Requires confirm=true. If account_id is omitted, defaults to 'default'. Sending is disabled by default.",
+    inputSchema: SendDraftInputSchema,
+    outputSchema: SendDraftResultSchema,
+  },
   {
     name: 'imap_verify_account',
     description:
-      "Verify IMAP connectivity and authentication for an account, and return server capabilities. If account_id is omitted, defaults to 'default'.",
+      "Verify IMAP connectivity and authentication for an account, and return server capabilities and connection pool statistics. If account_id is omitted, defaults to 'default'.",
     inputSchema: VerifyAccountInputSchema,
     outputSchema: VerifyAccountResultSchema,
   },
+  {
+    name: 'imap_audit_log',
+    description:
+      'List recent write operations from the audit log (newest first), optionally filtered by account, tool, or outcome, and verify the hash chain of the entries read. Entries of accounts or mailboxes the account policy hides are left out. Only available when MAIL_IMAP_AUDIT_LOG is set.',
+    inputSchema: AuditLogInputSchema,
+    outputSchema: AuditLogResultSchema,
+  },
+  {
+    name: 'imap_undo',
+    description:
+      "Revert recent move, flag, and delete operations of this server session: the last count operations of the account (default 1), or the one named by operation_id (from _meta.undo_operation_id of a write tool result). Moved and deleted messages are moved back and get new message_ids; flags are restored. Messages changed since the operation are left alone and reported as failed. If account_id is omitted, defaults to 'default'. Write operations are disabled by default.",
+    inputSchema: UndoInputSchema,
+    outputSchema: UndoResultSchema,
+  },
 ] as const;
@@ -4,35 +4,67 @@ import {
   TOOL_DEFINITIONS,
   type ToolDefinition,
   type ToolName,
+  ApplyToSearchInputSchema,
+  AuditLogInputSchema,
   CopyMessageInputSchema,
+  CreateDraftInputSchema,
+  CreateMailboxInputSchema,
+  DeleteMailboxInputSchema,
   DeleteMessageInputSchema,
   GetMessageInputSchema,
   GetMessageRawInputSchema,
+  GetThreadInputSchema,
   ListAccountsInputSchema,
   ListMailboxesInputSchema,
+  MailboxSubscriptionInputSchema,
   MoveMessageInputSchema,
+  RenameMailboxInputSchema,
   SearchMessagesInputSchema,
+  SendDraftInputSchema,
+  SyncMailboxInputSchema,
   UpdateMessageFlagsInputSchema,
+  UndoInputSchema,
+  UpdateMessageLabelsInputSchema,
   VerifyAccountInputSchema,
 } from './contracts.js';
-import { WRITE_ENABLED } from './config.js';
-import { WRITE_TOOLS } from './policy.js';
 import {
+  appendAuditEntry,
+  collectAuditMessages,
+  type AuditMessageChange,
+  type AuditRecord,
+} from './audit.js';
+import { AUDIT_LOG_PATH, SEND_ENABLED, WRITE_ENABLED } from './config.js';
+import { evaluateToolPolicy, SEND_TOOLS, WRITE_TOOLS } from './policy.js';
+import { getUndoKind, recordUndoOperation } from './undo-journal.js';
+import {
+  extendToolResult,
   formatZodError,
   makeError,
   mapImapError,
   toErrorLog,
   type ToolResult,
 } from './tools/runtime.js';
+import { handleApplyToSearch } from './tools/apply_to_search.js';
+import { handleAuditLog } from './tools/audit_log.js';
+import { handleCreateDraft } from './tools/create_draft.js';
+import { handleCreateMailbox } from './tools/create_mailbox.js';
+import { handleDeleteMailbox } from './tools/delete_mailbox.js';
 import { handleDeleteMessage } from './tools/delete_message.js';
 import { handleGetMessage } from './tools/get_message.js';
 import { handleGetMessageRaw } from './tools/get_message_raw.js';
+import { handleGetThread } from './tools/get_thread.js';
 import { handleListAccounts } from './tools/list_accounts.js';
 import { handleListMailboxes } from './tools/list_mailboxes.js';
 import { handleCopyMessage } from './tools/copy_message.js';
 import { handleMoveMessage } from './tools/move_message.js';
+import { handleRenameMailbox } from './tools/rename_mailbox.js';
 import { handleSearchMessages } from './tools/search_messages.js';
+import { handleSendDraft } from './tools/send_draft.js';
+import { handleSubscribeMailbox, handleUnsubscribeMailbox } from './tools/subscribe_mailbox.js';
+import { handleSyncMailbox } from './tools/sync_mailbox.js';
 import { handleUpdateMessageFlags } from './tools/update_message_flags.js';
+import { handleUndo } from './tools/undo.js';
+import { handleUpdateMessageLabels } from './tools/update_message_labels.js';
 import { handleVerifyAccount } from './tools/verify_account.js';
 import { scrubSecrets } from './logging.js';
 import { getAvailableTools } from './utils/tools.js';
@@ -43,11 +75,24 @@ const TOOL_INPUT_SCHEMAS: Readonly<Record<ToolName, z.ZodTypeAny>> = {
   imap_search_messages: SearchMessagesInputSchema,
   imap_get_message: GetMessageInputSchema,
   imap_get_message_raw: GetMessageRawInputSchema,
+  imap_get_thread: GetThreadInputSchema,
+  imap_sync_mailbox: SyncMailboxInputSchema,
   imap_update_message_flags: UpdateMessageFlagsInputSchema,
+  imap_update_message_labels: UpdateMessageLabelsInputSchema,
   imap_copy_message: CopyMessageInputSchema,
   imap_move_message: MoveMessageInputSchema,
   imap_delete_message: DeleteMessageInputSchema,
+  imap_apply_to_search: ApplyToSearchInputSchema,
+  imap_create_mailbox: CreateMailboxInputSchema,
+  imap_rename_mailbox: RenameMailboxInputSchema,
+  imap_delete_mailbox: DeleteMailboxInputSchema,
+  imap_subscribe_mailbox: MailboxSubscriptionInputSchema,
+  imap_unsubscribe_mailbox: MailboxSubscriptionInputSchema,
+  imap_create_draft: CreateDraftInputSchema,
+  imap_send_draft: SendDraftInputSchema,
   imap_verify_account: VerifyAccountInputSchema,
+  imap_audit_log: AuditLogInputSchema,
+  imap_undo: UndoInputSchema,
 };
 
 /**
@@ -79,8 +124,10 @@ export function getListedTools(): Array<{
  * This is the main entry point for all tool operations. It performs the following steps:
  * 1. Validates that the tool exists and is registered
  * 2. Parses and validates input arguments using Zod schemas
- * 3. Checks write-operation permissions if applicable
- * 4. Routes to the appropriate handler function
+ * 3. Checks write- and send-operation permissions and the account policies
+ * 4. Routes to the appropriate handler function, journaling reversible writes for
+ *    imap_undo and recording write and send calls in the audit log when
+ *    MAIL_IMAP_AUDIT_LOG is set
  * 5. Captures and maps any IMAP errors to user-friendly messages
  * 6. Logs telemetry for monitoring and debugging
  *
@@ -107,39 +154,13 @@ export async function handleToolCall(toolName: ToolName, rawArgs: unknown): Prom
       return makeError(`Invalid input:\n${formatZodError(parsedArgs.error)}`);
     }
 
-    // Check write permissions for write operations (move, delete, flag updates)
-    // This provides an additional layer of safety to prevent accidental modifications
-    if (WRITE_TOOLS.has(toolName) && !WRITE_ENABLED) {
-      return makeError(
-        'Write operations are disabled. Set MAIL_IMAP_WRITE_ENABLED=true to enable updates.',
-      );
-    }
-
-    switch (toolName) {
-      case 'imap_list_accounts':
-        return handleListAccounts(ListAccountsInputSchema.parse(rawArgs));
-      case 'imap_list_mailboxes':
-        return await handleListMailboxes(ListMailboxesInputSchema.parse(rawArgs));
-      case 'imap_search_messages':
-        return await handleSearchMessages(SearchMessagesInputSchema.parse(rawArgs));
-      case 'imap_get_message':
-        return await handleGetMessage(GetMessageInputSchema.parse(rawArgs));
-      case 'imap_update_message_flags':
-        return await handleUpdateMessageFlags(UpdateMessageFlagsInputSchema.parse(rawArgs));
-      case 'imap_copy_message':
-        return await handleCopyMessage(CopyMessageInputSchema.parse(rawArgs));
-      case 'imap_move_message':
-        return await handleMoveMessage(MoveMessageInputSchema.parse(rawArgs));
-      case 'imap_delete_message':
-        return await handleDeleteMessage(DeleteMessageInputSchema.parse(rawArgs));
-      case 'imap_get_message_raw':
-        return await handleGetMessageRaw(GetMessageRawInputSchema.parse(rawArgs));
-      case 'imap_verify_account':
-        return await handleVerifyAccount(VerifyAccountInputSchema.parse(rawArgs));
-      default:
-        // This should never happen if TOOL_DEFINITIONS is kept in sync with handlers
-        return makeError(`Tool '${String(toolName)}' is registered but not implemented yet.`);
+    // Write and send invocations are journaled for imap_undo and recorded in the audit log
+    const args = parsedArgs.data as Readonly<Record<string, unknown>>;
+    const execute = (): Promise<ToolResult> => authorizeAndDispatch(toolName, rawArgs, args);
+    if (WRITE_TOOLS.has(toolName) || SEND_TOOLS.has(toolName)) {
+      return await runWriteToolCall(toolName, args, execute);
     }
+    return await execute();
   } catch (error: unknown) {
     // Capture the error for logging, then map it to a user-friendly message
     // IMAP errors are often technical and need translation for end users
@@ -162,3 +183,180 @@ export async function handleToolCall(toolName: ToolName, rawArgs: unknown): Prom
     );
   }
 }
+
+/**
+ * Check the write, send, and account policies for a validated call, then route
+ * it to the tool's handler.
+ */
+async function authorizeAndDispatch(
+  toolName: ToolName,
+  rawArgs: unknown,
+  args: Readonly<Record<string, unknown>>,
+): Promise<ToolResult> {
+  // Check write permissions for write operations (move, delete, flag updates, mailbox changes, drafts)
+  // This provides an additional layer of safety to prevent accidental modifications
+  if (WRITE_TOOLS.has(toolName) && !WRITE_ENABLED) {
+    return makeError(
+      'Write operations are disabled. Set MAIL_IMAP_WRITE_ENABLED=true to enable updates.',
+    );
+  }
+
+  // Sending mail has its own gate, since it cannot be undone like other writes
+  if (SEND_TOOLS.has(toolName) && !SEND_ENABLED) {
+    return makeError('Sending is disabled. Set MAIL_IMAP_SEND_ENABLED=true to send drafts.');
+  }
+
+  // Per-account policies: tool and mailbox allow/deny lists, read-only accounts, message limits
+  const policyError = evaluateToolPolicy(toolName, args);
+  if (policyError) {
+    return makeError(policyError);
+  }
+
+  switch (toolName) {
+    case 'imap_list_accounts':
+      return handleListAccounts(ListAccountsInputSchema.parse(rawArgs));
+    case 'imap_list_mailboxes':
+      return await handleListMailboxes(ListMailboxesInputSchema.parse(rawArgs));
+    case 'imap_search_messages':
+      return await handleSearchMessages(SearchMessagesInputSchema.parse(rawArgs));
+    case 'imap_get_message':
+      return await handleGetMessage(GetMessageInputSchema.parse(rawArgs));
+    case 'imap_update_message_flags':
+      return await handleUpdateMessageFlags(UpdateMessageFlagsInputSchema.parse(rawArgs));
+    case 'imap_update_message_labels':
+      return await handleUpdateMessageLabels(UpdateMessageLabelsInputSchema.parse(rawArgs));
+    case 'imap_copy_message':
+      return await handleCopyMessage(CopyMessageInputSchema.parse(rawArgs));
+    case 'imap_move_message':
+      return await handleMoveMessage(MoveMessageInputSchema.parse(rawArgs));
+    case 'imap_delete_message':
+      return await handleDeleteMessage(DeleteMessageInputSchema.parse(rawArgs));
+    case 'imap_apply_to_search':
+      return await handleApplyToSearch(ApplyToSearchInputSchema.parse(rawArgs));
+    case 'imap_create_mailbox':
+      return await handleCreateMailbox(CreateMailboxInputSchema.parse(rawArgs));
+    case 'imap_rename_mailbox':
+      return await handleRenameMailbox(RenameMailboxInputSchema.parse(rawArgs));
+    case 'imap_delete_mailbox':
+      return await handleDeleteMailbox(DeleteMailboxInputSchema.parse(rawArgs));
+    case 'imap_subscribe_mailbox':
+      return await handleSubscribeMailbox(MailboxSubscriptionInputSchema.parse(rawArgs));
+    case 'imap_unsubscribe_mailbox':
+      return await handleUnsubscribeMailbox(MailboxSubscriptionInputSchema.parse(rawArgs));
+    case 'imap_create_draft':
+      return await handleCreateDraft(CreateDraftInputSchema.parse(rawArgs));
+    case 'imap_send_draft':
+      return await handleSendDraft(SendDraftInputSchema.parse(rawArgs));
+    case 'imap_get_message_raw':
+      return await handleGetMessageRaw(GetMessageRawInputSchema.parse(rawArgs));
+    case 'imap_get_thread':
+      return await handleGetThread(GetThreadInputSchema.parse(rawArgs));
+    case 'imap_sync_mailbox':
+      return await handleSyncMailbox(SyncMailboxInputSchema.parse(rawArgs));
+    case 'imap_verify_account':
+      return await handleVerifyAccount(VerifyAccountInputSchema.parse(rawArgs));
+    case 'imap_audit_log':
+      return await handleAuditLog(AuditLogInputSchema.parse(rawArgs));
+    case 'imap_undo':
+      return await handleUndo(UndoInputSchema.parse(rawArgs));
+    default:
+      // This should never happen if TOOL_DEFINITIONS is kept in sync with handlers
+      return makeError(`Tool '${String(toolName)}' is registered but not implemented yet.`);
+  }
+}
+
+/**
+ * Run a write or send tool call, journal it for imap_undo when it can be
+ * reverted, and append its outcome to the audit log when one is configured.
+ *
+ * Failing to write the audit entry does not change the tool result, since the
+ * operation has already happened; it is reported on stderr instead.
+ */
+async function runWriteToolCall(
+  toolName: ToolName,
+  args: Readonly<Record<string, unknown>>,
+  execute: () => Promise<ToolResult>,
+): Promise<ToolResult> {
+  const startedAtNs = process.hrtime.bigint();
+  const accountId = typeof args['account_id'] === 'string' ? args['account_id'] : 'default';
+  const messages: AuditMessageChange[] = [];
+  const record = async (
+    outcome: Pick<AuditRecord, 'outcome' | 'error' | 'undo_operation_id'>,
+  ): Promise<void> => {
+    if (!AUDIT_LOG_PATH) {
+      return;
+    }
+    const messageIds = [
+      ...(typeof args['message_id'] === 'string' ? [args['message_id']] : []),
+      ...(typeof args['source_message_id'] === 'string' ? [args['source_message_id']] : []),
+      ...(Array.isArray(args['message_ids']) ? (args['message_ids'] as string[]) : []),
+    ];
+    try {
+      await appendAuditEntry(AUDIT_LOG_PATH, {
+        tool: toolName,
+        account_id: accountId,
+        mailbox: typeof args['mailbox'] === 'string' ? args['mailbox'] : undefined,
+        destination_account_id:
+          typeof args['destination_account_id'] === 'string'
+            ? args['destination_account_id']
+            : undefined,
+        destination_mailbox:
+          typeof args['destination_mailbox'] === 'string' ? args['destination_mailbox'] : undefined,
+        message_ids: messageIds.length > 0 ? messageIds : undefined,
+        messages: messages.length > 0 ? messages : undefined,
+        ...outcome,
+        duration_ms: Math.round(Number(process.hrtime.bigint() - startedAtNs) / 1_000_000),
+      });
+    } catch (error: unknown) {
+      console.error(
+        JSON.stringify({
+          level: 'error',
+          event: 'audit_log_failed',
+          tool: toolName,
+          error: toErrorLog(error),
+        }),
+      );
+    }
+  };
+
+  try {
+    const result = await collectAuditMessages(messages, execute);
+    if (result.isError) {
+      await record({ outcome: 'error', error: readErrorMessage(result) });
+      return result;
+    }
+
+    const kind = getUndoKind(toolName, args);
+    const operation = kind && recordUndoOperation(toolName, accountId, kind, messages);
+    await record({ outcome: 'ok', undo_operation_id: operation?.id });
+    if (!operation) {
+      return result;
+    }
+    return extendToolResult(
+      result,
+      [
+        {
+          tool: 'imap_undo',
+          arguments: { account_id: accountId, operation_id: operation.id },
+          reason: 'Revert this operation.',
+        },
+      ],
+      { undo_operation_id: operation.id },
+    );
+  } catch (error: unknown) {
+    await record({ outcome: 'error', error: mapImapError(error).message });
+    throw error;
+  }
+}
+
+/**
+ * Read the error message back out of an error ToolResult.
+ */
+function readErrorMessage(result: ToolResult): string | undefined {
+  try {
+    const response = JSON.parse(result.content[0].text) as { error?: { message?: unknown } };
+    return typeof response.error?.message === 'string' ? response.error.message : undefined;
+  } catch {
+    return undefined;
+  }
+}
@@ -1,33 +1,57 @@
 import {
+  DEFAULT_AUTH,
   DEFAULT_CONNECT_TIMEOUT_MS,
   DEFAULT_GREETING_TIMEOUT_MS,
+  DEFAULT_MAX_SUBSCRIPTIONS,
+  DEFAULT_POOL_IDLE_TIMEOUT_MS,
+  DEFAULT_POOL_MAX_SIZE,
   DEFAULT_PORT,
   DEFAULT_SECURE,
+  DEFAULT_SEND_ENABLED,
+  DEFAULT_SMTP_PORT,
+  DEFAULT_SMTP_SECURE,
   DEFAULT_SOCKET_TIMEOUT_MS,
   DEFAULT_WRITE_ENABLED,
   getAccountEnvEntries,
+  getConfigFileStatus,
+  getSettingSource,
+  readListSetting,
+  readSetting,
 } from './config.js';
 
-type EnvValueSource = 'default' | 'env' | 'unset';
+type EnvValueSource = 'default' | 'env' | 'file' | 'unset';
 
 type ResolvedEnvValue = Readonly<{
   value: string;
   source: EnvValueSource;
 }>;
 
+function settingSource(name: string): EnvValueSource {
+  return getSettingSource(name) ?? 'unset';
+}
+
 function resolveStringEnv(name: string, redact = false): ResolvedEnvValue {
-  const raw = process.env[name];
+  const raw = readSetting(name);
   if (raw === undefined) {
     return { value: '<unset>', source: 'unset' };
   }
   if (redact) {
-    return { value: '<redacted>', source: 'env' };
+    return { value: '<redacted>', source: settingSource(name) };
+  }
+  return { value: raw, source: settingSource(name) };
+}
+
+function resolveListEnv(name: string): ResolvedEnvValue {
+  const entries = readListSetting(name);
+  if (entries === undefined) {
+    return { value: '<unset>', source: 'unset' };
   }
-  return { value: raw, source: 'env' };
+  // JSON shows where each entry ends, even when it contains a comma
+  return { value: JSON.stringify(entries), source: settingSource(name) };
 }
 
 function resolveNumberEnv(name: string, defaultValue: number): ResolvedEnvValue {
-  const raw = process.env[name];
+  const raw = readSetting(name);
   if (raw === undefined) {
     return { value: String(defaultValue), source: 'default' };
   }
@@ -35,26 +59,31 @@ function resolveNumberEnv(name: string, defaultValue: number): ResolvedEnvValue
   if (!Number.isFinite(parsed)) {
     return { value: String(defaultValue), source: 'default' };
   }
-  return { value: String(parsed), source: 'env' };
+  return { value: String(parsed), source: settingSource(name) };
 }
 
 function resolveBooleanEnv(name: string, defaultValue: boolean): ResolvedEnvValue {
-  const raw = process.env[name];
+  const raw = readSetting(name);
   if (raw === undefined) {
     return { value: String(defaultValue), source: 'default' };
   }
   const normalized = raw.trim().toLowerCase();
   if (['1', 'true', 'yes', 'y', 'on'].includes(normalized)) {
-    return { value: 'true', source: 'env' };
+    return { value: 'true', source: settingSource(name) };
   }
   if (['0', 'false', 'no', 'n', 'off'].includes(normalized)) {
-    return { value: 'false', source: 'env' };
+    return { value: 'false', source: settingSource(name) };
   }
   return { value: String(defaultValue), source: 'default' };
 }
 
 function formatEnvLine(name: string, resolved: ResolvedEnvValue): string {
-  const suffix = resolved.source === 'default' ? ' (default)' : '';
+  const suffix =
+    resolved.source === 'default'
+      ? ' (default)'
+      : resolved.source === 'file'
+        ? ' (config file)'
+        : '';
   return `  ${name}=${resolved.value}${suffix}`;
 }
 
@@ -67,12 +96,80 @@ function formatAccountSection(accountId: string, prefix: string): string[] {
     formatEnvLine(`${prefix}SECURE`, resolveBooleanEnv(`${prefix}SECURE`, DEFAULT_SECURE)),
   );
   lines.push(formatEnvLine(`${prefix}USER`, resolveStringEnv(`${prefix}USER`)));
+  const auth = readSetting(`${prefix}AUTH`);
   lines.push(
-    formatEnvLine(`${prefix}PASS`, resolveStringEnv(`${prefix}PASS`, true)).replace(
-      '<redacted>',
-      '<redacted> (set)',
+    formatEnvLine(
+      `${prefix}AUTH`,
+      auth === undefined
+        ? { value: DEFAULT_AUTH, source: 'default' }
+        : { value: auth, source: settingSource(`${prefix}AUTH`) },
     ),
   );
+  if (auth?.trim().toLowerCase() === 'oauth2') {
+    for (const name of ['ACCESS_TOKEN', 'OAUTH_REFRESH_TOKEN', 'OAUTH_CLIENT_SECRET']) {
+      lines.push(
+        formatEnvLine(`${prefix}${name}`, resolveStringEnv(`${prefix}${name}`, true)).replace(
+          '<redacted>',
+          '<redacted> (set)',
+        ),
+      );
+    }
+    for (const name of ['OAUTH_CLIENT_ID', 'OAUTH_TOKEN_URL', 'OAUTH_SCOPE']) {
+      lines.push(formatEnvLine(`${prefix}${name}`, resolveStringEnv(`${prefix}${name}`)));
+    }
+  } else {
+    lines.push(
+      formatEnvLine(`${prefix}PASS`, resolveStringEnv(`${prefix}PASS`, true)).replace(
+        '<redacted>',
+        '<redacted> (set)',
+      ),
+    );
+  }
+
+  // TLS options and restrictions are optional, so they are only shown once configured
+  const listNames = ['ALLOWED_TOOLS', 'DENIED_TOOLS', 'ALLOWED_MAILBOXES', 'DENIED_MAILBOXES'];
+  for (const name of [
+    'TLS_REJECT_UNAUTHORIZED',
+    'TLS_MIN_VERSION',
+    'TLS_SERVERNAME',
+    'READ_ONLY',
+    ...listNames,
+    'MAX_MESSAGES_PER_CALL',
+    'DELETE_STRATEGY',
+  ]) {
+    if (getSettingSource(`${prefix}${name}`) !== undefined) {
+      const resolve = listNames.includes(name) ? resolveListEnv : resolveStringEnv;
+      lines.push(formatEnvLine(`${prefix}${name}`, resolve(`${prefix}${name}`)));
+    }
+  }
+
+  // SMTP settings are optional, so they are only shown once configured
+  const smtpPrefix = `MAIL_SMTP_${accountId}_`;
+  if (readSetting(`${smtpPrefix}HOST`) !== undefined) {
+    lines.push(formatEnvLine(`${smtpPrefix}HOST`, resolveStringEnv(`${smtpPrefix}HOST`)));
+    lines.push(
+      formatEnvLine(`${smtpPrefix}PORT`, resolveNumberEnv(`${smtpPrefix}PORT`, DEFAULT_SMTP_PORT)),
+    );
+    lines.push(
+      formatEnvLine(
+        `${smtpPrefix}SECURE`,
+        resolveBooleanEnv(`${smtpPrefix}SECURE`, DEFAULT_SMTP_SECURE),
+      ),
+    );
+    lines.push(formatEnvLine(`${smtpPrefix}USER`, resolveStringEnv(`${smtpPrefix}USER`)));
+    lines.push(
+      formatEnvLine(`${smtpPrefix}PASS`, resolveStringEnv(`${smtpPrefix}PASS`, true)).replace(
+        '<redacted>',
+        '<redacted> (set)',
+      ),
+    );
+    lines.push(
+      formatEnvLine(
+        `${smtpPrefix}ALLOWED_RECIPIENTS`,
+        resolveListEnv(`${smtpPrefix}ALLOWED_RECIPIENTS`),
+      ),
+    );
+  }
   return lines;
 }
 
@@ -87,8 +184,19 @@ export function getHelpText(): string {
   lines.push('  Secrets are redacted in this output.');
   lines.push('  Accounts are discovered via MAIL_IMAP_*_HOST.');
   lines.push('  If none are set, the default account is used.');
+  lines.push('  Settings may also come from a JSON/YAML file named by MAIL_IMAP_CONFIG;');
+  lines.push('  environment variables override file values.');
   lines.push('');
 
+  const configFile = getConfigFileStatus();
+  if (configFile) {
+    lines.push(`  Config file: ${configFile.path}`);
+    if (configFile.error) {
+      lines.push(`  Error: ${configFile.error}`);
+    }
+    lines.push('');
+  }
+
   const accountEntries = getAccountEnvEntries();
   for (const entry of accountEntries) {
     lines.push(...formatAccountSection(entry.accountId, entry.prefix));
@@ -102,6 +210,12 @@ export function getHelpText(): string {
       resolveBooleanEnv('MAIL_IMAP_WRITE_ENABLED', DEFAULT_WRITE_ENABLED),
     ),
   );
+  lines.push(
+    formatEnvLine(
+      'MAIL_IMAP_SEND_ENABLED',
+      resolveBooleanEnv('MAIL_IMAP_SEND_ENABLED', DEFAULT_SEND_ENABLED),
+    ),
+  );
   lines.push(
     formatEnvLine(
       'MAIL_IMAP_CONNECT_TIMEOUT_MS',
@@ -120,6 +234,26 @@ export function getHelpText(): string {
       resolveNumberEnv('MAIL_IMAP_SOCKET_TIMEOUT_MS', DEFAULT_SOCKET_TIMEOUT_MS),
     ),
   );
+  lines.push(
+    formatEnvLine(
+      'MAIL_IMAP_POOL_MAX_SIZE',
+      resolveNumberEnv('MAIL_IMAP_POOL_MAX_SIZE', DEFAULT_POOL_MAX_SIZE),
+    ),
+  );
+  lines.push(
+    formatEnvLine(
+      'MAIL_IMAP_POOL_IDLE_TIMEOUT_MS',
+      resolveNumberEnv('MAIL_IMAP_POOL_IDLE_TIMEOUT_MS', DEFAULT_POOL_IDLE_TIMEOUT_MS),
+    ),
+  );
+  lines.push(
+    formatEnvLine(
+      'MAIL_IMAP_MAX_SUBSCRIPTIONS',
+      resolveNumberEnv('MAIL_IMAP_MAX_SUBSCRIPTIONS', DEFAULT_MAX_SUBSCRIPTIONS),
+    ),
+  );
+  lines.push(formatEnvLine('MAIL_IMAP_AUDIT_LOG', resolveStringEnv('MAIL_IMAP_AUDIT_LOG')));
+  lines.push(formatEnvLine('MAIL_IMAP_UNDO_MAILBOX', resolveStringEnv('MAIL_IMAP_UNDO_MAILBOX')));
   lines.push('');
   lines.push('  Prompts:');
   lines.push('  The server also exposes phishing triage prompts via prompts/list and prompts/get.');
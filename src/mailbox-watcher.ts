@@ -0,0 +1,239 @@
+import type { ImapFlow } from 'imapflow';
+
+import type { AccountConfig } from './config.js';
+import type { ImapClientFactory } from './connection-pool.js';
+
+export type MailboxWatcherOptions = Readonly<{
+  /** Maximum number of mailboxes watched at the same time (one connection each) */
+  max_watches: number;
+  /** Time in milliseconds to coalesce bursts of mailbox events into one change notification */
+  debounce_ms: number;
+  /** Initial delay in milliseconds before reconnecting a dropped watch connection */
+  reconnect_delay_ms: number;
+  /** Upper bound in milliseconds for the exponential reconnect delay */
+  max_reconnect_delay_ms: number;
+}>;
+
+/** Callback invoked when a watched mailbox may have changed. */
+export type MailboxChangeListener = () => void | Promise<void>;
+
+type Watch = {
+  account: AccountConfig;
+  mailbox: string;
+  onChange: MailboxChangeListener;
+  client: ImapFlow | undefined;
+  closed: boolean;
+  reconnect_attempts: number;
+  reconnect_timer: ReturnType<typeof setTimeout> | undefined;
+  notify_timer: ReturnType<typeof setTimeout> | undefined;
+};
+
+/**
+ * Long-lived IMAP IDLE connections that report changes to watched mailboxes.
+ *
+ * Each watched mailbox gets a dedicated connection outside the connection pool,
+ * since an idling connection cannot serve tool calls. imapflow enters IDLE
+ * automatically once the mailbox is selected (or polls with NOOP when the
+ * server lacks IDLE), and EXISTS, EXPUNGE, and FETCH responses are reported
+ * through the watch's change listener. Dropped connections are re-established
+ * with exponential backoff, followed by a change notification because updates
+ * may have been missed while disconnected.
+ */
+export class MailboxWatcher {
+  /** Active watches keyed by the caller's watch key (e.g. a resource URI) */
+  private readonly watches = new Map<string, Watch>();
+  private readonly options: MailboxWatcherOptions;
+  private readonly createClient: ImapClientFactory;
+
+  constructor(options: MailboxWatcherOptions, createClient: ImapClientFactory) {
+    this.options = options;
+    this.createClient = createClient;
+  }
+
+  /**
+   * Start watching a mailbox.
+   *
+   * Watching a key that is already watched keeps the existing connection and
+   * replaces its listener.
+   *
+   * @param key - Identifier of the watch, used to stop it later
+   * @param account - The account holding the mailbox
+   * @param mailbox - The mailbox to watch
+   * @param onChange - Called (debounced) whenever the mailbox may have changed
+   * @returns An error if the watch limit is reached
+   * @throws The connection error if the mailbox cannot be opened
+   */
+  async watch(
+    key: string,
+    account: AccountConfig,
+    mailbox: string,
+    onChange: MailboxChangeListener,
+  ): Promise<{ ok: true } | { error: string }> {
+    const existing = this.watches.get(key);
+    if (existing) {
+      existing.onChange = onChange;
+      return { ok: true };
+    }
+    if (this.watches.size >= this.options.max_watches) {
+      return {
+        error: `At most ${this.options.max_watches} mailboxes can be watched at once. Unsubscribe from another mailbox first.`,
+      };
+    }
+
+    const watch: Watch = {
+      account,
+      mailbox,
+      onChange,
+      client: undefined,
+      closed: false,
+      reconnect_attempts: 0,
+      reconnect_timer: undefined,
+      notify_timer: undefined,
+    };
+    this.watches.set(key, watch);
+    try {
+      await this.connect(watch);
+    } catch (error: unknown) {
+      this.watches.delete(key);
+      watch.closed = true;
+      throw error;
+    }
+    return { ok: true };
+  }
+
+  /**
+   * Stop watching a mailbox and log out its connection.
+   *
+   * @returns True if the key was being watched
+   */
+  async unwatch(key: string): Promise<boolean> {
+    const watch = this.watches.get(key);
+    if (!watch) {
+      return false;
+    }
+    this.watches.delete(key);
+    await closeWatch(watch);
+    return true;
+  }
+
+  /**
+   * Stop every watch, e.g. when the MCP client disconnects.
+   */
+  async closeAll(): Promise<void> {
+    const watches = [...this.watches.values()];
+    this.watches.clear();
+    await Promise.all(watches.map((watch) => closeWatch(watch)));
+  }
+
+  /**
+   * Report the keys currently being watched.
+   */
+  keys(): string[] {
+    return [...this.watches.keys()];
+  }
+
+  /**
+   * Open a connection for a watch and select its mailbox read-only.
+   */
+  private async connect(watch: Watch): Promise<void> {
+    const client = await this.createClient(watch.account);
+    watch.client = client;
+
+    const changed = (event: { path?: string }): void => {
+      if (event.path === undefined || event.path === watch.mailbox) {
+        this.scheduleNotify(watch);
+      }
+    };
+    client.on('exists', changed);
+    client.on('expunge', changed);
+    client.on('flags', changed);
+    // Errors are followed by 'close'; reconnecting is handled there
+    client.on('error', () => undefined);
+    client.on('close', () => {
+      if (watch.client === client) {
+        watch.client = undefined;
+        this.scheduleReconnect(watch);
+      }
+    });
+
+    try {
+      await client.connect();
+      await client.mailboxOpen(watch.mailbox, { readOnly: true });
+    } catch (error: unknown) {
+      watch.client = undefined;
+      client.close();
+      throw error;
+    }
+    // The watch may have been stopped while the connection was being opened
+    if (watch.closed) {
+      watch.client = undefined;
+      await client.logout().catch(() => undefined);
+    }
+  }
+
+  /**
+   * Coalesce a burst of mailbox events into a single change notification.
+   */
+  private scheduleNotify(watch: Watch): void {
+    if (watch.closed || watch.notify_timer) {
+      return;
+    }
+    watch.notify_timer = setTimeout(() => {
+      watch.notify_timer = undefined;
+      if (!watch.closed) {
+        void Promise.resolve()
+          .then(() => watch.onChange())
+          .catch(() => undefined);
+      }
+    }, this.options.debounce_ms);
+    watch.notify_timer.unref();
+  }
+
+  /**
+   * Re-establish a dropped watch connection with exponential backoff.
+   */
+  private scheduleReconnect(watch: Watch): void {
+    if (watch.closed || watch.reconnect_timer) {
+      return;
+    }
+    const delay = Math.min(
+      this.options.reconnect_delay_ms * 2 ** watch.reconnect_attempts,
+      this.options.max_reconnect_delay_ms,
+    );
+    watch.reconnect_attempts += 1;
+    watch.reconnect_timer = setTimeout(() => {
+      watch.reconnect_timer = undefined;
+      if (watch.closed) {
+        return;
+      }
+      this.connect(watch).then(
+        () => {
+          watch.reconnect_attempts = 0;
+          this.scheduleNotify(watch);
+        },
+        () => {
+          this.scheduleReconnect(watch);
+        },
+      );
+    }, delay);
+    watch.reconnect_timer.unref();
+  }
+}
+
+/**
+ * Cancel a watch's timers and log out its connection.
+ */
+async function closeWatch(watch: Watch): Promise<void> {
+  watch.closed = true;
+  clearTimeout(watch.reconnect_timer);
+  clearTimeout(watch.notify_timer);
+  const client = watch.client;
+  watch.client = undefined;
+  if (client) {
+    try {
+      await client.logout();
+    } catch {
+      client.close();
+    }
+  }
+}
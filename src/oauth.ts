@@ -0,0 +1,120 @@
+import { CONNECT_TIMEOUT_MS, type OAuth2Config } from './config.js';
+
+/** Access tokens are refreshed this long before they expire */
+const REFRESH_MARGIN_MS = 5 * 60_000;
+/** Lifetime assumed when the token endpoint does not report `expires_in` */
+const DEFAULT_TOKEN_LIFETIME_MS = 60 * 60_000;
+
+type CachedToken = Readonly<{
+  access_token: string;
+  /** Latest refresh token; providers such as Microsoft rotate it on every refresh */
+  refresh_token: string;
+  expires_at_ms: number;
+}>;
+
+/** Access tokens obtained by refreshing, keyed by the configured credentials */
+const tokenCache = new Map<string, CachedToken>();
+/** In-flight refreshes, so concurrent connections share a single token request */
+const pendingRefreshes = new Map<string, Promise<CachedToken>>();
+
+/**
+ * Get an access token for XOAUTH2 authentication.
+ *
+ * With a refresh token and client credentials, a cached access token is
+ * returned until it is within a few minutes of expiring, after which a new one
+ * is requested from the token endpoint. Otherwise the configured static access
+ * token is returned as-is.
+ *
+ * @param config - The account's OAuth2 settings
+ * @returns A current access token
+ * @throws An error with code `EOAUTH` if no token is configured or refreshing fails
+ */
+export async function getAccessToken(config: OAuth2Config): Promise<string> {
+  if (!config.refresh_token || !config.client_id || !config.token_url) {
+    if (!config.access_token) {
+      throw oauthError('No OAuth2 access token or refresh token is configured.');
+    }
+    return config.access_token;
+  }
+
+  const key = `${config.token_url}\n${config.client_id}\n${config.refresh_token}`;
+  const cached = tokenCache.get(key);
+  if (cached && cached.expires_at_ms - REFRESH_MARGIN_MS > Date.now()) {
+    return cached.access_token;
+  }
+
+  let pending = pendingRefreshes.get(key);
+  if (!pending) {
+    pending = refreshAccessToken(config, cached?.refresh_token ?? config.refresh_token)
+      .then((token) => {
+        tokenCache.set(key, token);
+        return token;
+      })
+      .finally(() => {
+        pendingRefreshes.delete(key);
+      });
+    pendingRefreshes.set(key, pending);
+  }
+  return (await pending).access_token;
+}
+
+/**
+ * Exchange a refresh token for a new access token (RFC 6749 section 6).
+ */
+async function refreshAccessToken(
+  config: OAuth2Config,
+  refreshToken: string,
+): Promise<CachedToken> {
+  const body = new URLSearchParams({
+    grant_type: 'refresh_token',
+    refresh_token: refreshToken,
+    client_id: config.client_id ?? '',
+  });
+  if (config.client_secret) {
+    body.set('client_secret', config.client_secret);
+  }
+  if (config.scope) {
+    body.set('scope', config.scope);
+  }
+
+  let response: Response;
+  try {
+    response = await fetch(config.token_url ?? '', {
+      method: 'POST',
+      headers: {
+        'content-type': 'application/x-www-form-urlencoded',
+        accept: 'application/json',
+      },
+      body,
+      signal: AbortSignal.timeout(CONNECT_TIMEOUT_MS),
+    });
+  } catch {
+    throw oauthError('Unable to reach the OAuth2 token endpoint.');
+  }
+
+  const payload = (await response.json().catch(() => ({}))) as Record<string, unknown>;
+  const accessToken = payload['access_token'];
+  if (!response.ok || typeof accessToken !== 'string') {
+    // Only the error code is reported; descriptions can echo request details
+    const reason =
+      typeof payload['error'] === 'string' ? payload['error'] : `HTTP ${response.status}`;
+    throw oauthError(`OAuth2 token refresh failed (${reason}).`, reason);
+  }
+
+  const expiresIn = Number(payload['expires_in']);
+  const rotated = payload['refresh_token'];
+  return {
+    access_token: accessToken,
+    refresh_token: typeof rotated === 'string' && rotated ? rotated : refreshToken,
+    expires_at_ms:
+      Date.now() +
+      (Number.isFinite(expiresIn) && expiresIn > 0 ? expiresIn * 1000 : DEFAULT_TOKEN_LIFETIME_MS),
+  };
+}
+
+function oauthError(message: string, oauthErrorCode?: string): Error {
+  return Object.assign(new Error(message), {
+    code: 'EOAUTH',
+    ...(oauthErrorCode ? { oauth_error: oauthErrorCode } : {}),
+  });
+}
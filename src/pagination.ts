@@ -1,5 +1,8 @@
 import { randomUUID } from 'node:crypto';
 
+import type { MailboxSummary } from './contracts.js';
+import type { SearchSort } from './utils/sort.js';
+
 /**
  * Represents a contiguous range of IMAP message UIDs.
  *
@@ -16,6 +19,29 @@ export type UidRange = Readonly<{
   max: number;
 }>;
 
+/**
+ * A message matched by a multi-mailbox search, with the time used to merge results.
+ */
+export type SearchMatch = Readonly<{
+  uid: number;
+  /** INTERNALDATE (received time) in Unix milliseconds */
+  date_ms: number;
+}>;
+
+/**
+ * One mailbox of a multi-mailbox search and how far it has been paged.
+ */
+export type SearchCursorSource = Readonly<{
+  account_id: string;
+  mailbox: string;
+  /** The UIDVALIDITY of the mailbox when the search was performed */
+  uidvalidity: number;
+  /** Matching messages ordered newest first */
+  matches: readonly SearchMatch[];
+  /** Number of this source's matches already returned */
+  offset: number;
+}>;
+
 export type SearchCursor = Readonly<{
   /** Unique identifier for this cursor, used for pagination */
   id: string;
@@ -23,12 +49,18 @@ export type SearchCursor = Readonly<{
   tool: 'imap_search_messages';
   /** The IMAP account identifier for this search */
   account_id: string;
-  /** The mailbox being searched */
+  /** The mailbox being searched ('*' for multi-mailbox searches) */
   mailbox: string;
   /** The UIDVALIDITY of the mailbox when the search was performed */
   uidvalidity: number;
   /** Compressed UID ranges of all matching messages, sorted in descending order */
   uid_ranges: readonly UidRange[];
+  /** Requested sort order; absent for the default newest-UID-first order */
+  sort?: SearchSort;
+  /** Matching UIDs in sort order; used instead of uid_ranges when a sort is applied */
+  ordered_uids?: readonly number[];
+  /** Per-mailbox matches and offsets for multi-mailbox searches */
+  sources?: readonly SearchCursorSource[];
   /** Current offset into the results (how many messages have been returned) */
   offset: number;
   /** Total number of messages matching the search */
@@ -43,6 +75,42 @@ export type SearchCursor = Readonly<{
   expires_at_ms: number;
 }>;
 
+/**
+ * Snapshot of an imap_list_mailboxes result being paged through.
+ *
+ * The matching mailboxes are captured when the first page is listed, so later
+ * pages are consistent even if mailboxes are created or deleted meanwhile.
+ */
+export type MailboxListCursor = Readonly<{
+  /** Unique identifier for this cursor, used for pagination */
+  id: string;
+  /** The tool that created this cursor */
+  tool: 'imap_list_mailboxes';
+  /** The IMAP account identifier for this listing */
+  account_id: string;
+  /** Matching mailboxes in listing order */
+  mailboxes: readonly MailboxSummary[];
+  /**
+   * How message counts are gathered, absent when counts were not requested.
+   * With 'list_status' the counts were captured with the mailboxes; with
+   * 'status' they are fetched for each page.
+   */
+  counts_strategy?: 'list_status' | 'status';
+  /** Whether pages are returned as a tree */
+  tree: boolean;
+  /** Current offset into the mailboxes (how many have been returned) */
+  offset: number;
+  /** Total number of matching mailboxes */
+  total: number;
+  /** Unix timestamp (ms) when this cursor was created */
+  created_at_ms: number;
+  /** Unix timestamp (ms) when this cursor expires and should be removed */
+  expires_at_ms: number;
+}>;
+
+/** Any cursor held by a CursorStore. */
+type StoredCursor = SearchCursor | MailboxListCursor;
+
 export type CursorStoreOptions = Readonly<{
   /** Time-to-live for cursors in milliseconds before they expire */
   ttl_ms: number;
@@ -187,24 +255,84 @@ export function sliceUidsFromDescendingRanges(
 }
 
 /**
- * Thread-safe in-memory store for managing search pagination cursors.
+ * Extract a page of UIDs from a cursor, honoring its sort order.
+ *
+ * Sorted cursors keep their UIDs in an explicit order so pages stay stable;
+ * unsorted cursors use the compressed descending ranges.
+ *
+ * @param cursor - The cursor holding the matched UIDs
+ * @param offset - Number of UIDs to skip from the start
+ * @param limit - Maximum number of UIDs to return
+ * @returns Array of UIDs in cursor order
+ */
+export function sliceCursorUids(
+  cursor: Pick<SearchCursor, 'uid_ranges' | 'ordered_uids'>,
+  offset: number,
+  limit: number,
+): number[] {
+  if (cursor.ordered_uids) {
+    if (limit <= 0 || offset < 0) {
+      return [];
+    }
+    return cursor.ordered_uids.slice(offset, offset + limit);
+  }
+  return sliceUidsFromDescendingRanges(cursor.uid_ranges, offset, limit);
+}
+
+/**
+ * Take the next page of a multi-mailbox search by merging sources newest first.
+ *
+ * Each source must already be ordered newest first. Ties go to the earlier
+ * source so pages are stable.
+ *
+ * @param sources - The sources with their current offsets
+ * @param limit - Maximum number of matches to return
+ * @returns The page as source indexes and UIDs, plus each source's new offset
+ */
+export function mergeSourcePage(
+  sources: readonly SearchCursorSource[],
+  limit: number,
+): { page: Array<{ source: number; uid: number }>; offsets: number[] } {
+  const offsets = sources.map((source) => source.offset);
+  const page: Array<{ source: number; uid: number }> = [];
+  while (page.length < limit) {
+    let best: { source: number; match: SearchMatch } | undefined;
+    sources.forEach((source, index) => {
+      const match = source.matches[offsets[index] ?? 0];
+      if (match && (!best || match.date_ms > best.match.date_ms)) {
+        best = { source: index, match };
+      }
+    });
+    if (!best) {
+      break;
+    }
+    page.push({ source: best.source, uid: best.match.uid });
+    offsets[best.source] = (offsets[best.source] ?? 0) + 1;
+  }
+  return { page, offsets };
+}
+
+/**
+ * Thread-safe in-memory store for managing pagination cursors.
  *
- * This class provides a storage mechanism for search cursors that supports:
+ * This class provides a storage mechanism for search and mailbox list cursors
+ * that supports:
  * - Creating cursors with automatic expiration (TTL)
  * - Retrieving cursors with expiration checking
  * - Updating cursor state (e.g., advancing the offset)
  * - Automatic cleanup of expired cursors
  * - LRU-style eviction when the maximum entry count is exceeded
  *
- * The store is designed to be used with the search_messages tool to implement
- * server-side pagination while keeping memory usage bounded.
+ * The store is designed to be used with the search_messages and list_mailboxes
+ * tools to implement server-side pagination while keeping memory usage bounded.
+ * A cursor is only returned by the getter for the tool that created it.
  *
  * Note: This implementation is not truly thread-safe across multiple Node.js
  * worker threads, but is safe for single-threaded async operations.
  */
 export class CursorStore {
   /** Internal map storing all active cursors, keyed by their unique ID */
-  private readonly entries = new Map<string, SearchCursor>();
+  private readonly entries = new Map<string, StoredCursor>();
   /** Time-to-live for new cursors in milliseconds */
   private readonly ttlMs: number;
   /** Maximum number of cursors to store before evicting old ones */
@@ -235,9 +363,27 @@ export class CursorStore {
       created_at_ms: now,
       expires_at_ms: now + this.ttlMs,
     };
-    this.entries.set(cursor.id, cursor);
-    this.cleanup(now);
-    this.enforceLimit();
+    this.insert(cursor, now);
+    return cursor;
+  }
+
+  /**
+   * Create a new mailbox list cursor from the provided data.
+   *
+   * @param input - The cursor data excluding auto-generated fields (id, timestamps)
+   * @returns The newly created and stored cursor
+   */
+  createMailboxListCursor(
+    input: Omit<MailboxListCursor, 'id' | 'created_at_ms' | 'expires_at_ms'>,
+  ): MailboxListCursor {
+    const now = Date.now();
+    const cursor: MailboxListCursor = {
+      ...input,
+      id: randomUUID(),
+      created_at_ms: now,
+      expires_at_ms: now + this.ttlMs,
+    };
+    this.insert(cursor, now);
     return cursor;
   }
 
@@ -252,17 +398,19 @@ export class CursorStore {
    * @returns The cursor if found and not expired, or null otherwise
    */
   getSearchCursor(id: string): SearchCursor | null {
-    const now = Date.now();
-    this.cleanup(now);
-    const cursor = this.entries.get(id);
-    if (!cursor) {
-      return null;
-    }
-    if (cursor.expires_at_ms <= now) {
-      this.entries.delete(id);
-      return null;
-    }
-    return cursor;
+    const cursor = this.getEntry(id);
+    return cursor?.tool === 'imap_search_messages' ? cursor : null;
+  }
+
+  /**
+   * Retrieve a mailbox list cursor by ID, checking that it hasn't expired.
+   *
+   * @param id - The unique identifier of the cursor to retrieve
+   * @returns The cursor if found and not expired, or null otherwise
+   */
+  getMailboxListCursor(id: string): MailboxListCursor | null {
+    const cursor = this.getEntry(id);
+    return cursor?.tool === 'imap_list_mailboxes' ? cursor : null;
   }
 
   /**
@@ -275,9 +423,14 @@ export class CursorStore {
    *
    * @param id - The unique identifier of the cursor to update
    * @param offset - The new offset value to set
+   * @param sourceOffsets - New per-source offsets for multi-mailbox cursors
    * @returns The updated cursor, or null if not found or expired
    */
-  updateSearchCursor(id: string, offset: number): SearchCursor | null {
+  updateSearchCursor(
+    id: string,
+    offset: number,
+    sourceOffsets?: readonly number[],
+  ): SearchCursor | null {
     const cursor = this.getSearchCursor(id);
     if (!cursor) {
       return null;
@@ -286,7 +439,32 @@ export class CursorStore {
       this.entries.delete(id);
       return null;
     }
-    const updated: SearchCursor = { ...cursor, offset };
+    const sources = cursor.sources?.map((source, index) => ({
+      ...source,
+      offset: sourceOffsets?.[index] ?? source.offset,
+    }));
+    const updated: SearchCursor = sources ? { ...cursor, offset, sources } : { ...cursor, offset };
+    this.entries.set(id, updated);
+    return updated;
+  }
+
+  /**
+   * Update the offset of an existing mailbox list cursor.
+   *
+   * @param id - The unique identifier of the cursor to update
+   * @param offset - The new offset value to set
+   * @returns The updated cursor, or null if not found, expired, or the offset is out of range
+   */
+  updateMailboxListCursor(id: string, offset: number): MailboxListCursor | null {
+    const cursor = this.getMailboxListCursor(id);
+    if (!cursor) {
+      return null;
+    }
+    if (!Number.isInteger(offset) || offset < 0 || offset > cursor.total) {
+      this.entries.delete(id);
+      return null;
+    }
+    const updated: MailboxListCursor = { ...cursor, offset };
     this.entries.set(id, updated);
     return updated;
   }
@@ -303,6 +481,32 @@ export class CursorStore {
     this.entries.delete(id);
   }
 
+  /**
+   * Store a new cursor, then drop expired cursors and enforce the entry limit.
+   */
+  private insert(cursor: StoredCursor, now: number): void {
+    this.entries.set(cursor.id, cursor);
+    this.cleanup(now);
+    this.enforceLimit();
+  }
+
+  /**
+   * Retrieve a cursor of any kind by ID, removing it if it has expired.
+   */
+  private getEntry(id: string): StoredCursor | null {
+    const now = Date.now();
+    this.cleanup(now);
+    const cursor = this.entries.get(id);
+    if (!cursor) {
+      return null;
+    }
+    if (cursor.expires_at_ms <= now) {
+      this.entries.delete(id);
+      return null;
+    }
+    return cursor;
+  }
+
   /**
    * Remove all expired cursors from the store.
    *
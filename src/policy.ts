@@ -1,8 +1,370 @@
+import { loadAccountConfig, type AccountConfig } from './config.js';
 import type { ToolName } from './contracts.js';
+import { decodeMessageId } from './message-id.js';
+import { listConfiguredAccountIds } from './utils/account.js';
 
 export const WRITE_TOOLS = new Set<ToolName>([
   'imap_update_message_flags',
+  'imap_update_message_labels',
   'imap_copy_message',
   'imap_move_message',
   'imap_delete_message',
+  'imap_apply_to_search',
+  'imap_create_mailbox',
+  'imap_rename_mailbox',
+  'imap_delete_mailbox',
+  'imap_subscribe_mailbox',
+  'imap_unsubscribe_mailbox',
+  'imap_create_draft',
+  'imap_undo',
 ]);
+
+/**
+ * Tools that submit mail over SMTP. They are gated by MAIL_IMAP_SEND_ENABLED,
+ * separately from WRITE_TOOLS.
+ */
+export const SEND_TOOLS = new Set<ToolName>(['imap_send_draft']);
+
+/**
+ * Find the recipients that a send allowlist does not permit.
+ *
+ * Allowlist entries are full addresses or `@domain` entries, compared
+ * case-insensitively. An empty allowlist permits every recipient.
+ *
+ * @param recipients - Envelope recipient addresses
+ * @param allowlist - Lowercase addresses and `@domain` entries
+ * @returns The recipients that are not allowed, in their original order
+ */
+export function findDisallowedRecipients(
+  recipients: readonly string[],
+  allowlist: readonly string[],
+): string[] {
+  if (allowlist.length === 0) {
+    return [];
+  }
+  return recipients.filter((recipient) => {
+    const address = recipient.toLowerCase();
+    const domain = address.slice(address.lastIndexOf('@'));
+    return !allowlist.includes(address) && !allowlist.includes(domain);
+  });
+}
+
+/**
+ * Tools that do not act on a single account. Account policies only apply to
+ * them when `account_id` narrows the call to one account; imap_audit_log also
+ * checks each entry with isAuditAccessAllowed.
+ */
+const ACCOUNTLESS_TOOLS = new Set<ToolName>(['imap_list_accounts', 'imap_audit_log']);
+
+/**
+ * Argument fields that name a mailbox of the call's account.
+ */
+const MAILBOX_FIELDS = ['mailbox', 'new_mailbox', 'source_mailbox', 'parent'] as const;
+
+/**
+ * Argument fields that list mailboxes of the call's account. Gmail labels are
+ * mailboxes, so the labels of imap_update_message_labels are included.
+ */
+const MAILBOX_LIST_FIELDS = ['mailboxes', 'add_labels', 'remove_labels'] as const;
+
+/**
+ * Tools that act on a mailbox together with every mailbox below it.
+ */
+const MAILBOX_TREE_TOOLS = new Set<ToolName>(['imap_rename_mailbox', 'imap_delete_mailbox']);
+
+/**
+ * Hierarchy delimiters a mailbox pattern may use to name the mailboxes below another.
+ */
+const HIERARCHY_DELIMITERS = ['/', '.'] as const;
+
+/**
+ * Argument fields that hold message identifiers, which encode their mailbox.
+ */
+const MESSAGE_ID_FIELDS = ['message_id', 'source_message_id'] as const;
+
+/**
+ * Check whether an account's policy permits a tool.
+ *
+ * Read-only accounts refuse write and send tools. A tool must match
+ * `allowed_tools` when that list is set, and must not match `denied_tools`.
+ *
+ * @param toolName - The tool to check
+ * @param account - The account whose policy applies
+ * @returns True if the tool may be used with the account
+ */
+export function isToolAllowedForAccount(toolName: ToolName, account: AccountConfig): boolean {
+  if (account.read_only && (WRITE_TOOLS.has(toolName) || SEND_TOOLS.has(toolName))) {
+    return false;
+  }
+  return matchesToolRules(toolName, account);
+}
+
+/**
+ * Check whether a tool should be listed to clients.
+ *
+ * A tool is hidden when no configured account's policy permits it. Without
+ * configured accounts, every tool is listed so startup errors stay visible.
+ */
+export function isToolListed(toolName: ToolName): boolean {
+  if (ACCOUNTLESS_TOOLS.has(toolName)) {
+    return true;
+  }
+  const accounts = listConfiguredAccountIds()
+    .map((accountId) => loadAccountConfig(accountId))
+    .filter((account): account is AccountConfig => account !== null);
+  return (
+    accounts.length === 0 || accounts.some((account) => isToolAllowedForAccount(toolName, account))
+  );
+}
+
+/**
+ * Evaluate the account policies for a tool call before it is dispatched.
+ *
+ * Checks, for every account the call touches (including the destination of a
+ * cross-account copy and each account of a multi-account search via `account_ids`):
+ * - the tool allow and deny lists
+ * - read-only accounts, for the account that a write tool changes
+ * - the maximum number of messages per write call (`message_ids`, or the
+ *   `max_messages` threshold of imap_apply_to_search)
+ * - mailbox deny lists for the mailboxes below the mailbox that
+ *   imap_rename_mailbox or imap_delete_mailbox acts on
+ * - mailbox allow and deny lists, for mailboxes and Gmail labels named in the
+ *   arguments, including the mailboxes encoded in message identifiers; special-use
+ *   attributes in `mailboxes` (e.g. `\Sent`), and mailboxes a tool picks itself
+ *   such as the Drafts mailbox, are checked by the tool once it resolves them
+ *
+ * @param toolName - The tool being called
+ * @param args - The validated tool arguments
+ * @returns An error message, or undefined if the call is allowed
+ */
+export function evaluateToolPolicy(
+  toolName: ToolName,
+  args: Readonly<Record<string, unknown>>,
+): string | undefined {
+  if (ACCOUNTLESS_TOOLS.has(toolName) && typeof args['account_id'] !== 'string') {
+    return undefined;
+  }
+  const accountId = typeof args['account_id'] === 'string' ? args['account_id'] : 'default';
+  const destinationAccountId =
+    typeof args['destination_account_id'] === 'string' ? args['destination_account_id'] : accountId;
+  const searchedAccounts =
+    args['account_ids'] === 'all'
+      ? listConfiguredAccountIds()
+      : Array.isArray(args['account_ids'])
+        ? args['account_ids'].filter((id): id is string => typeof id === 'string')
+        : [accountId];
+  const isWrite = WRITE_TOOLS.has(toolName) || SEND_TOOLS.has(toolName);
+
+  const involved = [...new Set([...searchedAccounts, destinationAccountId])];
+  for (const id of involved) {
+    const account = loadAccountConfig(id);
+    if (account && !matchesToolRules(toolName, account)) {
+      return `Tool '${toolName}' is not allowed for account '${id}'.`;
+    }
+  }
+  if (isWrite && loadAccountConfig(destinationAccountId)?.read_only) {
+    return `Account '${destinationAccountId}' is read-only.`;
+  }
+
+  if (isWrite) {
+    const limits = involved.flatMap((id) => {
+      const limit = loadAccountConfig(id)?.max_messages_per_call;
+      return limit === undefined ? [] : [limit];
+    });
+    const limit = limits.length > 0 ? Math.min(...limits) : undefined;
+    if (limit !== undefined) {
+      const messageIds = Array.isArray(args['message_ids']) ? args['message_ids'].length : 0;
+      if (messageIds > limit) {
+        return `At most ${limit} messages may be changed per call; split message_ids into smaller batches.`;
+      }
+      const maxMessages = args['max_messages'];
+      if (typeof maxMessages === 'number' && maxMessages > limit) {
+        return `At most ${limit} messages may be changed per call; set max_messages to ${limit} or less.`;
+      }
+    }
+  }
+
+  // Collect every (account, mailbox) pair the arguments refer to; no mailbox means all of them
+  const references: Array<{ account_id: string; mailbox?: string }> = [];
+  for (const searched of searchedAccounts) {
+    for (const field of MAILBOX_FIELDS) {
+      const value = args[field];
+      if (typeof value === 'string') {
+        references.push({ account_id: searched, mailbox: value });
+      }
+    }
+    for (const field of MAILBOX_LIST_FIELDS) {
+      const mailboxes = args[field];
+      if (mailboxes === 'all') {
+        references.push({ account_id: searched });
+      } else if (Array.isArray(mailboxes)) {
+        for (const mailbox of mailboxes) {
+          // Special-use attributes only name a mailbox once the tool resolves them
+          if (typeof mailbox === 'string' && !(field === 'mailboxes' && mailbox.startsWith('\\'))) {
+            // The \Inbox system label is the INBOX mailbox
+            const name = field !== 'mailboxes' && mailbox === '\\Inbox' ? 'INBOX' : mailbox;
+            references.push({ account_id: searched, mailbox: name });
+          }
+        }
+      }
+    }
+  }
+  if (typeof args['destination_mailbox'] === 'string') {
+    references.push({ account_id: destinationAccountId, mailbox: args['destination_mailbox'] });
+  }
+  const messageIds = [
+    ...MESSAGE_ID_FIELDS.map((field) => args[field]),
+    ...(Array.isArray(args['message_ids']) ? (args['message_ids'] as unknown[]) : []),
+    ...(Array.isArray(args['attachments'])
+      ? (args['attachments'] as unknown[]).map((attachment) =>
+          attachment && typeof attachment === 'object'
+            ? (attachment as Record<string, unknown>)['message_id']
+            : undefined,
+        )
+      : []),
+  ];
+  for (const messageId of messageIds) {
+    const decoded = typeof messageId === 'string' ? decodeMessageId(messageId) : null;
+    if (decoded) {
+      references.push({ account_id: decoded.account_id, mailbox: decoded.mailbox });
+    }
+  }
+
+  for (const reference of references) {
+    const error =
+      reference.mailbox === undefined
+        ? evaluateAllMailboxesPolicy(reference.account_id)
+        : evaluateMailboxPolicy(reference.account_id, reference.mailbox);
+    if (error) {
+      return error;
+    }
+  }
+
+  // Renaming or deleting a mailbox also moves or removes its children
+  const mailbox = args['mailbox'];
+  if (MAILBOX_TREE_TOOLS.has(toolName) && typeof mailbox === 'string') {
+    const denied = loadAccountConfig(accountId)?.denied_mailboxes ?? [];
+    if (denied.some((pattern) => mayMatchDescendant(pattern, mailbox))) {
+      return `Mailbox '${mailbox}' contains mailboxes that are not allowed for account '${accountId}'.`;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Evaluate an account's mailbox allow and deny lists for one mailbox.
+ *
+ * Used by tool calls, by resources, which name their mailbox in the URI, and by
+ * tools for the mailboxes they resolve themselves (special-use attributes and
+ * defaults such as `\Sent` or `\Drafts`).
+ *
+ * @param accountId - The account whose policy applies
+ * @param mailbox - The mailbox being accessed
+ * @returns An error message, or undefined if the mailbox may be accessed
+ */
+export function evaluateMailboxPolicy(accountId: string, mailbox: string): string | undefined {
+  const account = loadAccountConfig(accountId);
+  if (!account || isMailboxAllowed(mailbox, account)) {
+    return undefined;
+  }
+  return `Mailbox '${mailbox}' is not allowed for account '${accountId}'.`;
+}
+
+/**
+ * Check whether imap_audit_log may show what a call did on an account.
+ *
+ * The account's tool rules must permit imap_audit_log, and its mailbox allow
+ * and deny lists every mailbox the entry names. Entries of accounts that are
+ * no longer configured have no policy to apply.
+ *
+ * @param accountId - The account the entry involves
+ * @param mailboxes - The mailboxes of that account the entry names
+ * @returns True if the entry may be shown
+ */
+export function isAuditAccessAllowed(
+  accountId: string,
+  mailboxes: readonly (string | undefined)[],
+): boolean {
+  const account = loadAccountConfig(accountId);
+  if (!account) {
+    return true;
+  }
+  return (
+    matchesToolRules('imap_audit_log', account) &&
+    mailboxes.every((mailbox) => mailbox === undefined || isMailboxAllowed(mailbox, account))
+  );
+}
+
+/**
+ * Refuse access to every mailbox of an account that restricts mailboxes.
+ */
+function evaluateAllMailboxesPolicy(accountId: string): string | undefined {
+  const account = loadAccountConfig(accountId);
+  if (!account || (!account.allowed_mailboxes && !account.denied_mailboxes)) {
+    return undefined;
+  }
+  return `Account '${accountId}' restricts mailboxes; list them instead of "all".`;
+}
+
+/**
+ * Check a tool against an account's tool allow and deny lists.
+ */
+function matchesToolRules(toolName: ToolName, account: AccountConfig): boolean {
+  if (account.denied_tools?.some((pattern) => matchesPattern(toolName, pattern))) {
+    return false;
+  }
+  return (
+    !account.allowed_tools ||
+    account.allowed_tools.some((pattern) => matchesPattern(toolName, pattern))
+  );
+}
+
+/**
+ * Check a mailbox against an account's mailbox allow and deny lists.
+ *
+ * INBOX is case-insensitive (RFC 3501); other names are compared exactly.
+ */
+function isMailboxAllowed(mailbox: string, account: AccountConfig): boolean {
+  const normalize = (name: string): string => (name.toUpperCase() === 'INBOX' ? 'INBOX' : name);
+  const name = normalize(mailbox);
+  if (account.denied_mailboxes?.some((pattern) => matchesPattern(name, normalize(pattern)))) {
+    return false;
+  }
+  return (
+    !account.allowed_mailboxes ||
+    account.allowed_mailboxes.some((pattern) => matchesPattern(name, normalize(pattern)))
+  );
+}
+
+/**
+ * Check whether a pattern can match a mailbox below `mailbox` in the hierarchy,
+ * so `Legal/*` covers `Legal` itself.
+ *
+ * A `*` can absorb any remainder, so only the literal text before the first `*`
+ * has to agree with the descendant prefix.
+ */
+function mayMatchDescendant(pattern: string, mailbox: string): boolean {
+  const star = pattern.indexOf('*');
+  const literal = star === -1 ? pattern : pattern.slice(0, star);
+  return HIERARCHY_DELIMITERS.some((delimiter) => {
+    const prefix = `${mailbox}${delimiter}`;
+    return star === -1
+      ? literal.startsWith(prefix) && literal.length > prefix.length
+      : literal.startsWith(prefix) || prefix.startsWith(literal);
+  });
+}
+
+/**
+ * Match a value against a pattern in which `*` stands for any characters,
+ * including hierarchy delimiters (so `Legal/*` matches every mailbox below Legal).
+ */
+function matchesPattern(value: string, pattern: string): boolean {
+  if (!pattern.includes('*')) {
+    return value === pattern;
+  }
+  const source = pattern
+    .split('*')
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${source}$`).test(value);
+}
@@ -97,6 +97,10 @@ function renderAllowedDestinationsGuidance(account_id: string): string {
   lines.push('Step 1: Discover allowed destinations.');
   lines.push(`- Call imap_list_mailboxes with: ${JSON.stringify({ account_id }, null, 0)}.`);
   lines.push('- Use the returned mailbox names as the complete ALLOWED_DESTINATIONS list.');
+  lines.push('- Exclude mailboxes with noselect=true; they cannot hold messages.');
+  lines.push(
+    '- Identify Trash, Junk, Archive, Sent, and Drafts by their special_use attribute (e.g., \\Trash, \\Archive), not by name.',
+  );
   lines.push(
     '- If you need a folder/path, it must exactly match one of the returned mailbox names (including separators).',
   );
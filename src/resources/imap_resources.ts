@@ -1,10 +1,16 @@
 import { ResourceTemplate, type McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
-import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import {
+  ErrorCode,
+  McpError,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+} from '@modelcontextprotocol/sdk/types.js';
 import { htmlToText } from 'html-to-text';
 import sanitizeHtml from 'sanitize-html';
 import type { ImapFlow } from 'imapflow';
 
 import type { AccountConfig } from '../config.js';
+import { evaluateMailboxPolicy } from '../policy.js';
 import { loadAccountOrError } from '../utils/account.js';
 import { openMailboxLock } from '../utils/mailbox.js';
 import { parseMailSource } from '../utils/mailparser.js';
@@ -16,6 +22,7 @@ import {
   summarizeEnvelope,
   formatFlags,
   collectHeaders,
+  MAILBOX_WATCHER,
   mapImapError,
   nowUtcIso,
   UNTRUSTED_EMAIL_CONTENT_NOTE,
@@ -29,11 +36,14 @@ import {
   messageResourceUri,
   type AttachmentLocator,
   type MessageLocator,
+  parseMailboxResourceUri,
 } from './uri.js';
+import { encodeMessageId } from '../message-id.js';
 
 const DEFAULT_MESSAGE_BODY_MAX_CHARS = 2000;
 const DEFAULT_MESSAGE_RAW_MAX_BYTES = 200_000;
 const DEFAULT_ATTACHMENT_TEXT_MAX_CHARS = 10_000;
+const MAILBOX_RECENT_MESSAGES = 10;
 
 // Base64 encoding overhead + token bloat can get painful quickly; keep a tight default.
 const DEFAULT_ATTACHMENT_BLOB_MAX_BYTES = 2_000_000;
@@ -112,11 +122,19 @@ function getTemplateVar(
   throw new McpError(ErrorCode.InvalidParams, `Missing ${name}.`);
 }
 
-function loadAccountOrThrow(account_id: string): AccountConfig {
+/**
+ * Load the account of a resource and apply its mailbox allow and deny lists,
+ * the same way they apply to tool calls.
+ */
+function loadAccountOrThrow(account_id: string, mailbox: string): AccountConfig {
   const result = loadAccountOrError(account_id);
   if ('error' in result) {
     throw new McpError(ErrorCode.InvalidParams, result.error);
   }
+  const policyError = evaluateMailboxPolicy(account_id, mailbox);
+  if (policyError) {
+    throw new McpError(ErrorCode.InvalidRequest, policyError);
+  }
   return result.account;
 }
 
@@ -144,7 +162,145 @@ async function withMailboxReadLock<T>(
   });
 }
 
+/**
+ * Read a mailbox's status and its newest message summaries.
+ */
+async function readMailboxSnapshot(
+  account: AccountConfig,
+  account_id: string,
+  mailbox: string,
+): Promise<Record<string, unknown>> {
+  return await withImapClient(account, async (client) => {
+    const lockResult = await openMailboxLock(client, mailbox, {
+      readOnly: true,
+      description: 'resources/read',
+    });
+    if ('error' in lockResult) {
+      throw new McpError(ErrorCode.InvalidParams, lockResult.error);
+    }
+    const { lock, uidvalidity } = lockResult;
+    try {
+      const selected = client.mailbox;
+      const exists = selected ? selected.exists : 0;
+      const unseen = await client.search({ seen: false }, { uid: true });
+
+      const recent: Array<Record<string, unknown>> = [];
+      if (exists > 0) {
+        const first = Math.max(1, exists - MAILBOX_RECENT_MESSAGES + 1);
+        for await (const message of client.fetch(`${first}:*`, {
+          uid: true,
+          envelope: true,
+          flags: true,
+        })) {
+          if (message.uid === undefined) {
+            continue;
+          }
+          const locator: MessageLocator = { account_id, mailbox, uidvalidity, uid: message.uid };
+          const envelopeSummary = summarizeEnvelope(message.envelope);
+          recent.push({
+            message_id: encodeMessageId(locator),
+            message_uri: messageResourceUri(locator),
+            uid: message.uid,
+            date: envelopeSummary.date,
+            from: envelopeSummary.from,
+            subject: envelopeSummary.subject,
+            flags: formatFlags(message.flags),
+          });
+        }
+      }
+      recent.sort((a, b) => Number(b['uid']) - Number(a['uid']));
+
+      return {
+        account_id,
+        mailbox: {
+          name: mailbox,
+          uidvalidity,
+          uidnext: selected ? selected.uidNext : undefined,
+          highest_modseq: selected ? selected.highestModseq?.toString() : undefined,
+          messages: exists,
+          unseen: unseen ? unseen.length : undefined,
+        },
+        recent_messages: recent,
+        _meta: {
+          now_utc: nowUtcIso(),
+          read_side_effects: 'none',
+          security_note: UNTRUSTED_EMAIL_CONTENT_NOTE,
+        },
+      };
+    } finally {
+      lock.release();
+    }
+  });
+}
+
 export function registerImapResources(server: McpServer): void {
+  // Mailbox resource; the only resource that supports resources/subscribe
+  server.registerResource(
+    'imap_mailbox',
+    new ResourceTemplate('imap://{account_id}/mailbox/{mailbox}', { list: undefined }),
+    {
+      title: 'IMAP Mailbox',
+      description:
+        'Read-only mailbox status (message/unseen counts, UIDNEXT) and the newest message summaries. Subscribe to be notified of new, expunged, or re-flagged messages.',
+      mimeType: 'application/json',
+    },
+    async (uri, variables) => {
+      const account_id = getTemplateVar(variables, 'account_id');
+      const mailbox = decodeMailboxSegment(getTemplateVar(variables, 'mailbox'));
+      const account = loadAccountOrThrow(account_id, mailbox);
+
+      try {
+        const result = await readMailboxSnapshot(account, account_id, mailbox);
+        return {
+          contents: [
+            {
+              uri: uri.toString(),
+              mimeType: 'application/json',
+              text: JSON.stringify(result),
+            },
+          ],
+        };
+      } catch (error: unknown) {
+        const mapped = mapImapError(error);
+        if (error instanceof McpError) {
+          throw error;
+        }
+        throw new McpError(ErrorCode.InternalError, mapped.message);
+      }
+    },
+  );
+
+  // Subscriptions keep an IDLE connection open per mailbox and emit
+  // notifications/resources/updated when the server reports changes
+  server.server.registerCapabilities({ resources: { subscribe: true } });
+  server.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    const target = parseMailboxResourceUri(request.params.uri);
+    if (!target) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        'Only mailbox resources (imap://{account_id}/mailbox/{mailbox}) support subscriptions.',
+      );
+    }
+    const account = loadAccountOrThrow(target.account_id, target.mailbox);
+    const uri = request.params.uri;
+    let result: Awaited<ReturnType<typeof MAILBOX_WATCHER.watch>>;
+    try {
+      result = await MAILBOX_WATCHER.watch(uri, account, target.mailbox, async () => {
+        await server.server.sendResourceUpdated({ uri });
+      });
+    } catch (error: unknown) {
+      throw new McpError(ErrorCode.InternalError, mapImapError(error).message);
+    }
+    if ('error' in result) {
+      throw new McpError(ErrorCode.InvalidRequest, result.error);
+    }
+    return {};
+  });
+  server.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    await MAILBOX_WATCHER.unwatch(request.params.uri);
+    return {};
+  });
+
   // Message (parsed) resource
   server.registerResource(
     'imap_message',
@@ -165,7 +321,7 @@ export function registerImapResources(server: McpServer): void {
       );
       const uid = parseNumberOrThrow(getTemplateVar(variables, 'uid'), 'uid');
 
-      const account = loadAccountOrThrow(account_id);
+      const account = loadAccountOrThrow(account_id, mailbox);
 
       try {
         const locator: MessageLocator = { account_id, mailbox, uidvalidity, uid };
@@ -299,7 +455,7 @@ export function registerImapResources(server: McpServer): void {
       );
       const uid = parseNumberOrThrow(getTemplateVar(variables, 'uid'), 'uid');
 
-      const account = loadAccountOrThrow(account_id);
+      const account = loadAccountOrThrow(account_id, mailbox);
 
       try {
         const result = await withMailboxReadLock(
@@ -368,7 +524,7 @@ export function registerImapResources(server: McpServer): void {
       const uid = parseNumberOrThrow(getTemplateVar(variables, 'uid'), 'uid');
       const part_id = decodeURIComponent(getTemplateVar(variables, 'part_id'));
 
-      const account = loadAccountOrThrow(account_id);
+      const account = loadAccountOrThrow(account_id, mailbox);
 
       try {
         const result = await withMailboxReadLock(
@@ -477,7 +633,7 @@ export function registerImapResources(server: McpServer): void {
       const uid = parseNumberOrThrow(getTemplateVar(variables, 'uid'), 'uid');
       const part_id = decodeURIComponent(getTemplateVar(variables, 'part_id'));
 
-      const account = loadAccountOrThrow(account_id);
+      const account = loadAccountOrThrow(account_id, mailbox);
 
       try {
         const result = await withMailboxReadLock(
@@ -29,6 +29,32 @@ export function decodeMailboxSegment(segment: string): string {
   return decodeURIComponent(segment);
 }
 
+export type MailboxLocator = Readonly<{
+  account_id: string;
+  mailbox: string;
+}>;
+
+export function mailboxResourceUri(locator: MailboxLocator): string {
+  return `imap://${locator.account_id}/mailbox/${encodeMailboxSegment(locator.mailbox)}`;
+}
+
+/**
+ * Parse a mailbox resource URI (`imap://{account_id}/mailbox/{mailbox}`).
+ *
+ * @returns The account and mailbox, or null if the URI is not a mailbox resource
+ */
+export function parseMailboxResourceUri(uri: string): MailboxLocator | null {
+  const match = /^imap:\/\/([^/]+)\/mailbox\/([^/]+)$/.exec(uri);
+  if (!match?.[1] || !match[2]) {
+    return null;
+  }
+  try {
+    return { account_id: match[1], mailbox: decodeMailboxSegment(match[2]) };
+  } catch {
+    return null;
+  }
+}
+
 export function messageResourceUri(locator: MessageLocator): string {
   return `imap://${locator.account_id}/mailbox/${encodeMailboxSegment(locator.mailbox)}/message/${locator.uidvalidity}/${locator.uid}`;
 }
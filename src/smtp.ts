@@ -0,0 +1,140 @@
+import { createTransport } from 'nodemailer';
+
+import {
+  CONNECT_TIMEOUT_MS,
+  GREETING_TIMEOUT_MS,
+  SOCKET_TIMEOUT_MS,
+  type SmtpConfig,
+} from './config.js';
+import { getAccessToken } from './oauth.js';
+
+/**
+ * SMTP envelope for a submission: the MAIL FROM address and RCPT TO addresses.
+ */
+export type SmtpEnvelope = Readonly<{ from: string; to: readonly string[] }>;
+
+export type SmtpSendResult = Readonly<{
+  accepted: string[];
+  rejected: string[];
+  response: string;
+}>;
+
+/**
+ * Submit a raw RFC 5322 message over SMTP.
+ *
+ * A transport is created for each submission and closed afterwards; sending is
+ * rare enough that pooling SMTP connections is not worth the idle sockets. The
+ * message is sent as-is, so Bcc headers must already be removed.
+ *
+ * @param config - SMTP server settings and credentials for the account
+ * @param envelope - Envelope sender and recipients
+ * @param raw - The message to submit
+ * @returns The recipients the server accepted and rejected, and its final response
+ */
+export async function sendRawMessage(
+  config: SmtpConfig,
+  envelope: SmtpEnvelope,
+  raw: Buffer,
+): Promise<SmtpSendResult> {
+  const transport = createTransport({
+    host: config.host,
+    port: config.port,
+    secure: config.secure,
+    auth: config.oauth2
+      ? { type: 'OAuth2', user: config.user, accessToken: await getAccessToken(config.oauth2) }
+      : { user: config.user, pass: config.pass ?? '' },
+    connectionTimeout: CONNECT_TIMEOUT_MS,
+    greetingTimeout: GREETING_TIMEOUT_MS,
+    socketTimeout: SOCKET_TIMEOUT_MS,
+  });
+  try {
+    const info = await transport.sendMail({
+      envelope: { from: envelope.from, to: [...envelope.to] },
+      raw,
+    });
+    const toAddress = (value: string | { address: string }): string =>
+      typeof value === 'string' ? value : value.address;
+    return {
+      accepted: info.accepted.map(toAddress),
+      rejected: info.rejected.map(toAddress),
+      response: info.response,
+    };
+  } finally {
+    transport.close();
+  }
+}
+
+/**
+ * Remove Bcc header fields from a raw message so blind recipients stay hidden.
+ *
+ * Only the header block is touched; folded continuation lines of a Bcc field
+ * are removed with it.
+ */
+export function stripBccHeader(raw: Buffer): Buffer {
+  // latin1 maps every byte to one character, so the body round-trips unchanged
+  const source = raw.toString('latin1');
+  const crlfEnd = source.indexOf('\r\n\r\n');
+  const lfEnd = source.indexOf('\n\n');
+  const headerEnd = crlfEnd >= 0 && (lfEnd < 0 || crlfEnd < lfEnd) ? crlfEnd : lfEnd;
+  if (headerEnd < 0) {
+    return raw;
+  }
+
+  const lines = source.slice(0, headerEnd).split(/(?<=\n)/);
+  const kept: string[] = [];
+  let skipping = false;
+  for (const line of lines) {
+    const continuation = line.startsWith(' ') || line.startsWith('\t');
+    if (!continuation) {
+      skipping = /^bcc\s*:/i.test(line);
+    }
+    if (!skipping) {
+      kept.push(line);
+    }
+  }
+  const headers = kept.join('').replace(/\r?\n$/, '');
+  return Buffer.from(headers + source.slice(headerEnd), 'latin1');
+}
+
+/**
+ * Map an SMTP submission error to a user-friendly message.
+ *
+ * nodemailer reports failures with a `code` (e.g. EAUTH, ECONNECTION) and, for
+ * server replies, the SMTP `responseCode`.
+ */
+export function mapSmtpError(error: unknown): { message: string; meta?: Record<string, unknown> } {
+  if (!error || typeof error !== 'object') {
+    return { message: 'SMTP submission failed.' };
+  }
+  const record = error as Record<string, unknown>;
+  const code = typeof record['code'] === 'string' ? record['code'] : undefined;
+  const responseCode =
+    typeof record['responseCode'] === 'number' ? record['responseCode'] : undefined;
+  const meta = { code, response_code: responseCode };
+
+  if (code === 'EOAUTH') {
+    return {
+      message: `${typeof record['message'] === 'string' ? record['message'] : 'OAuth2 token refresh failed.'} Verify the account's OAuth2 settings.`,
+      meta: { code, oauth_error: record['oauth_error'] },
+    };
+  }
+  if (code === 'EAUTH') {
+    return {
+      message: 'SMTP authentication failed. Verify the MAIL_SMTP_* credentials.',
+      meta,
+    };
+  }
+  if (code && ['ECONNECTION', 'EDNS', 'ESOCKET', 'ETIMEDOUT', 'ETLS'].includes(code)) {
+    return {
+      message: 'Unable to connect to the SMTP server. Check host, port, and TLS settings.',
+      meta,
+    };
+  }
+  if (code === 'EENVELOPE') {
+    return { message: 'The SMTP server rejected the sender or all recipients.', meta };
+  }
+  if (responseCode !== undefined && responseCode >= 500) {
+    return { message: `The SMTP server refused the message (${responseCode}).`, meta };
+  }
+  return { message: 'SMTP submission failed. Check server logs or credentials.', meta };
+}
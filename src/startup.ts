@@ -2,6 +2,7 @@ import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js'
 import dotenv from 'dotenv';
 import { createServer } from './server.js';
 import { validateEnvironment } from './config.js';
+import { IMAP_CONNECTION_POOL, MAILBOX_WATCHER } from './tools/runtime.js';
 
 /**
  * Start the MCP server and begin processing IMAP email operations.
@@ -48,6 +49,13 @@ export async function start(): Promise<void> {
   // This is the standard transport for MCP servers running as subprocesses
   const transport = new StdioServerTransport();
 
+  // Log out pooled and mailbox watch connections when the client disconnects
+  // Idle sockets would otherwise keep the process alive after stdio closes
+  server.server.onclose = () => {
+    void IMAP_CONNECTION_POOL.drain();
+    void MAILBOX_WATCHER.closeAll();
+  };
+
   // Connect the server to the transport and start processing requests
   await server.connect(transport);
 
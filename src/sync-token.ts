@@ -0,0 +1,71 @@
+import { z } from 'zod';
+
+/**
+ * Mailbox state captured at the end of an imap_sync_mailbox call.
+ *
+ * The next call reports everything that changed after this state.
+ */
+export type SyncState = Readonly<{
+  /** The configured IMAP account identifier */
+  account_id: string;
+  /** The synchronized mailbox path */
+  mailbox: string;
+  /** The UIDVALIDITY the state belongs to; a different value requires a full resync */
+  uidvalidity: number;
+  /** Highest UID already reported to the caller */
+  last_uid: number;
+  /** HIGHESTMODSEQ when the state was captured (CONDSTORE servers only), as a decimal string */
+  modseq?: string | undefined;
+  /** UIDs up to last_uid known to the caller as a sequence set (servers without QRESYNC only) */
+  uids?: string | undefined;
+}>;
+
+/** Prefix used to identify sync tokens encoded by this system */
+export const SYNC_TOKEN_PREFIX = 'sync1.';
+
+const SyncStateSchema = z
+  .object({
+    account_id: z.string().min(1).max(64),
+    mailbox: z.string().min(1).max(256),
+    uidvalidity: z.number().int().nonnegative(),
+    last_uid: z.number().int().nonnegative(),
+    modseq: z
+      .string()
+      .regex(/^[0-9]{1,20}$/)
+      .optional(),
+    uids: z
+      .string()
+      .regex(/^([0-9]+(:[0-9]+)?)(,[0-9]+(:[0-9]+)?)*$/)
+      .optional(),
+  })
+  .strict();
+
+/**
+ * Encode a sync state into an opaque token.
+ *
+ * Tokens are self-contained so they survive server restarts and can be stored
+ * by the caller between sessions.
+ */
+export function encodeSyncToken(state: SyncState): string {
+  return `${SYNC_TOKEN_PREFIX}${Buffer.from(JSON.stringify(state), 'utf8').toString('base64url')}`;
+}
+
+/**
+ * Decode a sync token produced by encodeSyncToken.
+ *
+ * @returns The sync state, or null if the token is malformed
+ */
+export function decodeSyncToken(token: string): SyncState | null {
+  if (!token.startsWith(SYNC_TOKEN_PREFIX)) {
+    return null;
+  }
+  try {
+    const json: unknown = JSON.parse(
+      Buffer.from(token.slice(SYNC_TOKEN_PREFIX.length), 'base64url').toString('utf8'),
+    );
+    const parsed = SyncStateSchema.safeParse(json);
+    return parsed.success ? parsed.data : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,384 @@
+import type { ImapFlow } from 'imapflow';
+import type { z } from 'zod';
+
+import { recordAuditMessages, type AuditMessageChange } from '../audit.js';
+import type { AccountConfig } from '../config.js';
+import type { ApplyToSearchInputSchema } from '../contracts.js';
+import { encodeMessageId } from '../message-id.js';
+import { evaluateMailboxPolicy } from '../policy.js';
+import { messageRawResourceUri, messageResourceUri } from '../resources/uri.js';
+import { loadAccountOrError } from '../utils/account.js';
+import { fetchExistingFlags } from '../utils/bulk.js';
+import { copyToUndoMailbox, openMailboxLock, resolveTrashMailbox } from '../utils/mailbox.js';
+import {
+  formatFlags,
+  lastDaysSinceUtc,
+  makeError,
+  makeOk,
+  moveMessageUids,
+  nowUtcIso,
+  resolveExpungeStrategy,
+  resolveMoveStrategy,
+  searchMessageUids,
+  summarizeEnvelope,
+  type ToolHint,
+  type ToolResult,
+  UNTRUSTED_EMAIL_CONTENT_NOTE,
+  withImapClient,
+} from './runtime.js';
+
+type ApplyToSearchArgs = z.infer<typeof ApplyToSearchInputSchema>;
+
+/**
+ * Number of matching messages returned as a sample, newest first.
+ */
+const SAMPLE_SIZE = 10;
+
+/**
+ * Handle the imap_apply_to_search tool call.
+ *
+ * Runs the same search as imap_search_messages and applies a single write
+ * action to every matching UID with one UID set command. Calls default to a
+ * dry run that only reports the match count and a sample; execution requires
+ * dry_run=false plus confirm=true and is refused when the number of matches
+ * exceeds max_messages.
+ *
+ * The tool performs the following steps:
+ * 1. Validates that the account is properly configured
+ * 2. Obtains a lock on the mailbox (read-only for dry runs)
+ * 3. Builds the IMAP SEARCH query from the filters and collects matching UIDs
+ * 4. Fetches a small sample of the newest matches
+ * 5. For dry runs, returns the match count and sample
+ * 6. Otherwise enforces max_messages and applies the action to all matches
+ * 7. Releases the mailbox lock
+ *
+ * @example
+ * ```ts
+ * const result = await handleApplyToSearch({
+ *   account_id: 'default',
+ *   mailbox: 'INBOX',
+ *   from: 'newsletter@example.com',
+ *   action: 'move',
+ *   destination_mailbox: 'Newsletters',
+ *   max_messages: 100,
+ *   dry_run: false,
+ *   confirm: true
+ * });
+ * // Returns: { matched: 42, affected: 42, dry_run: false, sample: [...], ... }
+ * ```
+ *
+ * @param args - The validated input arguments containing search filters and the action
+ * @returns A ToolResult containing the match count, affected count, and sample
+ */
+export async function handleApplyToSearch(args: ApplyToSearchArgs): Promise<ToolResult> {
+  // Validate that the account is configured before attempting to connect
+  const accountResult = loadAccountOrError(args.account_id);
+  if ('error' in accountResult) {
+    return makeError(accountResult.error);
+  }
+  const account = accountResult.account;
+
+  return await withImapClient(account, async (client) => {
+    // Dry runs never modify the mailbox, so a read-only lock is sufficient
+    const lockResult = await openMailboxLock(client, args.mailbox, {
+      readOnly: args.dry_run,
+      description: 'imap_apply_to_search',
+    });
+    if ('error' in lockResult) {
+      return makeError(lockResult.error);
+    }
+    const { lock, uidvalidity } = lockResult;
+    try {
+      const searchResult = await searchMessageUids(client, args);
+      if ('error' in searchResult) {
+        return makeError(searchResult.error);
+      }
+      const results = searchResult.uids;
+      // Sort UIDs in descending order so the sample shows the newest messages
+      const uids = results.slice().sort((a, b) => b - a);
+      const matched = uids.length;
+      const sample = await fetchSample(client, uids.slice(0, SAMPLE_SIZE), args, uidvalidity);
+
+      const data: Record<string, unknown> = {
+        account_id: args.account_id,
+        mailbox: args.mailbox,
+        action: args.action,
+        destination_mailbox: args.destination_mailbox,
+        dry_run: args.dry_run,
+        matched,
+        affected: 0,
+        max_messages: args.max_messages,
+        sample,
+      };
+      const meta: Record<string, unknown> = {
+        now_utc: nowUtcIso(),
+        security_note: UNTRUSTED_EMAIL_CONTENT_NOTE,
+      };
+      if (args.last_days !== undefined) {
+        meta['last_days'] = args.last_days;
+        meta['effective_since_utc'] = lastDaysSinceUtc(args.last_days).toISOString();
+      }
+      const exceedsCap = matched > args.max_messages;
+
+      if (args.dry_run) {
+        const hints: ToolHint[] = [];
+        if (matched > 0 && !exceedsCap) {
+          hints.push({
+            tool: 'imap_apply_to_search',
+            // confirm is left for the caller to add deliberately (undefined is not serialized)
+            arguments: { ...args, dry_run: false, confirm: undefined },
+            reason: `Apply ${args.action} to the ${matched} matching messages (add confirm: true to execute).`,
+          });
+        }
+        const summary = exceedsCap
+          ? `Dry run: ${matched} messages in ${args.mailbox} match, exceeding max_messages (${args.max_messages}). Narrow the filters before applying ${args.action}.`
+          : `Dry run: ${args.action} would affect ${matched} messages in ${args.mailbox}.`;
+        return makeOk(summary, data, hints, { ...meta, read_side_effects: 'none' });
+      }
+
+      if (exceedsCap) {
+        return makeError(
+          `${matched} messages match, exceeding max_messages (${args.max_messages}). Narrow the filters or raise max_messages.`,
+          [],
+          { matched, max_messages: args.max_messages },
+        );
+      }
+      if (matched === 0) {
+        return makeOk(`No messages in ${args.mailbox} match; nothing changed.`, data, [], meta);
+      }
+
+      const actionResult = await applyAction(client, account, uids, args, uidvalidity);
+      if ('error' in actionResult) {
+        return makeError(actionResult.error, [], { ...actionResult.meta, matched });
+      }
+
+      const hints: ToolHint[] = [];
+      if (args.destination_mailbox) {
+        hints.push({
+          tool: 'imap_search_messages',
+          arguments: {
+            account_id: args.account_id,
+            mailbox: args.destination_mailbox,
+            limit: 10,
+          },
+          reason: 'List messages in the destination mailbox to confirm the result.',
+        });
+      }
+
+      return makeOk(
+        `Applied ${args.action} to ${matched} messages in ${args.mailbox}.`,
+        { ...data, affected: matched },
+        hints,
+        { ...meta, ...actionResult.meta },
+      );
+    } finally {
+      // Always release the lock, even if an error occurred
+      // This prevents deadlock and allows other operations to proceed
+      lock.release();
+    }
+  });
+}
+
+/**
+ * Fetch summaries for the sample UIDs in the order they were requested.
+ */
+async function fetchSample(
+  client: ImapFlow,
+  uids: readonly number[],
+  args: ApplyToSearchArgs,
+  uidvalidity: number,
+): Promise<Record<string, unknown>[]> {
+  if (uids.length === 0) {
+    return [];
+  }
+  const order = new Map(uids.map((uid, index) => [uid, index]));
+  const summaries: { index: number; summary: Record<string, unknown> }[] = [];
+  for await (const message of client.fetch(
+    [...uids],
+    { uid: true, envelope: true, flags: true },
+    { uid: true },
+  )) {
+    if (message.uid === undefined) {
+      continue;
+    }
+    const envelopeSummary = summarizeEnvelope(message.envelope);
+    const locator = {
+      account_id: args.account_id,
+      mailbox: args.mailbox,
+      uidvalidity,
+      uid: message.uid,
+    };
+    summaries.push({
+      index: order.get(message.uid) ?? 0,
+      summary: {
+        message_id: encodeMessageId(locator),
+        message_uri: messageResourceUri(locator),
+        message_raw_uri: messageRawResourceUri(locator),
+        mailbox: args.mailbox,
+        uidvalidity,
+        uid: message.uid,
+        date: envelopeSummary.date,
+        from: envelopeSummary.from,
+        subject: envelopeSummary.subject,
+        flags: formatFlags(message.flags),
+      },
+    });
+  }
+  return summaries.sort((a, b) => a.index - b.index).map((entry) => entry.summary);
+}
+
+/**
+ * Apply the requested action to all UIDs with a single UID set command.
+ *
+ * The flags of the matching messages are read before (and, for flag actions,
+ * after) the change so the audit log can record them. Deletes follow the
+ * account's delete strategy, moving the messages to Trash by default. Actions
+ * that expunge the mailbox use UID EXPUNGE, and are refused without UIDPLUS
+ * unless allow_mailbox_expunge is true.
+ *
+ * @returns Strategy metadata on success, or an error message
+ */
+async function applyAction(
+  client: ImapFlow,
+  account: AccountConfig,
+  uids: number[],
+  args: ApplyToSearchArgs,
+  uidvalidity: number,
+): Promise<{ meta: Record<string, unknown> } | { error: string; meta: Record<string, unknown> }> {
+  const allowMailboxExpunge = args.allow_mailbox_expunge === true;
+  const flagsBefore = await fetchExistingFlags(client, uids);
+  const record = (
+    changes: (uid: number) => Partial<Omit<AuditMessageChange, 'mailbox' | 'uid'>>,
+  ): void => {
+    recordAuditMessages(
+      uids.map((uid) => ({
+        mailbox: args.mailbox,
+        uidvalidity,
+        uid,
+        flags_before: flagsBefore.get(uid),
+        ...changes(uid),
+      })),
+    );
+  };
+
+  switch (args.action) {
+    case 'add_flags':
+    case 'remove_flags': {
+      if (args.action === 'add_flags') {
+        await client.messageFlagsAdd(uids, args.flags ?? [], { uid: true });
+      } else {
+        await client.messageFlagsRemove(uids, args.flags ?? [], { uid: true });
+      }
+      const flagsAfter = await fetchExistingFlags(client, uids);
+      record((uid) => {
+        const flags = flagsAfter.get(uid);
+        return flags ? { flags_after: flags } : {};
+      });
+      return { meta: {} };
+    }
+    case 'copy': {
+      const copied = await client.messageCopy(uids, args.destination_mailbox ?? '', {
+        uid: true,
+      });
+      if (!copied) {
+        return { error: 'Copy failed for the matching messages.', meta: {} };
+      }
+      record(destinationOf(args.destination_mailbox, copied));
+      return { meta: { copy_strategy: 'same-account-copy' } };
+    }
+    case 'move': {
+      // Prefer MOVE (RFC 6851); fall back to COPY + DELETE like imap_move_message
+      const strategy = resolveMoveStrategy(client, allowMailboxExpunge);
+      const meta =
+        'expunge_strategy' in strategy
+          ? { move_strategy: strategy.move_strategy, expunge_strategy: strategy.expunge_strategy }
+          : { move_strategy: strategy.move_strategy };
+      const moved = await moveMessageUids(
+        client,
+        uids,
+        args.destination_mailbox ?? '',
+        allowMailboxExpunge,
+      );
+      if (moved && 'error' in moved) {
+        return { error: moved.error, meta };
+      }
+      if (!moved) {
+        return { error: 'Move failed for the matching messages.', meta };
+      }
+      record(destinationOf(args.destination_mailbox, moved));
+      return { meta };
+    }
+    case 'delete': {
+      const trashResult = await resolveTrashMailbox(client, account, false);
+      if ('error' in trashResult) {
+        return { error: trashResult.error, meta: {} };
+      }
+      const policyError =
+        trashResult.trash !== undefined
+          ? evaluateMailboxPolicy(args.account_id, trashResult.trash)
+          : undefined;
+      if (policyError) {
+        return { error: policyError, meta: {} };
+      }
+      // Messages already in Trash have nowhere left to go, so they are deleted permanently
+      const { trash } = trashResult;
+      if (trash !== undefined && trash !== args.mailbox) {
+        const moved = await moveMessageUids(client, uids, trash, allowMailboxExpunge);
+        if (moved && 'error' in moved) {
+          return { error: moved.error, meta: { delete_strategy: 'trash' } };
+        }
+        if (!moved) {
+          return {
+            error: `Moving the matching messages to ${trash} failed.`,
+            meta: { delete_strategy: 'trash' },
+          };
+        }
+        record(destinationOf(trash, moved));
+        return { meta: { delete_strategy: 'trash', trash_mailbox: trash } };
+      }
+
+      const expunge = resolveExpungeStrategy(client, allowMailboxExpunge);
+      if ('error' in expunge) {
+        return { error: expunge.error, meta: { delete_strategy: 'expunge' } };
+      }
+      const meta = { delete_strategy: 'expunge', expunge_strategy: expunge.strategy };
+
+      // Keep a copy in the undo mailbox first, so imap_undo can restore the messages
+      const undoCopy = await copyToUndoMailbox(client, args.account_id, uids, args.mailbox);
+      if (undoCopy && 'error' in undoCopy) {
+        return { error: undoCopy.error, meta };
+      }
+      const deleted = await client.messageDelete(uids, { uid: true });
+      if (!deleted) {
+        return { error: 'Delete failed for the matching messages.', meta };
+      }
+      record(
+        undoCopy
+          ? destinationOf(undoCopy.mailbox, {
+              uidMap: undoCopy.uidMap,
+              uidValidity: undoCopy.uidvalidity,
+            })
+          : () => ({}),
+      );
+      return { meta };
+    }
+  }
+}
+
+/**
+ * Describe where each source UID ended up, from a COPYUID/MOVE response.
+ */
+function destinationOf(
+  mailbox: string | undefined,
+  response: Readonly<{
+    uidMap?: Map<number, number> | undefined;
+    uidValidity?: bigint | number | undefined;
+  }>,
+): (uid: number) => Partial<AuditMessageChange> {
+  return (uid) => ({
+    destination_mailbox: mailbox,
+    destination_uidvalidity:
+      response.uidValidity !== undefined ? Number(response.uidValidity) : undefined,
+    destination_uid: response.uidMap?.get(uid),
+  });
+}
@@ -0,0 +1,67 @@
+import type { z } from 'zod';
+
+import { readAuditLog, type AuditEntry } from '../audit.js';
+import { AUDIT_LOG_PATH } from '../config.js';
+import type { AuditLogInputSchema } from '../contracts.js';
+import { decodeMessageId } from '../message-id.js';
+import { isAuditAccessAllowed } from '../policy.js';
+import { makeError, makeOk, nowUtcIso, type ToolResult } from './runtime.js';
+
+/**
+ * Handle the imap_audit_log tool call.
+ *
+ * Reads the newest entries of the audit log that match the filters, verifying
+ * the hash chain of the entries read. Entries are only returned when the
+ * policies of the accounts they involve permit imap_audit_log and every
+ * mailbox they name. A broken chain is reported in the result rather than as
+ * an error, so the entries remain available for investigation.
+ *
+ * @param args - The validated input arguments containing the filters and limit
+ * @param path - The audit log to read (defaults to MAIL_IMAP_AUDIT_LOG)
+ * @returns A ToolResult containing the entries and the chain status
+ */
+export async function handleAuditLog(
+  args: z.infer<typeof AuditLogInputSchema>,
+  path: string | undefined = AUDIT_LOG_PATH,
+): Promise<ToolResult> {
+  if (!path) {
+    return makeError('Audit logging is disabled. Set MAIL_IMAP_AUDIT_LOG to a file path.');
+  }
+
+  const { entries, has_more, chain } = await readAuditLog(path, {
+    limit: args.limit,
+    filter: (entry) =>
+      (args.account_id === undefined || entry.account_id === args.account_id) &&
+      (args.tool === undefined || entry.tool === args.tool) &&
+      (args.outcome === undefined || entry.outcome === args.outcome) &&
+      isEntryVisible(entry),
+  });
+
+  const summary = chain.valid
+    ? `Showing the ${entries.length} newest matching audit entries; the hash chain of the ${chain.entries_checked} entries read is intact.`
+    : `Showing the ${entries.length} newest matching audit entries; the hash chain is broken at seq ${chain.first_invalid_seq ?? 'unknown'}.`;
+
+  return makeOk(summary, { entries, has_more, chain }, [], { now_utc: nowUtcIso() });
+}
+
+/**
+ * Check an entry against the policies of the accounts it involves: its source
+ * account with the mailboxes read from, and the destination account with the
+ * mailboxes written to.
+ */
+function isEntryVisible(entry: AuditEntry): boolean {
+  const messages = entry.messages ?? [];
+  const sourceMailboxes = [
+    entry.mailbox,
+    ...(entry.message_ids ?? []).map((messageId) => decodeMessageId(messageId)?.mailbox),
+    ...messages.map((message) => message.mailbox),
+  ];
+  const destinationMailboxes = [
+    entry.destination_mailbox,
+    ...messages.map((message) => message.destination_mailbox),
+  ];
+  return (
+    isAuditAccessAllowed(entry.account_id, sourceMailboxes) &&
+    isAuditAccessAllowed(entry.destination_account_id ?? entry.account_id, destinationMailboxes)
+  );
+}
@@ -1,10 +1,22 @@
+import type { ImapFlow } from 'imapflow';
 import type { z } from 'zod';
 
+import { recordAuditMessages } from '../audit.js';
+import type { AccountConfig } from '../config.js';
 import type { CopyMessageInputSchema } from '../contracts.js';
-import { encodeMessageId } from '../message-id.js';
+import { decodeMessageId, encodeMessageId } from '../message-id.js';
 import { loadAccountOrError } from '../utils/account.js';
+import {
+  type BulkMessageResult,
+  collectMessageIds,
+  countResults,
+  failGroup,
+  fetchExistingFlags,
+  groupMessageIds,
+  type MessageGroup,
+  orderResults,
+} from '../utils/bulk.js';
 import { openMailboxLock } from '../utils/mailbox.js';
-import { decodeMessageIdOrError } from '../utils/message_id.js';
 import {
   hasCapability,
   makeError,
@@ -32,18 +44,29 @@ function extractAppendMeta(value: unknown): { uid?: number; uidValidity?: bigint
   return result;
 }
 
+type CopyTarget = Readonly<{
+  accountId: string;
+  account: AccountConfig;
+  mailbox: string;
+  sameAccount: boolean;
+}>;
+
 /**
  * Handle the imap_copy_message tool call.
  *
- * Copies a single message to a destination mailbox, either within the same
- * account (via IMAP COPY) or across accounts (via download + append).
+ * Copies a message (or up to 50 messages via `message_ids`) to a destination
+ * mailbox, either within the same account (via a single IMAP COPY per source
+ * mailbox) or across accounts (via download + append per message).
  */
 export async function handleCopyMessage(
   args: z.infer<typeof CopyMessageInputSchema>,
 ): Promise<ToolResult> {
-  const decodedResult = decodeMessageIdOrError(args.message_id, args.account_id);
-  if ('error' in decodedResult) {
-    return makeError(decodedResult.error);
+  const messageIds = collectMessageIds(args);
+  const { groups, failures } = groupMessageIds(messageIds, args.account_id);
+  const single = args.message_ids === undefined;
+  const [singleFailure] = failures;
+  if (single && singleFailure?.error) {
+    return makeError(singleFailure.error);
   }
 
   const destinationAccountId = args.destination_account_id ?? args.account_id;
@@ -57,169 +80,293 @@ export async function handleCopyMessage(
     return makeError(destinationAccountResult.error);
   }
 
-  const decoded = decodedResult.decoded;
   const sourceAccount = sourceAccountResult.account;
-  const destinationAccount = destinationAccountResult.account;
   const sameAccount = destinationAccountId === args.account_id;
-
-  return await withImapClient(sourceAccount, async (sourceClient) => {
-    const lockResult = await openMailboxLock(sourceClient, decoded.mailbox, {
-      readOnly: sameAccount ? false : true,
-      description: 'imap_copy_message',
-      expectedUidvalidity: decoded.uidvalidity,
+  const copyStrategy = sameAccount ? 'same-account-copy' : 'cross-account-append';
+  const target: CopyTarget = {
+    accountId: destinationAccountId,
+    account: destinationAccountResult.account,
+    mailbox: args.destination_mailbox,
+    sameAccount,
+  };
+  if (groups.length === 0) {
+    return makeError(`Failed to copy all ${failures.length} messages.`, [], {
+      source_account_id: args.account_id,
+      destination_account_id: destinationAccountId,
+      results: failures,
+      succeeded: 0,
+      failed: failures.length,
     });
-    if ('error' in lockResult) {
-      return makeError(lockResult.error);
+  }
+
+  const outcome = await withImapClient(sourceAccount, async (sourceClient) => {
+    const supportsUidplus = hasCapability(sourceClient, 'UIDPLUS');
+    const collected: BulkMessageResult[] = [];
+    for (const group of groups) {
+      collected.push(...(await copyGroup(sourceClient, group, target, supportsUidplus)));
     }
+    return { results: collected, supportsUidplus };
+  });
+  const results = orderResults(messageIds, [...failures, ...outcome.results]);
+  const meta: Record<string, unknown> = sameAccount
+    ? { now_utc: nowUtcIso(), copy_strategy: copyStrategy, uidplus: outcome.supportsUidplus }
+    : { now_utc: nowUtcIso(), copy_strategy: copyStrategy, destination_account_different: true };
 
-    const { lock } = lockResult;
-    try {
-      if (sameAccount) {
-        const supportsUidplus = hasCapability(sourceClient, 'UIDPLUS');
-        const copyResult = await sourceClient.messageCopy(decoded.uid, args.destination_mailbox, {
-          uid: true,
-        });
-
-        if (!copyResult) {
-          return makeError('Copy failed for this message.', [], {
-            copy_strategy: 'same-account-copy',
-          });
-        }
+  if (single) {
+    const [result] = results;
+    if (!result?.ok) {
+      const error = result?.error ?? 'Copy failed for this message.';
+      return sameAccount ? makeError(error, [], { copy_strategy: copyStrategy }) : makeError(error);
+    }
 
-        let newMessageId: string | undefined;
-        if (supportsUidplus) {
-          const newUid = copyResult.uidMap?.get(decoded.uid);
-          const newUidvalidity = copyResult.uidValidity ?? undefined;
-          if (newUid !== undefined && newUidvalidity !== undefined) {
-            newMessageId = encodeMessageId({
-              account_id: destinationAccountId,
-              mailbox: args.destination_mailbox,
-              uidvalidity: Number(newUidvalidity),
-              uid: newUid,
-            });
-          }
-        }
+    const summary = sameAccount
+      ? `Copied message ${result.message_id} to ${args.destination_mailbox}.`
+      : `Copied message ${result.message_id} to ${destinationAccountId}:${args.destination_mailbox}.`;
+    const hints: ToolHint[] = [];
+    if (result.new_message_id) {
+      hints.push({
+        tool: 'imap_get_message',
+        arguments: {
+          account_id: destinationAccountId,
+          message_id: result.new_message_id,
+        },
+        reason: sameAccount
+          ? 'Fetch the copied message in its destination mailbox.'
+          : 'Fetch the copied message in the destination account/mailbox.',
+      });
+    } else if (!sameAccount) {
+      hints.push({
+        tool: 'imap_search_messages',
+        arguments: {
+          account_id: destinationAccountId,
+          mailbox: args.destination_mailbox,
+          limit: 10,
+        },
+        reason: 'List messages in the destination mailbox to confirm the copy.',
+      });
+    }
 
-        const summary = `Copied message ${args.message_id} to ${args.destination_mailbox}.`;
-        const hints: ToolHint[] = [];
-        if (newMessageId) {
-          hints.push({
-            tool: 'imap_get_message',
-            arguments: {
-              account_id: destinationAccountId,
-              message_id: newMessageId,
-            },
-            reason: 'Fetch the copied message in its destination mailbox.',
-          });
-        }
+    return makeOk(
+      summary,
+      {
+        source_account_id: args.account_id,
+        destination_account_id: destinationAccountId,
+        source_mailbox: groups[0]?.mailbox,
+        destination_mailbox: args.destination_mailbox,
+        message_id: result.message_id,
+        new_message_id: result.new_message_id,
+      },
+      hints,
+      meta,
+    );
+  }
 
-        return makeOk(
-          summary,
-          {
-            source_account_id: args.account_id,
-            destination_account_id: destinationAccountId,
-            source_mailbox: decoded.mailbox,
-            destination_mailbox: args.destination_mailbox,
-            message_id: args.message_id,
-            new_message_id: newMessageId,
-          },
-          hints,
-          {
-            now_utc: nowUtcIso(),
-            copy_strategy: 'same-account-copy',
-            uidplus: supportsUidplus,
-          },
-        );
-      }
+  const { succeeded, failed } = countResults(results);
+  const data = {
+    source_account_id: args.account_id,
+    destination_account_id: destinationAccountId,
+    destination_mailbox: args.destination_mailbox,
+    results,
+    succeeded,
+    failed,
+  };
+  if (succeeded === 0) {
+    return makeError(`Failed to copy all ${results.length} messages.`, [], { ...meta, ...data });
+  }
+  const hints: ToolHint[] = [
+    {
+      tool: 'imap_search_messages',
+      arguments: {
+        account_id: destinationAccountId,
+        mailbox: args.destination_mailbox,
+        limit: 10,
+      },
+      reason: 'List messages in the destination mailbox to confirm the copy.',
+    },
+  ];
+  return makeOk(
+    `Copied ${succeeded} of ${results.length} messages to ${destinationAccountId}:${args.destination_mailbox}.`,
+    data,
+    hints,
+    meta,
+  );
+}
+
+/**
+ * Copy the existing messages of one source mailbox group to the target.
+ */
+async function copyGroup(
+  sourceClient: ImapFlow,
+  group: MessageGroup,
+  target: CopyTarget,
+  supportsUidplus: boolean,
+): Promise<BulkMessageResult[]> {
+  const lockResult = await openMailboxLock(sourceClient, group.mailbox, {
+    readOnly: target.sameAccount ? false : true,
+    description: 'imap_copy_message',
+    expectedUidvalidity: group.uidvalidity,
+  });
+  if ('error' in lockResult) {
+    return failGroup(group, lockResult.error);
+  }
 
-      const fetched = await sourceClient.fetchOne(
-        decoded.uid,
-        { uid: true, flags: true, internalDate: true },
+  const { lock } = lockResult;
+  try {
+    // UID set commands silently skip missing UIDs, so check which messages exist first
+    const existing = await fetchExistingFlags(
+      sourceClient,
+      group.items.map((item) => item.uid),
+    );
+    const present = group.items.filter((item) => existing.has(item.uid));
+    const results: BulkMessageResult[] = group.items
+      .filter((item) => !existing.has(item.uid))
+      .map((item) => ({ message_id: item.message_id, ok: false, error: 'Message not found.' }));
+    if (present.length === 0) {
+      return results;
+    }
+
+    if (target.sameAccount) {
+      const copyResult = await sourceClient.messageCopy(
+        present.map((item) => item.uid),
+        target.mailbox,
         { uid: true },
       );
-      if (!fetched) {
-        return makeError('Message not found.');
+      if (!copyResult) {
+        return [
+          ...results,
+          ...present.map((item) => ({
+            message_id: item.message_id,
+            ok: false,
+            error: 'Copy failed for this message.',
+          })),
+        ];
       }
 
-      const download = await sourceClient.download(decoded.uid, undefined, {
-        uid: true,
-      });
-      if (!download?.content) {
-        return makeError('Failed to download message source for cross-account copy.');
+      const newUidvalidity = copyResult.uidValidity ?? undefined;
+      recordAuditMessages(
+        present.map((item) => ({
+          mailbox: group.mailbox,
+          uidvalidity: group.uidvalidity,
+          uid: item.uid,
+          flags_before: existing.get(item.uid),
+          destination_mailbox: target.mailbox,
+          destination_uidvalidity:
+            newUidvalidity !== undefined ? Number(newUidvalidity) : undefined,
+          destination_uid: copyResult.uidMap?.get(item.uid),
+        })),
+      );
+      for (const item of present) {
+        const newUid = supportsUidplus ? copyResult.uidMap?.get(item.uid) : undefined;
+        results.push(
+          newUid !== undefined && newUidvalidity !== undefined
+            ? {
+                message_id: item.message_id,
+                ok: true,
+                new_message_id: encodeMessageId({
+                  account_id: target.accountId,
+                  mailbox: target.mailbox,
+                  uidvalidity: Number(newUidvalidity),
+                  uid: newUid,
+                }),
+              }
+            : { message_id: item.message_id, ok: true },
+        );
       }
-      const chunks: Buffer[] = [];
-      for await (const chunk of download.content) {
-        const buffer = Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk as Uint8Array);
-        chunks.push(buffer);
+      return results;
+    }
+
+    // Cross-account copies have no set-based equivalent, so each message is
+    // downloaded from the source and appended to the destination individually
+    const appended = await withImapClient(target.account, async (destinationClient) => {
+      const collected: BulkMessageResult[] = [];
+      for (const item of present) {
+        collected.push(await appendToTarget(sourceClient, destinationClient, item, target));
       }
-      const rawSource = Buffer.concat(chunks);
+      return collected;
+    });
+    recordAuditMessages(
+      present.flatMap((item, index) => {
+        const result = appended[index];
+        if (!result?.ok) {
+          return [];
+        }
+        const copied = result.new_message_id ? decodeMessageId(result.new_message_id) : null;
+        return [
+          {
+            mailbox: group.mailbox,
+            uidvalidity: group.uidvalidity,
+            uid: item.uid,
+            flags_before: existing.get(item.uid),
+            destination_mailbox: target.mailbox,
+            destination_uidvalidity: copied?.uidvalidity,
+            destination_uid: copied?.uid,
+          },
+        ];
+      }),
+    );
+    return [...results, ...appended];
+  } finally {
+    lock.release();
+  }
+}
 
-      const flags = fetched.flags ? Array.from(fetched.flags) : undefined;
-      const internalDate = fetched.internalDate instanceof Date ? fetched.internalDate : undefined;
+/**
+ * Download a single message from the source mailbox and append it to the target.
+ */
+async function appendToTarget(
+  sourceClient: ImapFlow,
+  destinationClient: ImapFlow,
+  item: Readonly<{ message_id: string; uid: number }>,
+  target: CopyTarget,
+): Promise<BulkMessageResult> {
+  const fetched = await sourceClient.fetchOne(
+    item.uid,
+    { uid: true, flags: true, internalDate: true },
+    { uid: true },
+  );
+  if (!fetched) {
+    return { message_id: item.message_id, ok: false, error: 'Message not found.' };
+  }
 
-      const appendResult = await withImapClient(destinationAccount, async (destinationClient) => {
-        return await destinationClient.append(
-          args.destination_mailbox,
-          rawSource,
-          flags,
-          internalDate,
-        );
-      });
+  const download = await sourceClient.download(item.uid, undefined, {
+    uid: true,
+  });
+  if (!download?.content) {
+    return {
+      message_id: item.message_id,
+      ok: false,
+      error: 'Failed to download message source for cross-account copy.',
+    };
+  }
+  const chunks: Buffer[] = [];
+  for await (const chunk of download.content) {
+    const buffer = Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk as Uint8Array);
+    chunks.push(buffer);
+  }
+  const rawSource = Buffer.concat(chunks);
 
-      let newMessageId: string | undefined;
-      const { uid: appendUid, uidValidity: appendUidvalidity } = extractAppendMeta(appendResult);
-      if (typeof appendUid === 'number' && appendUidvalidity !== undefined) {
-        newMessageId = encodeMessageId({
-          account_id: destinationAccountId,
-          mailbox: args.destination_mailbox,
-          uidvalidity: Number(appendUidvalidity),
-          uid: appendUid,
-        });
-      }
+  const flags = fetched.flags ? Array.from(fetched.flags) : undefined;
+  const internalDate = fetched.internalDate instanceof Date ? fetched.internalDate : undefined;
 
-      const summary = `Copied message ${args.message_id} to ${destinationAccountId}:${args.destination_mailbox}.`;
-      const hints: ToolHint[] = newMessageId
-        ? [
-            {
-              tool: 'imap_get_message',
-              arguments: {
-                account_id: destinationAccountId,
-                message_id: newMessageId,
-              },
-              reason: 'Fetch the copied message in the destination account/mailbox.',
-            },
-          ]
-        : [
-            {
-              tool: 'imap_search_messages',
-              arguments: {
-                account_id: destinationAccountId,
-                mailbox: args.destination_mailbox,
-                limit: 10,
-              },
-              reason: 'List messages in the destination mailbox to confirm the copy.',
-            },
-          ];
-
-      return makeOk(
-        summary,
-        {
-          source_account_id: args.account_id,
-          destination_account_id: destinationAccountId,
-          source_mailbox: decoded.mailbox,
-          destination_mailbox: args.destination_mailbox,
-          message_id: args.message_id,
-          new_message_id: newMessageId,
-        },
-        hints,
-        {
-          now_utc: nowUtcIso(),
-          copy_strategy: 'cross-account-append',
-          destination_account_different: true,
-        },
-      );
-    } finally {
-      lock.release();
-    }
-  });
+  const appendResult = await destinationClient.append(
+    target.mailbox,
+    rawSource,
+    flags,
+    internalDate,
+  );
+
+  const { uid: appendUid, uidValidity: appendUidvalidity } = extractAppendMeta(appendResult);
+  if (typeof appendUid === 'number' && appendUidvalidity !== undefined) {
+    return {
+      message_id: item.message_id,
+      ok: true,
+      new_message_id: encodeMessageId({
+        account_id: target.accountId,
+        mailbox: target.mailbox,
+        uidvalidity: Number(appendUidvalidity),
+        uid: appendUid,
+      }),
+    };
+  }
+  return { message_id: item.message_id, ok: true };
 }
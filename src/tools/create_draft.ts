@@ -0,0 +1,520 @@
+import { htmlToText } from 'html-to-text';
+import type { ImapFlow } from 'imapflow';
+import type { AddressObject } from 'mailparser';
+import MailComposer from 'nodemailer/lib/mail-composer/index.js';
+import sanitizeHtml from 'sanitize-html';
+import type { z } from 'zod';
+
+import type { AccountConfig } from '../config.js';
+import type { CreateDraftInputSchema } from '../contracts.js';
+import type { MessageIdParts } from '../message-id.js';
+import { encodeMessageId } from '../message-id.js';
+import { evaluateMailboxPolicy } from '../policy.js';
+import {
+  SANITIZE_HTML_POLICY,
+  makeError,
+  makeOk,
+  type ToolHint,
+  type ToolResult,
+  withImapClient,
+} from './runtime.js';
+import { loadAccountOrError } from '../utils/account.js';
+import { collectAttachmentSummaries } from '../utils/attachments.js';
+import {
+  type DraftAddress,
+  type DraftMode,
+  type SourceAddresses,
+  formatAddress,
+  forwardHeading,
+  parseAddresses,
+  prefixSubject,
+  quoteHtml,
+  quoteText,
+  replyAttribution,
+  replyRecipients,
+  uniqueAddresses,
+} from '../utils/draft.js';
+import { findSpecialUseMailbox, openMailboxLock } from '../utils/mailbox.js';
+import { parseMailSource } from '../utils/mailparser.js';
+import { decodeMessageIdOrError } from '../utils/message_id.js';
+import { parseMessageIdList } from '../utils/thread.js';
+
+/**
+ * Maximum combined size of the attachments copied into one draft.
+ */
+const MAX_DRAFT_ATTACHMENT_BYTES = 20_000_000;
+
+/**
+ * Maximum bytes of the source message downloaded to read its headers and body.
+ */
+const MAX_SOURCE_BYTES = 1_000_000;
+
+/**
+ * Flags set on appended drafts. Drafts are marked seen, as mail clients do.
+ */
+const DRAFT_FLAGS = ['\\Draft', '\\Seen'];
+
+type DraftAttachment = Readonly<{
+  filename: string | undefined;
+  content_type: string;
+  content: Buffer;
+}>;
+
+type AttachmentRef = Readonly<{
+  decoded: MessageIdParts;
+  part_id: string;
+  filename?: string | undefined;
+}>;
+
+type Threading = Readonly<{ messageId: string; references: string[] }>;
+
+/**
+ * The parts of the source message a draft is built from.
+ */
+type SourceMessage = Readonly<{
+  threading: Threading | undefined;
+  addresses: SourceAddresses;
+  subject: string;
+  date: Date | undefined;
+  text: string;
+  attachment_parts: string[];
+}>;
+
+/**
+ * The headers and bodies of a draft, ready to be composed.
+ */
+type DraftContent = Readonly<{
+  to: DraftAddress[];
+  cc: DraftAddress[];
+  bcc: DraftAddress[];
+  subject: string;
+  text: string;
+  html: string | undefined;
+}>;
+
+/**
+ * Handle the imap_create_draft tool call.
+ *
+ * Composes an RFC 5322 message and saves it to the Drafts mailbox with IMAP
+ * APPEND. Nothing is sent: the draft is left for a human to review and send
+ * from their mail client.
+ *
+ * The tool performs the following steps:
+ * 1. Validates the account and any source or attachment message_ids
+ * 2. Reads the headers and body of the source message, if any
+ * 3. In reply modes, derives the recipients (without the account's own
+ *    address), the Re:/Fwd: subject, and the quoted original body; forwards
+ *    also re-attach the original attachments
+ * 4. Downloads each requested attachment part from its message
+ * 5. Builds the MIME message (text, optional HTML alternative, attachments)
+ *    with the account user as the sender, threaded under the source message
+ * 6. Resolves the `\Drafts` special-use mailbox unless a mailbox is given
+ * 7. Appends the message with the `\Draft` and `\Seen` flags
+ * 8. Returns the draft's message_id when the server reports its UID (UIDPLUS)
+ *
+ * @example
+ * ```ts
+ * const result = await handleCreateDraft({
+ *   account_id: 'default',
+ *   to: [],
+ *   cc: [],
+ *   bcc: [],
+ *   subject: '',
+ *   text: 'Thanks, looks good.',
+ *   attachments: [],
+ *   source_message_id: 'imap:default:INBOX:1234567890:42',
+ *   mode: 'reply_all'
+ * });
+ * // Returns: {
+ * //   account_id: 'default',
+ * //   mailbox: 'Drafts',
+ * //   message_id: 'imap:default:Drafts:1234567891:7',
+ * //   header_message_id: '<...@example.com>',
+ * //   subject: 'Re: Quarterly report',
+ * //   to: ['Jane Doe <jane@example.com>'],
+ * //   cc: ['team@example.com'],
+ * //   size_bytes: 1612,
+ * //   attachments: 0
+ * // }
+ * ```
+ *
+ * @param args - The validated input arguments containing the account_id, recipients, body, and attachments
+ * @returns A ToolResult describing the saved draft or an error message
+ */
+export async function handleCreateDraft(
+  args: z.infer<typeof CreateDraftInputSchema>,
+): Promise<ToolResult> {
+  // Decode every referenced message up front so bad ids fail before connecting
+  let source: MessageIdParts | undefined;
+  if (args.source_message_id !== undefined) {
+    const decodedResult = decodeMessageIdOrError(args.source_message_id, args.account_id);
+    if ('error' in decodedResult) {
+      return makeError(decodedResult.error);
+    }
+    source = decodedResult.decoded;
+  }
+  const attachmentRefs: AttachmentRef[] = [];
+  for (const attachment of args.attachments) {
+    const decodedResult = decodeMessageIdOrError(attachment.message_id, args.account_id);
+    if ('error' in decodedResult) {
+      return makeError(`Attachment ${attachment.part_id}: ${decodedResult.error}`);
+    }
+    attachmentRefs.push({ ...attachment, decoded: decodedResult.decoded });
+  }
+
+  // Validate that the account is configured before attempting to connect
+  const accountResult = loadAccountOrError(args.account_id);
+  if ('error' in accountResult) {
+    return makeError(accountResult.error);
+  }
+  const account = accountResult.account;
+
+  const result = await withImapClient(account, async (client) => {
+    const sourceMessage = source ? await readSource(client, source) : undefined;
+    if (sourceMessage && 'error' in sourceMessage) {
+      return sourceMessage;
+    }
+
+    // Forwards carry the original attachments ahead of any explicitly requested ones
+    const refs: AttachmentRef[] =
+      source && sourceMessage && args.mode === 'forward'
+        ? [
+            ...sourceMessage.attachment_parts.map((partId) => ({
+              decoded: source,
+              part_id: partId,
+            })),
+            ...attachmentRefs,
+          ]
+        : attachmentRefs;
+    const attachments: DraftAttachment[] = [];
+    let totalBytes = 0;
+    for (const ref of refs) {
+      const attachment = await downloadAttachment(client, ref.decoded, ref.part_id);
+      if ('error' in attachment) {
+        return attachment;
+      }
+      totalBytes += attachment.content.length;
+      if (totalBytes > MAX_DRAFT_ATTACHMENT_BYTES) {
+        return {
+          error: `Attachments exceed the ${MAX_DRAFT_ATTACHMENT_BYTES} byte limit for a draft.`,
+        };
+      }
+      attachments.push(ref.filename ? { ...attachment, filename: ref.filename } : attachment);
+    }
+
+    // Servers without SPECIAL-USE still get imapflow's well-known name hints
+    const mailbox = args.mailbox ?? (await findSpecialUseMailbox(client, '\\Drafts'));
+    if (!mailbox) {
+      return { error: 'No \\Drafts mailbox was found. Pass mailbox to choose one.' };
+    }
+    const policyError = evaluateMailboxPolicy(args.account_id, mailbox);
+    if (policyError) {
+      return { error: policyError };
+    }
+
+    const content = buildDraftContent(args, account, sourceMessage);
+    const { raw, headerMessageId } = await composeDraft(
+      account,
+      content,
+      attachments,
+      sourceMessage?.threading,
+      args.mode,
+    );
+    const appended = await client.append(mailbox, raw, DRAFT_FLAGS);
+    if (!appended) {
+      return { error: `Failed to append the draft to mailbox '${mailbox}'.` };
+    }
+
+    // Only servers with UIDPLUS report the UID needed to address the new draft
+    const messageId =
+      typeof appended.uid === 'number' && appended.uidValidity !== undefined
+        ? encodeMessageId({
+            account_id: args.account_id,
+            mailbox,
+            uidvalidity: Number(appended.uidValidity),
+            uid: appended.uid,
+          })
+        : undefined;
+    return {
+      mailbox,
+      messageId,
+      headerMessageId,
+      content,
+      size: raw.length,
+      attachments: attachments.length,
+    };
+  });
+  if ('error' in result) {
+    return makeError(result.error);
+  }
+
+  const hints: ToolHint[] = [];
+  if (result.messageId) {
+    hints.push({
+      tool: 'imap_get_message',
+      arguments: { account_id: args.account_id, message_id: result.messageId },
+      reason: 'Review the saved draft.',
+    });
+  } else {
+    hints.push({
+      tool: 'imap_search_messages',
+      arguments: {
+        account_id: args.account_id,
+        mailbox: result.mailbox,
+        header: { name: 'Message-ID', value: result.headerMessageId },
+      },
+      reason: 'Find the saved draft; the server did not report its UID.',
+    });
+  }
+
+  return makeOk(
+    `Saved draft to ${result.mailbox}.`,
+    {
+      account_id: args.account_id,
+      mailbox: result.mailbox,
+      message_id: result.messageId,
+      header_message_id: result.headerMessageId,
+      subject: result.content.subject,
+      to: result.content.to.map(formatAddress),
+      cc: result.content.cc.map(formatAddress),
+      size_bytes: result.size,
+      attachments: result.attachments,
+    },
+    hints,
+  );
+}
+
+/**
+ * Read the headers, body text, and attachment parts of the message a draft
+ * replies to or forwards.
+ */
+async function readSource(
+  client: ImapFlow,
+  source: MessageIdParts,
+): Promise<SourceMessage | { error: string }> {
+  const lockResult = await openMailboxLock(client, source.mailbox, {
+    readOnly: true,
+    description: 'imap_create_draft',
+    expectedUidvalidity: source.uidvalidity,
+  });
+  if ('error' in lockResult) {
+    return lockResult;
+  }
+  const { lock } = lockResult;
+  try {
+    const fetched = await client.fetchOne(
+      source.uid,
+      { uid: true, bodyStructure: true },
+      { uid: true },
+    );
+    if (!fetched) {
+      return { error: 'Source message not found.' };
+    }
+    const download = await client.download(source.uid, undefined, {
+      uid: true,
+      maxBytes: MAX_SOURCE_BYTES,
+    });
+    const parsed = await parseMailSource(download.content);
+
+    // Use the plain-text body, falling back to the sanitized HTML body as text
+    const parsedHtml = typeof parsed.html === 'string' ? parsed.html : undefined;
+    const bodyHtml = parsedHtml ? sanitizeHtml(parsedHtml, SANITIZE_HTML_POLICY) : undefined;
+    const text = parsed.text ?? (bodyHtml ? htmlToText(bodyHtml, { wordwrap: false }) : '');
+
+    const summaries: Array<{
+      filename?: string;
+      content_type: string;
+      size_bytes: number;
+      part_id: string;
+    }> = [];
+    await collectAttachmentSummaries(fetched.bodyStructure, summaries, null, 0, false, 0, 50);
+
+    const messageId = parseMessageIdList(parsed.messageId)[0];
+    const references = Array.isArray(parsed.references)
+      ? parsed.references.flatMap((reference) => parseMessageIdList(reference))
+      : parseMessageIdList(parsed.references);
+    return {
+      threading: messageId ? { messageId, references } : undefined,
+      addresses: {
+        from: sourceAddresses(parsed.from),
+        reply_to: sourceAddresses(parsed.replyTo),
+        to: sourceAddresses(parsed.to),
+        cc: sourceAddresses(parsed.cc),
+      },
+      subject: parsed.subject ?? '',
+      date: parsed.date,
+      text,
+      attachment_parts: summaries.map((summary) => summary.part_id),
+    };
+  } finally {
+    lock.release();
+  }
+}
+
+/**
+ * Flatten parsed address headers into addresses.
+ */
+function sourceAddresses(value: AddressObject | AddressObject[] | undefined): DraftAddress[] {
+  const objects = value === undefined ? [] : Array.isArray(value) ? value : [value];
+  return objects.flatMap((object) =>
+    object.value.flatMap((entry) =>
+      entry.address ? [{ name: entry.name, address: entry.address }] : [],
+    ),
+  );
+}
+
+/**
+ * Work out the recipients, subject, and bodies of a draft.
+ *
+ * Without a mode the caller's fields are used as given. Reply modes derive the
+ * recipients from the source and add the caller's; every mode derives the
+ * subject when none is given and places the caller's text above the quoted or
+ * forwarded original.
+ */
+function buildDraftContent(
+  args: z.infer<typeof CreateDraftInputSchema>,
+  account: AccountConfig,
+  source: SourceMessage | undefined,
+): DraftContent {
+  const to = parseAddresses(args.to);
+  const cc = parseAddresses(args.cc);
+  const bcc = parseAddresses(args.bcc);
+  const mode = args.mode;
+  if (!source || mode === undefined) {
+    return { to, cc, bcc, subject: args.subject, text: args.text, html: args.html };
+  }
+
+  const from = source.addresses.from.map(formatAddress).join(', ');
+  let heading: string;
+  let quoted: string;
+  let recipients = { to, cc };
+  if (mode === 'forward') {
+    heading = forwardHeading({
+      from,
+      date: source.date,
+      subject: source.subject,
+      to: source.addresses.to.map(formatAddress).join(', '),
+    });
+    quoted = `${heading}\n\n${source.text.trimEnd()}`;
+  } else {
+    heading = replyAttribution(from, source.date);
+    quoted = `${heading}\n${quoteText(source.text)}`;
+    const derived = replyRecipients(source.addresses, mode, account.user);
+    const seen = new Set<string>();
+    recipients = {
+      to: uniqueAddresses([...derived.to, ...to], seen),
+      cc: uniqueAddresses([...derived.cc, ...cc], seen),
+    };
+  }
+
+  return {
+    ...recipients,
+    bcc,
+    subject: args.subject || prefixSubject(source.subject, mode),
+    text: args.text ? `${args.text.trimEnd()}\n\n${quoted}` : quoted,
+    html: args.html !== undefined ? `${args.html}\n${quoteHtml(heading, source.text)}` : undefined,
+  };
+}
+
+/**
+ * Download one attachment part along with its filename and content type.
+ */
+async function downloadAttachment(
+  client: ImapFlow,
+  decoded: MessageIdParts,
+  partId: string,
+): Promise<DraftAttachment | { error: string }> {
+  const lockResult = await openMailboxLock(client, decoded.mailbox, {
+    readOnly: true,
+    description: 'imap_create_draft',
+    expectedUidvalidity: decoded.uidvalidity,
+  });
+  if ('error' in lockResult) {
+    return { error: `Attachment ${partId}: ${lockResult.error}` };
+  }
+  const { lock } = lockResult;
+  try {
+    const fetched = await client.fetchOne(
+      decoded.uid,
+      { uid: true, bodyStructure: true },
+      { uid: true },
+    );
+    if (!fetched) {
+      return { error: `Attachment ${partId}: message not found.` };
+    }
+    const summaries: Array<{
+      filename?: string;
+      content_type: string;
+      size_bytes: number;
+      part_id: string;
+    }> = [];
+    await collectAttachmentSummaries(fetched.bodyStructure, summaries, null, 0, false, 0, 200);
+    const summary = summaries.find((candidate) => candidate.part_id === partId);
+    if (!summary) {
+      return { error: `Attachment ${partId}: unknown part_id.` };
+    }
+    if (summary.size_bytes > MAX_DRAFT_ATTACHMENT_BYTES) {
+      return {
+        error: `Attachment ${partId} is ${summary.size_bytes} bytes which exceeds the ${MAX_DRAFT_ATTACHMENT_BYTES} byte limit.`,
+      };
+    }
+
+    // imapflow decodes the part's transfer encoding while downloading
+    const download = await client.download(decoded.uid, partId, {
+      uid: true,
+      maxBytes: MAX_DRAFT_ATTACHMENT_BYTES,
+    });
+    const chunks: Buffer[] = [];
+    for await (const chunk of download.content) {
+      chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk as Uint8Array));
+    }
+    return {
+      filename: summary.filename,
+      content_type: summary.content_type,
+      content: Buffer.concat(chunks),
+    };
+  } finally {
+    lock.release();
+  }
+}
+
+/**
+ * Build the raw RFC 5322 draft.
+ *
+ * Bcc is kept in the headers so the recipients survive until the draft is sent.
+ * References carries the source's chain followed by the source itself (RFC 5322
+ * section 3.6.4); forwards are not replies, so they omit In-Reply-To.
+ */
+async function composeDraft(
+  account: AccountConfig,
+  content: DraftContent,
+  attachments: readonly DraftAttachment[],
+  threading: Threading | undefined,
+  mode: DraftMode | undefined,
+): Promise<{ raw: Buffer; headerMessageId: string }> {
+  const references = threading
+    ? [
+        ...threading.references.filter((reference) => reference !== threading.messageId),
+        threading.messageId,
+      ]
+    : undefined;
+  const node = new MailComposer({
+    from: account.user,
+    to: content.to,
+    cc: content.cc,
+    bcc: content.bcc,
+    subject: content.subject,
+    text: content.text,
+    ...(content.html !== undefined ? { html: content.html } : {}),
+    attachments: attachments.map((attachment) => ({
+      ...(attachment.filename !== undefined ? { filename: attachment.filename } : {}),
+      contentType: attachment.content_type,
+      content: attachment.content,
+    })),
+    ...(threading && mode !== 'forward' ? { inReplyTo: threading.messageId } : {}),
+    ...(references ? { references } : {}),
+  }).compile();
+  node.keepBcc = true;
+  const raw = await node.build();
+  return { raw, headerMessageId: node.messageId() };
+}
@@ -0,0 +1,102 @@
+import type { z } from 'zod';
+
+import type { CreateMailboxInputSchema } from '../contracts.js';
+import { makeError, makeOk, type ToolHint, type ToolResult, withImapClient } from './runtime.js';
+import { loadAccountOrError } from '../utils/account.js';
+import { findListedMailbox } from '../utils/mailbox.js';
+
+/**
+ * Handle the imap_create_mailbox tool call.
+ *
+ * Creates a mailbox, either from a full path or from a single name below an
+ * existing parent. Servers separate hierarchy levels with different delimiters
+ * ("/" on most servers, "." on Courier and some Dovecot setups), so with
+ * `parent` the path is built from the parent's listed delimiter.
+ *
+ * The tool performs the following steps:
+ * 1. Validates that the account is properly configured
+ * 2. Lists the mailboxes to resolve the parent and its hierarchy delimiter
+ * 3. Rejects parents that do not exist or cannot have children (\Noinferiors)
+ * 4. Creates the mailbox (imapflow also subscribes to it)
+ * 5. Reports whether the mailbox was created or already existed
+ *
+ * @example
+ * ```ts
+ * const result = await handleCreateMailbox({
+ *   account_id: 'default',
+ *   mailbox: '2024',
+ *   parent: 'Projects'
+ * });
+ * // Returns: {
+ * //   account_id: 'default',
+ * //   mailbox: 'Projects/2024',
+ * //   created: true,
+ * //   delimiter: '/'
+ * // }
+ * ```
+ *
+ * @param args - The validated input arguments containing account_id, mailbox, and optional parent
+ * @returns A ToolResult containing the created mailbox path or an error message
+ */
+export async function handleCreateMailbox(
+  args: z.infer<typeof CreateMailboxInputSchema>,
+): Promise<ToolResult> {
+  // Validate that the account is configured before attempting to connect
+  const accountResult = loadAccountOrError(args.account_id);
+  if ('error' in accountResult) {
+    return makeError(accountResult.error);
+  }
+  const account = accountResult.account;
+
+  const result = await withImapClient(account, async (client) => {
+    const mailboxes = await client.list();
+
+    let path = args.mailbox;
+    let delimiter = mailboxes[0]?.delimiter;
+    if (args.parent !== undefined) {
+      const parent = findListedMailbox(mailboxes, args.parent);
+      if (!parent) {
+        return { error: `Parent mailbox '${args.parent}' does not exist.` };
+      }
+      if (parent.flags.has('\\Noinferiors') || !parent.delimiter) {
+        return { error: `Mailbox '${parent.path}' cannot contain child mailboxes.` };
+      }
+      delimiter = parent.delimiter;
+      path = `${parent.path}${parent.delimiter}${args.mailbox}`;
+    }
+
+    const existing = findListedMailbox(mailboxes, path);
+    if (existing && !existing.flags.has('\\NonExistent')) {
+      return { path: existing.path, created: false, delimiter };
+    }
+    const created = await client.mailboxCreate(path);
+    return { path: created.path, created: created.created, delimiter };
+  });
+  if ('error' in result) {
+    return makeError(result.error);
+  }
+
+  const summary = result.created
+    ? `Created mailbox ${result.path}.`
+    : `Mailbox ${result.path} already exists.`;
+
+  // Suggest filing messages into the new mailbox
+  const hints: ToolHint[] = [
+    {
+      tool: 'imap_search_messages',
+      arguments: { account_id: args.account_id, mailbox: 'INBOX', limit: 10 },
+      reason: `Find messages to move into ${result.path}.`,
+    },
+  ];
+
+  return makeOk(
+    summary,
+    {
+      account_id: args.account_id,
+      mailbox: result.path,
+      created: result.created,
+      delimiter: result.delimiter,
+    },
+    hints,
+  );
+}
@@ -0,0 +1,106 @@
+import type { z } from 'zod';
+
+import type { DeleteMailboxInputSchema } from '../contracts.js';
+import { makeError, makeOk, type ToolHint, type ToolResult, withImapClient } from './runtime.js';
+import { loadAccountOrError } from '../utils/account.js';
+import { findChildMailboxes, findListedMailbox } from '../utils/mailbox.js';
+
+/**
+ * Handle the imap_delete_mailbox tool call.
+ *
+ * Deletes a mailbox. This operation is destructive and requires explicit
+ * confirmation via the confirm=true parameter. Any messages in the mailbox are
+ * deleted with it, so a mailbox that still contains messages (or child
+ * mailboxes, which the server may keep as orphaned \Noselect entries) is
+ * refused unless force=true.
+ *
+ * The tool performs the following steps:
+ * 1. Rejects INBOX, which cannot be deleted (RFC 3501)
+ * 2. Validates that the account is properly configured
+ * 3. Lists the mailboxes to confirm the mailbox exists and count its children
+ * 4. Counts its messages via STATUS (skipped for \Noselect mailboxes)
+ * 5. Refuses non-empty mailboxes unless force=true
+ * 6. Deletes the mailbox and reports what it contained
+ *
+ * @example
+ * ```ts
+ * const result = await handleDeleteMailbox({
+ *   account_id: 'default',
+ *   mailbox: 'Old Projects',
+ *   force: false,
+ *   confirm: true
+ * });
+ * // Returns: {
+ * //   account_id: 'default',
+ * //   mailbox: 'Old Projects',
+ * //   messages: 0,
+ * //   child_mailboxes: 0
+ * // }
+ * ```
+ *
+ * @param args - The validated input arguments containing account_id, mailbox, force, and confirm flag
+ * @returns A ToolResult containing deletion confirmation or an error message
+ */
+export async function handleDeleteMailbox(
+  args: z.infer<typeof DeleteMailboxInputSchema>,
+): Promise<ToolResult> {
+  if (args.mailbox.toUpperCase() === 'INBOX') {
+    return makeError('INBOX cannot be deleted.');
+  }
+
+  // Validate that the account is configured before attempting to connect
+  const accountResult = loadAccountOrError(args.account_id);
+  if ('error' in accountResult) {
+    return makeError(accountResult.error);
+  }
+  const account = accountResult.account;
+
+  const result = await withImapClient(account, async (client) => {
+    const mailboxes = await client.list();
+    const target = findListedMailbox(mailboxes, args.mailbox);
+    if (!target) {
+      return { error: `Mailbox '${args.mailbox}' does not exist.` };
+    }
+
+    const children = findChildMailboxes(mailboxes, target).length;
+    const messages = target.flags.has('\\Noselect')
+      ? 0
+      : ((await client.status(target.path, { messages: true })).messages ?? 0);
+    if (!args.force && (messages > 0 || children > 0)) {
+      return {
+        error: `Mailbox '${target.path}' contains ${messages} messages and ${children} child mailboxes. Move them first, or set force=true to delete it anyway.`,
+      };
+    }
+
+    await client.mailboxDelete(target.path);
+    return { path: target.path, messages, children };
+  });
+  if ('error' in result) {
+    return makeError(result.error);
+  }
+
+  const summary =
+    result.messages > 0
+      ? `Deleted mailbox ${result.path} and its ${result.messages} messages.`
+      : `Deleted mailbox ${result.path}.`;
+
+  // Suggest reviewing the remaining mailboxes, which matters when children were left behind
+  const hints: ToolHint[] = [
+    {
+      tool: 'imap_list_mailboxes',
+      arguments: { account_id: args.account_id },
+      reason: 'Review the remaining mailboxes.',
+    },
+  ];
+
+  return makeOk(
+    summary,
+    {
+      account_id: args.account_id,
+      mailbox: result.path,
+      messages: result.messages,
+      child_mailboxes: result.children,
+    },
+    hints,
+  );
+}
@@ -1,30 +1,60 @@
+import type { ImapFlow } from 'imapflow';
 import type { z } from 'zod';
 
+import { recordAuditMessages } from '../audit.js';
 import type { DeleteMessageInputSchema } from '../contracts.js';
-import { makeError, makeOk, type ToolHint, type ToolResult, withImapClient } from './runtime.js';
+import { encodeMessageId } from '../message-id.js';
+import { evaluateMailboxPolicy } from '../policy.js';
+import {
+  hasCapability,
+  makeError,
+  makeOk,
+  moveMessageUids,
+  resolveExpungeStrategy,
+  type ToolHint,
+  type ToolResult,
+  withImapClient,
+} from './runtime.js';
 import { loadAccountOrError } from '../utils/account.js';
-import { decodeMessageIdOrError } from '../utils/message_id.js';
-import { openMailboxLock } from '../utils/mailbox.js';
+import {
+  type BulkMessageResult,
+  collectMessageIds,
+  countResults,
+  failGroup,
+  fetchExistingFlags,
+  groupMessageIds,
+  type MessageGroup,
+  orderResults,
+} from '../utils/bulk.js';
+import { copyToUndoMailbox, openMailboxLock, resolveTrashMailbox } from '../utils/mailbox.js';
 
 /**
  * Handle the imap_delete_message tool call.
  *
- * Permanently deletes a specific message from an IMAP mailbox. This operation
- * is destructive and requires explicit confirmation via the confirm=true
- * parameter to prevent accidental deletions.
+ * Deletes a specific message (or up to 50 messages via `message_ids`) from an
+ * IMAP mailbox. By default messages are moved to the `\Trash` special-use
+ * mailbox; they are only deleted permanently when the account uses the `expunge`
+ * delete strategy, `permanent` is true, or they already are in Trash. Every delete
+ * requires explicit confirmation via the confirm=true parameter to prevent
+ * accidental deletions.
  *
  * The tool performs the following steps:
- * 1. Validates and decodes the message_id to extract account, mailbox, and UID information
- * 2. Ensures the message_id matches the requested account_id for security
- * 3. Validates that the account is properly configured
- * 4. Establishes an IMAP connection and obtains a write lock on the target mailbox
- * 5. Verifies that the mailbox UIDVALIDITY matches the message_id (prevents operations on changed mailboxes)
- * 6. Deletes the message using the IMAP DELETE command
- * 7. Releases the mailbox lock
- * 8. Returns confirmation and suggests reviewing remaining messages
+ * 1. Validates and decodes each message_id to extract account, mailbox, and UID information
+ * 2. Ensures each message_id matches the requested account_id for security
+ * 3. Groups the messages by mailbox and UIDVALIDITY
+ * 4. Validates that the account is properly configured
+ * 5. Discovers the Trash mailbox, unless deleting permanently
+ * 6. For each group, obtains a write lock on the mailbox and verifies UIDVALIDITY (prevents operations on changed mailboxes)
+ * 7. Refuses groups that would need a mailbox-wide EXPUNGE (no UIDPLUS) unless
+ *    allow_mailbox_expunge is true
+ * 8. Moves the existing messages to Trash with a single UID set command, or for permanent
+ *    deletes copies them to the undo mailbox (MAIL_IMAP_UNDO_MAILBOX, if set) and
+ *    deletes them with a single UID set command
+ * 9. Releases the mailbox lock
+ * 10. Returns confirmation and suggests reviewing remaining messages
  *
- * Note: This is a destructive operation. Once deleted, messages cannot be recovered
- * unless the IMAP server has a trash/backup mechanism.
+ * Note: Permanent deletes are destructive. Without the undo mailbox, permanently deleted
+ * messages cannot be recovered unless the IMAP server has a backup mechanism.
  *
  * @example
  * ```ts
@@ -36,20 +66,25 @@ import { openMailboxLock } from '../utils/mailbox.js';
  * // Returns: {
  * //   account_id: 'default',
  * //   mailbox: 'INBOX',
- * //   message_id: 'imap:default:INBOX:1234567890:42'
+ * //   message_id: 'imap:default:INBOX:1234567890:42',
+ * //   trash_mailbox: 'Trash',
+ * //   new_message_id: 'imap:default:Trash:1234567891:7' // if UIDPLUS supported
  * // }
  * ```
  *
- * @param args - The validated input arguments containing account_id, message_id, and confirm flag
+ * @param args - The validated input arguments containing account_id, message_id or message_ids, permanent, allow_mailbox_expunge, and confirm flag
  * @returns A ToolResult containing deletion confirmation or an error message
  */
 export async function handleDeleteMessage(
   args: z.infer<typeof DeleteMessageInputSchema>,
 ): Promise<ToolResult> {
-  // Validate and decode the message_id, ensuring it matches the requested account
-  const decodedResult = decodeMessageIdOrError(args.message_id, args.account_id);
-  if ('error' in decodedResult) {
-    return makeError(decodedResult.error);
+  // Validate and decode every message_id, ensuring each matches the requested account
+  const messageIds = collectMessageIds(args);
+  const { groups, failures } = groupMessageIds(messageIds, args.account_id);
+  const single = args.message_ids === undefined;
+  const [singleFailure] = failures;
+  if (single && singleFailure?.error) {
+    return makeError(singleFailure.error);
   }
 
   // Validate that the account is configured before attempting to connect
@@ -57,63 +92,278 @@ export async function handleDeleteMessage(
   if ('error' in accountResult) {
     return makeError(accountResult.error);
   }
-  const decoded = decodedResult.decoded;
   const account = accountResult.account;
-
-  return await withImapClient(account, async (client) => {
-    // Obtain a write lock on the mailbox and validate UIDVALIDITY
-    // The expectedUidvalidity ensures we're operating on the same mailbox snapshot
-    // that was used to generate the message_id, preventing issues if the mailbox
-    // was recreated or otherwise modified
-    const lockResult = await openMailboxLock(client, decoded.mailbox, {
-      readOnly: false,
-      description: 'imap_delete_message',
-      expectedUidvalidity: decoded.uidvalidity,
+  if (groups.length === 0) {
+    return makeError(`Failed to delete all ${failures.length} messages.`, [], {
+      account_id: args.account_id,
+      results: failures,
+      succeeded: 0,
+      failed: failures.length,
     });
-    if ('error' in lockResult) {
-      return makeError(lockResult.error);
+  }
+
+  const outcome = await withImapClient(account, async (client) => {
+    const trashResult = await resolveTrashMailbox(client, account, args.permanent === true);
+    if ('error' in trashResult) {
+      return trashResult;
     }
-    const { lock } = lockResult;
-    try {
-      // Perform the delete operation using the IMAP DELETE command with UID mode
-      // UID mode ensures we're deleting the specific message regardless of its
-      // current sequence number
-      const deleted = await client.messageDelete(decoded.uid, { uid: true });
-      if (!deleted) {
-        return makeError('Delete failed for this message.');
+    if (trashResult.trash !== undefined) {
+      const policyError = evaluateMailboxPolicy(args.account_id, trashResult.trash);
+      if (policyError) {
+        return { error: policyError };
+      }
+    }
+    const allowMailboxExpunge = args.allow_mailbox_expunge === true;
+    const supportsMove = hasCapability(client, 'MOVE');
+    const expunge = resolveExpungeStrategy(client, allowMailboxExpunge);
+    let expunged = false;
+    let trashed = 0;
+    let purged = 0;
+    const collected: BulkMessageResult[] = [];
+    for (const group of groups) {
+      // Messages already in Trash have nowhere left to go, so they are deleted permanently
+      const trash = trashResult.trash !== group.mailbox ? trashResult.trash : undefined;
+      // Permanent deletes, and moves to Trash without MOVE, expunge the source mailbox
+      if (trash === undefined || !supportsMove) {
+        if ('error' in expunge) {
+          collected.push(...failGroup(group, expunge.error));
+          continue;
+        }
+        expunged = true;
+      }
+      const groupResults =
+        trash !== undefined
+          ? await trashGroup(client, group, trash, args.account_id, allowMailboxExpunge)
+          : await deleteGroup(client, group, args.account_id);
+      const { succeeded } = countResults(groupResults);
+      if (trash !== undefined) {
+        trashed += succeeded;
+      } else {
+        purged += succeeded;
       }
+      collected.push(...groupResults);
+    }
+    return {
+      trash: trashResult.trash,
+      results: collected,
+      trashed,
+      purged,
+      expungeStrategy: expunged && 'strategy' in expunge ? expunge.strategy : undefined,
+    };
+  });
+  if ('error' in outcome) {
+    return makeError(outcome.error);
+  }
+  const results = orderResults(messageIds, [...failures, ...outcome.results]);
+  const expungeMeta = outcome.expungeStrategy ? { expunge_strategy: outcome.expungeStrategy } : {};
 
-      // Provide a clear confirmation that the deletion was successful
-      const summary = `Deleted message ${args.message_id}.`;
+  if (single) {
+    const [result] = results;
+    const mailbox = groups[0]?.mailbox;
+    if (!result?.ok || mailbox === undefined) {
+      return makeError(result?.error ?? 'Delete failed for this message.');
+    }
 
-      // Suggest reviewing remaining messages to help the user understand
-      // the impact of the deletion and decide on next actions
-      const hints: ToolHint[] = [
-        {
-          tool: 'imap_search_messages',
-          arguments: {
-            account_id: args.account_id,
-            mailbox: decoded.mailbox,
-            limit: 10,
-          },
-          reason: 'Review remaining messages in the mailbox.',
-        },
-      ];
+    // Provide a clear confirmation that the deletion was successful
+    const trashed = outcome.trash !== undefined && outcome.trash !== mailbox;
+    const summary = trashed
+      ? `Moved message ${result.message_id} to ${outcome.trash}.`
+      : `Deleted message ${result.message_id} permanently.`;
 
-      // Return the deletion confirmation with structured data
-      return makeOk(
-        summary,
-        {
+    // Suggest reviewing remaining messages to help the user understand
+    // the impact of the deletion and decide on next actions
+    const hints: ToolHint[] = [
+      {
+        tool: 'imap_search_messages',
+        arguments: {
           account_id: args.account_id,
-          mailbox: decoded.mailbox,
-          message_id: args.message_id,
+          mailbox,
+          limit: 10,
         },
-        hints,
+        reason: 'Review remaining messages in the mailbox.',
+      },
+    ];
+
+    // Return the deletion confirmation with structured data
+    return makeOk(
+      summary,
+      {
+        account_id: args.account_id,
+        mailbox,
+        message_id: result.message_id,
+        ...(trashed ? { trash_mailbox: outcome.trash } : {}),
+        ...(result.new_message_id ? { new_message_id: result.new_message_id } : {}),
+      },
+      hints,
+      { delete_strategy: trashed ? 'trash' : 'expunge', ...expungeMeta },
+    );
+  }
+
+  const { succeeded, failed } = countResults(results);
+  const data = { account_id: args.account_id, results, succeeded, failed };
+  // Messages that were already in Trash are deleted permanently alongside the ones moved there
+  let deleteStrategy: 'trash' | 'expunge' | 'mixed' =
+    outcome.trash !== undefined ? 'trash' : 'expunge';
+  if (outcome.trashed > 0 && outcome.purged > 0) {
+    deleteStrategy = 'mixed';
+  } else if (outcome.purged > 0) {
+    deleteStrategy = 'expunge';
+  }
+  const meta = { delete_strategy: deleteStrategy, ...expungeMeta };
+  if (succeeded === 0) {
+    return makeError(`Failed to delete all ${results.length} messages.`, [], { ...data, ...meta });
+  }
+  let summary = `Moved ${succeeded} of ${results.length} messages to ${outcome.trash}.`;
+  if (deleteStrategy === 'mixed') {
+    summary = `Moved ${outcome.trashed} of ${results.length} messages to ${outcome.trash} and deleted ${outcome.purged} permanently.`;
+  } else if (deleteStrategy === 'expunge') {
+    summary = `Deleted ${succeeded} of ${results.length} messages permanently.`;
+  }
+  return makeOk(summary, data, [], meta);
+}
+
+/**
+ * Move the existing messages of one mailbox group to Trash with a single UID set command.
+ */
+async function trashGroup(
+  client: ImapFlow,
+  group: MessageGroup,
+  trash: string,
+  accountId: string,
+  allowMailboxExpunge: boolean,
+): Promise<BulkMessageResult[]> {
+  const lockResult = await openMailboxLock(client, group.mailbox, {
+    readOnly: false,
+    description: 'imap_delete_message',
+    expectedUidvalidity: group.uidvalidity,
+  });
+  if ('error' in lockResult) {
+    return failGroup(group, lockResult.error);
+  }
+  const { lock } = lockResult;
+  try {
+    // UID set commands silently skip missing UIDs, so check which messages exist first
+    const existing = await fetchExistingFlags(
+      client,
+      group.items.map((item) => item.uid),
+    );
+    const uids = [...existing.keys()];
+    const moved =
+      uids.length > 0 && (await moveMessageUids(client, uids, trash, allowMailboxExpunge));
+    if (moved && 'error' in moved) {
+      return failGroup(group, moved.error);
+    }
+    const trashUidvalidity =
+      moved && moved.uidValidity !== undefined ? Number(moved.uidValidity) : undefined;
+    if (moved) {
+      recordAuditMessages(
+        uids.map((uid) => ({
+          mailbox: group.mailbox,
+          uidvalidity: group.uidvalidity,
+          uid,
+          flags_before: existing.get(uid),
+          destination_mailbox: trash,
+          destination_uidvalidity: trashUidvalidity,
+          destination_uid: moved.uidMap?.get(uid),
+        })),
       );
-    } finally {
-      // Always release the lock, even if an error occurred
-      // This prevents deadlock and allows other operations to proceed
-      lock.release();
     }
+
+    return group.items.map((item): BulkMessageResult => {
+      if (!existing.has(item.uid)) {
+        return { message_id: item.message_id, ok: false, error: 'Message not found.' };
+      }
+      if (!moved) {
+        return {
+          message_id: item.message_id,
+          ok: false,
+          error: `Moving the message to ${trash} failed.`,
+        };
+      }
+      // Report the message's identifier in Trash when the server returns COPYUID (UIDPLUS)
+      const newUid = moved.uidMap?.get(item.uid);
+      return newUid !== undefined && trashUidvalidity !== undefined
+        ? {
+            message_id: item.message_id,
+            ok: true,
+            new_message_id: encodeMessageId({
+              account_id: accountId,
+              mailbox: trash,
+              uidvalidity: trashUidvalidity,
+              uid: newUid,
+            }),
+          }
+        : { message_id: item.message_id, ok: true };
+    });
+  } finally {
+    lock.release();
+  }
+}
+
+/**
+ * Permanently delete the existing messages of one mailbox group with a single UID set command.
+ */
+async function deleteGroup(
+  client: ImapFlow,
+  group: MessageGroup,
+  accountId: string,
+): Promise<BulkMessageResult[]> {
+  // Obtain a write lock on the mailbox and validate UIDVALIDITY
+  // The expectedUidvalidity ensures we're operating on the same mailbox snapshot
+  // that was used to generate the message_id, preventing issues if the mailbox
+  // was recreated or otherwise modified
+  const lockResult = await openMailboxLock(client, group.mailbox, {
+    readOnly: false,
+    description: 'imap_delete_message',
+    expectedUidvalidity: group.uidvalidity,
   });
+  if ('error' in lockResult) {
+    return failGroup(group, lockResult.error);
+  }
+  const { lock } = lockResult;
+  try {
+    // UID set commands silently skip missing UIDs, so check which messages exist first
+    const existing = await fetchExistingFlags(
+      client,
+      group.items.map((item) => item.uid),
+    );
+    const uids = [...existing.keys()];
+
+    // Keep a copy in the undo mailbox first, so imap_undo can restore the messages
+    const undoCopy = await copyToUndoMailbox(client, accountId, uids, group.mailbox);
+    if (undoCopy && 'error' in undoCopy) {
+      return failGroup(group, undoCopy.error);
+    }
+
+    // Perform the delete operation using UID mode
+    // UID mode ensures we're deleting the specific messages regardless of their
+    // current sequence numbers
+    const deleted = uids.length > 0 && (await client.messageDelete(uids, { uid: true }));
+    if (deleted) {
+      recordAuditMessages(
+        uids.map((uid) => ({
+          mailbox: group.mailbox,
+          uidvalidity: group.uidvalidity,
+          uid,
+          flags_before: existing.get(uid),
+          destination_mailbox: undoCopy?.mailbox,
+          destination_uidvalidity: undoCopy?.uidvalidity,
+          destination_uid: undoCopy?.uidMap.get(uid),
+        })),
+      );
+    }
+
+    return group.items.map((item): BulkMessageResult => {
+      if (!existing.has(item.uid)) {
+        return { message_id: item.message_id, ok: false, error: 'Message not found.' };
+      }
+      return deleted
+        ? { message_id: item.message_id, ok: true }
+        : { message_id: item.message_id, ok: false, error: 'Delete failed for this message.' };
+    });
+  } finally {
+    // Always release the lock, even if an error occurred
+    // This prevents deadlock and allows other operations to proceed
+    lock.release();
+  }
 }
@@ -0,0 +1,338 @@
+import type { ImapFlow } from 'imapflow';
+import type { z } from 'zod';
+
+import type { GetThreadInputSchema } from '../contracts.js';
+import { encodeMessageId } from '../message-id.js';
+import { evaluateMailboxPolicy } from '../policy.js';
+import { loadAccountOrError } from '../utils/account.js';
+import { findSpecialUseMailbox, openMailboxLock } from '../utils/mailbox.js';
+import { decodeMessageIdOrError } from '../utils/message_id.js';
+import {
+  findThreadUids,
+  orderThread,
+  parseMessageIdList,
+  readHeaderValue,
+  runThreadCommand,
+  THREAD_ALGORITHMS,
+  type ThreadEntry,
+} from '../utils/thread.js';
+import {
+  formatFlags,
+  hasCapability,
+  makeError,
+  makeOk,
+  nowUtcIso,
+  summarizeEnvelope,
+  type ToolHint,
+  type ToolResult,
+  UNTRUSTED_EMAIL_CONTENT_NOTE,
+  withImapClient,
+} from './runtime.js';
+
+/**
+ * Upper bound on messages collected before ordering, independent of `limit`.
+ */
+const MAX_THREAD_CANDIDATES = 200;
+
+/**
+ * Header matching rounds; the second round finds replies to newly found messages.
+ */
+const MAX_HEADER_ROUNDS = 2;
+
+/**
+ * Maximum msg-ids searched per mailbox and round to keep SEARCH commands bounded.
+ */
+const MAX_SEARCH_IDS = 20;
+
+type ThreadCandidate = {
+  message_id: string;
+  mailbox: string;
+  uidvalidity: number;
+  uid: number;
+  date: string;
+  from: string | undefined;
+  subject: string | undefined;
+  flags: string[] | undefined;
+  header_message_id: string | undefined;
+  in_reply_to: string | undefined;
+  references: string[];
+  date_ms: number;
+};
+
+/**
+ * Fetch envelope and threading headers for UIDs in the selected mailbox.
+ */
+async function fetchThreadCandidates(
+  client: ImapFlow,
+  accountId: string,
+  mailbox: string,
+  uidvalidity: number,
+  uids: readonly number[],
+): Promise<ThreadCandidate[]> {
+  if (uids.length === 0) {
+    return [];
+  }
+  const candidates: ThreadCandidate[] = [];
+  for await (const message of client.fetch(
+    [...uids],
+    { uid: true, envelope: true, flags: true, internalDate: true, headers: ['references'] },
+    { uid: true },
+  )) {
+    if (message.uid === undefined) {
+      continue;
+    }
+    const envelopeSummary = summarizeEnvelope(message.envelope);
+    const internalDate = message.internalDate instanceof Date ? message.internalDate : undefined;
+    const dateMs = message.envelope?.date?.getTime() ?? internalDate?.getTime() ?? 0;
+    candidates.push({
+      message_id: encodeMessageId({
+        account_id: accountId,
+        mailbox,
+        uidvalidity,
+        uid: message.uid,
+      }),
+      mailbox,
+      uidvalidity,
+      uid: message.uid,
+      date: envelopeSummary.date,
+      from: envelopeSummary.from,
+      subject: envelopeSummary.subject,
+      flags: formatFlags(message.flags),
+      header_message_id: parseMessageIdList(message.envelope?.messageId)[0],
+      in_reply_to: parseMessageIdList(message.envelope?.inReplyTo)[0],
+      references: parseMessageIdList(readHeaderValue(message.headers, 'references')),
+      date_ms: Number.isNaN(dateMs) ? 0 : dateMs,
+    });
+  }
+  return candidates;
+}
+
+/**
+ * Handle the imap_get_thread tool call.
+ *
+ * Reconstructs the conversation that contains a message and returns it as a
+ * depth-first ordered reply tree of message summaries.
+ *
+ * The tool performs the following steps:
+ * 1. Validates and decodes the message_id and loads the account
+ * 2. Resolves the mailboxes to search (default: the message's mailbox plus \Sent),
+ *    including special-use entries, and checks each against the account's policy
+ * 3. Opens the source mailbox, verifies UIDVALIDITY, and fetches the message
+ * 4. If the server advertises THREAD=REFERENCES or THREAD=ORDEREDSUBJECT, runs
+ *    UID THREAD on the source mailbox and takes the thread containing the message
+ * 5. Searches the remaining mailboxes (and the source mailbox when THREAD is
+ *    unavailable or did not return the message) for messages whose Message-ID,
+ *    In-Reply-To, or References header mentions a known msg-id
+ * 6. Orders all found messages into a reply tree using their headers
+ *
+ * @param args - The validated input arguments containing account_id, message_id, mailboxes, and limit
+ * @returns A ToolResult containing the ordered thread or an error message
+ */
+export async function handleGetThread(
+  args: z.infer<typeof GetThreadInputSchema>,
+): Promise<ToolResult> {
+  const decodedResult = decodeMessageIdOrError(args.message_id, args.account_id);
+  if ('error' in decodedResult) {
+    return makeError(decodedResult.error);
+  }
+
+  const accountResult = loadAccountOrError(args.account_id);
+  if ('error' in accountResult) {
+    return makeError(accountResult.error);
+  }
+  const decoded = decodedResult.decoded;
+  const account = accountResult.account;
+
+  return await withImapClient(account, async (client) => {
+    // Special-use entries such as \Sent name a mailbox only once resolved, so the
+    // account's policy is checked against the resolved paths
+    const requested: string[] = [];
+    for (const entry of args.mailboxes ?? ['\\Sent']) {
+      const mailbox = entry.startsWith('\\') ? await findSpecialUseMailbox(client, entry) : entry;
+      if (mailbox === undefined) {
+        if (args.mailboxes === undefined) {
+          continue;
+        }
+        return makeError(`No mailbox found for ${entry}.`);
+      }
+      const policyError = evaluateMailboxPolicy(args.account_id, mailbox);
+      if (policyError) {
+        // The default \Sent mailbox is skipped when the account's policy denies it
+        if (args.mailboxes === undefined) {
+          continue;
+        }
+        return makeError(policyError);
+      }
+      requested.push(mailbox);
+    }
+    // The source mailbox is always searched first so its copy of a message wins duplicates
+    const mailboxes = [...new Set([decoded.mailbox, ...requested])];
+
+    const collected = new Map<string, ThreadCandidate>();
+    const seenHeaderIds = new Set<string>();
+    const knownIds = new Set<string>();
+    const addCandidate = (candidate: ThreadCandidate): void => {
+      if (collected.has(candidate.message_id) || collected.size >= MAX_THREAD_CANDIDATES) {
+        return;
+      }
+      // The same message may be stored in several mailboxes (e.g. a copy sent to oneself)
+      if (candidate.header_message_id) {
+        if (seenHeaderIds.has(candidate.header_message_id)) {
+          return;
+        }
+        seenHeaderIds.add(candidate.header_message_id);
+        knownIds.add(candidate.header_message_id);
+      }
+      if (candidate.in_reply_to) {
+        knownIds.add(candidate.in_reply_to);
+      }
+      for (const reference of candidate.references) {
+        knownIds.add(reference);
+      }
+      collected.set(candidate.message_id, candidate);
+    };
+
+    let strategy = 'headers';
+    const lockResult = await openMailboxLock(client, decoded.mailbox, {
+      readOnly: true,
+      description: 'imap_get_thread',
+      expectedUidvalidity: decoded.uidvalidity,
+    });
+    if ('error' in lockResult) {
+      return makeError(lockResult.error);
+    }
+    try {
+      const [target] = await fetchThreadCandidates(
+        client,
+        args.account_id,
+        decoded.mailbox,
+        decoded.uidvalidity,
+        [decoded.uid],
+      );
+      if (!target) {
+        return makeError('Message not found.');
+      }
+      addCandidate(target);
+
+      // Prefer server-side threading for the source mailbox when advertised
+      const algorithm = THREAD_ALGORITHMS.find((name) => hasCapability(client, `THREAD=${name}`));
+      if (algorithm) {
+        const threads = await runThreadCommand(client, algorithm);
+        const uids = threads ? findThreadUids(threads, decoded.uid) : [];
+        if (uids.length > 0) {
+          strategy = `thread:${algorithm.toLowerCase()}`;
+          const members = await fetchThreadCandidates(
+            client,
+            args.account_id,
+            decoded.mailbox,
+            decoded.uidvalidity,
+            uids.slice(0, MAX_THREAD_CANDIDATES),
+          );
+          members.forEach(addCandidate);
+        }
+      }
+    } finally {
+      lockResult.lock.release();
+    }
+
+    // Header-based threading: find messages whose Message-ID, In-Reply-To, or
+    // References mention a msg-id already known to belong to the thread
+    const searchedIds = new Set<string>();
+    for (let round = 0; round < MAX_HEADER_ROUNDS; round += 1) {
+      const ids = [...knownIds].filter((id) => !searchedIds.has(id)).slice(0, MAX_SEARCH_IDS);
+      if (ids.length === 0 || collected.size >= MAX_THREAD_CANDIDATES) {
+        break;
+      }
+      ids.forEach((id) => searchedIds.add(id));
+      const criteria = ids.flatMap((id) => [
+        { header: { 'message-id': id } },
+        { header: { 'in-reply-to': id } },
+        { header: { references: id } },
+      ]);
+
+      for (const mailbox of mailboxes) {
+        // The server's thread already covers the source mailbox
+        if (mailbox === decoded.mailbox && strategy !== 'headers') {
+          continue;
+        }
+        const mailboxLock = await openMailboxLock(client, mailbox, {
+          readOnly: true,
+          description: 'imap_get_thread',
+        });
+        if ('error' in mailboxLock) {
+          return makeError(mailboxLock.error);
+        }
+        try {
+          const uids = (await client.search({ or: criteria }, { uid: true })) || [];
+          const candidates = await fetchThreadCandidates(
+            client,
+            args.account_id,
+            mailbox,
+            mailboxLock.uidvalidity,
+            uids.slice(0, MAX_THREAD_CANDIDATES),
+          );
+          candidates.forEach(addCandidate);
+        } finally {
+          mailboxLock.lock.release();
+        }
+      }
+    }
+
+    const entries: ThreadEntry<ThreadCandidate>[] = [...collected.values()].map((candidate) => ({
+      value: candidate,
+      header_message_id: candidate.header_message_id,
+      in_reply_to: candidate.in_reply_to,
+      references: candidate.references,
+      date_ms: candidate.date_ms,
+    }));
+    const ordered = orderThread(entries);
+    const messages = ordered.slice(0, args.limit).map(({ value, depth, parent }) => ({
+      message_id: value.message_id,
+      mailbox: value.mailbox,
+      uidvalidity: value.uidvalidity,
+      uid: value.uid,
+      date: value.date,
+      from: value.from,
+      subject: value.subject,
+      flags: value.flags,
+      depth,
+      parent_message_id: parent?.message_id,
+    }));
+    const truncated = ordered.length > messages.length;
+
+    const summary = truncated
+      ? `Thread has ${ordered.length} messages. Showing first ${messages.length}.`
+      : `Thread has ${ordered.length} messages.`;
+    const hints: ToolHint[] = [];
+    const latest = [...messages].sort((a, b) => b.date.localeCompare(a.date))[0];
+    if (latest) {
+      hints.push({
+        tool: 'imap_get_message',
+        arguments: {
+          account_id: args.account_id,
+          message_id: latest.message_id,
+        },
+        reason: 'Fetch the most recent message in the thread.',
+      });
+    }
+
+    return makeOk(
+      summary,
+      {
+        account_id: args.account_id,
+        message_id: args.message_id,
+        total: ordered.length,
+        truncated,
+        messages,
+      },
+      hints,
+      {
+        now_utc: nowUtcIso(),
+        security_note: UNTRUSTED_EMAIL_CONTENT_NOTE,
+        read_side_effects: 'none',
+        thread_strategy: strategy,
+        mailboxes_searched: mailboxes,
+      },
+    );
+  });
+}
@@ -1,7 +1,7 @@
 import type { z } from 'zod';
 
 import type { ListAccountsInputSchema } from '../contracts.js';
-import { DEFAULT_PORT, DEFAULT_SECURE, getAccountEnvEntries } from '../config.js';
+import { DEFAULT_PORT, DEFAULT_SECURE, getAccountEnvEntries, readSetting } from '../config.js';
 import { makeOk, type ToolHint, type ToolResult } from './runtime.js';
 
 type AccountConnection = Readonly<{
@@ -34,12 +34,12 @@ function parseNumberEnv(value: string | undefined, defaultValue: number): number
 }
 
 function toAccountConnection(accountIdSegment: string, prefix: string): AccountConnection | null {
-  const host = process.env[`${prefix}HOST`];
+  const host = readSetting(`${prefix}HOST`);
   if (!host) {
     return null;
   }
-  const port = parseNumberEnv(process.env[`${prefix}PORT`], DEFAULT_PORT);
-  const secure = parseBooleanEnv(process.env[`${prefix}SECURE`], DEFAULT_SECURE);
+  const port = parseNumberEnv(readSetting(`${prefix}PORT`), DEFAULT_PORT);
+  const secure = parseBooleanEnv(readSetting(`${prefix}SECURE`), DEFAULT_SECURE);
 
   return {
     account_id: accountIdSegment.toLowerCase(),
@@ -1,9 +1,28 @@
+import type { ImapFlow, ListResponse } from 'imapflow';
 import type { z } from 'zod';
 
-import type { ListMailboxesInputSchema } from '../contracts.js';
-import { makeError, makeOk, type ToolResult, type ToolHint } from './runtime.js';
-import { withImapClient } from './runtime.js';
+import type { AccountConfig } from '../config.js';
+import type { ListMailboxesInputSchema, MailboxSummary, MailboxTreeNode } from '../contracts.js';
+import { evaluateMailboxPolicy } from '../policy.js';
+import {
+  MAILBOX_CURSOR_STORE,
+  makeError,
+  makeOk,
+  type ToolResult,
+  type ToolHint,
+  withImapClient,
+} from './runtime.js';
 import { loadAccountOrError } from '../utils/account.js';
+import { findListedMailbox, matchesListPattern } from '../utils/mailbox.js';
+
+type CountsStrategy = 'list_status' | 'status';
+
+type MailboxListing = {
+  mailboxes: readonly MailboxSummary[];
+  counts_strategy: CountsStrategy | undefined;
+  tree: boolean;
+  offset: number;
+};
 
 /**
  * Handle the imap_list_mailboxes tool call.
@@ -14,27 +33,44 @@ import { loadAccountOrError } from '../utils/account.js';
  *
  * The tool performs the following steps:
  * 1. Validates that the specified account is configured
- * 2. Establishes an IMAP connection to the server
- * 3. Retrieves the list of all mailboxes using the LIST command
- * 4. Normalizes the mailbox information (removes redundant delimiters)
- * 5. Returns the list with a suggestion to search the first mailbox
+ * 2. If a cursor is provided, continues the listing captured with it
+ * 3. Otherwise retrieves the list of all mailboxes using the LIST command
+ *    (with LIST-STATUS when include_counts is set and the server supports it)
+ *    and narrows it by parent, LIST pattern, and subscription
+ * 4. Normalizes the mailbox information (removes redundant delimiters) and
+ *    reports special-use, subscription, and hierarchy attributes
+ * 5. Fetches counts for the page with STATUS when LIST-STATUS is unavailable
+ * 6. Returns the page (nested by hierarchy in tree mode) with a next_cursor
+ *    if more mailboxes remain
+ *
+ * In tree mode each page is nested separately; a mailbox whose parent was
+ * returned on an earlier page appears at the top level with `parent` set.
+ *
+ * Special-use attributes (RFC 6154) identify the real Trash, Junk, Archive,
+ * Sent, and Drafts mailboxes regardless of their localized names.
  *
  * @example
  * ```ts
  * const result = await handleListMailboxes({
- *   account_id: 'default'
+ *   account_id: 'default',
+ *   include_counts: true,
+ *   limit: 2
  * });
  * // Returns: {
  * //   account_id: 'default',
  * //   mailboxes: [
- * //     { name: 'INBOX', delimiter: undefined },
- * //     { name: 'Sent', delimiter: undefined },
- * //     { name: 'Drafts', delimiter: undefined }
- * //   ]
+ * //     { name: 'INBOX', special_use: '\\Inbox', subscribed: true, noselect: false,
+ * //       has_children: false, message_count: 120, unread_count: 4 },
+ * //     { name: 'Trash', special_use: '\\Trash', subscribed: true, noselect: false,
+ * //       has_children: false, message_count: 8, unread_count: 0 }
+ * //   ],
+ * //   total: 37,
+ * //   next_cursor: 'uuid-of-cursor',
+ * //   has_more: true
  * // }
  * ```
  *
- * @param args - The validated input arguments containing the account_id
+ * @param args - The validated input arguments containing the account_id, filters, and pagination options
  * @returns A ToolResult containing the list of mailboxes or an error message
  */
 export async function handleListMailboxes(
@@ -47,32 +83,77 @@ export async function handleListMailboxes(
   }
   const account = accountResult.account;
 
-  // Establish an IMAP connection and list all mailboxes on the server
-  // The LIST command returns hierarchy information including delimiters
-  const mailboxes = await withImapClient(account, (client) => client.list());
+  // If a cursor is provided, continue the listing captured with it
+  const cursor = args.cursor ? MAILBOX_CURSOR_STORE.getMailboxListCursor(args.cursor) : null;
+  if (args.cursor && !cursor) {
+    return makeError('cursor is invalid or expired. List the mailboxes again.');
+  }
+  if (cursor && cursor.account_id !== args.account_id) {
+    return makeError('cursor does not match the requested account.');
+  }
+
+  const listing: MailboxListing | { error: string } = cursor
+    ? {
+        mailboxes: cursor.mailboxes,
+        counts_strategy: cursor.counts_strategy,
+        tree: cursor.tree,
+        offset: cursor.offset,
+      }
+    : await listMatchingMailboxes(account, args);
+  if ('error' in listing) {
+    return makeError(listing.error);
+  }
+
+  const total = listing.mailboxes.length;
+  const offset = listing.offset;
+  let page = listing.mailboxes.slice(offset, offset + args.limit);
+  // Without LIST-STATUS, counts are fetched with STATUS for the current page only
+  if (listing.counts_strategy === 'status' && page.length > 0) {
+    const pageMailboxes = page;
+    page = await withImapClient(account, (client) => addStatusCounts(client, pageMailboxes));
+  }
+
+  // Advance (or create) the cursor while mailboxes remain, and drop it at the end
+  const nextOffset = offset + page.length;
+  const hasMore = nextOffset < total;
+  let nextCursor: string | undefined;
+  if (cursor) {
+    if (hasMore) {
+      nextCursor = MAILBOX_CURSOR_STORE.updateMailboxListCursor(cursor.id, nextOffset)?.id;
+    } else {
+      MAILBOX_CURSOR_STORE.delete(cursor.id);
+    }
+  } else if (hasMore) {
+    nextCursor = MAILBOX_CURSOR_STORE.createMailboxListCursor({
+      tool: 'imap_list_mailboxes',
+      account_id: args.account_id,
+      mailboxes: listing.mailboxes,
+      ...(listing.counts_strategy ? { counts_strategy: listing.counts_strategy } : {}),
+      tree: listing.tree,
+      offset: nextOffset,
+      total,
+    }).id;
+  }
 
-  // Transform the raw mailbox data into a simpler format
-  // We normalize the delimiter to undefined for '/' (the most common case)
-  // and filter out any entries with invalid or missing names
-  const mailboxSummaries = mailboxes
-    .map((mailbox) => ({
-      name: mailbox.path,
-      delimiter: mailbox.delimiter != '/' ? mailbox.delimiter : undefined,
-    }))
-    .filter((mailbox) => typeof mailbox.name === 'string');
-  const limitedMailboxes = mailboxSummaries.slice(0, 200);
   // Provide a helpful summary message showing how many mailboxes were found
   const summaryText =
-    mailboxSummaries.length > limitedMailboxes.length
-      ? `Mailboxes (${mailboxSummaries.length}) fetched. Showing first ${limitedMailboxes.length}.`
-      : `Mailboxes (${mailboxSummaries.length}) fetched.`;
+    page.length < total
+      ? `Mailboxes (${total}) fetched. Showing ${offset + 1}-${nextOffset}.`
+      : `Mailboxes (${total}) fetched.`;
 
   // Create actionable hints to guide the user's next steps
   const hints: ToolHint[] = [];
-  const firstMailbox = limitedMailboxes[0]?.name;
+  if (nextCursor) {
+    hints.push({
+      tool: 'imap_list_mailboxes',
+      arguments: { account_id: args.account_id, cursor: nextCursor, limit: args.limit },
+      reason: 'Retrieve the next page of mailboxes.',
+    });
+  }
 
-  // Suggest searching the first mailbox if one exists
+  // Suggest searching the first selectable mailbox if one exists
   // This helps users quickly see what's available without additional tool calls
+  const firstMailbox = page.find((mailbox) => !mailbox.noselect)?.name;
   if (firstMailbox) {
     hints.push({
       tool: 'imap_search_messages',
@@ -85,12 +166,148 @@ export async function handleListMailboxes(
     });
   }
 
+  // Report how counts were gathered, since per-mailbox STATUS is slow on large accounts
+  const meta = listing.counts_strategy ? { counts_strategy: listing.counts_strategy } : undefined;
+
   return makeOk(
     summaryText,
     {
       account_id: args.account_id,
-      mailboxes: limitedMailboxes,
+      mailboxes: listing.tree ? buildMailboxTree(page) : page,
+      total,
+      next_cursor: nextCursor,
+      has_more: hasMore,
     },
     hints,
+    meta,
   );
 }
+
+/**
+ * List the account's mailboxes and keep those matching the requested filters.
+ */
+async function listMatchingMailboxes(
+  account: AccountConfig,
+  args: z.infer<typeof ListMailboxesInputSchema>,
+): Promise<MailboxListing | { error: string }> {
+  // Establish an IMAP connection and list all mailboxes on the server
+  // The LIST command returns hierarchy information including delimiters
+  // With LIST-STATUS (RFC 5819) the counts arrive with the listing in one round trip
+  const { entries, listStatus } = await withImapClient(account, async (client) => {
+    const listStatus = client.capabilities.has('LIST-STATUS');
+    return {
+      entries: await client.list(
+        args.include_counts && listStatus ? { statusQuery: { messages: true, unseen: true } } : {},
+      ),
+      listStatus,
+    };
+  });
+
+  // Narrow to the parent's subtree; patterns are then matched relative to the parent
+  let prefix = '';
+  if (args.parent !== undefined) {
+    const parent = findListedMailbox(entries, args.parent);
+    if (!parent) {
+      return { error: `Parent mailbox '${args.parent}' does not exist.` };
+    }
+    if (!parent.delimiter) {
+      return { error: `Mailbox '${parent.path}' cannot contain child mailboxes.` };
+    }
+    prefix = `${parent.path}${parent.delimiter}`;
+  }
+  const pattern = args.pattern;
+  const matching = entries.filter(
+    (mailbox) =>
+      typeof mailbox.path === 'string' &&
+      mailbox.path.startsWith(prefix) &&
+      (pattern === undefined ||
+        matchesListPattern(mailbox.path.slice(prefix.length), pattern, mailbox.delimiter)) &&
+      (!args.subscribed_only || mailbox.subscribed) &&
+      // Mailboxes the account's policy denies are not listed
+      evaluateMailboxPolicy(args.account_id, mailbox.path) === undefined,
+  );
+
+  // Mailboxes that appear as another mailbox's parent have children, even when
+  // the server omits the \HasChildren attribute (RFC 3348)
+  const parents = new Set(entries.map((mailbox) => mailbox.parentPath).filter(Boolean));
+
+  // Transform the raw mailbox data into a simpler format
+  const countsStrategy: CountsStrategy | undefined = args.include_counts
+    ? listStatus
+      ? 'list_status'
+      : 'status'
+    : undefined;
+  return {
+    mailboxes: matching.map((mailbox) =>
+      summarizeMailbox(mailbox, parents, countsStrategy === 'list_status'),
+    ),
+    counts_strategy: countsStrategy,
+    tree: args.tree,
+    offset: 0,
+  };
+}
+
+/**
+ * Convert a LIST entry into a mailbox summary.
+ */
+function summarizeMailbox(
+  mailbox: ListResponse,
+  parents: ReadonlySet<string>,
+  includeCounts: boolean,
+): MailboxSummary {
+  const status = includeCounts ? mailbox.status : undefined;
+  return {
+    name: mailbox.path,
+    // We normalize the delimiter to undefined for '/' (the most common case)
+    delimiter: mailbox.delimiter != '/' ? mailbox.delimiter : undefined,
+    special_use: mailbox.specialUse,
+    subscribed: mailbox.subscribed,
+    noselect: mailbox.flags.has('\\Noselect') || mailbox.flags.has('\\NonExistent'),
+    parent: mailbox.parentPath || undefined,
+    has_children: mailbox.flags.has('\\HasChildren') || parents.has(mailbox.path),
+    // STATUS failures for a single mailbox leave its counts out rather than failing the list
+    message_count: typeof status?.messages === 'number' ? status.messages : undefined,
+    unread_count: typeof status?.unseen === 'number' ? status.unseen : undefined,
+  };
+}
+
+/**
+ * Add message and unread counts to a page of mailboxes using STATUS.
+ */
+async function addStatusCounts(
+  client: ImapFlow,
+  mailboxes: readonly MailboxSummary[],
+): Promise<MailboxSummary[]> {
+  const counted: MailboxSummary[] = [];
+  for (const mailbox of mailboxes) {
+    if (mailbox.noselect) {
+      counted.push(mailbox);
+      continue;
+    }
+    try {
+      const status = await client.status(mailbox.name, { messages: true, unseen: true });
+      counted.push({ ...mailbox, message_count: status.messages, unread_count: status.unseen });
+    } catch {
+      // A failing mailbox leaves its counts out rather than failing the page
+      counted.push(mailbox);
+    }
+  }
+  return counted;
+}
+
+/**
+ * Nest a page of mailboxes under their parents.
+ *
+ * Mailboxes whose parent is not on the page become top-level entries.
+ */
+function buildMailboxTree(mailboxes: readonly MailboxSummary[]): MailboxTreeNode[] {
+  const nodes = new Map<string, MailboxTreeNode>(
+    mailboxes.map((mailbox) => [mailbox.name, { ...mailbox, children: [] }]),
+  );
+  const roots: MailboxTreeNode[] = [];
+  for (const node of nodes.values()) {
+    const parent = node.parent !== undefined ? nodes.get(node.parent) : undefined;
+    (parent ? parent.children : roots).push(node);
+  }
+  return roots;
+}
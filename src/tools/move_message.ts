@@ -1,39 +1,55 @@
+import type { ImapFlow } from 'imapflow';
 import type { z } from 'zod';
 
+import { recordAuditMessages } from '../audit.js';
 import type { MoveMessageInputSchema } from '../contracts.js';
 import { encodeMessageId } from '../message-id.js';
 import {
   hasCapability,
   makeError,
   makeOk,
+  moveMessageUids,
+  resolveMoveStrategy,
   type ToolHint,
   type ToolResult,
   withImapClient,
 } from './runtime.js';
 import { loadAccountOrError } from '../utils/account.js';
-import { decodeMessageIdOrError } from '../utils/message_id.js';
+import {
+  type BulkMessageResult,
+  collectMessageIds,
+  countResults,
+  failGroup,
+  fetchExistingFlags,
+  groupMessageIds,
+  type MessageGroup,
+  orderResults,
+} from '../utils/bulk.js';
 import { openMailboxLock } from '../utils/mailbox.js';
 
 /**
  * Handle the imap_move_message tool call.
  *
- * Moves a message from one mailbox to another. This operation removes the message
- * from its original mailbox and places it in the destination mailbox. The tool
+ * Moves a message (or up to 50 messages via `message_ids`) from one mailbox to
+ * another. This operation removes the message from its original mailbox and
+ * places it in the destination mailbox. The tool
  * automatically chooses the best strategy based on server capabilities:
  * - If the server supports the MOVE command (RFC 6851), it uses that
- * - Otherwise, it falls back to COPY + DELETE (traditional method)
+ * - Otherwise, it falls back to COPY + DELETE (traditional method), expunging the
+ *   originals with UID EXPUNGE (UIDPLUS); without UIDPLUS the fallback would expunge
+ *   the whole mailbox, so it is refused unless allow_mailbox_expunge is true
  *
  * The tool performs the following steps:
- * 1. Validates and decodes the message_id to extract account, mailbox, and UID information
- * 2. Ensures the message_id matches the requested account_id for security
- * 3. Validates that the account is properly configured
- * 4. Establishes an IMAP connection and obtains a write lock on the source mailbox
- * 5. Verifies that the mailbox UIDVALIDITY matches the message_id
- * 6. Detects server capabilities (MOVE and UIDPLUS support)
- * 7. Attempts to move the message using the best available method
- * 8. If UIDPLUS is supported, generates a new message_id for the moved message
+ * 1. Validates and decodes each message_id to extract account, mailbox, and UID information
+ * 2. Ensures each message_id matches the requested account_id for security
+ * 3. Groups the messages by source mailbox and UIDVALIDITY
+ * 4. Validates that the account is properly configured
+ * 5. Detects server capabilities (MOVE and UIDPLUS support) and refuses an unsafe fallback
+ * 6. For each group, obtains a write lock on the source mailbox and verifies UIDVALIDITY
+ * 7. Moves the existing messages with a single UID set command using the best available method
+ * 8. If UIDPLUS is supported, generates new message_ids for the moved messages
  * 9. Releases the mailbox lock
- * 10. Returns confirmation with the new message_id (if available)
+ * 10. Returns confirmation with the new message_id(s) (if available)
  *
  * @example
  * ```ts
@@ -51,131 +67,238 @@ import { openMailboxLock } from '../utils/mailbox.js';
  * // }
  * ```
  *
- * @param args - The validated input arguments containing account_id, message_id, and destination_mailbox
+ * @param args - The validated input arguments containing account_id, message_id or message_ids, destination_mailbox, and allow_mailbox_expunge
  * @returns A ToolResult containing the move confirmation or an error message
  */
 export async function handleMoveMessage(
   args: z.infer<typeof MoveMessageInputSchema>,
 ): Promise<ToolResult> {
-  const decodedResult = decodeMessageIdOrError(args.message_id, args.account_id);
-  if ('error' in decodedResult) {
-    return makeError(decodedResult.error);
+  const messageIds = collectMessageIds(args);
+  const { groups, failures } = groupMessageIds(messageIds, args.account_id);
+  const single = args.message_ids === undefined;
+  const [singleFailure] = failures;
+  if (single && singleFailure?.error) {
+    return makeError(singleFailure.error);
   }
 
   const accountResult = loadAccountOrError(args.account_id);
   if ('error' in accountResult) {
     return makeError(accountResult.error);
   }
-  const decoded = decodedResult.decoded;
   const account = accountResult.account;
+  if (groups.length === 0) {
+    return makeError(`Failed to move all ${failures.length} messages.`, [], {
+      account_id: args.account_id,
+      results: failures,
+      succeeded: 0,
+      failed: failures.length,
+    });
+  }
 
-  return await withImapClient(account, async (client) => {
-    // Obtain a write lock on the mailbox and validate UIDVALIDITY
-    // The expectedUidvalidity ensures we're operating on the same mailbox snapshot
-    // that was used to generate the message_id, preventing issues if the mailbox
-    // was recreated or otherwise modified
-    const lockResult = await openMailboxLock(client, decoded.mailbox, {
-      readOnly: false,
-      description: 'imap_move_message',
-      expectedUidvalidity: decoded.uidvalidity,
+  const outcome = await withImapClient(account, async (client) => {
+    // UIDPLUS (RFC 4315) allows us to determine the new message UID after moving
+    const supportsUidplus = hasCapability(client, 'UIDPLUS');
+    // The same strategy moveMessageUids uses: MOVE (RFC 6851) when available, otherwise
+    // COPY + DELETE, which must not expunge other messages flagged \Deleted in the mailbox
+    const strategy = resolveMoveStrategy(client, args.allow_mailbox_expunge === true);
+    if ('error' in strategy) {
+      return { error: strategy.error, strategy, supportsUidplus };
+    }
+    const collected: BulkMessageResult[] = [];
+    let copyCompleted = false;
+    for (const group of groups) {
+      const groupOutcome = await moveGroup(client, group, args, supportsUidplus);
+      collected.push(...groupOutcome.results);
+      copyCompleted ||= groupOutcome.copyCompleted;
+    }
+    return { results: collected, strategy, supportsUidplus, copyCompleted };
+  });
+  if ('error' in outcome) {
+    return makeError(outcome.error, [], {
+      move_strategy: outcome.strategy.move_strategy,
+      uidplus: outcome.supportsUidplus,
     });
-    if ('error' in lockResult) {
-      return makeError(lockResult.error);
+  }
+  const results = orderResults(messageIds, [...failures, ...outcome.results]);
+  // move_strategy, plus expunge_strategy when the COPY + DELETE fallback expunges
+  const strategyMeta = outcome.strategy;
+
+  if (single) {
+    const [result] = results;
+    if (!result?.ok) {
+      // Include metadata about the move strategy for debugging and transparency
+      // This helps users understand what happened if issues arise
+      return makeError(
+        result?.error ?? 'Move failed for this message.',
+        [],
+        outcome.copyCompleted ? { ...strategyMeta, copy_completed: true } : strategyMeta,
+      );
     }
-    const { lock } = lockResult;
-    try {
-      // Check server capabilities to determine the best move strategy
-      // MOVE (RFC 6851) is more efficient but not all servers support it
-      // UIDPLUS (RFC 4315) allows us to determine the new message UID after moving
-      const supportsMove = hasCapability(client, 'MOVE');
-      const supportsUidplus = hasCapability(client, 'UIDPLUS');
-      let moveResult: { uidMap?: Map<number, number>; uidValidity?: bigint } | false;
 
-      // Prefer the MOVE command if available (more efficient, single operation)
-      if (supportsMove) {
-        moveResult = await client.messageMove(decoded.uid, args.destination_mailbox, {
-          uid: true,
-        });
-      } else {
-        // Fallback to COPY + DELETE if MOVE is not supported
-        // This is a two-step process: copy to destination, then delete from source
-        // If the delete fails, we've already duplicated the message, which is problematic
-        moveResult = await client.messageCopy(decoded.uid, args.destination_mailbox, {
-          uid: true,
-        });
-        if (moveResult) {
-          const deleted = await client.messageDelete(decoded.uid, { uid: true });
-          if (!deleted) {
-            return makeError('Move fallback failed: copy succeeded but delete failed.', [], {
-              move_strategy: 'copy+delete',
-              copy_completed: true,
-            });
-          }
-        }
-      }
+    // Provide a clear confirmation of the move operation
+    const summary = `Moved message ${result.message_id} to ${args.destination_mailbox}.`;
+    // Suggest fetching the moved message if we have its new identifier
+    // This allows users to verify the move succeeded and see the message in its new location
+    const hints: ToolHint[] = [];
+    if (result.new_message_id) {
+      hints.push({
+        tool: 'imap_get_message',
+        arguments: {
+          account_id: args.account_id,
+          message_id: result.new_message_id,
+        },
+        reason: 'Fetch the moved message in its new mailbox.',
+      });
+    }
 
-      // Check if the move operation succeeded
-      // Both MOVE and COPY return a result object; DELETE returns a boolean
-      if (!moveResult) {
-        return makeError('Move failed for this message.', [], {
-          // Include metadata about the move strategy for debugging and transparency
-          // This helps users understand what happened if issues arise
-          move_strategy: supportsMove ? 'move' : 'copy+delete',
-        });
-      }
+    return makeOk(
+      summary,
+      {
+        account_id: args.account_id,
+        source_mailbox: groups[0]?.mailbox,
+        destination_mailbox: args.destination_mailbox,
+        message_id: result.message_id,
+        new_message_id: result.new_message_id,
+      },
+      hints,
+      {
+        ...strategyMeta,
+        uidplus: outcome.supportsUidplus,
+      },
+    );
+  }
 
-      // Generate a new message_id for the moved message if UIDPLUS is supported
-      // UIDPLUS provides the mapping from old UIDs to new UIDs, allowing us to
-      // create a stable identifier for the message in its new location
-      let newMessageId: string | undefined;
-      if (supportsUidplus) {
-        const newUid = moveResult.uidMap?.get(decoded.uid);
-        const newUidvalidity = moveResult.uidValidity ?? undefined;
-        if (newUid !== undefined && newUidvalidity !== undefined) {
-          newMessageId = encodeMessageId({
-            account_id: args.account_id,
-            mailbox: args.destination_mailbox,
-            uidvalidity: Number(newUidvalidity),
-            uid: newUid,
-          });
-        }
-      }
+  const { succeeded, failed } = countResults(results);
+  const data = {
+    account_id: args.account_id,
+    destination_mailbox: args.destination_mailbox,
+    results,
+    succeeded,
+    failed,
+  };
+  const meta = {
+    ...strategyMeta,
+    uidplus: outcome.supportsUidplus,
+    copy_completed: outcome.copyCompleted,
+  };
+  if (succeeded === 0) {
+    return makeError(`Failed to move all ${results.length} messages.`, [], { ...meta, ...data });
+  }
+  const hints: ToolHint[] = [
+    {
+      tool: 'imap_search_messages',
+      arguments: {
+        account_id: args.account_id,
+        mailbox: args.destination_mailbox,
+        limit: 10,
+      },
+      reason: 'List messages in the destination mailbox to confirm the move.',
+    },
+  ];
+  return makeOk(
+    `Moved ${succeeded} of ${results.length} messages to ${args.destination_mailbox}.`,
+    data,
+    hints,
+    meta,
+  );
+}
 
-      // Provide a clear confirmation of the move operation
-      const summary = `Moved message ${args.message_id} to ${args.destination_mailbox}.`;
-      // Suggest fetching the moved message if we have its new identifier
-      // This allows users to verify the move succeeded and see the message in its new location
-      const hints: ToolHint[] = [];
-      if (newMessageId) {
-        hints.push({
-          tool: 'imap_get_message',
-          arguments: {
-            account_id: args.account_id,
-            message_id: newMessageId,
-          },
-          reason: 'Fetch the moved message in its new mailbox.',
-        });
-      }
+/**
+ * Move the existing messages of one mailbox group with a single UID set command.
+ */
+async function moveGroup(
+  client: ImapFlow,
+  group: MessageGroup,
+  args: z.infer<typeof MoveMessageInputSchema>,
+  supportsUidplus: boolean,
+): Promise<{ results: BulkMessageResult[]; copyCompleted: boolean }> {
+  // Obtain a write lock on the mailbox and validate UIDVALIDITY
+  // The expectedUidvalidity ensures we're operating on the same mailbox snapshot
+  // that was used to generate the message_id, preventing issues if the mailbox
+  // was recreated or otherwise modified
+  const lockResult = await openMailboxLock(client, group.mailbox, {
+    readOnly: false,
+    description: 'imap_move_message',
+    expectedUidvalidity: group.uidvalidity,
+  });
+  if ('error' in lockResult) {
+    return { results: failGroup(group, lockResult.error), copyCompleted: false };
+  }
+  const { lock } = lockResult;
+  try {
+    // UID set commands silently skip missing UIDs, so check which messages exist first
+    const existing = await fetchExistingFlags(
+      client,
+      group.items.map((item) => item.uid),
+    );
+    const uids = [...existing.keys()];
+    const missing = (item: { message_id: string }): BulkMessageResult => ({
+      message_id: item.message_id,
+      ok: false,
+      error: 'Message not found.',
+    });
+    if (uids.length === 0) {
+      return { results: group.items.map(missing), copyCompleted: false };
+    }
 
-      return makeOk(
-        summary,
-        {
-          account_id: args.account_id,
-          source_mailbox: decoded.mailbox,
-          destination_mailbox: args.destination_mailbox,
-          message_id: args.message_id,
-          new_message_id: newMessageId,
-        },
-        hints,
-        {
-          move_strategy: supportsMove ? 'move' : 'copy+delete',
-          uidplus: supportsUidplus,
-        },
-      );
-    } finally {
-      // Always release the lock, even if an error occurred
-      // This prevents deadlock and allows other operations to proceed
-      lock.release();
+    // MOVE when available, otherwise COPY + DELETE with the expunge strategy checked above
+    const moveResult = await moveMessageUids(
+      client,
+      uids,
+      args.destination_mailbox,
+      args.allow_mailbox_expunge === true,
+    );
+    if (!moveResult || 'error' in moveResult) {
+      const error = moveResult ? moveResult.error : 'Move failed for this message.';
+      return {
+        results: group.items.map((item) =>
+          existing.has(item.uid)
+            ? { message_id: item.message_id, ok: false, error }
+            : missing(item),
+        ),
+        copyCompleted: moveResult ? moveResult.copy_completed === true : false,
+      };
     }
-  });
+
+    // Generate new message_ids for the moved messages if UIDPLUS is supported
+    // UIDPLUS provides the mapping from old UIDs to new UIDs, allowing us to
+    // create a stable identifier for each message in its new location
+    const uidMap = moveResult.uidMap;
+    const newUidvalidity = moveResult.uidValidity ?? undefined;
+    recordAuditMessages(
+      uids.map((uid) => ({
+        mailbox: group.mailbox,
+        uidvalidity: group.uidvalidity,
+        uid,
+        flags_before: existing.get(uid),
+        destination_mailbox: args.destination_mailbox,
+        destination_uidvalidity: newUidvalidity !== undefined ? Number(newUidvalidity) : undefined,
+        destination_uid: uidMap?.get(uid),
+      })),
+    );
+    const results = group.items.map((item): BulkMessageResult => {
+      if (!existing.has(item.uid)) {
+        return missing(item);
+      }
+      const newUid = supportsUidplus ? uidMap?.get(item.uid) : undefined;
+      if (newUid === undefined || newUidvalidity === undefined) {
+        return { message_id: item.message_id, ok: true };
+      }
+      return {
+        message_id: item.message_id,
+        ok: true,
+        new_message_id: encodeMessageId({
+          account_id: args.account_id,
+          mailbox: args.destination_mailbox,
+          uidvalidity: Number(newUidvalidity),
+          uid: newUid,
+        }),
+      };
+    });
+    return { results, copyCompleted: false };
+  } finally {
+    // Always release the lock, even if an error occurred
+    // This prevents deadlock and allows other operations to proceed
+    lock.release();
+  }
 }
@@ -0,0 +1,87 @@
+import type { z } from 'zod';
+
+import type { RenameMailboxInputSchema } from '../contracts.js';
+import { makeError, makeOk, type ToolHint, type ToolResult, withImapClient } from './runtime.js';
+import { loadAccountOrError } from '../utils/account.js';
+import { findChildMailboxes, findListedMailbox } from '../utils/mailbox.js';
+
+/**
+ * Handle the imap_rename_mailbox tool call.
+ *
+ * Renames a mailbox, which also moves it when the new path has a different
+ * parent. Child mailboxes are renamed along with it (RFC 3501).
+ *
+ * INBOX is refused: renaming it moves all of its messages into a new mailbox
+ * and leaves INBOX empty, which is rarely what the caller intends.
+ *
+ * @example
+ * ```ts
+ * const result = await handleRenameMailbox({
+ *   account_id: 'default',
+ *   mailbox: 'Projects',
+ *   new_mailbox: 'Archive/Projects'
+ * });
+ * // Returns: {
+ * //   account_id: 'default',
+ * //   mailbox: 'Projects',
+ * //   new_mailbox: 'Archive/Projects'
+ * // }
+ * ```
+ *
+ * @param args - The validated input arguments containing account_id, mailbox, and new_mailbox
+ * @returns A ToolResult containing the old and new mailbox paths or an error message
+ */
+export async function handleRenameMailbox(
+  args: z.infer<typeof RenameMailboxInputSchema>,
+): Promise<ToolResult> {
+  if (args.mailbox.toUpperCase() === 'INBOX') {
+    return makeError('INBOX cannot be renamed. Move its messages to another mailbox instead.');
+  }
+
+  // Validate that the account is configured before attempting to connect
+  const accountResult = loadAccountOrError(args.account_id);
+  if ('error' in accountResult) {
+    return makeError(accountResult.error);
+  }
+  const account = accountResult.account;
+
+  const result = await withImapClient(account, async (client) => {
+    const mailboxes = await client.list();
+    const source = findListedMailbox(mailboxes, args.mailbox);
+    if (!source) {
+      return { error: `Mailbox '${args.mailbox}' does not exist.` };
+    }
+    if (findListedMailbox(mailboxes, args.new_mailbox)) {
+      return { error: `Mailbox '${args.new_mailbox}' already exists.` };
+    }
+    const children = findChildMailboxes(mailboxes, source).length;
+    const renamed = await client.mailboxRename(source.path, args.new_mailbox);
+    return { path: renamed.path, newPath: renamed.newPath, children };
+  });
+  if ('error' in result) {
+    return makeError(result.error);
+  }
+
+  const summary =
+    result.children > 0
+      ? `Renamed mailbox ${result.path} to ${result.newPath} along with ${result.children} child mailboxes.`
+      : `Renamed mailbox ${result.path} to ${result.newPath}.`;
+
+  const hints: ToolHint[] = [
+    {
+      tool: 'imap_search_messages',
+      arguments: { account_id: args.account_id, mailbox: result.newPath, limit: 10 },
+      reason: 'Review messages in the renamed mailbox.',
+    },
+  ];
+
+  return makeOk(
+    summary,
+    {
+      account_id: args.account_id,
+      mailbox: result.path,
+      new_mailbox: result.newPath,
+    },
+    hints,
+  );
+}
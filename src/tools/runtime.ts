@@ -2,6 +2,7 @@ import { ImapFlow } from 'imapflow';
 import type {
   CopyResponseObject,
   FetchMessageObject,
+  ImapFlowOptions,
   MessageAddressObject,
   MessageEnvelopeObject,
   MessageStructureObject,
@@ -12,12 +13,24 @@ import sanitizeHtml from 'sanitize-html';
 import type { IOptions as SanitizeHtmlOptions } from 'sanitize-html';
 import type { ParsedMail } from 'mailparser';
 import { normalizeWhitespace, truncateText } from '../utils/text.js';
-import type { ZodError, z } from 'zod';
+import type { ZodError } from 'zod';
 
-import type { SearchMessagesInputSchema, ToolName } from '../contracts.js';
+import type { SearchCriteria, SearchFilters, SearchGroup, ToolName } from '../contracts.js';
 import type { AccountConfig } from '../config.js';
-import { CONNECT_TIMEOUT_MS, GREETING_TIMEOUT_MS, SOCKET_TIMEOUT_MS } from '../config.js';
+import {
+  CONNECT_TIMEOUT_MS,
+  GREETING_TIMEOUT_MS,
+  POOL_IDLE_TIMEOUT_MS,
+  MAX_SUBSCRIPTIONS,
+  POOL_MAX_SIZE,
+  SOCKET_TIMEOUT_MS,
+} from '../config.js';
+import { ConnectionPool, type ConnectionPoolStats } from '../connection-pool.js';
+import { MailboxWatcher } from '../mailbox-watcher.js';
+import { getAccessToken } from '../oauth.js';
 import { CursorStore } from '../pagination.js';
+import { hasAttachmentParts } from '../utils/attachments.js';
+import { GMAIL_EXTENSION, supportsGmailExtensions } from '../utils/gmail.js';
 import { parseMailSource } from '../utils/mailparser.js';
 
 /**
@@ -183,6 +196,21 @@ export const MAX_SEARCH_MATCHES_FOR_PAGINATION = 5000;
  */
 export const SEARCH_CURSOR_STORE = new CursorStore({ ttl_ms: 10 * 60 * 1000, max_entries: 200 });
 
+/**
+ * Global store for list_mailboxes pagination cursors.
+ *
+ * Kept apart from search cursors so paging large mailbox lists cannot evict
+ * them. Cursors expire after 10 minutes, and at most 50 are kept.
+ */
+export const MAILBOX_CURSOR_STORE = new CursorStore({ ttl_ms: 10 * 60 * 1000, max_entries: 50 });
+
+/**
+ * Longest time a watch connection stays in one IDLE command.
+ *
+ * RFC 2177 asks clients to re-issue IDLE at least every 29 minutes.
+ */
+const WATCH_MAX_IDLE_MS = 25 * 60 * 1000;
+
 /**
  * Encode a ToolJsonResponse into a JSON string for transmission.
  *
@@ -277,6 +305,29 @@ export function makeOk(
   };
 }
 
+/**
+ * Add hints and `_meta` fields to a result that a tool handler already built.
+ *
+ * Used by the dispatch layer for information that is not known to the tool,
+ * such as the undo operation id of a write.
+ */
+export function extendToolResult(
+  result: ToolResult,
+  hints: ToolHint[],
+  meta: Record<string, unknown>,
+): ToolResult {
+  const response = JSON.parse(result.content[0].text) as ToolJsonResponse;
+  const extended: ToolJsonResponse = {
+    ...response,
+    hints: [...response.hints, ...hints],
+    _meta: { ...response._meta, ...meta },
+  };
+  return {
+    ...result,
+    content: [{ type: 'text', text: encodeToolResponseText(extended) }],
+  };
+}
+
 /**
  * Format a Zod validation error into a human-readable message.
  *
@@ -323,7 +374,8 @@ function delay(ms: number): Promise<void> {
  * Determine if an IMAP error is transient (recoverable with retry).
  *
  * Transient errors are typically network-related issues that may resolve on
- * their own (e.g., timeouts, connection resets). These are safe to retry.
+ * their own (e.g., timeouts, connection resets, a pooled connection closed by the
+ * server). These are safe to retry on a new connection.
  * Non-transient errors (e.g., authentication failures) should not be retried.
  *
  * @param error - The error to check
@@ -335,7 +387,21 @@ export function isTransientImapError(error: unknown): boolean {
   }
   const record = error as Record<string, unknown>;
   const code = typeof record['code'] === 'string' ? record['code'] : undefined;
-  if (code && ['ETIMEDOUT', 'ESOCKETTIMEDOUT', 'ECONNRESET', 'EAI_AGAIN'].includes(code)) {
+  if (
+    code &&
+    [
+      'ETIMEDOUT',
+      'ESOCKETTIMEDOUT',
+      'ECONNRESET',
+      'EAI_AGAIN',
+      'NoConnection',
+      'EConnectionClosed',
+    ].includes(code)
+  ) {
+    return true;
+  }
+  // The server ended the session (e.g. idle timeout or shutdown); a fresh connection may succeed
+  if (record['responseStatus'] === 'BYE') {
     return true;
   }
   const message =
@@ -350,14 +416,104 @@ export function isTransientImapError(error: unknown): boolean {
 }
 
 /**
- * Establish an IMAP connection, execute a callback, and automatically disconnect.
+ * Construct a new (unconnected) imapflow client for an account.
+ *
+ * OAuth2 accounts authenticate with XOAUTH2 using a current access token, which
+ * is refreshed first if it is about to expire.
+ *
+ * @param account - The IMAP account configuration (host, port, credentials, etc.)
+ * @param overrides - Extra imapflow options for special-purpose connections
+ * @returns An ImapFlow instance configured with the server-wide timeouts
+ */
+async function createImapClient(
+  account: AccountConfig,
+  overrides: Pick<ImapFlowOptions, 'maxIdleTime'> = {},
+): Promise<ImapFlow> {
+  const auth: ImapFlowOptions['auth'] = account.oauth2
+    ? { user: account.user, accessToken: await getAccessToken(account.oauth2) }
+    : { user: account.user, pass: account.pass ?? '' };
+  return new ImapFlow({
+    ...overrides,
+    host: account.host,
+    port: account.port,
+    secure: account.secure,
+    auth,
+    ...(account.tls
+      ? {
+          tls: {
+            ...(account.tls.reject_unauthorized !== undefined
+              ? { rejectUnauthorized: account.tls.reject_unauthorized }
+              : {}),
+            ...(account.tls.min_version ? { minVersion: account.tls.min_version } : {}),
+            ...(account.tls.servername ? { servername: account.tls.servername } : {}),
+          },
+        }
+      : {}),
+    connectionTimeout: CONNECT_TIMEOUT_MS,
+    greetingTimeout: GREETING_TIMEOUT_MS,
+    socketTimeout: SOCKET_TIMEOUT_MS,
+    // Lets imap_sync_mailbox receive VANISHED responses on servers that support QRESYNC
+    qresync: true,
+  });
+}
+
+/**
+ * Global pool of authenticated IMAP connections shared by all tool calls.
  *
- * This helper manages the lifecycle of an IMAP connection with built-in retry logic
- * for transient errors. It ensures the connection is always properly closed, even
- * if the callback throws an error.
+ * Connections are reused per account so a session of many tool calls does not
+ * pay for a TLS handshake and LOGIN on every call. Idle connections are logged
+ * out after MAIL_IMAP_POOL_IDLE_TIMEOUT_MS, and at most MAIL_IMAP_POOL_MAX_SIZE
+ * connections are opened per account.
+ */
+export const IMAP_CONNECTION_POOL = new ConnectionPool(
+  {
+    max_size: POOL_MAX_SIZE,
+    idle_timeout_ms: POOL_IDLE_TIMEOUT_MS,
+    health_check_after_ms: 15_000,
+    acquire_timeout_ms: CONNECT_TIMEOUT_MS,
+  },
+  createImapClient,
+);
+
+/**
+ * Global set of mailbox watches backing MCP resource subscriptions.
+ *
+ * Watch connections restart IDLE well before the socket timeout so servers and
+ * middleboxes do not drop them as inactive.
+ */
+export const MAILBOX_WATCHER = new MailboxWatcher(
+  {
+    max_watches: MAX_SUBSCRIPTIONS,
+    debounce_ms: 1_000,
+    reconnect_delay_ms: 1_000,
+    max_reconnect_delay_ms: 60_000,
+  },
+  (account) =>
+    createImapClient(account, {
+      maxIdleTime: Math.min(Math.floor(SOCKET_TIMEOUT_MS / 2), WATCH_MAX_IDLE_MS),
+    }),
+);
+
+/**
+ * Get connection pool statistics for an account.
+ *
+ * @param account - The IMAP account configuration
+ * @returns Counts of open, idle, busy, and waiting connections plus lifetime totals
+ */
+export function getConnectionPoolStats(account: AccountConfig): ConnectionPoolStats {
+  return IMAP_CONNECTION_POOL.stats(account);
+}
+
+/**
+ * Lease a pooled IMAP connection, execute a callback, and return the connection.
+ *
+ * This helper manages the lifecycle of a pooled IMAP connection with built-in retry
+ * logic for transient errors. The connection is always handed back to the pool, even
+ * if the callback throws; connections that saw a transient error are discarded so the
+ * next attempt reconnects.
  *
  * Retry behavior:
- * - Transient errors (timeouts, connection resets) are automatically retried once
+ * - Transient errors (timeouts, connection resets, server BYE) are automatically retried once
  * - Non-transient errors (authentication, mailbox not found) are not retried
  * - Exponential backoff is applied between retries (300ms, then 600ms)
  *
@@ -374,25 +530,16 @@ export async function withImapClient<T>(
   let lastError: unknown;
 
   for (let attempt = 1; attempt <= maxAttempts; attempt += 1) {
-    const client = new ImapFlow({
-      host: account.host,
-      port: account.port,
-      secure: account.secure,
-      auth: {
-        user: account.user,
-        pass: account.pass,
-      },
-      connectionTimeout: CONNECT_TIMEOUT_MS,
-      greetingTimeout: GREETING_TIMEOUT_MS,
-      socketTimeout: SOCKET_TIMEOUT_MS,
-    });
+    let client: ImapFlow | undefined;
+    let discard = false;
 
     try {
-      await client.connect();
+      client = await IMAP_CONNECTION_POOL.acquire(account);
       return await fn(client);
     } catch (error: unknown) {
       lastError = error;
       const transient = isTransientImapError(error);
+      discard = transient;
       if (transient && attempt < maxAttempts) {
         console.error(
           JSON.stringify({
@@ -408,11 +555,12 @@ export async function withImapClient<T>(
       if (!transient || attempt === maxAttempts) {
         throw error;
       }
-      await client.logout().catch(() => undefined);
-      await delay(300 * attempt);
     } finally {
-      await client.logout().catch(() => undefined);
+      if (client) {
+        IMAP_CONNECTION_POOL.release(client, { discard });
+      }
     }
+    await delay(300 * attempt);
   }
 
   throw lastError;
@@ -427,6 +575,7 @@ export async function withImapClient<T>(
  * relevant metadata for debugging.
  *
  * Common error mappings:
+ * - OAuth2 token refresh failures: "OAuth2 token refresh failed (...)..."
  * - Authentication failures: "Authentication failed. Verify credentials..."
  * - Mailbox not found: "Mailbox not found. Verify the mailbox name."
  * - Connection issues: "Unable to connect to the IMAP server..."
@@ -448,6 +597,12 @@ export function mapImapError(error: unknown): { message: string; meta?: Record<s
   const message = typeof record['message'] === 'string' ? record['message'] : undefined;
   const lower = `${responseText ?? ''} ${message ?? ''}`.toLowerCase();
 
+  if (code === 'EOAUTH') {
+    return {
+      message: `${message ?? 'OAuth2 token refresh failed.'} Verify the account's OAuth2 settings.`,
+      meta: { code, oauth_error: record['oauth_error'] },
+    };
+  }
   if (lower.includes('authentication') || lower.includes('auth failed')) {
     return {
       message:
@@ -466,7 +621,7 @@ export function mapImapError(error: unknown): { message: string; meta?: Record<s
   }
   if (lower.includes('trycreate')) {
     return {
-      message: 'Mailbox not found. It may need to be created.',
+      message: 'Mailbox not found. It may need to be created with imap_create_mailbox.',
       meta: { response_status: responseStatus },
     };
   }
@@ -812,6 +967,105 @@ export function hasCapability(client: ImapFlow, name: string): boolean {
   return value === true || typeof value === 'number';
 }
 
+/**
+ * How messages flagged `\Deleted` are removed from the selected mailbox:
+ * - `uid-expunge`: UID EXPUNGE (UIDPLUS, RFC 4315) removes only the given messages
+ * - `mailbox-expunge`: EXPUNGE removes every `\Deleted` message in the mailbox
+ */
+export type ExpungeStrategy = 'uid-expunge' | 'mailbox-expunge';
+
+/**
+ * Choose how deleted messages can be expunged without touching other messages.
+ *
+ * Without UIDPLUS, the only way to remove a message is a mailbox-wide EXPUNGE,
+ * which also removes messages other clients flagged `\Deleted` but meant to keep
+ * for now. That is only done when the caller explicitly allows it.
+ *
+ * @param client - The IMAP client to check capabilities on
+ * @param allowMailboxExpunge - Whether a mailbox-wide EXPUNGE is acceptable
+ * @returns The strategy to use, or an error if only a disallowed mailbox-wide EXPUNGE is available
+ */
+export function resolveExpungeStrategy(
+  client: ImapFlow,
+  allowMailboxExpunge: boolean,
+): { strategy: ExpungeStrategy } | { error: string } {
+  if (hasCapability(client, 'UIDPLUS')) {
+    return { strategy: 'uid-expunge' };
+  }
+  if (allowMailboxExpunge) {
+    return { strategy: 'mailbox-expunge' };
+  }
+  return {
+    error:
+      'The server does not support UIDPLUS, so removing messages would expunge every message flagged \\Deleted in the mailbox, including ones flagged by other clients. Pass allow_mailbox_expunge=true to accept this.',
+  };
+}
+
+/**
+ * How moveMessageUids moves messages on a server, as reported in `_meta`:
+ * MOVE (RFC 6851) when available, otherwise COPY + DELETE with the expunge
+ * strategy that removes the originals, or the reason the fallback is refused.
+ */
+export type MoveStrategy =
+  | Readonly<{ move_strategy: 'move' }>
+  | Readonly<{ move_strategy: 'copy+delete'; expunge_strategy: ExpungeStrategy }>
+  | Readonly<{ move_strategy: 'copy+delete'; error: string }>;
+
+/**
+ * Choose how moveMessageUids will move messages on this server.
+ *
+ * @param client - The IMAP client to check capabilities on
+ * @param allowMailboxExpunge - Whether a mailbox-wide EXPUNGE is acceptable for the COPY + DELETE fallback
+ */
+export function resolveMoveStrategy(client: ImapFlow, allowMailboxExpunge: boolean): MoveStrategy {
+  if (hasCapability(client, 'MOVE')) {
+    return { move_strategy: 'move' };
+  }
+  const expunge = resolveExpungeStrategy(client, allowMailboxExpunge);
+  return 'error' in expunge
+    ? { move_strategy: 'copy+delete', error: expunge.error }
+    : { move_strategy: 'copy+delete', expunge_strategy: expunge.strategy };
+}
+
+/**
+ * Move messages of the selected mailbox to another mailbox, using MOVE
+ * (RFC 6851) when available and COPY + DELETE otherwise. The COPY + DELETE
+ * fallback is refused when it would need a disallowed mailbox-wide EXPUNGE.
+ *
+ * @returns The server's COPYUID mapping when it reports one, false if the move
+ *   failed, or an error if the fallback was refused or copied the messages but
+ *   could not delete the originals (`copy_completed`)
+ */
+export async function moveMessageUids(
+  client: ImapFlow,
+  uids: number[],
+  destination: string,
+  allowMailboxExpunge: boolean,
+): Promise<
+  | { uidMap?: Map<number, number>; uidValidity?: bigint }
+  | { error: string; copy_completed?: boolean }
+  | false
+> {
+  const strategy = resolveMoveStrategy(client, allowMailboxExpunge);
+  if (strategy.move_strategy === 'move') {
+    return await client.messageMove(uids, destination, { uid: true });
+  }
+  if ('error' in strategy) {
+    return { error: strategy.error };
+  }
+  const copied = await client.messageCopy(uids, destination, { uid: true });
+  if (!copied) {
+    return false;
+  }
+  if (!(await client.messageDelete(uids, { uid: true }))) {
+    return {
+      error: 'Move fallback failed: copy succeeded but delete failed.',
+      copy_completed: true,
+    };
+  }
+  return copied;
+}
+
 /**
  * Extract key information from an email envelope into a summary object.
  *
@@ -839,53 +1093,184 @@ export function summarizeEnvelope(envelope: MessageEnvelopeObject | undefined):
 }
 
 /**
- * Build an IMAP SEARCH query object from tool arguments.
- *
- * Converts user-provided search filters into an IMAP SEARCH query object
- * that can be passed to the IMAP client's search command. This maps
- * high-level filter criteria to IMAP SEARCH keys.
- *
- * Supported filters:
- * - last_days: Messages from the last N days (maps to SINCE)
- * - start_date/end_date: Date range (maps to SINCE/BEFORE)
- * - from/to/subject: Header matching (maps to FROM/TO/SUBJECT)
- * - query: Full-text search (maps to TEXT)
- * - unread_only: Only unread messages (maps to SEEN=false)
+ * Convert search criteria into a list of single IMAP SEARCH keys.
  *
- * If no filters are provided, returns { all: true } to match all messages.
+ * Each returned object holds exactly one key so it can be used as an operand
+ * of OR / NOT, which imapflow emits without parentheses.
  *
- * @param args - The validated search_messages input arguments
- * @returns An IMAP SEARCH query object compatible with imapflow
+ * @param args - The criteria of a search or of a single any_of / none_of group
+ * @param keywordExists - Whether a keyword can be set in the selected mailbox
  */
-export function buildSearchQuery(args: z.infer<typeof SearchMessagesInputSchema>): SearchObject {
-  const query: SearchObject = {};
+function criteriaTerms(
+  args: SearchCriteria,
+  keywordExists: (keyword: string) => boolean,
+): SearchObject[] {
+  const terms: SearchObject[] = [];
 
   if (args.last_days !== undefined) {
-    query.since = lastDaysSinceUtc(args.last_days);
+    terms.push({ since: lastDaysSinceUtc(args.last_days) });
   }
-
   if (args.query) {
-    query.text = args.query;
+    terms.push({ text: args.query });
   }
   if (args.from) {
-    query.from = args.from;
+    terms.push({ from: args.from });
   }
   if (args.to) {
-    query.to = args.to;
+    terms.push({ to: args.to });
+  }
+  if (args.cc) {
+    terms.push({ cc: args.cc });
+  }
+  if (args.bcc) {
+    terms.push({ bcc: args.bcc });
   }
   if (args.subject) {
-    query.subject = args.subject;
+    terms.push({ subject: args.subject });
+  }
+  if (args.header) {
+    terms.push({ header: { [args.header.name]: args.header.value } });
   }
   if (args.unread_only) {
-    query.seen = false;
+    terms.push({ seen: false });
+  }
+  if (args.flagged !== undefined) {
+    terms.push({ flagged: args.flagged });
+  }
+  if (args.answered !== undefined) {
+    terms.push({ answered: args.answered });
+  }
+  if (args.draft !== undefined) {
+    terms.push({ draft: args.draft });
+  }
+  if (args.deleted !== undefined) {
+    terms.push({ deleted: args.deleted });
+  }
+  if (args.larger_than !== undefined) {
+    terms.push({ larger: args.larger_than });
+  }
+  if (args.smaller_than !== undefined) {
+    terms.push({ smaller: args.smaller_than });
+  }
+  // imapflow silently drops KEYWORD terms the mailbox cannot store, so they are
+  // replaced with their known outcome instead of widening the search
+  for (const keyword of args.keywords ?? []) {
+    terms.push(keywordExists(keyword) ? { keyword } : { not: { all: true } });
+  }
+  for (const keyword of args.exclude_keywords ?? []) {
+    terms.push(keywordExists(keyword) ? { unKeyword: keyword } : { all: true });
   }
   if (args.start_date) {
-    query.since = parseDateOnly(args.start_date);
+    terms.push({ since: parseDateOnly(args.start_date) });
   }
   if (args.end_date) {
     const end = parseDateOnly(args.end_date);
     end.setUTCDate(end.getUTCDate() + 1);
-    query.before = end;
+    terms.push({ before: end });
+  }
+
+  return terms;
+}
+
+/**
+ * Convert any_of / none_of groups into single IMAP SEARCH keys.
+ */
+function groupTerms(
+  args: Pick<SearchGroup, 'any_of' | 'none_of'>,
+  keywordExists: (keyword: string) => boolean,
+): SearchObject[] {
+  const terms: SearchObject[] = [];
+  if (args.any_of) {
+    terms.push(anyOf(args.any_of.map((group) => compileGroup(group, keywordExists))));
+  }
+  if (args.none_of) {
+    // NOT a AND NOT b is NOT (a OR b)
+    terms.push({ not: anyOf(args.none_of.map((group) => compileGroup(group, keywordExists))) });
+  }
+  return terms;
+}
+
+/**
+ * Compile a group into one IMAP SEARCH key that matches when all its criteria match.
+ */
+function compileGroup(
+  group: SearchGroup,
+  keywordExists: (keyword: string) => boolean,
+): SearchObject {
+  return allOf([...criteriaTerms(group, keywordExists), ...groupTerms(group, keywordExists)]);
+}
+
+function anyOf(terms: SearchObject[]): SearchObject {
+  return terms.length === 1 && terms[0] ? terms[0] : { or: terms };
+}
+
+/**
+ * Combine single-key terms into one key that matches when all terms match.
+ *
+ * imapflow does not parenthesize OR / NOT operands, so a conjunction is
+ * expressed as NOT (OR (NOT a) (NOT b) ...), which needs no grouping.
+ */
+function allOf(terms: SearchObject[]): SearchObject {
+  if (terms.length === 1 && terms[0]) {
+    return terms[0];
+  }
+  return { not: { or: terms.map((term) => ({ not: term })) } };
+}
+
+/**
+ * Build an IMAP SEARCH query object from tool arguments.
+ *
+ * Converts user-provided search filters into an IMAP SEARCH query object
+ * that can be passed to the IMAP client's search command. This maps
+ * high-level filter criteria to IMAP SEARCH keys.
+ *
+ * Supported filters:
+ * - last_days: Messages from the last N days (maps to SINCE)
+ * - start_date/end_date: Date range (maps to SINCE/BEFORE)
+ * - from/to/cc/bcc/subject: Header matching (maps to FROM/TO/CC/BCC/SUBJECT)
+ * - header: Arbitrary header matching (maps to HEADER)
+ * - query: Full-text search (maps to TEXT)
+ * - unread_only: Only unread messages (maps to SEEN=false)
+ * - flagged/answered/draft/deleted: System flags (maps to e.g. FLAGGED/UNFLAGGED)
+ * - keywords/exclude_keywords: Custom flags (maps to KEYWORD/UNKEYWORD)
+ * - larger_than/smaller_than: Size in bytes (maps to LARGER/SMALLER)
+ * - any_of/none_of: Groups of the filters above (maps to OR/NOT)
+ * - gmail_query: Gmail search syntax (maps to X-GM-RAW)
+ *
+ * Top-level filters are combined with AND. Keys that occur more than once
+ * (repeated keywords, OR/NOT groups) are combined into a single nested key.
+ *
+ * has_attachment cannot be expressed in IMAP SEARCH and is applied by
+ * searchMessageUids after the search.
+ *
+ * If no filters are provided, returns { all: true } to match all messages.
+ *
+ * @param args - The validated search filters (shared by search_messages and apply_to_search)
+ * @param keywordExists - Whether a keyword can be set in the selected mailbox (default: always)
+ * @returns An IMAP SEARCH query object compatible with imapflow
+ */
+export function buildSearchQuery(
+  args: SearchFilters,
+  keywordExists: (keyword: string) => boolean = () => true,
+): SearchObject {
+  const query: SearchObject = {};
+  const remaining: SearchObject[] = [];
+
+  const terms = [...criteriaTerms(args, keywordExists), ...groupTerms(args, keywordExists)];
+  if (args.gmail_query) {
+    terms.push({ gmraw: args.gmail_query });
+  }
+  for (const term of terms) {
+    const key = Object.keys(term)[0] as keyof SearchObject;
+    // `or` is reserved for the remaining terms; a single-entry `or` adds no OR operator
+    if (key === 'or' || key in query) {
+      remaining.push(term);
+    } else {
+      Object.assign(query, term);
+    }
+  }
+  if (remaining.length > 0) {
+    query.or = [allOf(remaining)];
   }
 
   if (Object.keys(query).length === 0) {
@@ -895,6 +1280,74 @@ export function buildSearchQuery(args: z.infer<typeof SearchMessagesInputSchema>
   return query;
 }
 
+/**
+ * Check whether a keyword can be set on messages in the selected mailbox.
+ *
+ * imapflow silently drops KEYWORD terms for keywords the mailbox neither
+ * knows nor permits, which would otherwise widen the search.
+ */
+function keywordCanExist(client: ImapFlow, keyword: string): boolean {
+  const mailbox = client.mailbox;
+  if (!mailbox || !mailbox.permanentFlags) {
+    return true;
+  }
+  return (
+    mailbox.permanentFlags.has('\\*') ||
+    mailbox.permanentFlags.has(keyword) ||
+    mailbox.flags.has(keyword)
+  );
+}
+
+/**
+ * Run a search built from tool filters on the selected mailbox.
+ *
+ * Executes the IMAP SEARCH from buildSearchQuery and then applies the filters
+ * SEARCH cannot express. has_attachment fetches the BODYSTRUCTURE of every
+ * match, so it is limited to MAX_SEARCH_MATCHES_FOR_PAGINATION matches.
+ * gmail_query is rejected on servers without the Gmail extensions.
+ *
+ * @param client - An IMAP client with the target mailbox selected
+ * @param args - The validated search filters
+ * @returns The matching UIDs in server order, or an error message
+ */
+export async function searchMessageUids(
+  client: ImapFlow,
+  args: SearchFilters,
+): Promise<{ uids: number[] } | { error: string }> {
+  if (args.gmail_query && !supportsGmailExtensions(client)) {
+    return { error: `gmail_query requires a Gmail server (${GMAIL_EXTENSION}).` };
+  }
+  const results = await client.search(
+    buildSearchQuery(args, (keyword) => keywordCanExist(client, keyword)),
+    { uid: true },
+  );
+  if (!results) {
+    return { error: 'Search failed for this mailbox.' };
+  }
+  if (args.has_attachment === undefined || results.length === 0) {
+    return { uids: results };
+  }
+  if (results.length > MAX_SEARCH_MATCHES_FOR_PAGINATION) {
+    return {
+      error: `has_attachment can only be applied to ${MAX_SEARCH_MATCHES_FOR_PAGINATION} matches or fewer (found ${results.length}). Narrow the search filters.`,
+    };
+  }
+  const uids: number[] = [];
+  for await (const message of client.fetch(
+    results,
+    { uid: true, bodyStructure: true },
+    { uid: true },
+  )) {
+    if (
+      message.uid !== undefined &&
+      hasAttachmentParts(message.bodyStructure) === args.has_attachment
+    ) {
+      uids.push(message.uid);
+    }
+  }
+  return { uids };
+}
+
 export type {
   CopyResponseObject,
   FetchMessageObject,
@@ -1,6 +1,6 @@
 import type { z } from 'zod';
 
-import type { SearchMessagesInputSchema } from '../contracts.js';
+import { SEARCH_FILTER_KEYS, type SearchMessagesInputSchema } from '../contracts.js';
 import { encodeMessageId } from '../message-id.js';
 
 /**
@@ -11,7 +11,8 @@ import { encodeMessageId } from '../message-id.js';
  * pagination to handle large result sets efficiently.
  *
  * The tool performs the following steps:
- * 1. Validates that search filters are not combined with cursor (invalid operation)
+ * 1. Validates that search filters are not combined with cursor (invalid operation);
+ *    searches with `mailboxes`, `account_ids`, or a composite cursor go to handleMultiMailboxSearch
  * 2. Validates that the account is properly configured
  * 3. Establishes an IMAP connection and obtains a read lock on the mailbox
  * 4. If cursor is provided:
@@ -21,10 +22,13 @@ import { encodeMessageId } from '../message-id.js';
  * 5. If no cursor:
  *    - Builds an IMAP SEARCH query from the provided filters
  *    - Executes the search to get matching UIDs
- *    - Sorts UIDs in descending order (newest first)
- *    - Compresses UIDs into ranges for efficient storage (if under MAX_SEARCH_MATCHES_FOR_PAGINATION)
+ *    - Sorts UIDs in descending order (newest first), or by the requested `sort`
+ *      using server-side SORT when advertised and a fetch-and-sort fallback otherwise
+ *    - Compresses UIDs into ranges for efficient storage (if under MAX_SEARCH_MATCHES_FOR_PAGINATION);
+ *      sorted results are stored in their explicit order instead
  *    - Creates a cursor for pagination (or disables pagination if too many matches)
  * 6. Fetches message metadata for the requested page of messages
+ *    (plus Gmail labels and conversation ids on servers with X-GM-EXT-1)
  * 7. Optionally extracts and includes body snippets for each message
  * 8. Returns the page of results with a next_cursor if more results exist
  * 9. If the cursor becomes outdated or expired, invalidates it
@@ -38,10 +42,16 @@ import { encodeMessageId } from '../message-id.js';
  * Search filters:
  * - last_days: Messages from the last N days (UTC, inclusive)
  * - start_date/end_date: Date range in YYYY-MM-DD format
- * - from/to/subject: Filter by sender, recipient, or subject
+ * - from/to/cc/bcc/subject/header: Filter by sender, recipients, subject, or any header
+ * - flagged/answered/draft/deleted, keywords/exclude_keywords: Filter by flags
+ * - larger_than/smaller_than: Filter by size in bytes
+ * - has_attachment: Filter by BODYSTRUCTURE after the search (bounded)
+ * - any_of/none_of: Groups of the filters above combined with OR / NOT (max depth 3)
  * - query: Full-text search across message body
+ * - gmail_query: Gmail search syntax via X-GM-RAW (Gmail servers only)
  * - unread_only: Only show unread messages
  * - include_snippet: Include a short body snippet (may require extra IO)
+ * - sort/sort_order: Order by date, arrival, from, subject, or size (asc or desc)
  *
  * @example
  * ```ts
@@ -83,13 +93,14 @@ import { encodeMessageId } from '../message-id.js';
  * @returns A ToolResult containing the search results, pagination cursor, or an error message
  */
 import {
-  buildSearchQuery,
   getMessageSnippet,
+  hasCapability,
   lastDaysSinceUtc,
   makeError,
   makeOk,
   MAX_SEARCH_MATCHES_FOR_PAGINATION,
   SEARCH_CURSOR_STORE,
+  searchMessageUids,
   summarizeEnvelope,
   type ToolHint,
   type ToolResult,
@@ -99,14 +110,13 @@ import {
   withImapClient,
   type FetchMessageObject,
 } from './runtime.js';
-import {
-  sliceUidsFromDescendingRanges,
-  type UidRange,
-  uidsToDescendingRanges,
-} from '../pagination.js';
+import { sliceCursorUids, type UidRange, uidsToDescendingRanges } from '../pagination.js';
 import { loadAccountOrError } from '../utils/account.js';
+import { formatGmailLabels, supportsGmailExtensions } from '../utils/gmail.js';
 import { openMailboxLock } from '../utils/mailbox.js';
+import { type SearchSort, sortUids } from '../utils/sort.js';
 import { messageRawResourceUri, messageResourceUri } from '../resources/uri.js';
+import { handleMultiMailboxSearch } from './search_multi.js';
 
 export async function handleSearchMessages(
   args: z.infer<typeof SearchMessagesInputSchema>,
@@ -116,18 +126,23 @@ export async function handleSearchMessages(
   // snapshot of search results, and additional filters would require a new search
   if (
     args.cursor &&
-    (args.query ||
-      args.from ||
-      args.to ||
-      args.subject ||
-      args.last_days !== undefined ||
-      args.unread_only !== undefined ||
-      args.start_date ||
-      args.end_date)
+    (SEARCH_FILTER_KEYS.some((key) => args[key] !== undefined) ||
+      args.sort !== undefined ||
+      args.mailboxes !== undefined ||
+      args.account_ids !== undefined)
   ) {
     return makeError('Do not combine cursor with additional search filters.');
   }
 
+  // Searches across several mailboxes or accounts (and their cursors) merge results by date
+  if (
+    args.mailboxes !== undefined ||
+    args.account_ids !== undefined ||
+    (args.cursor && SEARCH_CURSOR_STORE.getSearchCursor(args.cursor)?.sources)
+  ) {
+    return await handleMultiMailboxSearch(args);
+  }
+
   // Validate that the account is configured before attempting to connect
   const accountResult = loadAccountOrError(args.account_id);
   if ('error' in accountResult) {
@@ -172,6 +187,10 @@ export async function handleSearchMessages(
       let snippetMaxChars = args.snippet_max_chars;
       let paginationDisabled = false;
       let uidRanges: readonly UidRange[] = [];
+      let sort: SearchSort | undefined = args.sort
+        ? { field: args.sort, order: args.sort_order }
+        : undefined;
+      let sortStrategy: 'server' | 'client' | undefined;
 
       // If using a cursor, extract pre-computed values from it
       // This avoids re-running the search and ensures consistent pagination
@@ -182,15 +201,31 @@ export async function handleSearchMessages(
         uidvalidity = cursor.uidvalidity;
         includeSnippet = cursor.include_snippet;
         snippetMaxChars = cursor.snippet_max_chars;
+        sort = cursor.sort;
       } else {
         // Perform a new search: build query from filters and execute it
-        const searchQuery = buildSearchQuery(args);
-        const results = await client.search(searchQuery, { uid: true });
-        if (!results) {
-          return makeError('Search failed for this mailbox.');
+        const searchResult = await searchMessageUids(client, args);
+        if ('error' in searchResult) {
+          return makeError(searchResult.error);
+        }
+        const results = searchResult.uids;
+        let searchResults: number[];
+        if (sort) {
+          // Apply the requested sort with server-side SORT when available
+          // The client-side fallback has to fetch every match, so it is bounded
+          const supportsSort = hasCapability(client, 'SORT');
+          if (!supportsSort && results.length > MAX_SEARCH_MATCHES_FOR_PAGINATION) {
+            return makeError(
+              `Sorting ${results.length} matches requires server-side SORT support. Narrow the search filters.`,
+            );
+          }
+          const sorted = await sortUids(client, results, sort, supportsSort);
+          searchResults = sorted.uids;
+          sortStrategy = sorted.strategy;
+        } else {
+          // Sort UIDs in descending order (newest messages first)
+          searchResults = results.slice().sort((a, b) => b - a);
         }
-        // Sort UIDs in descending order (newest messages first)
-        const searchResults: number[] = results.slice().sort((a, b) => b - a);
         if (searchResults.length === 0) {
           // No results: return early with metadata about the search
           const meta: Record<string, unknown> = {
@@ -222,7 +257,8 @@ export async function handleSearchMessages(
         // This prevents excessive memory usage and simplifies handling of large result sets
         paginationDisabled = total > MAX_SEARCH_MATCHES_FOR_PAGINATION;
         if (!paginationDisabled) {
-          uidRanges = uidsToDescendingRanges(uids);
+          // Sorted results keep their explicit order in the cursor (see ordered_uids)
+          uidRanges = sort ? [] : uidsToDescendingRanges(uids);
         } else {
           uids = uids.slice(0, args.limit);
         }
@@ -260,12 +296,21 @@ export async function handleSearchMessages(
       // Extract the page of UIDs to fetch
       // Use compressed ranges if pagination is enabled, otherwise slice the array
       const pageUids: number[] = cursor
-        ? sliceUidsFromDescendingRanges(uidRanges, offset, args.limit)
+        ? sliceCursorUids(cursor, offset, args.limit)
         : uids.slice(offset, offset + args.limit);
       const fetchResults: FetchMessageObject[] = [];
+      // Gmail reports labels and conversation ids alongside flags (X-GM-LABELS, X-GM-THRID)
+      const gmail = supportsGmailExtensions(client);
       for await (const message of client.fetch(
         pageUids,
-        { uid: true, envelope: true, flags: true, internalDate: true },
+        {
+          uid: true,
+          envelope: true,
+          flags: true,
+          internalDate: true,
+          labels: gmail,
+          threadId: gmail,
+        },
         { uid: true },
       )) {
         fetchResults.push(message);
@@ -314,6 +359,8 @@ export async function handleSearchMessages(
             from: envelopeSummary.from,
             subject: envelopeSummary.subject,
             flags: formatFlags(message.flags),
+            gmail_labels: gmail ? formatGmailLabels(message.labels) : undefined,
+            gmail_thread_id: gmail ? message.threadId : undefined,
             snippet: undefined as string | undefined,
           };
         })
@@ -354,6 +401,7 @@ export async function handleSearchMessages(
             total,
             include_snippet: includeSnippet,
             snippet_max_chars: snippetMaxChars,
+            ...(sort ? { sort, ordered_uids: uids } : {}),
           });
           nextCursor = created.id;
         }
@@ -412,6 +460,13 @@ export async function handleSearchMessages(
         meta['include_snippet'] = true;
         meta['snippet_max_chars'] = snippetMaxChars;
       }
+      if (sort) {
+        meta['sort'] = sort.field;
+        meta['sort_order'] = sort.order;
+      }
+      if (sortStrategy) {
+        meta['sort_strategy'] = sortStrategy;
+      }
 
       return makeOk(
         header,
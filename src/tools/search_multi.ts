@@ -0,0 +1,555 @@
+import type { ImapFlow } from 'imapflow';
+import type { z } from 'zod';
+
+import type { AccountConfig } from '../config.js';
+import {
+  MAX_SEARCH_ACCOUNTS,
+  MAX_SEARCH_MAILBOXES,
+  type SearchMessagesInputSchema,
+} from '../contracts.js';
+import { encodeMessageId } from '../message-id.js';
+import { mergeSourcePage, type SearchCursorSource, type SearchMatch } from '../pagination.js';
+import { evaluateMailboxPolicy } from '../policy.js';
+import { messageRawResourceUri, messageResourceUri } from '../resources/uri.js';
+import { listConfiguredAccountIds, loadAccountOrError } from '../utils/account.js';
+import { mapWithConcurrency } from '../utils/concurrency.js';
+import { formatGmailLabels, supportsGmailExtensions } from '../utils/gmail.js';
+import { openMailboxLock, resolveSearchMailboxes } from '../utils/mailbox.js';
+import {
+  formatFlags,
+  getMessageSnippet,
+  lastDaysSinceUtc,
+  makeError,
+  makeOk,
+  mapImapError,
+  MAX_SEARCH_MATCHES_FOR_PAGINATION,
+  nowUtcIso,
+  SEARCH_CURSOR_STORE,
+  searchMessageUids,
+  summarizeEnvelope,
+  type ToolHint,
+  type ToolResult,
+  UNTRUSTED_EMAIL_CONTENT_NOTE,
+  withImapClient,
+} from './runtime.js';
+
+type SearchMessagesArgs = z.infer<typeof SearchMessagesInputSchema>;
+
+/**
+ * Cursor mailbox marker for searches spanning several mailboxes.
+ */
+const MULTI_MAILBOX_CURSOR = '*';
+
+/**
+ * Cursor account marker for searches spanning several accounts.
+ */
+const CROSS_ACCOUNT_CURSOR = '*';
+
+/**
+ * Maximum number of accounts searched at the same time.
+ */
+const MAX_CONCURRENT_ACCOUNT_SEARCHES = 3;
+
+type MessageSummary = {
+  message_id: string;
+  account_id: string;
+  message_uri: string;
+  message_raw_uri: string;
+  mailbox: string;
+  uidvalidity: number;
+  uid: number;
+  date: string;
+  from: string | undefined;
+  subject: string | undefined;
+  flags: string[] | undefined;
+  gmail_labels: string[] | undefined;
+  gmail_thread_id: string | undefined;
+  snippet: string | undefined;
+};
+
+/**
+ * Order matches newest first, breaking ties by descending UID.
+ */
+function compareMatches(a: SearchMatch, b: SearchMatch): number {
+  return b.date_ms - a.date_ms || b.uid - a.uid;
+}
+
+/**
+ * Fetch message summaries for UIDs in the selected mailbox.
+ */
+async function fetchSummaries(
+  client: ImapFlow,
+  source: SearchCursorSource,
+  uids: number[],
+  snippetMaxChars: number | undefined,
+): Promise<Map<number, MessageSummary>> {
+  const summaries = new Map<number, MessageSummary>();
+  const gmail = supportsGmailExtensions(client);
+  for await (const message of client.fetch(
+    uids,
+    { uid: true, envelope: true, flags: true, labels: gmail, threadId: gmail },
+    { uid: true },
+  )) {
+    if (message.uid === undefined) {
+      continue;
+    }
+    const envelopeSummary = summarizeEnvelope(message.envelope);
+    const locator = {
+      account_id: source.account_id,
+      mailbox: source.mailbox,
+      uidvalidity: source.uidvalidity,
+      uid: message.uid,
+    };
+    summaries.set(message.uid, {
+      message_id: encodeMessageId(locator),
+      account_id: source.account_id,
+      message_uri: messageResourceUri(locator),
+      message_raw_uri: messageRawResourceUri(locator),
+      mailbox: source.mailbox,
+      uidvalidity: source.uidvalidity,
+      uid: message.uid,
+      date: envelopeSummary.date,
+      from: envelopeSummary.from,
+      subject: envelopeSummary.subject,
+      flags: formatFlags(message.flags),
+      gmail_labels: gmail ? formatGmailLabels(message.labels) : undefined,
+      gmail_thread_id: gmail ? message.threadId : undefined,
+      snippet: undefined,
+    });
+  }
+  if (snippetMaxChars !== undefined) {
+    for (const summary of summaries.values()) {
+      const snippet = await getMessageSnippet(client, summary.uid, { max_chars: snippetMaxChars });
+      if (snippet) {
+        summary.snippet = snippet;
+      }
+    }
+  }
+  return summaries;
+}
+
+type AccountSearch = Readonly<{
+  sources: SearchCursorSource[];
+  total: number;
+  duplicates: number;
+  unresolved: string[];
+  truncated: boolean;
+}>;
+
+/**
+ * Search the selected mailboxes of one account and collect their matches.
+ *
+ * Past `maxMatches`, only the newest `limit` matches of each remaining
+ * mailbox are kept and the result is marked as truncated.
+ */
+async function searchAccount(
+  client: ImapFlow,
+  accountId: string,
+  args: SearchMessagesArgs,
+  maxMatches: number,
+): Promise<AccountSearch | { error: string }> {
+  const resolved = await resolveSearchMailboxes(client, args.mailboxes ?? [args.mailbox]);
+  if (resolved.mailboxes.length === 0) {
+    return {
+      error:
+        resolved.unresolved.length > 0
+          ? `No mailbox found for ${resolved.unresolved.join(', ')}.`
+          : 'No mailboxes to search.',
+    };
+  }
+  // Special-use attributes resolve to real paths only here, so check those against the policy
+  for (const mailbox of resolved.mailboxes) {
+    const policyError = evaluateMailboxPolicy(accountId, mailbox);
+    if (policyError) {
+      return { error: policyError };
+    }
+  }
+  if (resolved.mailboxes.length > MAX_SEARCH_MAILBOXES) {
+    return {
+      error: `Found ${resolved.mailboxes.length} mailboxes; at most ${MAX_SEARCH_MAILBOXES} can be searched at once. Pass an explicit list of mailboxes.`,
+    };
+  }
+
+  const sources: SearchCursorSource[] = [];
+  const seenEmailIds = new Set<string>();
+  let total = 0;
+  let duplicates = 0;
+  let truncated = false;
+  for (const mailbox of resolved.mailboxes) {
+    const lockResult = await openMailboxLock(client, mailbox, {
+      readOnly: true,
+      description: 'imap_search_messages',
+    });
+    if ('error' in lockResult) {
+      return lockResult;
+    }
+    try {
+      const searchResult = await searchMessageUids(client, args);
+      if ('error' in searchResult) {
+        return { error: `${mailbox}: ${searchResult.error}` };
+      }
+      const uids = searchResult.uids.slice().sort((a, b) => b - a);
+      // Past the pagination bound, only the newest page of each mailbox can be shown
+      truncated ||= total + uids.length > maxMatches;
+      const fetchUids = truncated ? uids.slice(0, args.limit) : uids;
+
+      const matches: SearchMatch[] = [];
+      if (fetchUids.length > 0) {
+        for await (const message of client.fetch(
+          fetchUids,
+          { uid: true, internalDate: true },
+          { uid: true },
+        )) {
+          if (message.uid === undefined) {
+            continue;
+          }
+          // imapflow includes the OBJECTID / X-GM-MSGID whenever the server supports it
+          if (message.emailId) {
+            if (seenEmailIds.has(message.emailId)) {
+              duplicates += 1;
+              continue;
+            }
+            seenEmailIds.add(message.emailId);
+          }
+          const internalDate =
+            message.internalDate instanceof Date
+              ? message.internalDate
+              : new Date(message.internalDate ?? 0);
+          const dateMs = internalDate.getTime();
+          matches.push({ uid: message.uid, date_ms: Number.isNaN(dateMs) ? 0 : dateMs });
+        }
+      }
+      total += uids.length - (fetchUids.length - matches.length);
+      sources.push({
+        account_id: accountId,
+        mailbox,
+        uidvalidity: lockResult.uidvalidity,
+        matches: matches.sort(compareMatches),
+        offset: 0,
+      });
+    } finally {
+      lockResult.lock.release();
+    }
+  }
+  return { sources, total, duplicates, unresolved: resolved.unresolved, truncated };
+}
+
+/**
+ * Fetch summaries for one account's share of a merged page.
+ *
+ * Each mailbox is reopened with its recorded UIDVALIDITY so a changed
+ * snapshot is reported instead of returning the wrong messages.
+ */
+async function fetchAccountPage(
+  client: ImapFlow,
+  sources: readonly SearchCursorSource[],
+  entries: ReadonlyArray<{ source: number; uid: number }>,
+  snippetMaxChars: number | undefined,
+): Promise<Map<number, Map<number, MessageSummary>> | { error: string }> {
+  const summariesBySource = new Map<number, Map<number, MessageSummary>>();
+  for (const index of new Set(entries.map((entry) => entry.source))) {
+    const source = sources[index];
+    if (!source) {
+      continue;
+    }
+    const uids = entries.filter((entry) => entry.source === index).map((entry) => entry.uid);
+    const lockResult = await openMailboxLock(client, source.mailbox, {
+      readOnly: true,
+      description: 'imap_search_messages',
+      expectedUidvalidity: source.uidvalidity,
+    });
+    if ('error' in lockResult) {
+      return {
+        error: `Mailbox snapshot for ${source.mailbox} has changed. Run the search again to refresh.`,
+      };
+    }
+    try {
+      summariesBySource.set(index, await fetchSummaries(client, source, uids, snippetMaxChars));
+    } finally {
+      lockResult.lock.release();
+    }
+  }
+  return summariesBySource;
+}
+
+/**
+ * Handle imap_search_messages calls that span several mailboxes or accounts.
+ *
+ * Runs the search in each selected mailbox of each selected account, merges
+ * the matches newest first by received date (INTERNALDATE), and pages through
+ * the merged list with a composite cursor that records each mailbox's
+ * account, UIDVALIDITY, and offset.
+ *
+ * The tool performs the following steps:
+ * 1. Resolves `account_ids` ("all" or a list; default: `account_id`); "all" is
+ *    refused when more than MAX_SEARCH_ACCOUNTS accounts are configured
+ * 2. Searches the accounts with bounded concurrency; within each account,
+ *    resolves `mailboxes` ("all", names, or special-use attributes; default:
+ *    `mailbox`), searches each mailbox, and fetches the received date of every match
+ * 3. Drops messages already found in an earlier mailbox of the same account
+ *    (same OBJECTID / Gmail message ID), so Gmail labels and [Gmail]/All Mail
+ *    do not produce duplicates
+ * 4. Merges all mailboxes newest first and fetches summaries for the page
+ * 5. Returns a next_cursor that resumes the merge where this page stopped
+ *
+ * When the matches exceed MAX_SEARCH_MATCHES_FOR_PAGINATION (split evenly
+ * across accounts), only the newest matches of each remaining mailbox are
+ * merged and pagination is disabled. In cross-account searches an account
+ * that fails is reported in `_meta.account_errors` while the others are returned.
+ *
+ * @param args - The validated search arguments with `mailboxes`, `account_ids`, or a composite cursor
+ * @returns A ToolResult containing the merged page of results or an error message
+ */
+export async function handleMultiMailboxSearch(args: SearchMessagesArgs): Promise<ToolResult> {
+  const cursor = args.cursor ? SEARCH_CURSOR_STORE.getSearchCursor(args.cursor) : null;
+  if (args.cursor && !cursor) {
+    return makeError('cursor is invalid or expired. Run the search again.');
+  }
+  if (
+    cursor &&
+    (!cursor.sources ||
+      (cursor.account_id !== CROSS_ACCOUNT_CURSOR && cursor.account_id !== args.account_id))
+  ) {
+    return makeError('cursor does not match the requested mailbox or account.');
+  }
+
+  const accountIds = cursor?.sources
+    ? [...new Set(cursor.sources.map((source) => source.account_id))]
+    : args.account_ids === 'all'
+      ? listConfiguredAccountIds()
+      : [...new Set(args.account_ids ?? [args.account_id])];
+  if (accountIds.length > MAX_SEARCH_ACCOUNTS) {
+    const source = cursor?.sources
+      ? 'The cursor'
+      : args.account_ids === 'all'
+        ? 'account_ids "all"'
+        : 'account_ids';
+    return makeError(
+      `${source} covers ${accountIds.length} accounts, but at most ${MAX_SEARCH_ACCOUNTS} can be searched at once. List at most ${MAX_SEARCH_ACCOUNTS} account IDs to search instead.`,
+      [
+        {
+          tool: 'imap_list_accounts',
+          arguments: {},
+          reason: 'Choose the accounts to search.',
+        },
+      ],
+    );
+  }
+  const crossAccount = cursor
+    ? cursor.account_id === CROSS_ACCOUNT_CURSOR
+    : args.account_ids !== undefined;
+  const accounts: Array<{ id: string; config: AccountConfig }> = [];
+  for (const accountId of accountIds) {
+    const accountResult = loadAccountOrError(accountId);
+    if ('error' in accountResult) {
+      return makeError(accountResult.error);
+    }
+    accounts.push({ id: accountId, config: accountResult.account });
+  }
+  if (accounts.length === 0) {
+    return makeError('No configured accounts to search.');
+  }
+
+  let sources: SearchCursorSource[] = [];
+  let total = 0;
+  let offset = 0;
+  let includeSnippet = args.include_snippet;
+  let snippetMaxChars = args.snippet_max_chars;
+  let paginationDisabled = false;
+  let duplicates = 0;
+  const unresolved: string[] = [];
+  const accountErrors: Record<string, string> = {};
+
+  if (cursor?.sources) {
+    sources = [...cursor.sources];
+    total = cursor.total;
+    offset = cursor.offset;
+    includeSnippet = cursor.include_snippet;
+    snippetMaxChars = cursor.snippet_max_chars;
+  } else {
+    const maxMatches = Math.floor(MAX_SEARCH_MATCHES_FOR_PAGINATION / accounts.length);
+    const results = await mapWithConcurrency(
+      accounts,
+      MAX_CONCURRENT_ACCOUNT_SEARCHES,
+      async (account): Promise<AccountSearch | { error: string }> => {
+        try {
+          return await withImapClient(account.config, (client) =>
+            searchAccount(client, account.id, args, maxMatches),
+          );
+        } catch (error: unknown) {
+          // A single account's failure is fatal only when it is the only account
+          if (!crossAccount) {
+            throw error;
+          }
+          return { error: mapImapError(error).message };
+        }
+      },
+    );
+    for (const [index, result] of results.entries()) {
+      const accountId = accounts[index]?.id ?? '';
+      if ('error' in result) {
+        accountErrors[accountId] = result.error;
+        continue;
+      }
+      sources.push(...result.sources);
+      total += result.total;
+      duplicates += result.duplicates;
+      paginationDisabled ||= result.truncated;
+      unresolved.push(
+        ...result.unresolved.map((entry) => (crossAccount ? `${accountId}:${entry}` : entry)),
+      );
+    }
+    const failures = Object.entries(accountErrors);
+    if (failures.length === accounts.length) {
+      return makeError(
+        crossAccount
+          ? failures.map(([accountId, error]) => `${accountId}: ${error}`).join('\n')
+          : (failures[0]?.[1] ?? 'Search failed.'),
+      );
+    }
+  }
+
+  const { page, offsets } = mergeSourcePage(sources, args.limit);
+
+  // Fetch summaries account by account, verifying each mailbox snapshot is still valid
+  const pagesByAccount = await mapWithConcurrency(
+    accounts,
+    MAX_CONCURRENT_ACCOUNT_SEARCHES,
+    async (account) => {
+      const entries = page.filter((entry) => sources[entry.source]?.account_id === account.id);
+      if (entries.length === 0) {
+        return new Map<number, Map<number, MessageSummary>>();
+      }
+      return await withImapClient(account.config, (client) =>
+        fetchAccountPage(client, sources, entries, includeSnippet ? snippetMaxChars : undefined),
+      );
+    },
+  );
+  const summariesBySource = new Map<number, Map<number, MessageSummary>>();
+  for (const result of pagesByAccount) {
+    if ('error' in result) {
+      if (args.cursor) {
+        SEARCH_CURSOR_STORE.delete(args.cursor);
+      }
+      return makeError(result.error);
+    }
+    for (const [index, summaries] of result) {
+      summariesBySource.set(index, summaries);
+    }
+  }
+  const messages = page
+    .map((entry) => summariesBySource.get(entry.source)?.get(entry.uid))
+    .filter((summary): summary is MessageSummary => summary !== undefined);
+
+  const nextOffset = offset + page.length;
+  let nextCursor: string | undefined;
+  if (nextOffset < total && page.length > 0 && !paginationDisabled) {
+    if (args.cursor) {
+      const updated = SEARCH_CURSOR_STORE.updateSearchCursor(args.cursor, nextOffset, offsets);
+      if (!updated) {
+        return makeError('cursor is invalid or expired. Run the search again.');
+      }
+      nextCursor = updated.id;
+    } else {
+      const created = SEARCH_CURSOR_STORE.createSearchCursor({
+        tool: 'imap_search_messages',
+        account_id: crossAccount ? CROSS_ACCOUNT_CURSOR : args.account_id,
+        mailbox: MULTI_MAILBOX_CURSOR,
+        uidvalidity: 0,
+        uid_ranges: [],
+        offset: nextOffset,
+        total,
+        include_snippet: includeSnippet,
+        snippet_max_chars: snippetMaxChars,
+        sources: sources.map((source, index) => ({
+          ...source,
+          offset: offsets[index] ?? source.offset,
+        })),
+      });
+      nextCursor = created.id;
+    }
+  } else if (args.cursor) {
+    SEARCH_CURSOR_STORE.delete(args.cursor);
+  }
+
+  const searchedAccounts = accounts
+    .map((account) => account.id)
+    .filter((accountId) => accountErrors[accountId] === undefined);
+  const searched = [...new Set(sources.map((source) => source.mailbox))];
+  const scope = crossAccount
+    ? `${sources.length} mailboxes across ${searchedAccounts.length} accounts`
+    : `${sources.length} mailboxes`;
+  const summary =
+    messages.length === 0
+      ? offset > 0
+        ? 'No more results. Run the search again to refresh.'
+        : `Found 0 messages in ${scope}.`
+      : `Found ${total} messages in ${scope}. Showing ${messages.length} starting at ${offset + 1}.`;
+  const hints: ToolHint[] = [];
+  const firstMessage = messages[0];
+  if (firstMessage) {
+    hints.push({
+      tool: 'imap_get_message',
+      arguments: {
+        account_id: firstMessage.account_id,
+        message_id: firstMessage.message_id,
+      },
+      reason: 'Fetch full details for the first message in this page.',
+    });
+  }
+  if (nextCursor) {
+    hints.push({
+      tool: 'imap_search_messages',
+      arguments: crossAccount
+        ? { cursor: nextCursor }
+        : { account_id: args.account_id, cursor: nextCursor },
+      reason: 'Retrieve the next page of results.',
+    });
+  }
+
+  const meta: Record<string, unknown> = {
+    now_utc: nowUtcIso(),
+    security_note: UNTRUSTED_EMAIL_CONTENT_NOTE,
+    read_side_effects: 'none',
+    merge_order: 'internal_date_desc',
+  };
+  if (nextCursor) {
+    meta['next_cursor'] = nextCursor;
+  }
+  if (paginationDisabled) {
+    meta['pagination_disabled'] = true;
+    meta['pagination_disabled_reason'] = 'too_many_matches';
+    meta['max_search_matches_for_pagination'] = MAX_SEARCH_MATCHES_FOR_PAGINATION;
+  }
+  if (duplicates > 0) {
+    meta['duplicates_removed'] = duplicates;
+  }
+  if (unresolved.length > 0) {
+    meta['unresolved_special_use'] = unresolved;
+  }
+  if (Object.keys(accountErrors).length > 0) {
+    meta['account_errors'] = accountErrors;
+  }
+  if (args.last_days !== undefined) {
+    meta['last_days'] = args.last_days;
+    meta['effective_since_utc'] = lastDaysSinceUtc(args.last_days).toISOString();
+  }
+  if (includeSnippet) {
+    meta['include_snippet'] = true;
+    meta['snippet_max_chars'] = snippetMaxChars;
+  }
+
+  return makeOk(
+    summary,
+    {
+      ...(crossAccount ? { account_ids: searchedAccounts } : { account_id: args.account_id }),
+      mailboxes: searched,
+      total,
+      messages,
+      next_cursor: nextCursor,
+      has_more: nextCursor !== undefined,
+    },
+    hints,
+    meta,
+  );
+}
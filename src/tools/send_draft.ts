@@ -0,0 +1,263 @@
+import type { ImapFlow } from 'imapflow';
+import type { AddressObject } from 'mailparser';
+import type { z } from 'zod';
+
+import { loadSmtpConfig } from '../config.js';
+import type { SendDraftInputSchema } from '../contracts.js';
+import { encodeMessageId } from '../message-id.js';
+import { evaluateMailboxPolicy, findDisallowedRecipients } from '../policy.js';
+import { mapSmtpError, sendRawMessage, stripBccHeader } from '../smtp.js';
+import {
+  makeError,
+  makeOk,
+  nowUtcIso,
+  type ToolHint,
+  type ToolResult,
+  withImapClient,
+} from './runtime.js';
+import { loadAccountOrError } from '../utils/account.js';
+import { supportsGmailExtensions } from '../utils/gmail.js';
+import { findSpecialUseMailbox, openMailboxLock } from '../utils/mailbox.js';
+import { parseMailSource } from '../utils/mailparser.js';
+import { decodeMessageIdOrError } from '../utils/message_id.js';
+
+/**
+ * Maximum size of a draft that can be sent.
+ */
+const MAX_SEND_BYTES = 25_000_000;
+
+/**
+ * How the sent copy was filed: appended by this tool, stored by the provider
+ * itself (Gmail files submitted mail automatically), or not filed.
+ */
+type SentCopy = 'appended' | 'provider' | 'skipped' | 'no_sent_mailbox' | 'not_allowed' | 'failed';
+
+/**
+ * Handle the imap_send_draft tool call.
+ *
+ * Submits an existing draft over the account's SMTP server and files a copy in
+ * the Sent mailbox. Sending is gated by MAIL_IMAP_SEND_ENABLED, separately from
+ * other write operations, and always requires confirm=true.
+ *
+ * The tool performs the following steps:
+ * 1. Validates the message_id, the account, and its MAIL_SMTP_* configuration
+ * 2. Downloads the draft, refusing messages without the `\Draft` flag
+ * 3. Collects the envelope recipients from the To, Cc, and Bcc headers and
+ *    checks them against the account's recipient allowlist
+ * 4. Removes the Bcc header and submits the message over SMTP
+ * 5. Appends the message (with Bcc) to the `\Sent` mailbox, unless the provider
+ *    files submitted mail itself (Gmail) or save_to_sent is false
+ *
+ * The draft itself is left in place; delete it with imap_delete_message once
+ * the sent copy is confirmed.
+ *
+ * @example
+ * ```ts
+ * const result = await handleSendDraft({
+ *   account_id: 'default',
+ *   message_id: 'imap:default:Drafts:1234567891:7',
+ *   save_to_sent: true,
+ *   confirm: true
+ * });
+ * // Returns: {
+ * //   account_id: 'default',
+ * //   message_id: 'imap:default:Drafts:1234567891:7',
+ * //   header_message_id: '<...@example.com>',
+ * //   accepted: ['jane@example.com'],
+ * //   rejected: [],
+ * //   sent_mailbox: 'Sent',
+ * //   sent_message_id: 'imap:default:Sent:1234567892:31'
+ * // }
+ * ```
+ *
+ * @param args - The validated input arguments containing account_id, message_id, and confirmation
+ * @returns A ToolResult describing the submission or an error message
+ */
+export async function handleSendDraft(
+  args: z.infer<typeof SendDraftInputSchema>,
+): Promise<ToolResult> {
+  // Validate and decode the message_id, ensuring it matches the requested account
+  const decodedResult = decodeMessageIdOrError(args.message_id, args.account_id);
+  if ('error' in decodedResult) {
+    return makeError(decodedResult.error);
+  }
+  const decoded = decodedResult.decoded;
+
+  // Validate that the account and its SMTP server are configured
+  const accountResult = loadAccountOrError(args.account_id);
+  if ('error' in accountResult) {
+    return makeError(accountResult.error);
+  }
+  const account = accountResult.account;
+  const smtp = loadSmtpConfig(args.account_id);
+  if (!smtp) {
+    return makeError(
+      `SMTP is not configured for account '${args.account_id}'. Set MAIL_SMTP_<ACCOUNT_ID>_HOST to enable sending.`,
+    );
+  }
+
+  const draft = await withImapClient(account, async (client) => {
+    const lockResult = await openMailboxLock(client, decoded.mailbox, {
+      readOnly: true,
+      description: 'imap_send_draft',
+      expectedUidvalidity: decoded.uidvalidity,
+    });
+    if ('error' in lockResult) {
+      return lockResult;
+    }
+    const { lock } = lockResult;
+    try {
+      const fetched = await client.fetchOne(
+        decoded.uid,
+        { uid: true, flags: true, size: true },
+        { uid: true },
+      );
+      if (!fetched) {
+        return { error: 'Message not found.' };
+      }
+      if (!fetched.flags?.has('\\Draft')) {
+        return { error: 'Only messages with the \\Draft flag can be sent.' };
+      }
+      if ((fetched.size ?? 0) > MAX_SEND_BYTES) {
+        return { error: `Draft exceeds the ${MAX_SEND_BYTES} byte limit for sending.` };
+      }
+      const download = await client.download(decoded.uid, undefined, {
+        uid: true,
+        maxBytes: MAX_SEND_BYTES,
+      });
+      const chunks: Buffer[] = [];
+      for await (const chunk of download.content) {
+        chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk as Uint8Array));
+      }
+      return { raw: Buffer.concat(chunks) };
+    } finally {
+      lock.release();
+    }
+  });
+  if ('error' in draft) {
+    return makeError(draft.error);
+  }
+
+  // The envelope is built from the headers, so Bcc recipients still receive the message
+  const parsed = await parseMailSource(draft.raw);
+  const recipients = [
+    ...new Set(
+      [parsed.to, parsed.cc, parsed.bcc]
+        .flatMap(headerAddresses)
+        .map((address) => address.toLowerCase()),
+    ),
+  ];
+  if (recipients.length === 0) {
+    return makeError('The draft has no recipients. Add To, Cc, or Bcc addresses first.');
+  }
+  const disallowed = findDisallowedRecipients(recipients, smtp.allowed_recipients);
+  if (disallowed.length > 0) {
+    return makeError(
+      `Recipients not allowed by MAIL_SMTP_<ACCOUNT_ID>_ALLOWED_RECIPIENTS: ${disallowed.join(', ')}.`,
+    );
+  }
+  const from = headerAddresses(parsed.from)[0] ?? account.user;
+
+  let sent;
+  try {
+    sent = await sendRawMessage(smtp, { from, to: recipients }, stripBccHeader(draft.raw));
+  } catch (error: unknown) {
+    const mapped = mapSmtpError(error);
+    return makeError(mapped.message, [], mapped.meta);
+  }
+  if (sent.accepted.length === 0) {
+    return makeError('The SMTP server did not accept any recipients.', [], {
+      rejected: sent.rejected,
+    });
+  }
+
+  // The message is already sent, so failing to file the copy is reported, not raised
+  let sentCopy: SentCopy = 'skipped';
+  let sentMailbox: string | undefined;
+  let sentMessageId: string | undefined;
+  if (args.save_to_sent) {
+    try {
+      const filed = await withImapClient(account, (client) =>
+        fileSentCopy(client, draft.raw, args.account_id),
+      );
+      sentCopy = filed.sent_copy;
+      sentMailbox = filed.sent_copy === 'appended' ? filed.mailbox : undefined;
+      if (sentMailbox && filed.uid !== undefined && filed.uidvalidity !== undefined) {
+        sentMessageId = encodeMessageId({
+          account_id: args.account_id,
+          mailbox: sentMailbox,
+          uidvalidity: filed.uidvalidity,
+          uid: filed.uid,
+        });
+      }
+    } catch {
+      sentCopy = 'failed';
+    }
+  }
+
+  const hints: ToolHint[] = [
+    {
+      tool: 'imap_delete_message',
+      arguments: { account_id: args.account_id, message_id: args.message_id },
+      reason: 'Remove the draft now that it has been sent (add confirm: true to delete it).',
+    },
+  ];
+
+  const rejectedNote =
+    sent.rejected.length > 0 ? ` ${sent.rejected.length} recipient(s) were rejected.` : '';
+  return makeOk(
+    `Sent draft to ${sent.accepted.length} recipient(s).${rejectedNote}`,
+    {
+      account_id: args.account_id,
+      message_id: args.message_id,
+      header_message_id: parsed.messageId,
+      accepted: sent.accepted,
+      rejected: sent.rejected,
+      sent_mailbox: sentMailbox,
+      sent_message_id: sentMessageId,
+    },
+    hints,
+    { now_utc: nowUtcIso(), sent_copy: sentCopy, smtp_response: sent.response },
+  );
+}
+
+/**
+ * Flatten parsed address headers into their email addresses.
+ */
+function headerAddresses(value: AddressObject | AddressObject[] | undefined): string[] {
+  const objects = value === undefined ? [] : Array.isArray(value) ? value : [value];
+  return objects.flatMap((object) =>
+    object.value.flatMap((entry) => (entry.address ? [entry.address] : [])),
+  );
+}
+
+/**
+ * Append a sent message to the `\Sent` mailbox.
+ */
+async function fileSentCopy(
+  client: ImapFlow,
+  raw: Buffer,
+  accountId: string,
+): Promise<{ sent_copy: SentCopy; mailbox?: string; uid?: number; uidvalidity?: number }> {
+  // Gmail stores messages submitted over its SMTP server in Sent Mail already
+  if (supportsGmailExtensions(client)) {
+    return { sent_copy: 'provider' };
+  }
+  const mailbox = await findSpecialUseMailbox(client, '\\Sent');
+  if (!mailbox) {
+    return { sent_copy: 'no_sent_mailbox' };
+  }
+  if (evaluateMailboxPolicy(accountId, mailbox)) {
+    return { sent_copy: 'not_allowed' };
+  }
+  const appended = await client.append(mailbox, raw, ['\\Seen']);
+  if (!appended) {
+    return { sent_copy: 'failed', mailbox };
+  }
+  return {
+    sent_copy: 'appended',
+    mailbox,
+    ...(typeof appended.uid === 'number' ? { uid: appended.uid } : {}),
+    ...(appended.uidValidity !== undefined ? { uidvalidity: Number(appended.uidValidity) } : {}),
+  };
+}
@@ -0,0 +1,101 @@
+import type { z } from 'zod';
+
+import type { MailboxSubscriptionInputSchema } from '../contracts.js';
+import { makeError, makeOk, type ToolResult, withImapClient } from './runtime.js';
+import { loadAccountOrError } from '../utils/account.js';
+import { findListedMailbox } from '../utils/mailbox.js';
+
+/**
+ * Handle the imap_subscribe_mailbox tool call.
+ *
+ * Adds a mailbox to the account's subscription list (SUBSCRIBE), which mail
+ * clients use to decide which mailboxes to show. Only existing mailboxes can be
+ * subscribed to.
+ *
+ * @example
+ * ```ts
+ * const result = await handleSubscribeMailbox({
+ *   account_id: 'default',
+ *   mailbox: 'Projects'
+ * });
+ * // Returns: { account_id: 'default', mailbox: 'Projects', subscribed: true }
+ * ```
+ *
+ * @param args - The validated input arguments containing account_id and mailbox
+ * @returns A ToolResult confirming the subscription or an error message
+ */
+export async function handleSubscribeMailbox(
+  args: z.infer<typeof MailboxSubscriptionInputSchema>,
+): Promise<ToolResult> {
+  return setSubscription(args, true);
+}
+
+/**
+ * Handle the imap_unsubscribe_mailbox tool call.
+ *
+ * Removes a mailbox from the account's subscription list (UNSUBSCRIBE). The
+ * mailbox and its messages are kept. Mailboxes that no longer exist can still
+ * be unsubscribed to clean up stale subscriptions.
+ *
+ * @example
+ * ```ts
+ * const result = await handleUnsubscribeMailbox({
+ *   account_id: 'default',
+ *   mailbox: 'Projects'
+ * });
+ * // Returns: { account_id: 'default', mailbox: 'Projects', subscribed: false }
+ * ```
+ *
+ * @param args - The validated input arguments containing account_id and mailbox
+ * @returns A ToolResult confirming the change or an error message
+ */
+export async function handleUnsubscribeMailbox(
+  args: z.infer<typeof MailboxSubscriptionInputSchema>,
+): Promise<ToolResult> {
+  return setSubscription(args, false);
+}
+
+/**
+ * Subscribe to or unsubscribe from a mailbox.
+ */
+async function setSubscription(
+  args: z.infer<typeof MailboxSubscriptionInputSchema>,
+  subscribe: boolean,
+): Promise<ToolResult> {
+  // Validate that the account is configured before attempting to connect
+  const accountResult = loadAccountOrError(args.account_id);
+  if ('error' in accountResult) {
+    return makeError(accountResult.error);
+  }
+  const account = accountResult.account;
+
+  const result = await withImapClient(account, async (client) => {
+    if (subscribe) {
+      const target = findListedMailbox(await client.list(), args.mailbox);
+      if (!target) {
+        return { error: `Mailbox '${args.mailbox}' does not exist.` };
+      }
+      // imapflow reports SUBSCRIBE failures as false instead of throwing
+      return (await client.mailboxSubscribe(target.path))
+        ? { path: target.path }
+        : { error: `Failed to subscribe to mailbox '${target.path}'.` };
+    }
+    return (await client.mailboxUnsubscribe(args.mailbox))
+      ? { path: args.mailbox }
+      : { error: `Failed to unsubscribe from mailbox '${args.mailbox}'.` };
+  });
+  if ('error' in result) {
+    return makeError(result.error);
+  }
+
+  return makeOk(
+    subscribe
+      ? `Subscribed to mailbox ${result.path}.`
+      : `Unsubscribed from mailbox ${result.path}.`,
+    {
+      account_id: args.account_id,
+      mailbox: result.path,
+      subscribed: subscribe,
+    },
+  );
+}
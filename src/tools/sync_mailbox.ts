@@ -0,0 +1,395 @@
+import type { ExpungeEvent, ImapFlow } from 'imapflow';
+import type { z } from 'zod';
+
+import { MAX_SYNC_CHANGES, type SyncMailboxInputSchema } from '../contracts.js';
+import { encodeMessageId } from '../message-id.js';
+import { messageRawResourceUri, messageResourceUri } from '../resources/uri.js';
+import { decodeSyncToken, encodeSyncToken, type SyncState } from '../sync-token.js';
+import { loadAccountOrError } from '../utils/account.js';
+import { formatGmailLabels, supportsGmailExtensions } from '../utils/gmail.js';
+import { expandSequenceSet, toSequenceSet } from '../utils/imap_command.js';
+import { openMailboxLock } from '../utils/mailbox.js';
+import {
+  formatFlags,
+  makeError,
+  makeOk,
+  nowUtcIso,
+  summarizeEnvelope,
+  type ToolHint,
+  type ToolResult,
+  UNTRUSTED_EMAIL_CONTENT_NOTE,
+  withImapClient,
+} from './runtime.js';
+
+/**
+ * Longest UID set stored in a sync token for servers without QRESYNC.
+ *
+ * Mailboxes with more gaps than fit are synced without vanished UIDs.
+ */
+const MAX_SYNC_TOKEN_UID_SET_LENGTH = 8192;
+
+/**
+ * Largest number of known UIDs expanded from a token for UID diffing.
+ */
+const MAX_SYNC_KNOWN_UIDS = 100_000;
+
+type SyncStrategy = 'qresync' | 'condstore' | 'uid_diff';
+
+type SyncOutcome = {
+  uidvalidity: number;
+  messages: number;
+  baseline: boolean;
+  resync_reason: 'uidvalidity_changed' | 'too_many_changes' | undefined;
+  new_messages: Record<string, unknown>[];
+  flag_changes: { message_id: string; uid: number; flags: string[] }[];
+  vanished_uids: number[];
+  state: SyncState;
+  has_more: boolean;
+  strategy: SyncStrategy;
+  flag_changes_tracked: boolean;
+  vanished_tracked: boolean;
+};
+
+/**
+ * Handle the imap_sync_mailbox tool call.
+ *
+ * Reports what changed in a mailbox since the state captured in a previous
+ * sync_token, so agents that keep their own copy of a mailbox do not need to
+ * re-search it:
+ * - New messages: UIDs above the token's last UID, oldest first, up to `limit`
+ *   per call (has_more signals that another call is needed)
+ * - Flag changes: via FETCH CHANGEDSINCE when the server supports CONDSTORE
+ * - Vanished UIDs: via VANISHED (EARLIER) when the server supports QRESYNC,
+ *   otherwise by diffing against the UID set stored in the token
+ *
+ * Without a sync_token the call captures a baseline token for the current
+ * state and returns no messages. If the mailbox's UIDVALIDITY changed (or the
+ * delta is too large to report), full_resync_required is set and the returned
+ * token replays every message from the start.
+ *
+ * @example
+ * ```ts
+ * const result = await handleSyncMailbox({
+ *   account_id: 'default',
+ *   mailbox: 'INBOX',
+ *   sync_token: 'sync1.eyJhY2NvdW50X2lkIjoi...',
+ *   limit: 50
+ * });
+ * // Returns: {
+ * //   account_id: 'default',
+ * //   mailbox: 'INBOX',
+ * //   uidvalidity: 1234567890,
+ * //   full_resync_required: false,
+ * //   new_messages: [...],
+ * //   flag_changes: [{ message_id: 'imap:default:INBOX:1234567890:40', uid: 40, flags: ['\\Seen'] }],
+ * //   vanished_uids: [12],
+ * //   sync_token: 'sync1.eyJhY2NvdW50X2lkIjoi...',
+ * //   has_more: false
+ * // }
+ * ```
+ *
+ * @param args - The validated input arguments containing account_id, mailbox, sync_token, and limit
+ * @returns A ToolResult containing the changes and the next sync token, or an error message
+ */
+export async function handleSyncMailbox(
+  args: z.infer<typeof SyncMailboxInputSchema>,
+): Promise<ToolResult> {
+  let previous: SyncState | undefined;
+  if (args.sync_token) {
+    const decoded = decodeSyncToken(args.sync_token);
+    if (!decoded) {
+      return makeError('sync_token is invalid. Omit it to start a new sync.');
+    }
+    if (decoded.account_id !== args.account_id || decoded.mailbox !== args.mailbox) {
+      return makeError(
+        `sync_token belongs to ${decoded.account_id}/${decoded.mailbox}, not ${args.account_id}/${args.mailbox}.`,
+      );
+    }
+    previous = decoded;
+  }
+
+  const accountResult = loadAccountOrError(args.account_id);
+  if ('error' in accountResult) {
+    return makeError(accountResult.error);
+  }
+  const account = accountResult.account;
+
+  const result = await withImapClient(account, async (client) => {
+    // No expected UIDVALIDITY: a change is reported as a required resync instead of an error
+    const lockResult = await openMailboxLock(client, args.mailbox, {
+      readOnly: true,
+      description: 'imap_sync_mailbox',
+    });
+    if ('error' in lockResult) {
+      return lockResult;
+    }
+    const { lock, uidvalidity } = lockResult;
+    try {
+      return await syncSelectedMailbox(client, args, previous, uidvalidity);
+    } finally {
+      lock.release();
+    }
+  });
+  if ('error' in result) {
+    return makeError(result.error);
+  }
+
+  const syncToken = encodeSyncToken(result.state);
+  const fullResync = result.resync_reason !== undefined;
+  let summary: string;
+  if (result.resync_reason === 'uidvalidity_changed') {
+    summary = `UIDVALIDITY of ${args.mailbox} changed. Discard cached state and resync with the returned sync_token.`;
+  } else if (result.resync_reason === 'too_many_changes') {
+    summary = `More than ${MAX_SYNC_CHANGES} changes in ${args.mailbox}. Discard cached state and resync with the returned sync_token.`;
+  } else if (result.baseline) {
+    summary = `Created a sync baseline for ${args.mailbox} (${result.messages} messages).`;
+  } else {
+    summary = `${result.new_messages.length} new, ${result.flag_changes.length} flag changes, ${result.vanished_uids.length} vanished in ${args.mailbox}.`;
+  }
+
+  const hints: ToolHint[] = [];
+  if (fullResync || result.has_more) {
+    hints.push({
+      tool: 'imap_sync_mailbox',
+      arguments: { account_id: args.account_id, mailbox: args.mailbox, sync_token: syncToken },
+      reason: fullResync ? 'Replay the mailbox from the start.' : 'Fetch the next new messages.',
+    });
+  } else if (result.baseline) {
+    hints.push({
+      tool: 'imap_search_messages',
+      arguments: { account_id: args.account_id, mailbox: args.mailbox, limit: 10 },
+      reason: 'List existing messages; later syncs only report changes.',
+    });
+  }
+
+  const meta: Record<string, unknown> = {
+    now_utc: nowUtcIso(),
+    security_note: UNTRUSTED_EMAIL_CONTENT_NOTE,
+    read_side_effects: 'none',
+    sync_strategy: result.strategy,
+    flag_changes_tracked: result.flag_changes_tracked,
+    vanished_tracked: result.vanished_tracked,
+  };
+  if (result.resync_reason) {
+    meta['resync_reason'] = result.resync_reason;
+  }
+
+  return makeOk(
+    summary,
+    {
+      account_id: args.account_id,
+      mailbox: args.mailbox,
+      uidvalidity: result.uidvalidity,
+      full_resync_required: fullResync,
+      new_messages: result.new_messages,
+      flag_changes: result.flag_changes,
+      vanished_uids: result.vanished_uids,
+      sync_token: syncToken,
+      has_more: result.has_more,
+    },
+    hints,
+    meta,
+  );
+}
+
+/**
+ * Compute the changes of the selected mailbox since a previous sync state.
+ */
+async function syncSelectedMailbox(
+  client: ImapFlow,
+  args: z.infer<typeof SyncMailboxInputSchema>,
+  previous: SyncState | undefined,
+  uidvalidity: number,
+): Promise<SyncOutcome> {
+  const selected = client.mailbox;
+  const messages = selected ? selected.exists : 0;
+  const highestModseq = selected ? selected.highestModseq : undefined;
+  const condstore =
+    client.enabled.has('CONDSTORE') &&
+    selected !== false &&
+    !selected.noModseq &&
+    highestModseq !== undefined;
+  const qresync = condstore && client.enabled.has('QRESYNC');
+  const strategy: SyncStrategy = qresync ? 'qresync' : condstore ? 'condstore' : 'uid_diff';
+  // Capture HIGHESTMODSEQ before reading: later changes are reported again rather than lost
+  const modseq = condstore ? highestModseq?.toString() : undefined;
+  const latestUid = selected ? Math.max(0, selected.uidNext - 1) : 0;
+  const base = { account_id: args.account_id, mailbox: args.mailbox, uidvalidity };
+
+  const outcome: SyncOutcome = {
+    uidvalidity,
+    messages,
+    baseline: false,
+    resync_reason: undefined,
+    new_messages: [],
+    flag_changes: [],
+    vanished_uids: [],
+    state: { ...base, last_uid: 0 },
+    has_more: false,
+    strategy,
+    flag_changes_tracked: false,
+    vanished_tracked: false,
+  };
+  const resync = (reason: 'uidvalidity_changed' | 'too_many_changes'): SyncOutcome => ({
+    ...outcome,
+    resync_reason: reason,
+    flag_changes: [],
+    vanished_uids: [],
+    new_messages: [],
+    has_more: messages > 0,
+    state: { ...base, last_uid: 0 },
+  });
+
+  if (!previous) {
+    const current = qresync ? [] : await searchUidsUpTo(client, latestUid);
+    return {
+      ...outcome,
+      baseline: true,
+      state: {
+        ...base,
+        last_uid: latestUid,
+        modseq,
+        uids: qresync ? undefined : boundedUidSet(current),
+      },
+    };
+  }
+  if (previous.uidvalidity !== uidvalidity) {
+    return resync('uidvalidity_changed');
+  }
+
+  // Flag changes (CONDSTORE) and, with QRESYNC, vanished UIDs among known messages
+  const vanishedEarlier: number[] = [];
+  if (condstore && previous.modseq !== undefined && previous.last_uid > 0) {
+    outcome.flag_changes_tracked = true;
+    const onExpunge = (event: ExpungeEvent): void => {
+      if (event.vanished && event.uid !== undefined && event.uid <= previous.last_uid) {
+        vanishedEarlier.push(event.uid);
+      }
+    };
+    client.on('expunge', onExpunge);
+    try {
+      for await (const message of client.fetch(
+        `1:${previous.last_uid}`,
+        { uid: true, flags: true },
+        { uid: true, changedSince: BigInt(previous.modseq) },
+      )) {
+        if (message.uid === undefined || message.uid > previous.last_uid) {
+          continue;
+        }
+        if (outcome.flag_changes.length >= MAX_SYNC_CHANGES) {
+          return resync('too_many_changes');
+        }
+        outcome.flag_changes.push({
+          message_id: encodeMessageId({ ...base, uid: message.uid }),
+          uid: message.uid,
+          flags: formatFlags(message.flags) ?? [],
+        });
+      }
+    } finally {
+      client.off('expunge', onExpunge);
+    }
+  }
+
+  // Vanished UIDs: reported by QRESYNC above, or diffed against the token's UID set
+  const knownCurrent = qresync ? [] : await searchUidsUpTo(client, previous.last_uid);
+  if (qresync && previous.modseq !== undefined) {
+    outcome.vanished_tracked = true;
+    outcome.vanished_uids = [...new Set(vanishedEarlier)].sort((a, b) => a - b);
+  } else if (!qresync && previous.uids !== undefined) {
+    const known = expandSequenceSet(previous.uids, MAX_SYNC_KNOWN_UIDS);
+    if (known) {
+      outcome.vanished_tracked = true;
+      const present = new Set(knownCurrent);
+      outcome.vanished_uids = known.filter((uid) => uid <= previous.last_uid && !present.has(uid));
+    }
+  }
+  if (outcome.vanished_uids.length > MAX_SYNC_CHANGES) {
+    return resync('too_many_changes');
+  }
+
+  // New messages above the previous watermark, oldest first
+  let newUids: number[] = [];
+  if (latestUid > previous.last_uid) {
+    const found = await client.search({ uid: `${previous.last_uid + 1}:*` }, { uid: true });
+    // `n:*` always matches the highest UID, even when it is below n
+    newUids = (found || []).filter((uid) => uid > previous.last_uid).sort((a, b) => a - b);
+  }
+  const pageUids = newUids.slice(0, args.limit);
+  outcome.has_more = newUids.length > pageUids.length;
+  outcome.new_messages = await fetchNewSummaries(client, base, pageUids);
+
+  const lastUid = pageUids.at(-1) ?? previous.last_uid;
+  outcome.state = {
+    ...base,
+    last_uid: lastUid,
+    modseq,
+    uids: qresync ? undefined : boundedUidSet([...knownCurrent, ...pageUids]),
+  };
+  return outcome;
+}
+
+/**
+ * Search the UIDs of the selected mailbox from 1 up to `lastUid`.
+ */
+async function searchUidsUpTo(client: ImapFlow, lastUid: number): Promise<number[]> {
+  if (lastUid < 1) {
+    return [];
+  }
+  const found = await client.search({ uid: `1:${lastUid}` }, { uid: true });
+  return (found || []).filter((uid) => uid <= lastUid);
+}
+
+/**
+ * Encode UIDs for a sync token, or omit them when the set is too large.
+ */
+function boundedUidSet(uids: readonly number[]): string | undefined {
+  if (uids.length === 0) {
+    return undefined;
+  }
+  const set = toSequenceSet(uids);
+  return set.length <= MAX_SYNC_TOKEN_UID_SET_LENGTH ? set : undefined;
+}
+
+/**
+ * Fetch summaries for new messages in ascending UID order.
+ */
+async function fetchNewSummaries(
+  client: ImapFlow,
+  base: Readonly<{ account_id: string; mailbox: string; uidvalidity: number }>,
+  uids: readonly number[],
+): Promise<Record<string, unknown>[]> {
+  if (uids.length === 0) {
+    return [];
+  }
+  const gmail = supportsGmailExtensions(client);
+  const summaries: { uid: number; summary: Record<string, unknown> }[] = [];
+  for await (const message of client.fetch(
+    [...uids],
+    { uid: true, envelope: true, flags: true, labels: gmail, threadId: gmail },
+    { uid: true },
+  )) {
+    if (message.uid === undefined) {
+      continue;
+    }
+    const locator = { ...base, uid: message.uid };
+    const envelopeSummary = summarizeEnvelope(message.envelope);
+    summaries.push({
+      uid: message.uid,
+      summary: {
+        message_id: encodeMessageId(locator),
+        message_uri: messageResourceUri(locator),
+        message_raw_uri: messageRawResourceUri(locator),
+        mailbox: base.mailbox,
+        uidvalidity: base.uidvalidity,
+        uid: message.uid,
+        date: envelopeSummary.date,
+        from: envelopeSummary.from,
+        subject: envelopeSummary.subject,
+        flags: formatFlags(message.flags),
+        gmail_labels: gmail ? formatGmailLabels(message.labels) : undefined,
+        gmail_thread_id: gmail ? message.threadId : undefined,
+      },
+    });
+  }
+  return summaries.sort((a, b) => a.uid - b.uid).map((entry) => entry.summary);
+}
@@ -0,0 +1,331 @@
+import type { ImapFlow } from 'imapflow';
+import type { z } from 'zod';
+
+import { recordAuditMessages, type AuditMessageChange } from '../audit.js';
+import type { UndoInputSchema } from '../contracts.js';
+import { encodeMessageId } from '../message-id.js';
+import { evaluateMailboxPolicy } from '../policy.js';
+import {
+  findUndoOperation,
+  listPendingUndoOperations,
+  type UndoOperation,
+} from '../undo-journal.js';
+import { loadAccountOrError } from '../utils/account.js';
+import type { BulkMessageResult } from '../utils/bulk.js';
+import { fetchExistingFlags } from '../utils/bulk.js';
+import { openMailboxLock } from '../utils/mailbox.js';
+import { makeError, makeOk, moveMessageUids, type ToolResult, withImapClient } from './runtime.js';
+
+/** Servers set \Recent themselves, so it is ignored when comparing and restoring flags */
+const RECENT_FLAG = '\\Recent';
+
+/**
+ * Handle the imap_undo tool call.
+ *
+ * Reverts journaled operations, newest first:
+ * - flag changes are reverted by restoring each message's previous flags
+ * - moves are reverted by moving each message back to its original mailbox
+ * - deletes are reverted by moving each message back from Trash, or its copy back from
+ *   the undo mailbox for permanent deletes
+ *
+ * A message is only reverted if it is still where the operation left it with the
+ * flags it had then; otherwise it is reported as failed and left untouched.
+ * Nothing is reverted if a mailbox involved is now denied by the account's policy
+ * or if more messages would change than max_messages_per_call allows.
+ * Restored messages get new UIDs, which are returned as `new_message_id`.
+ *
+ * @param args - The validated input arguments containing account_id and operation_id or count
+ * @returns A ToolResult containing per-message results for each operation
+ */
+export async function handleUndo(args: z.infer<typeof UndoInputSchema>): Promise<ToolResult> {
+  let selected: UndoOperation[];
+  if (args.operation_id !== undefined) {
+    const operation = findUndoOperation(args.account_id, args.operation_id);
+    if (!operation) {
+      return makeError(
+        `Unknown operation_id for account '${args.account_id}'. Operations are only kept while the server is running.`,
+      );
+    }
+    if (operation.undone.size === operation.messages.length) {
+      return makeError(`Operation ${operation.id} has already been undone.`);
+    }
+    selected = [operation];
+  } else {
+    selected = listPendingUndoOperations(args.account_id, args.count ?? 1);
+    if (selected.length === 0) {
+      return makeError(`No operations to undo for account '${args.account_id}'.`);
+    }
+  }
+
+  // Validate that the account is configured before attempting to connect
+  const accountResult = loadAccountOrError(args.account_id);
+  if ('error' in accountResult) {
+    return makeError(accountResult.error);
+  }
+
+  // The account's policy may have changed since the operations ran, so it is
+  // checked against every message that would be reverted now
+  const pending = selected.flatMap((operation) =>
+    operation.messages.filter((_message, index) => !operation.undone.has(index)),
+  );
+  const limit = accountResult.account.max_messages_per_call;
+  if (limit !== undefined && pending.length > limit) {
+    return makeError(
+      `Undoing would change ${pending.length} messages, but at most ${limit} messages may be changed per call; undo fewer operations.`,
+    );
+  }
+  for (const operation of selected) {
+    const mailboxes = new Set(
+      operation.messages.flatMap((message, index) =>
+        operation.undone.has(index)
+          ? []
+          : [currentLocation(operation, message).mailbox, message.mailbox],
+      ),
+    );
+    for (const mailbox of mailboxes) {
+      const policyError = evaluateMailboxPolicy(args.account_id, mailbox);
+      if (policyError) {
+        return makeError(policyError);
+      }
+    }
+  }
+
+  const operations = await withImapClient(accountResult.account, async (client) => {
+    const collected: {
+      operation_id: string;
+      tool: string;
+      kind: UndoOperation['kind'];
+      results: BulkMessageResult[];
+    }[] = [];
+    for (const operation of selected) {
+      collected.push({
+        operation_id: operation.id,
+        tool: operation.tool,
+        kind: operation.kind,
+        results: await revertOperation(client, operation),
+      });
+    }
+    return collected;
+  });
+
+  const results = operations.flatMap((operation) => operation.results);
+  const succeeded = results.filter((result) => result.ok).length;
+  const data = {
+    account_id: args.account_id,
+    operations,
+    succeeded,
+    failed: results.length - succeeded,
+  };
+  if (succeeded === 0) {
+    return makeError(`Failed to undo all ${results.length} messages.`, [], data);
+  }
+  return makeOk(
+    `Reverted ${succeeded} of ${results.length} messages in ${operations.length} operations.`,
+    data,
+  );
+}
+
+/**
+ * Revert the messages of one operation that have not been reverted yet.
+ *
+ * Messages are grouped by the mailbox they currently are in and the mailbox they
+ * return to, so each group is handled with one mailbox lock and one move.
+ */
+async function revertOperation(
+  client: ImapFlow,
+  operation: UndoOperation,
+): Promise<BulkMessageResult[]> {
+  const groups = new Map<string, { mailbox: string; uidvalidity: number; indexes: number[] }>();
+  operation.messages.forEach((message, index) => {
+    if (operation.undone.has(index)) {
+      return;
+    }
+    // Moved messages may go back to different mailboxes, so those are grouped too
+    const location = currentLocation(operation, message);
+    const key = `${location.uidvalidity}:${location.mailbox}\n${message.mailbox}`;
+    const group = groups.get(key) ?? { ...location, indexes: [] };
+    group.indexes.push(index);
+    groups.set(key, group);
+  });
+
+  const results: BulkMessageResult[] = [];
+  for (const group of groups.values()) {
+    results.push(...(await revertGroup(client, operation, group)));
+  }
+  return results;
+}
+
+/**
+ * Revert the messages of one group, skipping those that changed since the operation.
+ */
+async function revertGroup(
+  client: ImapFlow,
+  operation: UndoOperation,
+  group: Readonly<{ mailbox: string; uidvalidity: number; indexes: readonly number[] }>,
+): Promise<BulkMessageResult[]> {
+  const originalId = (message: AuditMessageChange): string =>
+    encodeMessageId({
+      account_id: operation.account_id,
+      mailbox: message.mailbox,
+      uidvalidity: message.uidvalidity ?? 0,
+      uid: message.uid,
+    });
+  const failAll = (indexes: readonly number[], error: string): BulkMessageResult[] =>
+    indexes.flatMap((index) => {
+      const message = operation.messages[index];
+      return message ? [{ message_id: originalId(message), ok: false, error }] : [];
+    });
+
+  const lockResult = await openMailboxLock(client, group.mailbox, {
+    readOnly: false,
+    description: 'imap_undo',
+    expectedUidvalidity: group.uidvalidity,
+  });
+  if ('error' in lockResult) {
+    return failAll(group.indexes, lockResult.error);
+  }
+  const { lock } = lockResult;
+  try {
+    // Only revert messages that are still exactly as the operation left them
+    const pending = group.indexes.flatMap((index) => {
+      const message = operation.messages[index];
+      return message ? [{ index, message, uid: currentLocation(operation, message).uid }] : [];
+    });
+    const existing = await fetchExistingFlags(
+      client,
+      pending.map((item) => item.uid),
+    );
+    const results: BulkMessageResult[] = [];
+    const unchanged: typeof pending = [];
+    for (const item of pending) {
+      const flags = existing.get(item.uid);
+      const expected =
+        operation.kind === 'flags' ? item.message.flags_after : item.message.flags_before;
+      if (!flags) {
+        results.push({
+          message_id: originalId(item.message),
+          ok: false,
+          error: `Message no longer exists in ${group.mailbox}.`,
+        });
+      } else if (!sameFlags(flags, expected ?? [])) {
+        results.push({
+          message_id: originalId(item.message),
+          ok: false,
+          error: 'Message flags have changed since the operation; not reverted.',
+        });
+      } else {
+        unchanged.push(item);
+      }
+    }
+    if (unchanged.length === 0) {
+      return results;
+    }
+
+    if (operation.kind === 'flags') {
+      // Messages that had the same flags are restored with one UID STORE
+      const restoredFlags = new Map<string, { flags: string[]; uids: number[] }>();
+      for (const item of unchanged) {
+        const flags = (item.message.flags_before ?? []).filter((flag) => flag !== RECENT_FLAG);
+        const key = [...flags].sort().join(' ');
+        const flagGroup = restoredFlags.get(key) ?? { flags, uids: [] };
+        flagGroup.uids.push(item.uid);
+        restoredFlags.set(key, flagGroup);
+      }
+      for (const { flags, uids } of restoredFlags.values()) {
+        await client.messageFlagsSet(uids, flags, { uid: true });
+      }
+      for (const item of unchanged) {
+        const flags = (item.message.flags_before ?? []).filter((flag) => flag !== RECENT_FLAG);
+        operation.undone.add(item.index);
+        results.push({ message_id: originalId(item.message), ok: true, flags });
+      }
+      recordAuditMessages(
+        unchanged.map((item) => ({
+          mailbox: group.mailbox,
+          uidvalidity: group.uidvalidity,
+          uid: item.uid,
+          flags_before: existing.get(item.uid),
+          flags_after: item.message.flags_before,
+        })),
+      );
+      return results;
+    }
+
+    // Moves and deletes are reverted by moving the message back to its original mailbox
+    const restored = await moveMessageUids(
+      client,
+      unchanged.map((item) => item.uid),
+      unchanged[0]?.message.mailbox ?? '',
+      false,
+    );
+    if (!restored || 'error' in restored) {
+      return [
+        ...results,
+        ...failAll(
+          unchanged.map((item) => item.index),
+          restored ? restored.error : 'Moving the message back failed.',
+        ),
+      ];
+    }
+    const restoredUidvalidity =
+      restored.uidValidity !== undefined ? Number(restored.uidValidity) : undefined;
+    for (const item of unchanged) {
+      operation.undone.add(item.index);
+      const newUid = restored.uidMap?.get(item.uid);
+      results.push(
+        newUid !== undefined && restoredUidvalidity !== undefined
+          ? {
+              message_id: originalId(item.message),
+              ok: true,
+              new_message_id: encodeMessageId({
+                account_id: operation.account_id,
+                mailbox: item.message.mailbox,
+                uidvalidity: restoredUidvalidity,
+                uid: newUid,
+              }),
+            }
+          : { message_id: originalId(item.message), ok: true },
+      );
+    }
+    recordAuditMessages(
+      unchanged.map((item) => ({
+        mailbox: group.mailbox,
+        uidvalidity: group.uidvalidity,
+        uid: item.uid,
+        flags_before: existing.get(item.uid),
+        destination_mailbox: item.message.mailbox,
+        destination_uidvalidity: restoredUidvalidity,
+        destination_uid: restored.uidMap?.get(item.uid),
+      })),
+    );
+    return results;
+  } finally {
+    lock.release();
+  }
+}
+
+/**
+ * Where a message of an operation is now: its original location for flag
+ * changes, or its destination (or undo copy) for moves and deletes.
+ */
+function currentLocation(
+  operation: UndoOperation,
+  message: AuditMessageChange,
+): { mailbox: string; uidvalidity: number; uid: number } {
+  return operation.kind === 'flags'
+    ? { mailbox: message.mailbox, uidvalidity: message.uidvalidity ?? 0, uid: message.uid }
+    : {
+        mailbox: message.destination_mailbox ?? '',
+        uidvalidity: message.destination_uidvalidity ?? 0,
+        uid: message.destination_uid ?? 0,
+      };
+}
+
+function sameFlags(actual: readonly string[], expected: readonly string[]): boolean {
+  const normalize = (flags: readonly string[]): string =>
+    flags
+      .filter((flag) => flag !== RECENT_FLAG)
+      .sort()
+      .join(' ');
+  return normalize(actual) === normalize(expected);
+}
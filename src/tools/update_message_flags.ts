@@ -1,30 +1,41 @@
+import type { ImapFlow } from 'imapflow';
 import type { z } from 'zod';
 
+import { recordAuditMessages } from '../audit.js';
 import type { UpdateMessageFlagsInputSchema } from '../contracts.js';
 import { makeError, makeOk, type ToolHint, type ToolResult, withImapClient } from './runtime.js';
 import { loadAccountOrError } from '../utils/account.js';
-import { decodeMessageIdOrError } from '../utils/message_id.js';
+import {
+  type BulkMessageResult,
+  collectMessageIds,
+  countResults,
+  failGroup,
+  fetchExistingFlags,
+  groupMessageIds,
+  type MessageGroup,
+  orderResults,
+} from '../utils/bulk.js';
 import { openMailboxLock } from '../utils/mailbox.js';
 
 /**
  * Handle the imap_update_message_flags tool call.
  *
- * Updates IMAP message flags (also known as labels or tags) on a specific message.
+ * Updates IMAP message flags (also known as labels or tags) on one message, or on up to
+ * 50 messages when `message_ids` is provided.
  * Common flags include \Seen (read/unread), \Flagged, \Answered, \Deleted, and user-defined
  * flags. This operation is useful for managing email workflow (marking as read, flagging for follow-up, etc.).
  *
  * The tool performs the following steps:
- * 1. Validates and decodes the message_id to extract account, mailbox, and UID information
- * 2. Ensures the message_id matches the requested account_id for security
- * 3. Validates that the account is properly configured
- * 4. Establishes an IMAP connection and obtains a write lock on the target mailbox
- * 5. Verifies that the mailbox UIDVALIDITY matches the message_id
- * 6. Fetches the current message flags to verify the message exists
- * 7. Adds any flags specified in add_flags (if they're not already set)
- * 8. Removes any flags specified in remove_flags (if they're currently set)
- * 9. Fetches the updated flags to return to the caller
- * 10. Releases the mailbox lock
- * 11. Returns the updated flags and suggests fetching the full message details
+ * 1. Validates and decodes each message_id to extract account, mailbox, and UID information
+ * 2. Ensures each message_id matches the requested account_id for security
+ * 3. Groups the messages by mailbox and UIDVALIDITY
+ * 4. Validates that the account is properly configured
+ * 5. For each group, obtains a write lock on the mailbox and verifies UIDVALIDITY
+ * 6. Fetches the current message flags to verify which messages exist
+ * 7. Adds and removes flags with a single UID set command per operation
+ * 8. Fetches the updated flags to return to the caller
+ * 9. Releases the mailbox lock
+ * 10. Returns the updated flags (or per-message results for bulk calls)
  *
  * @example
  * ```ts
@@ -41,16 +52,19 @@ import { openMailboxLock } from '../utils/mailbox.js';
  * // }
  * ```
  *
- * @param args - The validated input arguments containing account_id, message_id, add_flags, and remove_flags
+ * @param args - The validated input arguments containing account_id, message_id or message_ids, add_flags, and remove_flags
  * @returns A ToolResult containing the updated message flags or an error message
  */
 export async function handleUpdateMessageFlags(
   args: z.infer<typeof UpdateMessageFlagsInputSchema>,
 ): Promise<ToolResult> {
-  // Validate and decode the message_id, ensuring it matches the requested account
-  const decodedResult = decodeMessageIdOrError(args.message_id, args.account_id);
-  if ('error' in decodedResult) {
-    return makeError(decodedResult.error);
+  // Validate and decode every message_id, ensuring each matches the requested account
+  const messageIds = collectMessageIds(args);
+  const { groups, failures } = groupMessageIds(messageIds, args.account_id);
+  const single = args.message_ids === undefined;
+  const [singleFailure] = failures;
+  if (single && singleFailure?.error) {
+    return makeError(singleFailure.error);
   }
 
   // Validate that the account is configured before attempting to connect
@@ -58,78 +72,142 @@ export async function handleUpdateMessageFlags(
   if ('error' in accountResult) {
     return makeError(accountResult.error);
   }
-  const decoded = decodedResult.decoded;
   const account = accountResult.account;
-
-  return await withImapClient(account, async (client) => {
-    // Obtain a write lock on the mailbox and validate UIDVALIDITY
-    // The expectedUidvalidity ensures we're operating on the same mailbox snapshot
-    // that was used to generate the message_id, preventing issues if the mailbox
-    // was recreated or otherwise modified
-    const lockResult = await openMailboxLock(client, decoded.mailbox, {
-      readOnly: false,
-      description: 'imap_update_message_flags',
-      expectedUidvalidity: decoded.uidvalidity,
+  if (groups.length === 0) {
+    return makeError(`Failed to update flags for all ${failures.length} messages.`, [], {
+      account_id: args.account_id,
+      results: failures,
+      succeeded: 0,
+      failed: failures.length,
     });
-    if ('error' in lockResult) {
-      return makeError(lockResult.error);
+  }
+
+  const groupResults = await withImapClient(account, async (client) => {
+    const collected: BulkMessageResult[] = [];
+    for (const group of groups) {
+      collected.push(...(await updateGroupFlags(client, group, args)));
     }
-    const { lock } = lockResult;
-    try {
-      // Fetch the current message flags to verify the message exists
-      // We also need the current flags to ensure we don't duplicate add operations
-      const fetched = await client.fetchOne(decoded.uid, { uid: true, flags: true }, { uid: true });
-      if (!fetched) {
-        return makeError('Message not found.');
-      }
+    return collected;
+  });
+  const results = orderResults(messageIds, [...failures, ...groupResults]);
+
+  if (single) {
+    const [result] = results;
+    if (!result?.ok) {
+      return makeError(result?.error ?? 'Message not found.');
+    }
+
+    // Provide a clear confirmation that the flags were updated
+    const summary = `Updated flags for ${result.message_id}.`;
+
+    // Suggest fetching the full message details to see the impact of the flag changes
+    // This helps users verify the update and understand the message's current state
+    const hints: ToolHint[] = [
+      {
+        tool: 'imap_get_message',
+        arguments: {
+          account_id: args.account_id,
+          message_id: result.message_id,
+        },
+        reason: 'Fetch the updated message details.',
+      },
+    ];
+
+    return makeOk(
+      summary,
+      {
+        account_id: args.account_id,
+        message_id: result.message_id,
+        flags: result.flags ?? [],
+      },
+      hints,
+    );
+  }
+
+  const { succeeded, failed } = countResults(results);
+  const data = { account_id: args.account_id, results, succeeded, failed };
+  if (succeeded === 0) {
+    return makeError(`Failed to update flags for all ${results.length} messages.`, [], data);
+  }
+  return makeOk(`Updated flags for ${succeeded} of ${results.length} messages.`, data);
+}
+
+/**
+ * Apply the requested flag changes to one mailbox group.
+ *
+ * Uses a single UID set command per flag operation and reports messages that
+ * no longer exist individually.
+ */
+async function updateGroupFlags(
+  client: ImapFlow,
+  group: MessageGroup,
+  args: z.infer<typeof UpdateMessageFlagsInputSchema>,
+): Promise<BulkMessageResult[]> {
+  // Obtain a write lock on the mailbox and validate UIDVALIDITY
+  // The expectedUidvalidity ensures we're operating on the same mailbox snapshot
+  // that was used to generate the message_id, preventing issues if the mailbox
+  // was recreated or otherwise modified
+  const lockResult = await openMailboxLock(client, group.mailbox, {
+    readOnly: false,
+    description: 'imap_update_message_flags',
+    expectedUidvalidity: group.uidvalidity,
+  });
+  if ('error' in lockResult) {
+    return failGroup(group, lockResult.error);
+  }
+  const { lock } = lockResult;
+  try {
+    // Fetch the current message flags to verify which messages exist
+    // UID set commands silently skip missing UIDs, so check up front
+    const existing = await fetchExistingFlags(
+      client,
+      group.items.map((item) => item.uid),
+    );
+    const uids = [...existing.keys()];
 
+    if (uids.length > 0) {
       // Add any flags specified in add_flags
       // The IMAP server will handle duplicates (no error if flag already set)
       if (args.add_flags) {
-        await client.messageFlagsAdd(decoded.uid, args.add_flags, { uid: true });
+        await client.messageFlagsAdd(uids, args.add_flags, { uid: true });
       }
       // Remove any flags specified in remove_flags
       // The IMAP server will handle missing flags (no error if flag not set)
       if (args.remove_flags) {
-        await client.messageFlagsRemove(decoded.uid, args.remove_flags, { uid: true });
+        await client.messageFlagsRemove(uids, args.remove_flags, { uid: true });
       }
+    }
 
-      // Fetch the updated flags to return to the caller
-      // This ensures we return the actual state after the operations completed
-      const updated = await client.fetchOne(decoded.uid, { uid: true, flags: true }, { uid: true });
-      if (!updated) {
-        return makeError('Message not found after updating flags.');
-      }
-
-      // Provide a clear confirmation that the flags were updated
-      const summary = `Updated flags for ${args.message_id}.`;
-
-      // Suggest fetching the full message details to see the impact of the flag changes
-      // This helps users verify the update and understand the message's current state
-      const hints: ToolHint[] = [
-        {
-          tool: 'imap_get_message',
-          arguments: {
-            account_id: args.account_id,
-            message_id: args.message_id,
-          },
-          reason: 'Fetch the updated message details.',
-        },
-      ];
+    // Fetch the updated flags to return to the caller
+    // This ensures we return the actual state after the operations completed
+    const updated = await fetchExistingFlags(client, uids);
+    recordAuditMessages(
+      uids.map((uid) => ({
+        mailbox: group.mailbox,
+        uidvalidity: group.uidvalidity,
+        uid,
+        flags_before: existing.get(uid),
+        flags_after: updated.get(uid),
+      })),
+    );
 
-      return makeOk(
-        summary,
-        {
-          account_id: args.account_id,
-          message_id: args.message_id,
-          flags: updated.flags ?? [],
-        },
-        hints,
-      );
-    } finally {
-      // Always release the lock, even if an error occurred
-      // This prevents deadlock and allows other operations to proceed
-      lock.release();
-    }
-  });
+    return group.items.map((item): BulkMessageResult => {
+      if (!existing.has(item.uid)) {
+        return { message_id: item.message_id, ok: false, error: 'Message not found.' };
+      }
+      const flags = updated.get(item.uid);
+      if (!flags) {
+        return {
+          message_id: item.message_id,
+          ok: false,
+          error: 'Message not found after updating flags.',
+        };
+      }
+      return { message_id: item.message_id, ok: true, flags };
+    });
+  } finally {
+    // Always release the lock, even if an error occurred
+    // This prevents deadlock and allows other operations to proceed
+    lock.release();
+  }
 }
@@ -0,0 +1,183 @@
+import type { ImapFlow } from 'imapflow';
+import type { z } from 'zod';
+
+import type { UpdateMessageLabelsInputSchema } from '../contracts.js';
+import { makeError, makeOk, type ToolHint, type ToolResult, withImapClient } from './runtime.js';
+import { loadAccountOrError } from '../utils/account.js';
+import {
+  type BulkMessageResult,
+  collectMessageIds,
+  countResults,
+  failGroup,
+  groupMessageIds,
+  type MessageGroup,
+  orderResults,
+} from '../utils/bulk.js';
+import {
+  fetchGmailLabels,
+  GMAIL_EXTENSION,
+  storeGmailLabels,
+  supportsGmailExtensions,
+} from '../utils/gmail.js';
+import { openMailboxLock } from '../utils/mailbox.js';
+
+/**
+ * Handle the imap_update_message_labels tool call.
+ *
+ * Adds or removes Gmail labels (X-GM-LABELS) on one message, or on up to 50
+ * messages when `message_ids` is provided. Labels are Gmail's folders: removing
+ * `\Inbox` archives a message and adding a user label files it under that label.
+ * Servers that do not advertise X-GM-EXT-1 are rejected before any change.
+ *
+ * @example
+ * ```ts
+ * const result = await handleUpdateMessageLabels({
+ *   account_id: 'default',
+ *   message_id: 'imap:default:[Gmail]/All Mail:1234567890:42',
+ *   add_labels: ['Receipts'],
+ *   remove_labels: ['\\Inbox'],
+ * });
+ * // Returns: {
+ * //   account_id: 'default',
+ * //   message_id: 'imap:default:[Gmail]/All Mail:1234567890:42',
+ * //   labels: ['Receipts', '\\Important']
+ * // }
+ * ```
+ *
+ * @param args - The validated input arguments containing account_id, message_id or message_ids, add_labels, and remove_labels
+ * @returns A ToolResult containing the updated labels or an error message
+ */
+export async function handleUpdateMessageLabels(
+  args: z.infer<typeof UpdateMessageLabelsInputSchema>,
+): Promise<ToolResult> {
+  // Validate and decode every message_id, ensuring each matches the requested account
+  const messageIds = collectMessageIds(args);
+  const { groups, failures } = groupMessageIds(messageIds, args.account_id);
+  const single = args.message_ids === undefined;
+  const [singleFailure] = failures;
+  if (single && singleFailure?.error) {
+    return makeError(singleFailure.error);
+  }
+
+  const accountResult = loadAccountOrError(args.account_id);
+  if ('error' in accountResult) {
+    return makeError(accountResult.error);
+  }
+  const account = accountResult.account;
+  if (groups.length === 0) {
+    return makeError(`Failed to update labels for all ${failures.length} messages.`, [], {
+      account_id: args.account_id,
+      results: failures,
+      succeeded: 0,
+      failed: failures.length,
+    });
+  }
+
+  const groupResults = await withImapClient(account, async (client) => {
+    if (!supportsGmailExtensions(client)) {
+      return null;
+    }
+    const collected: BulkMessageResult[] = [];
+    for (const group of groups) {
+      collected.push(...(await updateGroupLabels(client, group, args)));
+    }
+    return collected;
+  });
+  if (!groupResults) {
+    return makeError(
+      `Labels require a Gmail server (${GMAIL_EXTENSION}). Use imap_update_message_flags for IMAP flags.`,
+    );
+  }
+  const results = orderResults(messageIds, [...failures, ...groupResults]);
+
+  if (single) {
+    const [result] = results;
+    if (!result?.ok) {
+      return makeError(result?.error ?? 'Message not found.');
+    }
+    const hints: ToolHint[] = [
+      {
+        tool: 'imap_get_message',
+        arguments: {
+          account_id: args.account_id,
+          message_id: result.message_id,
+        },
+        reason: 'Fetch the updated message details.',
+      },
+    ];
+    return makeOk(
+      `Updated labels for ${result.message_id}.`,
+      {
+        account_id: args.account_id,
+        message_id: result.message_id,
+        ...(result.labels ? { labels: result.labels } : {}),
+      },
+      hints,
+    );
+  }
+
+  const { succeeded, failed } = countResults(results);
+  const data = { account_id: args.account_id, results, succeeded, failed };
+  if (succeeded === 0) {
+    return makeError(`Failed to update labels for all ${results.length} messages.`, [], data);
+  }
+  return makeOk(`Updated labels for ${succeeded} of ${results.length} messages.`, data);
+}
+
+/**
+ * Apply the requested label changes to one mailbox group.
+ *
+ * Uses a single UID STORE per label operation and reports messages that no
+ * longer exist individually.
+ */
+async function updateGroupLabels(
+  client: ImapFlow,
+  group: MessageGroup,
+  args: z.infer<typeof UpdateMessageLabelsInputSchema>,
+): Promise<BulkMessageResult[]> {
+  const lockResult = await openMailboxLock(client, group.mailbox, {
+    readOnly: false,
+    description: 'imap_update_message_labels',
+    expectedUidvalidity: group.uidvalidity,
+  });
+  if ('error' in lockResult) {
+    return failGroup(group, lockResult.error);
+  }
+  const { lock } = lockResult;
+  try {
+    // UID STORE silently skips missing UIDs, so check which messages exist up front
+    const existing = await fetchGmailLabels(
+      client,
+      group.items.map((item) => item.uid),
+    );
+    const uids = [...existing.keys()];
+
+    if (uids.length > 0) {
+      if (args.add_labels && !(await storeGmailLabels(client, uids, 'add', args.add_labels))) {
+        return failGroup(group, 'Server rejected adding the labels.');
+      }
+      if (
+        args.remove_labels &&
+        !(await storeGmailLabels(client, uids, 'remove', args.remove_labels))
+      ) {
+        return failGroup(group, 'Server rejected removing the labels.');
+      }
+    }
+
+    const updated = await fetchGmailLabels(client, uids);
+
+    return group.items.map((item): BulkMessageResult => {
+      if (!existing.has(item.uid)) {
+        return { message_id: item.message_id, ok: false, error: 'Message not found.' };
+      }
+      const labels = updated.get(item.uid);
+      if (!labels) {
+        // Removing the label of the selected mailbox (e.g. \Inbox) removes the message from it
+        return { message_id: item.message_id, ok: true };
+      }
+      return { message_id: item.message_id, ok: true, labels };
+    });
+  } finally {
+    lock.release();
+  }
+}
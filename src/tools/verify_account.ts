@@ -3,7 +3,13 @@ import type { z } from 'zod';
 
 import type { VerifyAccountInputSchema } from '../contracts.js';
 import { loadAccountOrError } from '../utils/account.js';
-import { makeError, makeOk, nowUtcIso, type ToolResult } from './runtime.js';
+import {
+  getConnectionPoolStats,
+  makeError,
+  makeOk,
+  nowUtcIso,
+  type ToolResult,
+} from './runtime.js';
 import { withImapClient } from './runtime.js';
 
 function extractCapabilities(capabilities: ImapFlow['capabilities']): string[] {
@@ -52,6 +58,7 @@ export async function handleVerifyAccount(
         secure: account.secure,
       },
       capabilities,
+      pool: getConnectionPoolStats(account),
     },
     [],
     { verified_at: nowUtcIso() },
@@ -0,0 +1,130 @@
+import { randomUUID } from 'node:crypto';
+
+import type { AuditMessageChange } from './audit.js';
+import type { ToolName } from './contracts.js';
+
+/** Maximum number of operations kept for imap_undo; older ones are forgotten */
+const MAX_OPERATIONS = 100;
+
+/**
+ * How an operation is reverted:
+ * - `flags`: restore the flags each message had before
+ * - `move`: move each message back from its destination
+ * - `delete`: move each message back from Trash, or from its copy in the undo mailbox
+ */
+export type UndoKind = 'flags' | 'move' | 'delete';
+
+/**
+ * A write operation that imap_undo can revert.
+ *
+ * Only messages with enough information to be reverted are kept: flags before
+ * and after for `flags`, and the destination UID (reported by UIDPLUS) for
+ * `move` and `delete`.
+ */
+export type UndoOperation = {
+  readonly id: string;
+  readonly tool: ToolName;
+  readonly account_id: string;
+  readonly kind: UndoKind;
+  readonly created_at: string;
+  readonly messages: readonly AuditMessageChange[];
+  /** Indexes into `messages` that have been reverted */
+  readonly undone: Set<number>;
+};
+
+/** Journaled operations, oldest first */
+const operations: UndoOperation[] = [];
+
+/**
+ * Determine how a write tool call can be reverted.
+ *
+ * @returns The undo kind, or undefined if the tool cannot be reverted
+ */
+export function getUndoKind(
+  toolName: ToolName,
+  args: Readonly<Record<string, unknown>>,
+): UndoKind | undefined {
+  switch (toolName) {
+    case 'imap_update_message_flags':
+      return 'flags';
+    case 'imap_move_message':
+      return 'move';
+    case 'imap_delete_message':
+      return 'delete';
+    case 'imap_apply_to_search':
+      switch (args['action']) {
+        case 'add_flags':
+        case 'remove_flags':
+          return 'flags';
+        case 'move':
+          return 'move';
+        case 'delete':
+          return 'delete';
+        default:
+          return undefined;
+      }
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Add an operation to the undo journal.
+ *
+ * @returns The journaled operation, or undefined if none of its messages can be reverted
+ */
+export function recordUndoOperation(
+  toolName: ToolName,
+  accountId: string,
+  kind: UndoKind,
+  messages: readonly AuditMessageChange[],
+): UndoOperation | undefined {
+  const revertible = messages.filter((message) =>
+    kind === 'flags'
+      ? message.uidvalidity !== undefined &&
+        message.flags_before !== undefined &&
+        message.flags_after !== undefined
+      : message.destination_mailbox !== undefined &&
+        message.destination_uidvalidity !== undefined &&
+        message.destination_uid !== undefined &&
+        message.flags_before !== undefined,
+  );
+  if (revertible.length === 0) {
+    return undefined;
+  }
+
+  const operation: UndoOperation = {
+    id: randomUUID(),
+    tool: toolName,
+    account_id: accountId,
+    kind,
+    created_at: new Date().toISOString(),
+    messages: revertible,
+    undone: new Set(),
+  };
+  operations.push(operation);
+  if (operations.length > MAX_OPERATIONS) {
+    operations.splice(0, operations.length - MAX_OPERATIONS);
+  }
+  return operation;
+}
+
+/**
+ * Find an operation of an account by id.
+ */
+export function findUndoOperation(accountId: string, id: string): UndoOperation | undefined {
+  return operations.find((operation) => operation.id === id && operation.account_id === accountId);
+}
+
+/**
+ * List the most recent operations of an account that are not fully reverted, newest first.
+ */
+export function listPendingUndoOperations(accountId: string, count: number): UndoOperation[] {
+  return operations
+    .filter(
+      (operation) =>
+        operation.account_id === accountId && operation.undone.size < operation.messages.length,
+    )
+    .slice(-count)
+    .reverse();
+}
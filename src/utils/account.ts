@@ -1,5 +1,5 @@
 import type { AccountConfig } from '../config.js';
-import { loadAccountConfig, normalizeEnvSegment } from '../config.js';
+import { getAccountEnvEntries, loadAccountConfig, normalizeEnvSegment } from '../config.js';
 
 export type AccountLookupResult = Readonly<{ account: AccountConfig } | { error: string }>;
 
@@ -23,6 +23,16 @@ export function loadAccountOrError(accountId: string): AccountLookupResult {
       `- ${prefix}USER`,
       `- ${prefix}PASS`,
       `Optional: ${prefix}PORT (default 993), ${prefix}SECURE (default true)`,
+      'Or define the account in the configuration file named by MAIL_IMAP_CONFIG.',
     ].join('\n'),
   };
 }
+
+/**
+ * List the IDs of all fully configured accounts, as reported by imap_list_accounts.
+ */
+export function listConfiguredAccountIds(): string[] {
+  return getAccountEnvEntries()
+    .map((entry) => entry.accountId.toLowerCase())
+    .filter((accountId) => loadAccountConfig(accountId) !== null);
+}
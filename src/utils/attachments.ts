@@ -165,3 +165,24 @@ export async function collectAttachmentSummaries(
     }
   }
 }
+
+/**
+ * Check whether a message structure contains at least one attachment.
+ *
+ * A part counts when its disposition is 'attachment', or 'inline' with a
+ * filename. Inline parts without a filename are treated as message body.
+ *
+ * @param node - The message structure node to inspect
+ * @returns True if any part in the tree is an attachment
+ */
+export function hasAttachmentParts(node: MessageStructureObject | undefined): boolean {
+  if (!node) {
+    return false;
+  }
+  const disposition = node.disposition?.toLowerCase();
+  const filename = node.dispositionParameters?.['filename'] ?? node.parameters?.['name'];
+  if (disposition === 'attachment' || (disposition === 'inline' && filename)) {
+    return true;
+  }
+  return (node.childNodes ?? []).some((child) => hasAttachmentParts(child));
+}
@@ -0,0 +1,128 @@
+import type { ImapFlow } from 'imapflow';
+
+import { decodeMessageIdOrError } from './message_id.js';
+
+/**
+ * Outcome of a write operation for a single message within a bulk request.
+ */
+export type BulkMessageResult = {
+  message_id: string;
+  ok: boolean;
+  error?: string;
+  new_message_id?: string;
+  flags?: string[];
+  labels?: string[];
+};
+
+/**
+ * Message ids that share a mailbox snapshot and can be addressed by one UID set.
+ */
+export type MessageGroup = Readonly<{
+  mailbox: string;
+  uidvalidity: number;
+  items: ReadonlyArray<Readonly<{ message_id: string; uid: number }>>;
+}>;
+
+/**
+ * Collect the message ids targeted by a write tool call.
+ *
+ * Write tools accept either a single `message_id` or a `message_ids` array;
+ * duplicates are dropped while preserving the caller's order.
+ */
+export function collectMessageIds(
+  args: Readonly<{ message_id?: string | undefined; message_ids?: string[] | undefined }>,
+): string[] {
+  const ids = args.message_ids ?? (args.message_id ? [args.message_id] : []);
+  return [...new Set(ids)];
+}
+
+/**
+ * Decode message ids and group them by mailbox and UIDVALIDITY.
+ *
+ * Each group can be processed with a single mailbox lock and a single UID set
+ * command. Ids that fail to decode or belong to another account are returned
+ * as failures instead of aborting the whole request.
+ */
+export function groupMessageIds(
+  messageIds: readonly string[],
+  accountId: string,
+): { groups: MessageGroup[]; failures: BulkMessageResult[] } {
+  const groups = new Map<
+    string,
+    { mailbox: string; uidvalidity: number; items: { message_id: string; uid: number }[] }
+  >();
+  const failures: BulkMessageResult[] = [];
+
+  for (const messageId of messageIds) {
+    const decodedResult = decodeMessageIdOrError(messageId, accountId);
+    if ('error' in decodedResult) {
+      failures.push({ message_id: messageId, ok: false, error: decodedResult.error });
+      continue;
+    }
+    const { mailbox, uidvalidity, uid } = decodedResult.decoded;
+    const key = `${uidvalidity}:${mailbox}`;
+    let group = groups.get(key);
+    if (!group) {
+      group = { mailbox, uidvalidity, items: [] };
+      groups.set(key, group);
+    }
+    group.items.push({ message_id: messageId, uid });
+  }
+
+  return { groups: [...groups.values()], failures };
+}
+
+/**
+ * Mark every message of a group as failed with the same error.
+ */
+export function failGroup(group: MessageGroup, error: string): BulkMessageResult[] {
+  return group.items.map((item) => ({ message_id: item.message_id, ok: false, error }));
+}
+
+/**
+ * Fetch the flags of the group's messages that still exist in the open mailbox.
+ *
+ * UID set commands silently skip UIDs that no longer exist, so callers use
+ * this to report missing messages individually.
+ *
+ * @returns A map from existing UID to its current flags
+ */
+export async function fetchExistingFlags(
+  client: ImapFlow,
+  uids: readonly number[],
+): Promise<Map<number, string[]>> {
+  const existing = new Map<number, string[]>();
+  if (uids.length === 0) {
+    return existing;
+  }
+  for await (const message of client.fetch([...uids], { uid: true, flags: true }, { uid: true })) {
+    if (message.uid !== undefined) {
+      existing.set(message.uid, message.flags ? [...message.flags] : []);
+    }
+  }
+  return existing;
+}
+
+/**
+ * Order bulk results to match the order of the requested message ids.
+ */
+export function orderResults(
+  messageIds: readonly string[],
+  results: readonly BulkMessageResult[],
+): BulkMessageResult[] {
+  const position = new Map(messageIds.map((id, index) => [id, index]));
+  return [...results].sort(
+    (a, b) => (position.get(a.message_id) ?? 0) - (position.get(b.message_id) ?? 0),
+  );
+}
+
+/**
+ * Count succeeded and failed entries of a bulk result list.
+ */
+export function countResults(results: readonly BulkMessageResult[]): {
+  succeeded: number;
+  failed: number;
+} {
+  const succeeded = results.filter((result) => result.ok).length;
+  return { succeeded, failed: results.length - succeeded };
+}
@@ -0,0 +1,30 @@
+/**
+ * Map items through an async function with at most `limit` calls in flight.
+ *
+ * Results keep the order of the input items.
+ *
+ * @param items - The items to process
+ * @param limit - Maximum number of concurrent calls (at least 1)
+ * @param fn - The async function applied to each item
+ * @returns The results in input order
+ */
+export async function mapWithConcurrency<T, R>(
+  items: readonly T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>,
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  const worker = async (): Promise<void> => {
+    while (next < items.length) {
+      const index = next;
+      next += 1;
+      results[index] = await fn(items[index] as T, index);
+    }
+  };
+  const workers = Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, () =>
+    worker(),
+  );
+  await Promise.all(workers);
+  return results;
+}
@@ -0,0 +1,157 @@
+import addressparser from 'nodemailer/lib/addressparser/index.js';
+
+export type DraftMode = 'reply' | 'reply_all' | 'forward';
+
+export type DraftAddress = Readonly<{ name: string; address: string }>;
+
+/**
+ * Addresses of the message a draft replies to or forwards.
+ */
+export type SourceAddresses = Readonly<{
+  from: readonly DraftAddress[];
+  reply_to: readonly DraftAddress[];
+  to: readonly DraftAddress[];
+  cc: readonly DraftAddress[];
+}>;
+
+/**
+ * Parse recipient strings such as `Jane Doe <jane@example.com>` into addresses.
+ *
+ * Groups are flattened into their members.
+ */
+export function parseAddresses(values: readonly string[]): DraftAddress[] {
+  return values.flatMap((value) =>
+    addressparser(value, { flatten: true }).filter((entry) => entry.address),
+  );
+}
+
+/**
+ * Format an address for display, e.g. in a quote attribution line.
+ */
+export function formatAddress(address: DraftAddress): string {
+  return address.name ? `${address.name} <${address.address}>` : address.address;
+}
+
+/**
+ * Drop repeated addresses (compared case-insensitively), keeping the first.
+ *
+ * Addresses already in `seen` are dropped too; `seen` is updated in place.
+ */
+export function uniqueAddresses(
+  addresses: readonly DraftAddress[],
+  seen: Set<string> = new Set(),
+): DraftAddress[] {
+  const unique: DraftAddress[] = [];
+  for (const address of addresses) {
+    const key = address.address.toLowerCase();
+    if (!seen.has(key)) {
+      seen.add(key);
+      unique.push(address);
+    }
+  }
+  return unique;
+}
+
+/**
+ * Compute the recipients of a reply.
+ *
+ * A reply goes to Reply-To, or From when there is none. When the source was
+ * sent by the account itself, the reply goes to its original To recipients
+ * instead, as mail clients do when replying from the Sent mailbox. Reply-all
+ * adds the remaining To and Cc recipients. The account's own address is never
+ * included, and each address appears once across To and Cc.
+ *
+ * @param source - Addresses of the message being replied to
+ * @param mode - Whether to reply to the sender only or to all recipients
+ * @param ownAddress - The account's own address (compared case-insensitively)
+ * @returns The To and Cc recipients for the reply
+ */
+export function replyRecipients(
+  source: SourceAddresses,
+  mode: Exclude<DraftMode, 'forward'>,
+  ownAddress: string,
+): { to: DraftAddress[]; cc: DraftAddress[] } {
+  const own = ownAddress.toLowerCase();
+  const isOwn = (address: DraftAddress): boolean => address.address.toLowerCase() === own;
+
+  let primary = source.reply_to.length > 0 ? source.reply_to : source.from;
+  if (primary.length > 0 && primary.every(isOwn)) {
+    primary = source.to;
+  }
+
+  const seen = new Set([own]);
+  const to = uniqueAddresses(mode === 'reply_all' ? [...primary, ...source.to] : primary, seen);
+  const cc = mode === 'reply_all' ? uniqueAddresses(source.cc, seen) : [];
+  return { to, cc };
+}
+
+/**
+ * Prefix a subject with `Re:` or `Fwd:` unless it already carries that prefix.
+ *
+ * Existing prefixes are recognized case-insensitively, including counted forms
+ * such as `Re[2]:` and the `Fw:` spelling.
+ */
+export function prefixSubject(subject: string, mode: DraftMode): string {
+  const trimmed = subject.trim();
+  if (mode === 'forward') {
+    return /^fwd?\s*(\[\d+\])?\s*:/i.test(trimmed) ? trimmed : `Fwd: ${trimmed}`.trim();
+  }
+  return /^re\s*(\[\d+\])?\s*:/i.test(trimmed) ? trimmed : `Re: ${trimmed}`.trim();
+}
+
+/**
+ * Build the attribution line that introduces a quoted reply.
+ */
+export function replyAttribution(from: string, date: Date | undefined): string {
+  return date ? `On ${date.toUTCString()}, ${from} wrote:` : `${from} wrote:`;
+}
+
+/**
+ * Build the header block that introduces a forwarded message.
+ */
+export function forwardHeading(
+  headers: Readonly<{ from: string; date: Date | undefined; subject: string; to: string }>,
+): string {
+  return [
+    '---------- Forwarded message ----------',
+    `From: ${headers.from}`,
+    ...(headers.date ? [`Date: ${headers.date.toUTCString()}`] : []),
+    `Subject: ${headers.subject}`,
+    ...(headers.to ? [`To: ${headers.to}`] : []),
+  ].join('\n');
+}
+
+/**
+ * Quote a plain-text body for a reply.
+ *
+ * Every line is prefixed with `> ` (RFC 3676 style), so already quoted lines
+ * gain another level.
+ */
+export function quoteText(text: string): string {
+  return text
+    .replace(/\r\n/g, '\n')
+    .trimEnd()
+    .split('\n')
+    .map((line) => (line.startsWith('>') ? `>${line}` : line ? `> ${line}` : '>'))
+    .join('\n');
+}
+
+/**
+ * Quote a plain-text body in an HTML blockquote below its heading.
+ */
+export function quoteHtml(heading: string, text: string): string {
+  const toHtml = (value: string): string =>
+    escapeHtml(value.replace(/\r\n/g, '\n').trimEnd()).replace(/\n/g, '<br>\n');
+  return `<p>${toHtml(heading)}</p>\n<blockquote type="cite">${toHtml(text)}</blockquote>`;
+}
+
+/**
+ * Escape text for inclusion in an HTML body.
+ */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
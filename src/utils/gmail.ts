@@ -0,0 +1,93 @@
+import type { ImapFlow } from 'imapflow';
+
+import { runUntaggedCommand, toSequenceSet } from './imap_command.js';
+
+/**
+ * Capability advertised by Gmail for X-GM-RAW, X-GM-LABELS, X-GM-THRID and X-GM-MSGID.
+ */
+export const GMAIL_EXTENSION = 'X-GM-EXT-1';
+
+/**
+ * Maximum number of labels reported for a single message.
+ */
+const MAX_GMAIL_LABELS = 50;
+
+/**
+ * Check whether the connected server supports the Gmail IMAP extensions.
+ */
+export function supportsGmailExtensions(client: ImapFlow): boolean {
+  return client.capabilities.has(GMAIL_EXTENSION);
+}
+
+/**
+ * Convert fetched X-GM-LABELS into a bounded label list.
+ */
+export function formatGmailLabels(value: Set<string> | undefined): string[] | undefined {
+  if (!value) {
+    return undefined;
+  }
+  return [...value]
+    .map(String)
+    .filter((label) => label.length > 0)
+    .slice(0, MAX_GMAIL_LABELS);
+}
+
+/**
+ * Encode a label as an IMAP attribute.
+ *
+ * System labels such as `\Inbox` must be sent as atoms; user labels are quoted
+ * so names with spaces or special characters survive.
+ */
+export function labelAttribute(label: string): { type: 'ATOM' | 'STRING'; value: string } {
+  return /^\\[A-Za-z]+$/.test(label)
+    ? { type: 'ATOM', value: label }
+    : { type: 'STRING', value: label };
+}
+
+/**
+ * Add or remove Gmail labels on messages in the selected mailbox.
+ *
+ * imapflow sends labels as atoms and ignores STORE failures, so the command is
+ * issued directly to keep user labels with spaces intact and surface rejections.
+ *
+ * @returns True if the server accepted the command
+ */
+export async function storeGmailLabels(
+  client: ImapFlow,
+  uids: readonly number[],
+  action: 'add' | 'remove',
+  labels: readonly string[],
+): Promise<boolean> {
+  const attributes = await runUntaggedCommand(
+    client,
+    'UID STORE',
+    [
+      { type: 'SEQUENCE', value: toSequenceSet(uids) },
+      { type: 'ATOM', value: action === 'add' ? '+X-GM-LABELS' : '-X-GM-LABELS' },
+      labels.map((label) => labelAttribute(label)),
+    ],
+    'FETCH',
+  );
+  return attributes !== null;
+}
+
+/**
+ * Fetch the Gmail labels of messages in the selected mailbox.
+ *
+ * @returns A map from existing UID to its current labels
+ */
+export async function fetchGmailLabels(
+  client: ImapFlow,
+  uids: readonly number[],
+): Promise<Map<number, string[]>> {
+  const existing = new Map<number, string[]>();
+  if (uids.length === 0) {
+    return existing;
+  }
+  for await (const message of client.fetch([...uids], { uid: true, labels: true }, { uid: true })) {
+    if (message.uid !== undefined) {
+      existing.set(message.uid, formatGmailLabels(message.labels) ?? []);
+    }
+  }
+  return existing;
+}
@@ -0,0 +1,126 @@
+import type { ImapFlow } from 'imapflow';
+
+type UntaggedResponse = Readonly<{ attributes?: unknown[] }>;
+
+type ImapExec = (
+  command: string,
+  attributes: unknown[],
+  options: { untagged: Record<string, (untagged: UntaggedResponse) => Promise<void>> },
+) => Promise<{ next: () => void }>;
+
+/**
+ * Get imapflow's generic command executor, `exec()`.
+ *
+ * `exec()` is not part of imapflow's public API. THREAD, SORT, and Gmail
+ * X-GM-LABELS stores depend on it, so package.json pins imapflow to patch
+ * releases of a version known to provide it; this is the only place that
+ * reaches into the client. Without it, commands fail with a clear error
+ * instead of a TypeError.
+ *
+ * @throws An Error if the installed imapflow no longer provides `exec()`
+ */
+function getImapExec(client: ImapFlow): ImapExec {
+  const exec = (client as unknown as { exec?: unknown }).exec;
+  if (typeof exec !== 'function') {
+    throw new Error(
+      'The installed imapflow version does not provide exec(), which THREAD, SORT, and X-GM-LABELS require.',
+    );
+  }
+  return (exec as ImapExec).bind(client);
+}
+
+/**
+ * Run an IMAP command that imapflow does not implement (e.g. THREAD, SORT).
+ *
+ * The command is issued through the client's generic command executor and the
+ * attributes of every untagged response named `untagged` are collected.
+ *
+ * @returns The collected untagged attributes, or null if the server rejected the command
+ * @throws An Error if the installed imapflow no longer provides its command executor
+ */
+export async function runUntaggedCommand(
+  client: ImapFlow,
+  command: string,
+  attributes: unknown[],
+  untagged: string,
+): Promise<unknown[] | null> {
+  const exec = getImapExec(client);
+  const collected: unknown[] = [];
+  try {
+    const response = await exec(command, attributes, {
+      untagged: {
+        [untagged]: (response) => {
+          collected.push(...(response.attributes ?? []));
+          return Promise.resolve();
+        },
+      },
+    });
+    response.next();
+    return collected;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Read a numeric value from an IMAP response attribute such as `{ type: 'ATOM', value: '42' }`.
+ */
+export function attributeNumber(attribute: unknown): number | undefined {
+  const value =
+    attribute && typeof attribute === 'object'
+      ? (attribute as { value?: unknown }).value
+      : attribute;
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : undefined;
+}
+
+/**
+ * Format UIDs as an IMAP sequence set (e.g. `1:5,8,10:12`).
+ */
+export function toSequenceSet(uids: readonly number[]): string {
+  const sorted = [...new Set(uids)].sort((a, b) => a - b);
+  const parts: string[] = [];
+  let start = sorted[0];
+  let previous = start;
+  for (const uid of sorted.slice(1)) {
+    if (previous !== undefined && uid === previous + 1) {
+      previous = uid;
+      continue;
+    }
+    if (start !== undefined && previous !== undefined) {
+      parts.push(start === previous ? `${start}` : `${start}:${previous}`);
+    }
+    start = uid;
+    previous = uid;
+  }
+  if (start !== undefined && previous !== undefined) {
+    parts.push(start === previous ? `${start}` : `${start}:${previous}`);
+  }
+  return parts.join(',');
+}
+
+/**
+ * Expand an IMAP sequence set of explicit numbers (e.g. `1:5,8`) into UIDs.
+ *
+ * @returns The UIDs in ascending order, or null if the set is malformed or
+ *          contains more than `maxSize` numbers
+ */
+export function expandSequenceSet(value: string, maxSize: number): number[] | null {
+  const uids = new Set<number>();
+  for (const part of value.split(',')) {
+    const [startText, endText = startText] = part.split(':');
+    const start = Number(startText);
+    const end = Number(endText);
+    if (!Number.isInteger(start) || !Number.isInteger(end) || start < 1 || end < 1) {
+      return null;
+    }
+    const [low, high] = start <= end ? [start, end] : [end, start];
+    if (uids.size + (high - low + 1) > maxSize) {
+      return null;
+    }
+    for (let uid = low; uid <= high; uid += 1) {
+      uids.add(uid);
+    }
+  }
+  return [...uids].sort((a, b) => a - b);
+}
@@ -1,4 +1,7 @@
-import type { ImapFlow } from 'imapflow';
+import type { ImapFlow, ListResponse } from 'imapflow';
+
+import { UNDO_MAILBOX, type AccountConfig } from '../config.js';
+import { evaluateMailboxPolicy } from '../policy.js';
 
 type MailboxLock = Awaited<ReturnType<ImapFlow['getMailboxLock']>>;
 
@@ -43,3 +46,195 @@ export async function openMailboxLock(
 
   return { lock, uidvalidity };
 }
+
+/**
+ * Find the mailbox carrying a special-use attribute (RFC 6154), e.g. `\Sent`.
+ *
+ * imapflow also applies well-known name hints (such as "Sent Items") when the
+ * server does not advertise SPECIAL-USE.
+ */
+export async function findSpecialUseMailbox(
+  client: ImapFlow,
+  specialUse: string,
+): Promise<string | undefined> {
+  const mailboxes = await client.list();
+  return mailboxes.find((mailbox) => mailbox.specialUse === specialUse)?.path;
+}
+
+/**
+ * Find the Trash mailbox deleted messages are moved to under the account's
+ * delete strategy.
+ *
+ * Nothing is moved when the account uses the `expunge` strategy or a permanent
+ * delete was requested. Messages already in Trash are always deleted permanently,
+ * which callers check against the returned mailbox.
+ *
+ * @returns The `\Trash` mailbox, undefined to delete permanently, or an error
+ *   if the account moves deletes to Trash but the server has none
+ */
+export async function resolveTrashMailbox(
+  client: ImapFlow,
+  account: AccountConfig,
+  permanent: boolean,
+): Promise<{ trash: string | undefined } | { error: string }> {
+  if (permanent || account.delete_strategy === 'expunge') {
+    return { trash: undefined };
+  }
+  const trash = await findSpecialUseMailbox(client, '\\Trash');
+  if (!trash) {
+    return {
+      error:
+        'No \\Trash mailbox was found; nothing was deleted. Delete permanently instead, or set the account delete strategy to expunge.',
+    };
+  }
+  return { trash };
+}
+
+/**
+ * Copy messages into the undo mailbox (MAIL_IMAP_UNDO_MAILBOX) before they are
+ * deleted, creating the mailbox if it does not exist yet.
+ *
+ * Must be called with the source mailbox selected. Nothing is copied unless
+ * MAIL_IMAP_UNDO_MAILBOX is set, or when the messages already are in the undo mailbox.
+ * The copies are never removed by the server: they stay in the undo mailbox after
+ * their journal entry is forgotten, until they are restored or removed by hand.
+ * Accounts whose mailbox policy does not allow the undo mailbox cannot delete
+ * permanently while it is set.
+ *
+ * @returns The undo mailbox and the UID of each copy (when the server reports COPYUID),
+ *   undefined if nothing was copied, or an error
+ */
+export async function copyToUndoMailbox(
+  client: ImapFlow,
+  accountId: string,
+  uids: number[],
+  sourceMailbox: string,
+): Promise<
+  | { mailbox: string; uidvalidity?: number; uidMap: Map<number, number> }
+  | { error: string }
+  | undefined
+> {
+  if (!UNDO_MAILBOX || sourceMailbox === UNDO_MAILBOX || uids.length === 0) {
+    return undefined;
+  }
+  const policyError = evaluateMailboxPolicy(accountId, UNDO_MAILBOX);
+  if (policyError) {
+    return { error: `${policyError} Nothing was deleted.` };
+  }
+  if (!findListedMailbox(await client.list(), UNDO_MAILBOX)) {
+    await client.mailboxCreate(UNDO_MAILBOX);
+  }
+  const copied = await client.messageCopy(uids, UNDO_MAILBOX, { uid: true });
+  if (!copied) {
+    return { error: `Could not copy to the undo mailbox '${UNDO_MAILBOX}'; nothing was deleted.` };
+  }
+  return {
+    mailbox: UNDO_MAILBOX,
+    ...(copied.uidValidity !== undefined ? { uidvalidity: Number(copied.uidValidity) } : {}),
+    uidMap: copied.uidMap ?? new Map<number, number>(),
+  };
+}
+
+/**
+ * Find a listed mailbox by path. INBOX is matched case-insensitively (RFC 3501).
+ */
+export function findListedMailbox(
+  mailboxes: readonly ListResponse[],
+  path: string,
+): ListResponse | undefined {
+  const isInbox = path.toUpperCase() === 'INBOX';
+  return mailboxes.find((mailbox) =>
+    isInbox ? mailbox.path.toUpperCase() === 'INBOX' : mailbox.path === path,
+  );
+}
+
+/**
+ * List the mailboxes below a mailbox in the hierarchy, at any depth.
+ */
+export function findChildMailboxes(
+  mailboxes: readonly ListResponse[],
+  parent: ListResponse,
+): ListResponse[] {
+  if (!parent.delimiter) {
+    return [];
+  }
+  const prefix = `${parent.path}${parent.delimiter}`;
+  return mailboxes.filter((mailbox) => mailbox.path.startsWith(prefix));
+}
+
+/**
+ * Test a mailbox path against an IMAP LIST pattern (RFC 3501 section 6.3.8).
+ *
+ * `*` matches any characters, including the hierarchy delimiter; `%` matches
+ * any characters except the delimiter, so it stays within one level.
+ */
+export function matchesListPattern(path: string, pattern: string, delimiter: string): boolean {
+  const escape = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const levelChars = delimiter ? `[^${escape(delimiter)}]*` : '.*';
+  const source = [...pattern]
+    .map((char) => (char === '*' ? '.*' : char === '%' ? levelChars : escape(char)))
+    .join('');
+  return new RegExp(`^${source}$`, 'u').test(path);
+}
+
+/**
+ * Special-use mailboxes whose messages are not part of `\All` on Gmail.
+ */
+const OUTSIDE_ALL_MAIL: readonly string[] = ['\\Junk', '\\Trash'];
+
+/**
+ * Resolve the mailboxes for a multi-mailbox search.
+ *
+ * Entries starting with a backslash are special-use attributes (e.g. `\Archive`)
+ * and resolve to the mailbox carrying them. For "all", a `\All` mailbox (such as
+ * Gmail's [Gmail]/All Mail) replaces every mailbox it already contains, since
+ * labels would otherwise return the same message several times. `\All` is
+ * always searched last so copies in more specific mailboxes are kept first.
+ *
+ * @returns The mailbox paths in search order and any special-use attributes without a mailbox
+ */
+export async function resolveSearchMailboxes(
+  client: ImapFlow,
+  selection: 'all' | readonly string[],
+): Promise<{ mailboxes: string[]; unresolved: string[] }> {
+  const listed = (await client.list()).filter(
+    (mailbox) => !mailbox.flags.has('\\Noselect') && !mailbox.flags.has('\\NonExistent'),
+  );
+  const allMail = listed.find((mailbox) => mailbox.specialUse === '\\All')?.path;
+
+  const unresolved: string[] = [];
+  let paths: string[];
+  if (selection === 'all') {
+    paths = allMail
+      ? [
+          allMail,
+          ...listed
+            .filter((mailbox) => OUTSIDE_ALL_MAIL.includes(mailbox.specialUse ?? ''))
+            .map((mailbox) => mailbox.path),
+        ]
+      : listed.map((mailbox) => mailbox.path);
+  } else {
+    paths = [];
+    for (const entry of selection) {
+      if (!entry.startsWith('\\')) {
+        paths.push(entry);
+        continue;
+      }
+      const match = listed.find(
+        (mailbox) => mailbox.specialUse?.toLowerCase() === entry.toLowerCase(),
+      );
+      if (match) {
+        paths.push(match.path);
+      } else {
+        unresolved.push(entry);
+      }
+    }
+  }
+
+  const unique = [...new Set(paths)];
+  const mailboxes =
+    allMail && unique.includes(allMail)
+      ? [...unique.filter((path) => path !== allMail), allMail]
+      : unique;
+  return { mailboxes, unresolved };
+}
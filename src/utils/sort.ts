@@ -0,0 +1,167 @@
+import type { FetchQueryObject, ImapFlow } from 'imapflow';
+
+import { attributeNumber, runUntaggedCommand, toSequenceSet } from './imap_command.js';
+
+export type SearchSortField = 'date' | 'arrival' | 'from' | 'subject' | 'size';
+
+export type SearchSort = Readonly<{
+  field: SearchSortField;
+  order: 'asc' | 'desc';
+}>;
+
+export type SortedUids = Readonly<{ uids: number[]; strategy: 'server' | 'client' }>;
+
+/**
+ * RFC 5256 sort keys for each supported sort field.
+ */
+const SORT_KEYS: Readonly<Record<SearchSortField, string>> = {
+  date: 'DATE',
+  arrival: 'ARRIVAL',
+  from: 'FROM',
+  subject: 'SUBJECT',
+  size: 'SIZE',
+};
+
+type SortKey = Readonly<{ uid: number; key: number | string }>;
+
+/**
+ * Reduce a subject to its RFC 5256 base subject for sorting.
+ *
+ * Strips reply/forward prefixes (`Re:`, `Fwd:`, `Fw:`), leading `[tags]`, and
+ * trailing `(fwd)` markers, then lowercases the result.
+ */
+export function baseSubject(subject: string | undefined): string {
+  let value = (subject ?? '').replace(/\s+/g, ' ').trim();
+  let previous: string | undefined;
+  while (previous !== value) {
+    previous = value;
+    value = value
+      .replace(/\s*\(fwd\)$/i, '')
+      .replace(/^(re|fwd?)\s*(\[[^\]]*\])?\s*:\s*/i, '')
+      .replace(/^\[[^\]]*\]\s*/, '')
+      .trim();
+  }
+  return value.toLowerCase();
+}
+
+/**
+ * Order sort keys ascending, breaking ties by UID as RFC 5256 does.
+ */
+export function compareSortKeys(a: SortKey, b: SortKey): number {
+  if (typeof a.key === 'number' && typeof b.key === 'number') {
+    return a.key - b.key || a.uid - b.uid;
+  }
+  const byKey = String(a.key).localeCompare(String(b.key));
+  return byKey || a.uid - b.uid;
+}
+
+/**
+ * Sort UIDs with the server's SORT extension (RFC 5256).
+ *
+ * @returns UIDs in the requested order, or null if the server rejected the command
+ */
+async function sortOnServer(
+  client: ImapFlow,
+  uids: readonly number[],
+  sort: SearchSort,
+): Promise<number[] | null> {
+  const criteria = [{ type: 'ATOM', value: SORT_KEYS[sort.field] }];
+  if (sort.order === 'desc') {
+    criteria.unshift({ type: 'ATOM', value: 'REVERSE' });
+  }
+  const attributes = await runUntaggedCommand(
+    client,
+    'UID SORT',
+    [
+      criteria,
+      { type: 'ATOM', value: 'UTF-8' },
+      { type: 'ATOM', value: 'UID' },
+      { type: 'SEQUENCE', value: toSequenceSet(uids) },
+    ],
+    'SORT',
+  );
+  if (!attributes) {
+    return null;
+  }
+  return attributes
+    .map((attribute) => attributeNumber(attribute))
+    .filter((uid): uid is number => uid !== undefined);
+}
+
+/**
+ * Sort UIDs locally by fetching only the attributes the sort key needs.
+ */
+async function sortOnClient(
+  client: ImapFlow,
+  uids: readonly number[],
+  sort: SearchSort,
+): Promise<number[]> {
+  const query: FetchQueryObject = { uid: true };
+  if (sort.field === 'date' || sort.field === 'from' || sort.field === 'subject') {
+    query.envelope = true;
+  }
+  if (sort.field === 'date' || sort.field === 'arrival') {
+    query.internalDate = true;
+  }
+  if (sort.field === 'size') {
+    query.size = true;
+  }
+
+  const keys: SortKey[] = [];
+  for await (const message of client.fetch([...uids], query, { uid: true })) {
+    if (message.uid === undefined) {
+      continue;
+    }
+    const internalDate = message.internalDate instanceof Date ? message.internalDate : undefined;
+    let key: number | string;
+    switch (sort.field) {
+      case 'date':
+        // RFC 5256 falls back to the internal date when the Date header is missing
+        key = message.envelope?.date?.getTime() ?? internalDate?.getTime() ?? 0;
+        break;
+      case 'arrival':
+        key = internalDate?.getTime() ?? 0;
+        break;
+      case 'from':
+        key = (message.envelope?.from?.[0]?.address ?? '').split('@')[0]?.toLowerCase() ?? '';
+        break;
+      case 'subject':
+        key = baseSubject(message.envelope?.subject);
+        break;
+      case 'size':
+        key = message.size ?? 0;
+        break;
+    }
+    keys.push({ uid: message.uid, key: Number.isNaN(key) ? 0 : key });
+  }
+
+  keys.sort(compareSortKeys);
+  if (sort.order === 'desc') {
+    keys.reverse();
+  }
+  return keys.map((entry) => entry.uid);
+}
+
+/**
+ * Sort search result UIDs by the requested key and direction.
+ *
+ * Uses server-side SORT when the server advertises it and falls back to
+ * fetching the sort attributes and ordering them locally otherwise.
+ */
+export async function sortUids(
+  client: ImapFlow,
+  uids: readonly number[],
+  sort: SearchSort,
+  supportsSort: boolean,
+): Promise<SortedUids> {
+  if (uids.length === 0) {
+    return { uids: [], strategy: supportsSort ? 'server' : 'client' };
+  }
+  if (supportsSort) {
+    const sorted = await sortOnServer(client, uids, sort);
+    if (sorted) {
+      return { uids: sorted, strategy: 'server' };
+    }
+  }
+  return { uids: await sortOnClient(client, uids, sort), strategy: 'client' };
+}
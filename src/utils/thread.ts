@@ -0,0 +1,182 @@
+import type { ImapFlow } from 'imapflow';
+
+import { attributeNumber, runUntaggedCommand } from './imap_command.js';
+
+/**
+ * Server-side threading algorithms (RFC 5256) in order of preference.
+ */
+export const THREAD_ALGORITHMS = ['REFERENCES', 'ORDEREDSUBJECT'] as const;
+
+export type ThreadAlgorithm = (typeof THREAD_ALGORITHMS)[number];
+
+type ThreadNode = { uid: number; children: ThreadNode[] };
+
+/**
+ * Extract RFC 5322 msg-id tokens (`<...>`) from a header value.
+ */
+export function parseMessageIdList(value: string | undefined): string[] {
+  if (!value) {
+    return [];
+  }
+  return value.match(/<[^<>\s]+>/g) ?? [];
+}
+
+/**
+ * Extract the raw value of a header from a header block returned by FETCH.
+ *
+ * Continuation lines are unfolded into a single line.
+ */
+export function readHeaderValue(headers: Buffer | undefined, name: string): string | undefined {
+  if (!headers) {
+    return undefined;
+  }
+  const unfolded = headers.toString('utf8').replace(/\r?\n[ \t]+/g, ' ');
+  const prefix = `${name.toLowerCase()}:`;
+  for (const line of unfolded.split(/\r?\n/)) {
+    if (line.toLowerCase().startsWith(prefix)) {
+      return line.slice(prefix.length).trim();
+    }
+  }
+  return undefined;
+}
+
+function toThreadNodes(list: readonly unknown[]): ThreadNode[] {
+  const roots: ThreadNode[] = [];
+  let current: ThreadNode | undefined;
+  for (const item of list) {
+    // A nested list starts one or more branches below the last message in the chain
+    if (Array.isArray(item)) {
+      const branches = toThreadNodes(item);
+      (current ? current.children : roots).push(...branches);
+      continue;
+    }
+    const uid = attributeNumber(item);
+    if (uid === undefined) {
+      continue;
+    }
+    const node: ThreadNode = { uid, children: [] };
+    (current ? current.children : roots).push(node);
+    current = node;
+  }
+  return roots;
+}
+
+function flattenThreadNodes(nodes: readonly ThreadNode[]): number[] {
+  return nodes.flatMap((node) => [node.uid, ...flattenThreadNodes(node.children)]);
+}
+
+/**
+ * Find the UIDs of the thread containing `uid` in an untagged THREAD response.
+ *
+ * Each top-level attribute is one thread, e.g. `(3 6 (4 23)(44 7 96))`.
+ *
+ * @returns The thread's UIDs in server order, or an empty array if not found
+ */
+export function findThreadUids(threads: readonly unknown[], uid: number): number[] {
+  for (const thread of threads) {
+    if (!Array.isArray(thread)) {
+      continue;
+    }
+    const uids = flattenThreadNodes(toThreadNodes(thread));
+    if (uids.includes(uid)) {
+      return uids;
+    }
+  }
+  return [];
+}
+
+/**
+ * Run `UID THREAD <algorithm> UTF-8 ALL` on the selected mailbox.
+ *
+ * The whole mailbox is threaded so that the server links messages the way it
+ * would for its own clients, including replies whose headers do not mention
+ * any msg-id known so far.
+ *
+ * @returns The untagged THREAD attributes, or null if the server rejected the command
+ */
+export async function runThreadCommand(
+  client: ImapFlow,
+  algorithm: ThreadAlgorithm,
+): Promise<unknown[] | null> {
+  return await runUntaggedCommand(
+    client,
+    'UID THREAD',
+    [
+      { type: 'ATOM', value: algorithm },
+      { type: 'ATOM', value: 'UTF-8' },
+      { type: 'ATOM', value: 'ALL' },
+    ],
+    'THREAD',
+  );
+}
+
+export type ThreadEntry<T> = Readonly<{
+  value: T;
+  header_message_id?: string | undefined;
+  in_reply_to?: string | undefined;
+  references: readonly string[];
+  date_ms: number;
+}>;
+
+export type OrderedThreadEntry<T> = Readonly<{ value: T; depth: number; parent?: T }>;
+
+/**
+ * Arrange messages into a conversation tree using In-Reply-To and References.
+ *
+ * A message's parent is the message named by In-Reply-To, or else the
+ * nearest ancestor from References that is present. Messages without a
+ * present parent become roots. Siblings are ordered by date.
+ *
+ * @returns Entries in depth-first order with their depth and parent
+ */
+export function orderThread<T>(entries: readonly ThreadEntry<T>[]): OrderedThreadEntry<T>[] {
+  const byHeaderId = new Map<string, ThreadEntry<T>>();
+  for (const entry of entries) {
+    if (entry.header_message_id && !byHeaderId.has(entry.header_message_id)) {
+      byHeaderId.set(entry.header_message_id, entry);
+    }
+  }
+
+  const children = new Map<ThreadEntry<T>, ThreadEntry<T>[]>();
+  const roots: ThreadEntry<T>[] = [];
+  for (const entry of entries) {
+    const candidates = [
+      ...(entry.in_reply_to ? [entry.in_reply_to] : []),
+      ...[...entry.references].reverse(),
+    ];
+    const parent = candidates
+      .map((id) => byHeaderId.get(id))
+      .find((candidate) => candidate !== undefined && candidate !== entry);
+    if (parent) {
+      const siblings = children.get(parent) ?? [];
+      siblings.push(entry);
+      children.set(parent, siblings);
+    } else {
+      roots.push(entry);
+    }
+  }
+
+  const byDate = (a: ThreadEntry<T>, b: ThreadEntry<T>): number => a.date_ms - b.date_ms;
+  const ordered: OrderedThreadEntry<T>[] = [];
+  const visited = new Set<ThreadEntry<T>>();
+  const visit = (entry: ThreadEntry<T>, depth: number, parent?: ThreadEntry<T>): void => {
+    if (visited.has(entry)) {
+      return;
+    }
+    visited.add(entry);
+    ordered.push(
+      parent ? { value: entry.value, depth, parent: parent.value } : { value: entry.value, depth },
+    );
+    for (const child of (children.get(entry) ?? []).sort(byDate)) {
+      visit(child, depth + 1, entry);
+    }
+  };
+  for (const root of roots.sort(byDate)) {
+    visit(root, 0);
+  }
+  // Reference cycles leave entries unreachable from any root; list them at the top level
+  for (const entry of [...entries].sort(byDate)) {
+    visit(entry, 0);
+  }
+  return ordered;
+}
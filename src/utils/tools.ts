@@ -1,13 +1,18 @@
 import type { ToolDefinition } from '../contracts.js';
-import { WRITE_ENABLED } from '../config.js';
-import { WRITE_TOOLS } from '../policy.js';
+import { AUDIT_LOG_PATH, SEND_ENABLED, WRITE_ENABLED } from '../config.js';
+import { isToolListed, SEND_TOOLS, WRITE_TOOLS } from '../policy.js';
 
 /**
- * Filter tool definitions by write-enable policy.
+ * Filter tool definitions by the write-enable and send-enable policies, hide
+ * imap_audit_log unless an audit log is configured, and hide tools that no
+ * configured account's policy permits.
  */
 export function getAvailableTools(tools: readonly ToolDefinition[]): readonly ToolDefinition[] {
-  if (WRITE_ENABLED) {
-    return tools;
-  }
-  return tools.filter((tool) => !WRITE_TOOLS.has(tool.name));
+  return tools.filter(
+    (tool) =>
+      (WRITE_ENABLED || !WRITE_TOOLS.has(tool.name)) &&
+      (SEND_ENABLED || !SEND_TOOLS.has(tool.name)) &&
+      (AUDIT_LOG_PATH !== undefined || tool.name !== 'imap_audit_log') &&
+      isToolListed(tool.name),
+  );
 }
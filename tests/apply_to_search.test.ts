@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+
+import { ApplyToSearchInputSchema } from '../src/contracts.js';
+
+describe('ApplyToSearchInputSchema', () => {
+  it('defaults to a dry run with a bounded max_messages', () => {
+    const parsed = ApplyToSearchInputSchema.parse({
+      mailbox: 'INBOX',
+      from: 'newsletter@example.com',
+      action: 'move',
+      destination_mailbox: 'Newsletters',
+    });
+
+    expect(parsed).toMatchObject({ account_id: 'default', dry_run: true, max_messages: 100 });
+    expect(
+      ApplyToSearchInputSchema.safeParse({
+        mailbox: 'INBOX',
+        action: 'delete',
+        max_messages: 501,
+      }).success,
+    ).toBe(false);
+  });
+
+  it('requires confirm when dry_run is false', () => {
+    const base = { mailbox: 'INBOX', action: 'delete', dry_run: false };
+
+    expect(ApplyToSearchInputSchema.safeParse(base).success).toBe(false);
+    expect(ApplyToSearchInputSchema.safeParse({ ...base, confirm: true }).success).toBe(true);
+  });
+
+  it('validates action-specific arguments', () => {
+    expect(
+      ApplyToSearchInputSchema.safeParse({ mailbox: 'INBOX', action: 'add_flags' }).success,
+    ).toBe(false);
+    expect(ApplyToSearchInputSchema.safeParse({ mailbox: 'INBOX', action: 'copy' }).success).toBe(
+      false,
+    );
+    expect(
+      ApplyToSearchInputSchema.safeParse({
+        mailbox: 'INBOX',
+        action: 'delete',
+        flags: ['\\Seen'],
+      }).success,
+    ).toBe(false);
+    expect(
+      ApplyToSearchInputSchema.safeParse({
+        mailbox: 'INBOX',
+        action: 'remove_flags',
+        flags: ['\\Flagged'],
+        last_days: 30,
+      }).success,
+    ).toBe(true);
+  });
+
+  it('shares the search filter date rules', () => {
+    expect(
+      ApplyToSearchInputSchema.safeParse({
+        mailbox: 'INBOX',
+        action: 'delete',
+        last_days: 7,
+        start_date: '2026-01-01',
+      }).success,
+    ).toBe(false);
+  });
+});
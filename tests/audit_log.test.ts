@@ -0,0 +1,187 @@
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { afterAll, describe, expect, it, vi } from 'vitest';
+
+import {
+  appendAuditEntry,
+  collectAuditMessages,
+  GENESIS_HASH,
+  readAuditLog,
+  type AuditMessageChange,
+} from '../src/audit.js';
+import { evaluateToolPolicy } from '../src/policy.js';
+import { handleAuditLog } from '../src/tools/audit_log.js';
+import type * as runtime from '../src/tools/runtime.js';
+import { handleUpdateMessageFlags } from '../src/tools/update_message_flags.js';
+import { parseData, useImapClient, useTestEnv } from './helpers.js';
+
+vi.mock('../src/tools/runtime.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof runtime>()),
+  withImapClient: vi.fn(),
+}));
+
+const directory = mkdtempSync(join(tmpdir(), 'mail-imap-audit-'));
+
+function record(
+  tool: 'imap_delete_message' | 'imap_move_message',
+  outcome: 'ok' | 'error',
+  mailbox = 'INBOX',
+) {
+  return {
+    tool,
+    account_id: 'default',
+    message_ids: [`imap:default:${mailbox}:1:7`],
+    outcome,
+    duration_ms: 3,
+  } as const;
+}
+
+describe('audit log', () => {
+  useTestEnv();
+
+  afterAll(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('links entries with a hash chain that detects edits', async () => {
+    const path = join(directory, 'chain.jsonl');
+    const first = await appendAuditEntry(path, record('imap_delete_message', 'ok'));
+    const [second, third] = await Promise.all([
+      appendAuditEntry(path, record('imap_move_message', 'error')),
+      appendAuditEntry(path, record('imap_delete_message', 'ok')),
+    ]);
+
+    expect(first).toMatchObject({ seq: 1, prev_hash: GENESIS_HASH });
+    expect(second).toMatchObject({ seq: 2, prev_hash: first.hash });
+    expect(third).toMatchObject({ seq: 3, prev_hash: second?.hash });
+    expect((await readAuditLog(path, { limit: 10 })).chain).toEqual({
+      valid: true,
+      entries_checked: 3,
+    });
+
+    const lines = readFileSync(path, 'utf8').split('\n');
+    lines[1] = lines[1]?.replace('"outcome":"error"', '"outcome":"ok"') ?? '';
+    writeFileSync(path, lines.join('\n'));
+    expect((await readAuditLog(path, { limit: 10 })).chain).toEqual({
+      valid: false,
+      entries_checked: 3,
+      first_invalid_seq: 2,
+    });
+
+    // Removing the first entry is detected once reading reaches the start of the file
+    writeFileSync(path, lines.slice(2).join('\n'));
+    expect((await readAuditLog(path, { limit: 10 })).chain).toMatchObject({
+      valid: false,
+      first_invalid_seq: 3,
+    });
+  });
+
+  it('reads the log from its end, only as far as the limit needs', async () => {
+    const path = join(directory, 'tail.jsonl');
+    for (let index = 0; index < 5; index += 1) {
+      await appendAuditEntry(path, record('imap_move_message', 'ok'));
+    }
+
+    const newest = await readAuditLog(path, { limit: 2 });
+    expect(newest.entries.map((entry) => entry.seq)).toEqual([5, 4]);
+    expect(newest).toMatchObject({ has_more: true, chain: { valid: true, entries_checked: 2 } });
+
+    const all = await readAuditLog(path, { limit: 5 });
+    expect(all.has_more).toBe(false);
+
+    // Enough entries to span several read chunks
+    for (let index = 0; index < 300; index += 1) {
+      await appendAuditEntry(path, record('imap_move_message', 'ok'));
+    }
+    const long = await readAuditLog(path, { limit: 305 });
+    expect(long.entries.map((entry) => entry.seq)).toEqual(
+      Array.from({ length: 305 }, (_, index) => 305 - index),
+    );
+    expect(long.chain).toEqual({ valid: true, entries_checked: 305 });
+    expect(await readAuditLog(join(directory, 'missing.jsonl'), { limit: 5 })).toEqual({
+      entries: [],
+      has_more: false,
+      chain: { valid: true, entries_checked: 0 },
+    });
+  });
+
+  it('lists the newest matching entries first', async () => {
+    const path = join(directory, 'query.jsonl');
+    await appendAuditEntry(path, record('imap_delete_message', 'ok'));
+    await appendAuditEntry(path, record('imap_move_message', 'ok'));
+    await appendAuditEntry(path, record('imap_delete_message', 'error'));
+
+    const result = await handleAuditLog({ tool: 'imap_delete_message', limit: 20 }, path);
+    expect(result.isError).toBe(false);
+    const payload = parseData(result);
+    expect(payload['has_more']).toBe(false);
+    expect((payload['entries'] as { seq: number }[]).map((entry) => entry.seq)).toEqual([3, 1]);
+    expect(payload['chain']).toEqual({ valid: true, entries_checked: 3 });
+
+    const disabled = await handleAuditLog({ limit: 20 }, undefined);
+    expect(disabled.isError).toBe(true);
+  });
+
+  it('leaves out entries the account policy hides', async () => {
+    const path = join(directory, 'policy.jsonl');
+    await appendAuditEntry(path, record('imap_delete_message', 'ok'));
+    await appendAuditEntry(path, record('imap_delete_message', 'ok', 'Legal'));
+    process.env['MAIL_IMAP_DEFAULT_DENIED_MAILBOXES'] = 'Legal';
+    const visible = await handleAuditLog({ limit: 20 }, path);
+    expect((parseData(visible)['entries'] as { seq: number }[]).map((entry) => entry.seq)).toEqual([
+      1,
+    ]);
+
+    process.env['MAIL_IMAP_DEFAULT_DENIED_TOOLS'] = 'imap_audit_log';
+    const hidden = await handleAuditLog({ limit: 20 }, path);
+    expect(parseData(hidden)['entries']).toEqual([]);
+    expect(evaluateToolPolicy('imap_audit_log', { account_id: 'default', limit: 20 })).toBe(
+      "Tool 'imap_audit_log' is not allowed for account 'default'.",
+    );
+  });
+
+  it('collects flags before and after a flag update', async () => {
+    const flags = new Map([[7, new Set(['\\Flagged'])]]);
+    const client = {
+      mailbox: { uidValidity: 1n },
+      getMailboxLock: vi.fn(() => Promise.resolve({ release: vi.fn() })),
+      fetch: vi.fn(async function* (uids: number[]) {
+        for (const uid of uids) {
+          const current = flags.get(uid);
+          if (current) {
+            yield await Promise.resolve({ uid, flags: new Set(current) });
+          }
+        }
+      }),
+      messageFlagsAdd: vi.fn((uids: number[], added: string[]) => {
+        for (const uid of uids) {
+          added.forEach((flag) => flags.get(uid)?.add(flag));
+        }
+        return Promise.resolve(true);
+      }),
+    };
+    useImapClient(client);
+
+    const messages: AuditMessageChange[] = [];
+    const result = await collectAuditMessages(messages, () =>
+      handleUpdateMessageFlags({
+        account_id: 'default',
+        message_id: 'imap:default:INBOX:1:7',
+        add_flags: ['\\Seen'],
+      }),
+    );
+
+    expect(result.isError).toBe(false);
+    expect(messages).toEqual([
+      {
+        mailbox: 'INBOX',
+        uidvalidity: 1,
+        uid: 7,
+        flags_before: ['\\Flagged'],
+        flags_after: ['\\Flagged', '\\Seen'],
+      },
+    ]);
+  });
+});
@@ -0,0 +1,119 @@
+import { describe, expect, it } from 'vitest';
+
+import { MoveMessageInputSchema, UpdateMessageFlagsInputSchema } from '../src/contracts.js';
+import {
+  collectMessageIds,
+  countResults,
+  groupMessageIds,
+  orderResults,
+} from '../src/utils/bulk.js';
+
+describe('bulk message helpers', () => {
+  it('collects a single id or a de-duplicated list', () => {
+    expect(collectMessageIds({ message_id: 'imap:default:INBOX:1:2' })).toEqual([
+      'imap:default:INBOX:1:2',
+    ]);
+    expect(
+      collectMessageIds({
+        message_ids: ['imap:default:INBOX:1:2', 'imap:default:INBOX:1:3', 'imap:default:INBOX:1:2'],
+      }),
+    ).toEqual(['imap:default:INBOX:1:2', 'imap:default:INBOX:1:3']);
+  });
+
+  it('groups ids by mailbox and uidvalidity and reports undecodable ids', () => {
+    const { groups, failures } = groupMessageIds(
+      [
+        'imap:default:INBOX:100:1',
+        'imap:default:Archive:200:5',
+        'imap:default:INBOX:100:2',
+        'imap:default:INBOX:101:3',
+        'imap:work:INBOX:100:4',
+        'not-a-message-id',
+      ],
+      'default',
+    );
+
+    expect(groups).toEqual([
+      {
+        mailbox: 'INBOX',
+        uidvalidity: 100,
+        items: [
+          { message_id: 'imap:default:INBOX:100:1', uid: 1 },
+          { message_id: 'imap:default:INBOX:100:2', uid: 2 },
+        ],
+      },
+      {
+        mailbox: 'Archive',
+        uidvalidity: 200,
+        items: [{ message_id: 'imap:default:Archive:200:5', uid: 5 }],
+      },
+      {
+        mailbox: 'INBOX',
+        uidvalidity: 101,
+        items: [{ message_id: 'imap:default:INBOX:101:3', uid: 3 }],
+      },
+    ]);
+    expect(failures).toEqual([
+      {
+        message_id: 'imap:work:INBOX:100:4',
+        ok: false,
+        error: 'message_id does not match the requested account_id.',
+      },
+      {
+        message_id: 'not-a-message-id',
+        ok: false,
+        error: "Invalid message_id. Expected 'imap:{account_id}:{mailbox}:{uidvalidity}:{uid}'.",
+      },
+    ]);
+  });
+
+  it('orders results by request order and counts outcomes', () => {
+    const results = orderResults(
+      ['imap:default:INBOX:1:1', 'imap:default:INBOX:1:2', 'imap:default:INBOX:1:3'],
+      [
+        { message_id: 'imap:default:INBOX:1:3', ok: true },
+        { message_id: 'imap:default:INBOX:1:1', ok: false, error: 'Message not found.' },
+        { message_id: 'imap:default:INBOX:1:2', ok: true },
+      ],
+    );
+
+    expect(results.map((result) => result.message_id)).toEqual([
+      'imap:default:INBOX:1:1',
+      'imap:default:INBOX:1:2',
+      'imap:default:INBOX:1:3',
+    ]);
+    expect(countResults(results)).toEqual({ succeeded: 2, failed: 1 });
+  });
+});
+
+describe('bulk write schemas', () => {
+  it('requires exactly one of message_id or message_ids', () => {
+    expect(MoveMessageInputSchema.safeParse({ destination_mailbox: 'Archive' }).success).toBe(
+      false,
+    );
+    expect(
+      MoveMessageInputSchema.safeParse({
+        message_id: 'imap:default:INBOX:1:1',
+        message_ids: ['imap:default:INBOX:1:2'],
+        destination_mailbox: 'Archive',
+      }).success,
+    ).toBe(false);
+    expect(
+      UpdateMessageFlagsInputSchema.safeParse({
+        message_ids: ['imap:default:INBOX:1:1', 'imap:default:INBOX:1:2'],
+        add_flags: ['\\Seen'],
+      }).success,
+    ).toBe(true);
+  });
+
+  it('caps the number of message_ids', () => {
+    const messageIds = Array.from(
+      { length: 51 },
+      (_, index) => `imap:default:INBOX:1:${index + 1}`,
+    );
+    expect(
+      UpdateMessageFlagsInputSchema.safeParse({ message_ids: messageIds, add_flags: ['\\Seen'] })
+        .success,
+    ).toBe(false);
+  });
+});
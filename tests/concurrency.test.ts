@@ -0,0 +1,43 @@
+import { afterEach, describe, expect, it } from 'vitest';
+
+import { listConfiguredAccountIds } from '../src/utils/account.js';
+import { mapWithConcurrency } from '../src/utils/concurrency.js';
+
+describe('mapWithConcurrency', () => {
+  it('bounds in-flight calls and keeps input order', async () => {
+    let active = 0;
+    let peak = 0;
+    const results = await mapWithConcurrency([30, 10, 20, 5, 15], 2, async (delayMs, index) => {
+      active += 1;
+      peak = Math.max(peak, active);
+      await new Promise((resolve) => setTimeout(resolve, delayMs));
+      active -= 1;
+      return index;
+    });
+
+    expect(results).toEqual([0, 1, 2, 3, 4]);
+    expect(peak).toBe(2);
+  });
+});
+
+describe('listConfiguredAccountIds', () => {
+  const originalEnv = process.env;
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  it('returns only fully configured accounts', () => {
+    process.env = {
+      MAIL_IMAP_DEFAULT_HOST: 'imap.default.example.com',
+      MAIL_IMAP_DEFAULT_USER: 'default-user',
+      MAIL_IMAP_DEFAULT_PASS: 'default-pass',
+      MAIL_IMAP_WORK_HOST: 'imap.work.example.com',
+      MAIL_IMAP_WORK_USER: 'work-user',
+      MAIL_IMAP_WORK_PASS: 'work-pass',
+      MAIL_IMAP_BROKEN_HOST: 'imap.broken.example.com',
+    };
+
+    expect(listConfiguredAccountIds().sort()).toEqual(['default', 'work']);
+  });
+});
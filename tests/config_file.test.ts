@@ -0,0 +1,173 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { afterAll, afterEach, describe, expect, it } from 'vitest';
+
+import { loadAccountConfig, loadSmtpConfig, validateEnvironment } from '../src/config.js';
+import { getHelpText } from '../src/help.js';
+
+const directory = mkdtempSync(join(tmpdir(), 'mail-imap-config-'));
+
+function writeConfig(name: string, contents: string): string {
+  const path = join(directory, name);
+  writeFileSync(path, contents);
+  return path;
+}
+
+const YAML_CONFIG = `
+settings:
+  write_enabled: true
+accounts:
+  work:
+    host: imap.work.example.com
+    user: me@work.example.com
+    pass: file-secret
+    tls:
+      min_version: TLSv1.3
+      servername: mail.work.example.com
+    allowed_mailboxes: [INBOX, Projects]
+    smtp:
+      host: smtp.work.example.com
+      port: 587
+      secure: false
+      allowed_recipients: ['@work.example.com']
+  archive:
+    host: imap.archive.example.com
+    user: archive@example.com
+    pass: archive-secret
+    read_only: true
+    delete_strategy: expunge
+`;
+
+describe('configuration file', () => {
+  const originalEnv = process.env;
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  afterAll(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('loads accounts from YAML with environment overrides', () => {
+    process.env = {
+      MAIL_IMAP_CONFIG: writeConfig('accounts.yaml', YAML_CONFIG),
+      MAIL_IMAP_WORK_PORT: '1993',
+    };
+
+    expect(validateEnvironment()).toEqual([]);
+    expect(loadAccountConfig('work')).toEqual({
+      host: 'imap.work.example.com',
+      port: 1993,
+      secure: true,
+      user: 'me@work.example.com',
+      pass: 'file-secret',
+      tls: { min_version: 'TLSv1.3', servername: 'mail.work.example.com' },
+      allowed_mailboxes: ['INBOX', 'Projects'],
+    });
+    expect(loadAccountConfig('archive')).toMatchObject({
+      read_only: true,
+      delete_strategy: 'expunge',
+    });
+    expect(loadSmtpConfig('work')).toEqual({
+      host: 'smtp.work.example.com',
+      port: 587,
+      secure: false,
+      user: 'me@work.example.com',
+      pass: 'file-secret',
+      allowed_recipients: ['@work.example.com'],
+    });
+  });
+
+  it('accepts credentials from the environment for accounts in the file', () => {
+    const path = writeConfig(
+      'no-secrets.yaml',
+      'accounts:\n  work:\n    host: imap.example.com\n    user: me@example.com\n',
+    );
+
+    process.env = { MAIL_IMAP_CONFIG: path, MAIL_IMAP_WORK_PASS: 'env-secret' };
+    expect(validateEnvironment()).toEqual([]);
+    expect(loadAccountConfig('work')).toMatchObject({ user: 'me@example.com', pass: 'env-secret' });
+
+    process.env = { MAIL_IMAP_CONFIG: path };
+    expect(validateEnvironment()).toEqual([
+      "Account 'work' is missing required env vars: MAIL_IMAP_WORK_PASS",
+    ]);
+    expect(loadAccountConfig('work')).toBeNull();
+  });
+
+  it('keeps list entries from the file intact when they contain commas', () => {
+    process.env = {
+      MAIL_IMAP_CONFIG: writeConfig(
+        'commas.yaml',
+        [
+          'accounts:',
+          '  work:',
+          '    host: imap.example.com',
+          '    user: me@example.com',
+          '    pass: secret',
+          '    denied_mailboxes: ["Legal, Holds", Payroll]',
+        ].join('\n'),
+      ),
+    };
+
+    expect(loadAccountConfig('work')?.denied_mailboxes).toEqual(['Legal, Holds', 'Payroll']);
+    expect(getHelpText()).toContain(
+      'MAIL_IMAP_WORK_DENIED_MAILBOXES=["Legal, Holds","Payroll"] (config file)',
+    );
+
+    process.env['MAIL_IMAP_WORK_DENIED_MAILBOXES'] = 'Legal,Holds';
+    expect(loadAccountConfig('work')?.denied_mailboxes).toEqual(['Legal', 'Holds']);
+  });
+
+  it('reports validation errors without echoing values', () => {
+    process.env = {
+      MAIL_IMAP_CONFIG: writeConfig(
+        'invalid.json',
+        JSON.stringify({
+          accounts: { work: { host: 'imap.example.com', pass: 'leaked', port: 0 } },
+        }),
+      ),
+    };
+
+    const errors = validateEnvironment();
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toContain('accounts.work.user');
+    expect(errors[0]).toContain('accounts.work.port');
+    expect(errors[0]).not.toContain('leaked');
+  });
+
+  it('rejects account IDs that map to the same settings', () => {
+    const account = { host: 'imap.example.com', user: 'me@example.com', pass: 'secret' };
+    process.env = {
+      MAIL_IMAP_CONFIG: writeConfig(
+        'colliding.json',
+        JSON.stringify({
+          accounts: { 'my-account': account, my_account: account, Work: account, work: account },
+        }),
+      ),
+    };
+
+    const errors = validateEnvironment();
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toContain(
+      "accounts.my_account: Account ID collides with 'my-account'; both map to MAIL_IMAP_MY_ACCOUNT_* settings.",
+    );
+    expect(errors[0]).toContain("accounts.work: Account ID collides with 'Work'");
+  });
+
+  it('shows file settings in the help text with secrets redacted', () => {
+    const path = writeConfig('help.yml', YAML_CONFIG);
+    process.env = { MAIL_IMAP_CONFIG: path };
+
+    const helpText = getHelpText();
+    expect(helpText).toContain(`Config file: ${path}`);
+    expect(helpText).toContain('MAIL_IMAP_WORK_HOST=imap.work.example.com (config file)');
+    expect(helpText).toContain('MAIL_IMAP_WORK_PASS=<redacted> (set)');
+    expect(helpText).toContain('MAIL_IMAP_ARCHIVE_READ_ONLY=true (config file)');
+    expect(helpText).toContain('MAIL_IMAP_WRITE_ENABLED=true (config file)');
+    expect(helpText).not.toContain('file-secret');
+  });
+});
@@ -0,0 +1,159 @@
+import { EventEmitter } from 'node:events';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { ImapFlow } from 'imapflow';
+
+import type { AccountConfig } from '../src/config.js';
+import { ConnectionPool } from '../src/connection-pool.js';
+
+class FakeClient extends EventEmitter {
+  usable = false;
+  getMailboxLock = vi.fn((path: string) => Promise.resolve({ path, release: vi.fn() }));
+  connect = vi.fn(() => {
+    this.usable = true;
+    return Promise.resolve();
+  });
+  noop = vi.fn(() => Promise.resolve());
+  logout = vi.fn(() => {
+    this.usable = false;
+    return Promise.resolve();
+  });
+  close = vi.fn(() => {
+    this.usable = false;
+  });
+}
+
+const account: AccountConfig = {
+  host: 'imap.example.com',
+  port: 993,
+  secure: true,
+  user: 'user',
+  pass: 'pass',
+};
+
+function createPool(overrides: Partial<{ max_size: number; idle_timeout_ms: number }> = {}): {
+  pool: ConnectionPool;
+  created: FakeClient[];
+} {
+  const created: FakeClient[] = [];
+  const pool = new ConnectionPool(
+    {
+      max_size: overrides.max_size ?? 2,
+      idle_timeout_ms: overrides.idle_timeout_ms ?? 60_000,
+      health_check_after_ms: 10_000,
+      acquire_timeout_ms: 1_000,
+    },
+    () => {
+      const client = new FakeClient();
+      created.push(client);
+      return client as unknown as ImapFlow;
+    },
+  );
+  return { pool, created };
+}
+
+describe('ConnectionPool', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('reuses a released connection for the same account', async () => {
+    const { pool, created } = createPool();
+    const first = await pool.acquire(account);
+    pool.release(first);
+    const second = await pool.acquire(account);
+
+    expect(second).toBe(first);
+    expect(created).toHaveLength(1);
+    expect(pool.stats(account)).toMatchObject({
+      open: 1,
+      busy: 1,
+      created_total: 1,
+      reused_total: 1,
+    });
+  });
+
+  it('keeps separate connections for accounts with different TLS options or auth', async () => {
+    const { pool, created } = createPool();
+    const variants: AccountConfig[] = [
+      account,
+      { ...account, tls: { reject_unauthorized: false } },
+      { ...account, tls: { servername: 'mail.example.com' } },
+      { ...account, pass: undefined, oauth2: { access_token: 'token' } },
+    ];
+    for (const variant of variants) {
+      pool.release(await pool.acquire(variant));
+    }
+
+    expect(created).toHaveLength(4);
+    pool.release(await pool.acquire({ ...account, pass: 'other' }));
+    expect(created).toHaveLength(4);
+  });
+
+  it('waits for a release when the pool is exhausted', async () => {
+    const { pool, created } = createPool({ max_size: 1 });
+    const first = await pool.acquire(account);
+    const pending = pool.acquire(account);
+    await Promise.resolve();
+    expect(pool.stats(account).waiting).toBe(1);
+
+    pool.release(first);
+    await expect(pending).resolves.toBe(first);
+    expect(created).toHaveLength(1);
+  });
+
+  it('discards connections that still hold a mailbox lock or were closed', async () => {
+    const { pool, created } = createPool();
+    const first = await pool.acquire(account);
+    const lock = await first.getMailboxLock('INBOX');
+    lock.release();
+    lock.release();
+    pool.release(first);
+    await expect(pool.acquire(account)).resolves.toBe(first);
+    await first.getMailboxLock('Archive');
+    pool.release(first);
+
+    const second = await pool.acquire(account);
+    expect(second).not.toBe(first);
+    created[1]!.usable = false;
+    pool.release(second);
+
+    expect(pool.stats(account)).toMatchObject({ open: 0, discarded_total: 2 });
+  });
+
+  it('runs a NOOP health check before reusing a long-idle connection', async () => {
+    vi.useFakeTimers();
+    const { pool, created } = createPool();
+    const first = await pool.acquire(account);
+    pool.release(first);
+
+    vi.advanceTimersByTime(15_000);
+    created[0]!.noop.mockRejectedValueOnce(new Error('BYE'));
+    const second = await pool.acquire(account);
+
+    expect(created[0]!.noop).toHaveBeenCalledTimes(1);
+    expect(second).not.toBe(first);
+    expect(created).toHaveLength(2);
+  });
+
+  it('logs out idle connections after the idle timeout', async () => {
+    vi.useFakeTimers();
+    const { pool, created } = createPool({ idle_timeout_ms: 5_000 });
+    pool.release(await pool.acquire(account));
+
+    vi.advanceTimersByTime(5_000);
+    expect(created[0]!.logout).toHaveBeenCalled();
+    expect(pool.stats(account).open).toBe(0);
+  });
+
+  it('drops connections closed by the server while idle', async () => {
+    const { pool, created } = createPool();
+    pool.release(await pool.acquire(account));
+
+    created[0]!.usable = false;
+    created[0]!.emit('close');
+    expect(pool.stats(account).open).toBe(0);
+
+    await pool.acquire(account);
+    expect(created).toHaveLength(2);
+  });
+});
@@ -0,0 +1,212 @@
+import { Readable } from 'node:stream';
+
+import { describe, expect, it, vi } from 'vitest';
+
+import { CreateDraftInputSchema } from '../src/contracts.js';
+import type * as runtime from '../src/tools/runtime.js';
+import { handleCreateDraft } from '../src/tools/create_draft.js';
+import { prefixSubject } from '../src/utils/draft.js';
+import { parseMailSource } from '../src/utils/mailparser.js';
+import { parseResponse, useImapClient, useTestEnv } from './helpers.js';
+
+vi.mock('../src/tools/runtime.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof runtime>()),
+  withImapClient: vi.fn(),
+}));
+
+const SOURCE = [
+  'From: Jane <jane@example.com>',
+  'To: me@example.com, Bob <bob@example.com>',
+  'Cc: carol@example.com, ME@example.com',
+  'Subject: Report',
+  'Date: Tue, 01 Oct 2024 10:00:00 +0000',
+  'Message-ID: <parent@example.com>',
+  'References: <root@example.com>',
+  '',
+  'Numbers attached.',
+  '> earlier',
+  '',
+].join('\r\n');
+
+function fakeClient(options: { drafts?: boolean; uidplus?: boolean } = {}) {
+  const { drafts = true, uidplus = true } = options;
+  return {
+    mailbox: { uidValidity: 99n },
+    list: vi.fn(() =>
+      Promise.resolve([
+        { path: 'INBOX', specialUse: '\\Inbox', flags: new Set() },
+        ...(drafts ? [{ path: 'Entwürfe', specialUse: '\\Drafts', flags: new Set() }] : []),
+      ]),
+    ),
+    getMailboxLock: vi.fn(() => Promise.resolve({ release: vi.fn() })),
+    fetchOne: vi.fn(() =>
+      Promise.resolve({
+        bodyStructure: {
+          type: 'multipart/mixed',
+          childNodes: [
+            { part: '1', type: 'text/plain', size: 10 },
+            {
+              part: '2',
+              type: 'application/pdf',
+              size: 7,
+              disposition: 'attachment',
+              dispositionParameters: { filename: 'report.pdf' },
+            },
+          ],
+        },
+      }),
+    ),
+    download: vi.fn((_uid: number, part?: string) =>
+      Promise.resolve({
+        content: Readable.from([Buffer.from(part === undefined ? SOURCE : 'PDFDATA')]),
+      }),
+    ),
+    append: vi.fn((path: string) =>
+      Promise.resolve(
+        uidplus ? { destination: path, uid: 7, uidValidity: 55n } : { destination: path },
+      ),
+    ),
+  };
+}
+
+describe('imap_create_draft', () => {
+  useTestEnv({ MAIL_IMAP_DEFAULT_USER: 'me@example.com' });
+
+  it('appends a threaded draft with copied attachments to the \\Drafts mailbox', async () => {
+    const client = fakeClient();
+    useImapClient(client);
+
+    const result = await handleCreateDraft(
+      CreateDraftInputSchema.parse({
+        to: ['Jane <jane@example.com>'],
+        bcc: ['audit@example.com'],
+        subject: 'Re: Report',
+        text: 'See attached.',
+        html: '<p>See attached.</p>',
+        attachments: [{ message_id: 'imap:default:INBOX:99:3', part_id: '2' }],
+        source_message_id: 'imap:default:INBOX:99:42',
+      }),
+    );
+    expect(result.isError).toBe(false);
+    expect(client.download).toHaveBeenCalledWith(3, '2', expect.objectContaining({ uid: true }));
+    expect(client.download).toHaveBeenCalledTimes(2);
+
+    const [mailbox, raw, flags] = client.append.mock.calls[0] as unknown as [
+      string,
+      Buffer,
+      string[],
+    ];
+    expect(mailbox).toBe('Entwürfe');
+    expect(flags).toEqual(['\\Draft', '\\Seen']);
+    const parsed = await parseMailSource(raw);
+    expect(parsed.from?.text).toBe('me@example.com');
+    expect(parsed.bcc).toBeDefined();
+    expect(parsed.inReplyTo).toBe('<parent@example.com>');
+    expect(parsed.references).toEqual(['<root@example.com>', '<parent@example.com>']);
+    expect(parsed.html).toContain('See attached.');
+    expect(parsed.attachments.map((attachment) => attachment.filename)).toEqual(['report.pdf']);
+    expect(parsed.attachments[0]?.content.toString()).toBe('PDFDATA');
+
+    const data = parseResponse(result)['data'] as Record<string, unknown>;
+    expect(data).toMatchObject({
+      mailbox: 'Entwürfe',
+      message_id: 'imap:default:Entwürfe:55:7',
+      header_message_id: parsed.messageId,
+      subject: 'Re: Report',
+      to: ['Jane <jane@example.com>'],
+      attachments: 1,
+    });
+  });
+
+  it('builds reply-all drafts with derived recipients, subject, and quoting', async () => {
+    const client = fakeClient();
+    useImapClient(client);
+
+    const result = await handleCreateDraft(
+      CreateDraftInputSchema.parse({
+        cc: ['carol@example.com', 'dave@example.com'],
+        text: 'Thanks!',
+        html: '<p>Thanks!</p>',
+        source_message_id: 'imap:default:INBOX:99:42',
+        mode: 'reply_all',
+      }),
+    );
+    const data = parseResponse(result)['data'] as Record<string, unknown>;
+    expect(data).toMatchObject({
+      subject: 'Re: Report',
+      to: ['Jane <jane@example.com>', 'Bob <bob@example.com>'],
+      cc: ['carol@example.com', 'dave@example.com'],
+      attachments: 0,
+    });
+
+    const raw = (client.append.mock.calls[0] as unknown as [string, Buffer])[1];
+    const parsed = await parseMailSource(raw);
+    expect(parsed.inReplyTo).toBe('<parent@example.com>');
+    expect(parsed.text).toBe(
+      'Thanks!\n\nOn Tue, 01 Oct 2024 10:00:00 GMT, Jane <jane@example.com> wrote:\n> Numbers attached.\n>> earlier',
+    );
+    expect(parsed.html).toContain('<blockquote type="cite">Numbers attached.<br>');
+    expect(parsed.html).toContain('&gt; earlier');
+  });
+
+  it('forwards with the original attachments and without In-Reply-To', async () => {
+    const client = fakeClient();
+    useImapClient(client);
+
+    const result = await handleCreateDraft(
+      CreateDraftInputSchema.parse({
+        to: ['erin@example.com'],
+        source_message_id: 'imap:default:INBOX:99:42',
+        mode: 'forward',
+      }),
+    );
+    expect(parseResponse(result)['data']).toMatchObject({
+      subject: 'Fwd: Report',
+      to: ['erin@example.com'],
+      cc: [],
+      attachments: 1,
+    });
+
+    const raw = (client.append.mock.calls[0] as unknown as [string, Buffer])[1];
+    const parsed = await parseMailSource(raw);
+    expect(parsed.inReplyTo).toBeUndefined();
+    expect(parsed.references).toEqual(['<root@example.com>', '<parent@example.com>']);
+    expect(parsed.text).toContain('---------- Forwarded message ----------\nFrom: Jane');
+    expect(parsed.attachments.map((attachment) => attachment.filename)).toEqual(['report.pdf']);
+  });
+
+  it('requires a source message for reply modes and keeps existing subject prefixes', () => {
+    expect(CreateDraftInputSchema.safeParse({ mode: 'reply' }).success).toBe(false);
+    expect(prefixSubject('RE: Report', 'reply')).toBe('RE: Report');
+    expect(prefixSubject('Re[2]: Report', 'reply_all')).toBe('Re[2]: Report');
+    expect(prefixSubject('Re: Report', 'forward')).toBe('Fwd: Re: Report');
+    expect(prefixSubject('FW: Report', 'forward')).toBe('FW: Report');
+  });
+
+  it('requires a drafts mailbox and falls back to a search hint without UIDPLUS', async () => {
+    useImapClient(fakeClient({ drafts: false }));
+    const missing = await handleCreateDraft(CreateDraftInputSchema.parse({ text: 'Hi' }));
+    expect(missing.isError).toBe(true);
+
+    const client = fakeClient({ uidplus: false });
+    useImapClient(client);
+    const response = parseResponse(
+      await handleCreateDraft(CreateDraftInputSchema.parse({ mailbox: 'Drafts', text: 'Hi' })),
+    );
+    expect(client.list).not.toHaveBeenCalled();
+    expect(response['data']).not.toHaveProperty('message_id');
+    expect(response['hints']).toEqual([expect.objectContaining({ tool: 'imap_search_messages' })]);
+  });
+
+  it('refuses a default \\Drafts mailbox that the account policy denies', async () => {
+    process.env['MAIL_IMAP_DEFAULT_DENIED_MAILBOXES'] = 'Entwürfe';
+    const client = fakeClient();
+    useImapClient(client);
+    const result = await handleCreateDraft(CreateDraftInputSchema.parse({ text: 'Hi' }));
+    expect(result.isError).toBe(true);
+    expect(parseResponse(result)['summary']).toBe(
+      "Mailbox 'Entwürfe' is not allowed for account 'default'.",
+    );
+    expect(client.append).not.toHaveBeenCalled();
+  });
+});
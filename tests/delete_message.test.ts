@@ -0,0 +1,69 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import { handleDeleteMessage } from '../src/tools/delete_message.js';
+import type * as runtime from '../src/tools/runtime.js';
+import { fakeImapServer, parseResponse, useTestEnv } from './helpers.js';
+
+vi.mock('../src/tools/runtime.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof runtime>()),
+  withImapClient: vi.fn(),
+}));
+
+describe('handleDeleteMessage', () => {
+  useTestEnv();
+
+  it('refuses to delete when the account has no \\Trash mailbox', async () => {
+    const { client } = fakeImapServer({ INBOX: { 3: [] } });
+
+    const result = await handleDeleteMessage({
+      account_id: 'default',
+      message_id: 'imap:default:INBOX:1:3',
+      confirm: true,
+    });
+    expect(result.isError).toBe(true);
+    expect(parseResponse(result)['summary']).toContain('No \\Trash mailbox was found');
+    expect(client.messageMove).not.toHaveBeenCalled();
+    expect(client.messageDelete).not.toHaveBeenCalled();
+  });
+
+  it('refuses to move messages to a \\Trash mailbox the account policy denies', async () => {
+    process.env['MAIL_IMAP_DEFAULT_DENIED_MAILBOXES'] = 'Trash';
+    const { client } = fakeImapServer({ INBOX: { 3: [] }, Trash: {} });
+
+    const result = await handleDeleteMessage({
+      account_id: 'default',
+      message_id: 'imap:default:INBOX:1:3',
+      confirm: true,
+    });
+    expect(result.isError).toBe(true);
+    expect(parseResponse(result)['summary']).toBe(
+      "Mailbox 'Trash' is not allowed for account 'default'.",
+    );
+    expect(client.messageMove).not.toHaveBeenCalled();
+  });
+
+  it('reports a mixed strategy when some messages already are in Trash', async () => {
+    const { client } = fakeImapServer({ INBOX: { 3: [], 4: [] }, Trash: { 9: [] } });
+
+    const result = await handleDeleteMessage({
+      account_id: 'default',
+      message_ids: ['imap:default:INBOX:1:3', 'imap:default:INBOX:1:4', 'imap:default:Trash:2:9'],
+      confirm: true,
+    });
+    expect(result.isError).toBe(false);
+    expect(parseResponse(result)).toMatchObject({
+      summary: 'Moved 2 of 3 messages to Trash and deleted 1 permanently.',
+      data: {
+        succeeded: 3,
+        results: [
+          { message_id: 'imap:default:INBOX:1:3', new_message_id: 'imap:default:Trash:2:10' },
+          { message_id: 'imap:default:INBOX:1:4', new_message_id: 'imap:default:Trash:2:11' },
+          { message_id: 'imap:default:Trash:2:9', ok: true },
+        ],
+      },
+      _meta: { delete_strategy: 'mixed', expunge_strategy: 'uid-expunge' },
+    });
+    expect(client.messageMove).toHaveBeenCalledWith([3, 4], 'Trash', { uid: true });
+    expect(client.messageDelete).toHaveBeenCalledWith([9], { uid: true });
+  });
+});
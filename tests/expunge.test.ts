@@ -0,0 +1,86 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import { handleDeleteMessage } from '../src/tools/delete_message.js';
+import { handleMoveMessage } from '../src/tools/move_message.js';
+import type * as runtime from '../src/tools/runtime.js';
+import { fakeImapServer, parseResponse, useTestEnv } from './helpers.js';
+
+vi.mock('../src/tools/runtime.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof runtime>()),
+  withImapClient: vi.fn(),
+}));
+
+describe('safe expunge', () => {
+  useTestEnv();
+
+  it('refuses the move fallback without UIDPLUS unless allowed', async () => {
+    const { client } = fakeImapServer({ INBOX: { 7: [] }, Archive: {} }, []);
+    const args = {
+      account_id: 'default',
+      message_id: 'imap:default:INBOX:1:7',
+      destination_mailbox: 'Archive',
+    };
+
+    const refused = await handleMoveMessage(args);
+    expect(refused.isError).toBe(true);
+    expect(parseResponse(refused)['_meta']).toEqual({
+      move_strategy: 'copy+delete',
+      uidplus: false,
+    });
+    expect(client.messageCopy).not.toHaveBeenCalled();
+    expect(client.messageDelete).not.toHaveBeenCalled();
+
+    const allowed = await handleMoveMessage({ ...args, allow_mailbox_expunge: true });
+    expect(allowed.isError).toBe(false);
+    expect(parseResponse(allowed)['_meta']).toMatchObject({
+      move_strategy: 'copy+delete',
+      expunge_strategy: 'mailbox-expunge',
+    });
+    expect(client.messageDelete).toHaveBeenCalledWith([7], { uid: true });
+  });
+
+  it('reports a fallback that copied the message but could not delete it', async () => {
+    const { mailboxes, client } = fakeImapServer({ INBOX: { 7: [] }, Archive: {} }, ['UIDPLUS']);
+    client.messageDelete.mockResolvedValueOnce(false);
+
+    const result = await handleMoveMessage({
+      account_id: 'default',
+      message_id: 'imap:default:INBOX:1:7',
+      destination_mailbox: 'Archive',
+    });
+    expect(result.isError).toBe(true);
+    expect(parseResponse(result)).toMatchObject({
+      summary: 'Move fallback failed: copy succeeded but delete failed.',
+      _meta: {
+        move_strategy: 'copy+delete',
+        expunge_strategy: 'uid-expunge',
+        copy_completed: true,
+      },
+    });
+    expect(mailboxes.get('Archive')?.messages.size).toBe(1);
+  });
+
+  it('deletes permanently with UID EXPUNGE when the server supports UIDPLUS', async () => {
+    const args = {
+      account_id: 'default',
+      message_id: 'imap:default:INBOX:1:7',
+      permanent: true,
+      confirm: true,
+    } as const;
+
+    const { client: withoutUidplus } = fakeImapServer({ INBOX: { 7: [] } }, []);
+    const refused = await handleDeleteMessage(args);
+    expect(refused.isError).toBe(true);
+    expect(withoutUidplus.messageDelete).not.toHaveBeenCalled();
+
+    const { client: withUidplus } = fakeImapServer({ INBOX: { 7: [] } }, ['UIDPLUS']);
+    const deleted = await handleDeleteMessage(args);
+    expect(deleted.isError).toBe(false);
+    expect(parseResponse(deleted)['_meta']).toEqual({
+      delete_strategy: 'expunge',
+      expunge_strategy: 'uid-expunge',
+    });
+    expect(withUidplus.messageCopy).not.toHaveBeenCalled();
+    expect(withUidplus.messageDelete).toHaveBeenCalledWith([7], { uid: true });
+  });
+});
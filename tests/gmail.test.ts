@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+
+import { UpdateMessageLabelsInputSchema } from '../src/contracts.js';
+import { buildSearchQuery } from '../src/tools/runtime.js';
+import { formatGmailLabels, labelAttribute } from '../src/utils/gmail.js';
+
+describe('Gmail extensions', () => {
+  it('compiles gmail_query to X-GM-RAW alongside other filters', () => {
+    expect(buildSearchQuery({ gmail_query: 'has:attachment older_than:1y' })).toEqual({
+      gmraw: 'has:attachment older_than:1y',
+    });
+    expect(buildSearchQuery({ unread_only: true, gmail_query: 'label:receipts' })).toEqual({
+      seen: false,
+      gmraw: 'label:receipts',
+    });
+  });
+
+  it('sends system labels as atoms and user labels as strings', () => {
+    expect(labelAttribute('\\Inbox')).toEqual({ type: 'ATOM', value: '\\Inbox' });
+    expect(labelAttribute('Travel/2024 Trips')).toEqual({
+      type: 'STRING',
+      value: 'Travel/2024 Trips',
+    });
+  });
+
+  it('formats fetched labels', () => {
+    expect(formatGmailLabels(undefined)).toBeUndefined();
+    expect(formatGmailLabels(new Set(['\\Important', 'Receipts', '']))).toEqual([
+      '\\Important',
+      'Receipts',
+    ]);
+  });
+
+  it('validates label updates', () => {
+    const messageId = 'imap:default:INBOX:1:2';
+    expect(
+      UpdateMessageLabelsInputSchema.safeParse({ message_id: messageId, add_labels: ['Receipts'] })
+        .success,
+    ).toBe(true);
+    expect(UpdateMessageLabelsInputSchema.safeParse({ message_id: messageId }).success).toBe(false);
+    expect(
+      UpdateMessageLabelsInputSchema.safeParse({
+        message_id: messageId,
+        add_labels: ['Receipts'],
+        remove_labels: ['Receipts'],
+      }).success,
+    ).toBe(false);
+  });
+});
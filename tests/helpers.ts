@@ -0,0 +1,203 @@
+import type { ImapFlow } from 'imapflow';
+import { afterEach, beforeEach, vi, type Mock } from 'vitest';
+
+import { withImapClient } from '../src/tools/runtime.js';
+
+/*
+ * Shared helpers for tests that call tool handlers against a fake IMAP client.
+ *
+ * vi.mock is hoisted per file, so each test file that uses useImapClient or
+ * fakeImapServer still mocks withImapClient itself:
+ *
+ *   vi.mock('../src/tools/runtime.js', async (importOriginal) => ({
+ *     ...(await importOriginal<typeof runtime>()),
+ *     withImapClient: vi.fn(),
+ *   }));
+ */
+
+/** Settings of the default account the tool handlers load */
+export const DEFAULT_ACCOUNT_ENV: Readonly<Record<string, string>> = {
+  MAIL_IMAP_DEFAULT_HOST: 'imap.example.com',
+  MAIL_IMAP_DEFAULT_USER: 'user',
+  MAIL_IMAP_DEFAULT_PASS: 'pass',
+};
+
+type EnvSettings = Readonly<Record<string, string>>;
+
+/**
+ * Configure the default account before each test of the enclosing suite and
+ * restore process.env after it, so settings a test adds do not leak.
+ *
+ * @param settings - Extra settings, or a function returning them for values only known once the suite runs
+ */
+export function useTestEnv(settings: EnvSettings | (() => EnvSettings) = {}): void {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    const extra = typeof settings === 'function' ? settings() : settings;
+    process.env = { ...originalEnv, ...DEFAULT_ACCOUNT_ENV, ...extra };
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+}
+
+/**
+ * Hand the given fake client to every withImapClient call.
+ */
+export function useImapClient(client: object): void {
+  vi.mocked(withImapClient).mockImplementation(async (_account, fn) =>
+    fn(client as unknown as ImapFlow),
+  );
+}
+
+/**
+ * Parse the JSON response text of a tool result.
+ */
+export function parseResponse(result: { content: { text: string }[] }): Record<string, unknown> {
+  return JSON.parse(result.content[0]?.text ?? '{}') as Record<string, unknown>;
+}
+
+/**
+ * Parse the `data` of a tool result.
+ */
+export function parseData(result: { content: { text: string }[] }): Record<string, unknown> {
+  return parseResponse(result)['data'] as Record<string, unknown>;
+}
+
+/**
+ * Build a LIST response entry.
+ */
+export function listedMailbox(
+  path: string,
+  options: Readonly<{ specialUse?: string; flags?: string[]; delimiter?: string }> = {},
+): Record<string, unknown> {
+  return {
+    path,
+    delimiter: options.delimiter ?? '/',
+    flags: new Set(options.flags ?? []),
+    listed: true,
+    subscribed: true,
+    ...(options.specialUse ? { specialUse: options.specialUse } : {}),
+  };
+}
+
+export type FakeMailbox = {
+  uidValidity: number;
+  uidNext: number;
+  messages: Map<number, Set<string>>;
+};
+
+type FakeImapMethod =
+  | 'getMailboxLock'
+  | 'list'
+  | 'mailboxCreate'
+  | 'fetch'
+  | 'messageFlagsAdd'
+  | 'messageFlagsSet'
+  | 'messageMove'
+  | 'messageCopy'
+  | 'messageDelete';
+
+export type FakeImapServer = Readonly<{
+  mailboxes: Map<string, FakeMailbox>;
+  client: Readonly<Record<FakeImapMethod, Mock>>;
+}>;
+
+/**
+ * An in-memory IMAP server, with MOVE and UIDPLUS unless other capabilities are
+ * given. A mailbox named Trash carries `\Trash`. The client it serves is handed
+ * to every withImapClient call.
+ *
+ * @param initial - The flags of each message, by mailbox and UID
+ * @returns The server's mailboxes and the client, whose methods are spies
+ */
+export function fakeImapServer(
+  initial: Record<string, Record<number, string[]>>,
+  capabilities: readonly string[] = ['MOVE', 'UIDPLUS'],
+): FakeImapServer {
+  const mailboxes = new Map<string, FakeMailbox>();
+  const create = (path: string): FakeMailbox => {
+    const mailbox = { uidValidity: mailboxes.size + 1, uidNext: 1, messages: new Map() };
+    mailboxes.set(path, mailbox);
+    return mailbox;
+  };
+  for (const [path, messages] of Object.entries(initial)) {
+    const mailbox = create(path);
+    for (const [uid, flags] of Object.entries(messages)) {
+      mailbox.messages.set(Number(uid), new Set(flags));
+      mailbox.uidNext = Math.max(mailbox.uidNext, Number(uid) + 1);
+    }
+  }
+
+  let selected: string | undefined;
+  const current = (): FakeMailbox => mailboxes.get(selected ?? '') as FakeMailbox;
+  const uidplus = capabilities.includes('UIDPLUS');
+  const transfer = (uids: number[], destination: string, remove: boolean) => {
+    const target = mailboxes.get(destination);
+    if (!target) {
+      return Promise.resolve(false as const);
+    }
+    const uidMap = new Map<number, number>();
+    for (const uid of uids) {
+      const flags = current().messages.get(uid);
+      if (flags) {
+        uidMap.set(uid, target.uidNext);
+        target.messages.set(target.uidNext++, new Set(flags));
+        if (remove) {
+          current().messages.delete(uid);
+        }
+      }
+    }
+    return Promise.resolve(
+      uidplus ? { uidValidity: BigInt(target.uidValidity), uidMap } : { uidMap: undefined },
+    );
+  };
+
+  const client = {
+    capabilities: new Map(capabilities.map((name) => [name, true])),
+    get mailbox() {
+      return selected ? { path: selected, uidValidity: BigInt(current().uidValidity) } : false;
+    },
+    getMailboxLock: vi.fn((path: string) => {
+      selected = path;
+      return Promise.resolve({ release: vi.fn() });
+    }),
+    list: vi.fn(() =>
+      Promise.resolve(
+        [...mailboxes.keys()].map((path) =>
+          listedMailbox(path, path === 'Trash' ? { specialUse: '\\Trash' } : {}),
+        ),
+      ),
+    ),
+    mailboxCreate: vi.fn((path: string) => {
+      create(path);
+      return Promise.resolve({ path, created: true });
+    }),
+    fetch: vi.fn(async function* (uids: number[]) {
+      for (const uid of uids) {
+        const flags = current().messages.get(uid);
+        if (flags) {
+          yield await Promise.resolve({ uid, flags: new Set(flags) });
+        }
+      }
+    }),
+    messageFlagsAdd: vi.fn((uids: number[], flags: string[]) => {
+      uids.forEach((uid) => flags.forEach((flag) => current().messages.get(uid)?.add(flag)));
+      return Promise.resolve(true);
+    }),
+    messageFlagsSet: vi.fn((uids: number[], flags: string[]) => {
+      uids.forEach((uid) => current().messages.set(uid, new Set(flags)));
+      return Promise.resolve(true);
+    }),
+    messageMove: vi.fn((uids: number[], destination: string) => transfer(uids, destination, true)),
+    messageCopy: vi.fn((uids: number[], destination: string) => transfer(uids, destination, false)),
+    messageDelete: vi.fn((uids: number[]) => {
+      uids.forEach((uid) => current().messages.delete(uid));
+      return Promise.resolve(true);
+    }),
+  };
+  useImapClient(client);
+  return { mailboxes, client };
+}
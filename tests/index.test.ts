@@ -29,6 +29,24 @@ describe('scrubSecrets', () => {
       list: [{ secret: '[REDACTED]' }],
     });
   });
+
+  it('redacts OAuth2 credentials', () => {
+    expect(
+      scrubSecrets({
+        access_token: 'a',
+        refresh_token: 'r',
+        client_id: 'id',
+        client_secret: 's',
+        accessToken: 'a',
+      }),
+    ).toEqual({
+      access_token: '[REDACTED]',
+      refresh_token: '[REDACTED]',
+      client_id: 'id',
+      client_secret: '[REDACTED]',
+      accessToken: '[REDACTED]',
+    });
+  });
 });
 
 describe('tool contracts', () => {
@@ -164,6 +182,23 @@ describe('validateEnvironment', () => {
     const errors = validateEnvironment();
     expect(errors).toEqual(["Account 'work' is missing required env vars: MAIL_IMAP_WORK_PASS"]);
   });
+
+  it('requires a token or refresh credentials for oauth2 accounts', () => {
+    process.env = {
+      MAIL_IMAP_WORK_HOST: 'imap.example.com',
+      MAIL_IMAP_WORK_USER: 'me@example.com',
+      MAIL_IMAP_WORK_AUTH: 'oauth2',
+      MAIL_IMAP_GMAIL_HOST: 'imap.gmail.com',
+      MAIL_IMAP_GMAIL_USER: 'me@gmail.com',
+      MAIL_IMAP_GMAIL_AUTH: 'oauth2',
+      MAIL_IMAP_GMAIL_OAUTH_REFRESH_TOKEN: 'refresh',
+      MAIL_IMAP_GMAIL_OAUTH_CLIENT_ID: 'client',
+    };
+    const errors = validateEnvironment();
+    expect(errors).toEqual([
+      "Account 'work' is missing required env vars: MAIL_IMAP_WORK_ACCESS_TOKEN or MAIL_IMAP_WORK_OAUTH_REFRESH_TOKEN",
+    ]);
+  });
 });
 
 describe('getHelpText', () => {
@@ -184,6 +219,21 @@ describe('getHelpText', () => {
     expect(helpText).toContain('MAIL_IMAP_DEFAULT_PASS=<redacted> (set)');
     expect(helpText).toContain('MAIL_IMAP_WRITE_ENABLED=false (default)');
   });
+
+  it('redacts OAuth2 tokens and client secrets', () => {
+    process.env = {
+      MAIL_IMAP_DEFAULT_AUTH: 'oauth2',
+      MAIL_IMAP_DEFAULT_OAUTH_REFRESH_TOKEN: 'refresh-secret',
+      MAIL_IMAP_DEFAULT_OAUTH_CLIENT_ID: 'client-id',
+      MAIL_IMAP_DEFAULT_OAUTH_CLIENT_SECRET: 'client-secret',
+    };
+    const helpText = getHelpText();
+    expect(helpText).toContain('MAIL_IMAP_DEFAULT_AUTH=oauth2');
+    expect(helpText).toContain('MAIL_IMAP_DEFAULT_OAUTH_REFRESH_TOKEN=<redacted> (set)');
+    expect(helpText).toContain('MAIL_IMAP_DEFAULT_OAUTH_CLIENT_ID=client-id');
+    expect(helpText).not.toContain('refresh-secret');
+    expect(helpText).not.toContain('client-secret');
+  });
 });
 
 describe('PDF extraction validation', () => {
@@ -0,0 +1,190 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import { ListMailboxesInputSchema } from '../src/contracts.js';
+import type * as runtime from '../src/tools/runtime.js';
+import { handleListMailboxes } from '../src/tools/list_mailboxes.js';
+import { parseResponse, useImapClient, useTestEnv } from './helpers.js';
+
+vi.mock('../src/tools/runtime.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof runtime>()),
+  withImapClient: vi.fn(),
+}));
+
+type Entry = {
+  path: string;
+  parentPath?: string;
+  flags?: string[];
+  specialUse?: string;
+  subscribed?: boolean;
+  status?: Record<string, unknown>;
+};
+
+function useMailboxes(entries: Entry[], capabilities: string[] = []) {
+  const list = vi.fn((options: { statusQuery?: unknown }) =>
+    Promise.resolve(
+      entries.map((entry) => ({
+        delimiter: '/',
+        parentPath: '',
+        subscribed: true,
+        ...entry,
+        flags: new Set(entry.flags ?? []),
+        status: options.statusQuery ? entry.status : undefined,
+      })),
+    ),
+  );
+  const status = vi.fn((path: string) => {
+    const entry = entries.find((candidate) => candidate.path === path);
+    return entry?.status ? Promise.resolve(entry.status) : Promise.reject(new Error('NO'));
+  });
+  const client = {
+    list,
+    status,
+    capabilities: new Map(capabilities.map((name) => [name, true])),
+  };
+  useImapClient(client);
+  return { list, status };
+}
+
+async function listMailboxes(args: Record<string, unknown>): Promise<Record<string, unknown>> {
+  const result = await handleListMailboxes(
+    ListMailboxesInputSchema.parse({ account_id: 'default', ...args }),
+  );
+  return parseResponse(result);
+}
+
+function names(response: Record<string, unknown>): string[] {
+  const data = response['data'] as { mailboxes: { name: string }[] };
+  return data.mailboxes.map((mailbox) => mailbox.name);
+}
+
+describe('imap_list_mailboxes', () => {
+  useTestEnv();
+
+  it('reports special-use, subscription, and hierarchy attributes', async () => {
+    const { list } = useMailboxes([
+      { path: 'INBOX', specialUse: '\\Inbox' },
+      { path: 'Projects', flags: ['\\Noselect'], subscribed: false },
+      { path: 'Projects/2024', parentPath: 'Projects' },
+      { path: 'Deleted Items', specialUse: '\\Trash', flags: ['\\HasNoChildren'] },
+    ]);
+
+    const response = await listMailboxes({});
+    expect(list).toHaveBeenCalledWith({});
+    expect(response['_meta']).toBeUndefined();
+    expect((response['data'] as Record<string, unknown>)['mailboxes']).toEqual([
+      {
+        name: 'INBOX',
+        special_use: '\\Inbox',
+        subscribed: true,
+        noselect: false,
+        has_children: false,
+      },
+      { name: 'Projects', subscribed: false, noselect: true, has_children: true },
+      {
+        name: 'Projects/2024',
+        subscribed: true,
+        noselect: false,
+        parent: 'Projects',
+        has_children: false,
+      },
+      {
+        name: 'Deleted Items',
+        special_use: '\\Trash',
+        subscribed: true,
+        noselect: false,
+        has_children: false,
+      },
+    ]);
+  });
+
+  it('includes counts when requested and skips failed STATUS results', async () => {
+    const { list } = useMailboxes(
+      [
+        { path: 'INBOX', status: { messages: 12, unseen: 3 } },
+        { path: 'Broken', status: { error: new Error('STATUS failed') } },
+      ],
+      ['LIST-STATUS'],
+    );
+
+    const response = await listMailboxes({ include_counts: true });
+    expect(list).toHaveBeenCalledWith({ statusQuery: { messages: true, unseen: true } });
+    expect(response['_meta']).toEqual({ counts_strategy: 'list_status' });
+    const [inbox, broken] = (response['data'] as { mailboxes: Record<string, unknown>[] })
+      .mailboxes;
+    expect(inbox).toMatchObject({ message_count: 12, unread_count: 3 });
+    expect(broken).not.toHaveProperty('message_count');
+  });
+
+  it('filters by parent, LIST pattern, and subscription', async () => {
+    useMailboxes([
+      { path: 'INBOX' },
+      { path: 'Projects' },
+      { path: 'Projects/2024', parentPath: 'Projects' },
+      { path: 'Projects/2024/Q1', parentPath: 'Projects/2024', subscribed: false },
+      { path: 'Projects/2025', parentPath: 'Projects', subscribed: false },
+    ]);
+
+    expect(names(await listMailboxes({ parent: 'Projects' }))).toEqual([
+      'Projects/2024',
+      'Projects/2024/Q1',
+      'Projects/2025',
+    ]);
+    expect(names(await listMailboxes({ parent: 'Projects', pattern: '%' }))).toEqual([
+      'Projects/2024',
+      'Projects/2025',
+    ]);
+    expect(names(await listMailboxes({ pattern: 'Proj*4*' }))).toEqual([
+      'Projects/2024',
+      'Projects/2024/Q1',
+    ]);
+    expect(names(await listMailboxes({ parent: 'Projects', subscribed_only: true }))).toEqual([
+      'Projects/2024',
+    ]);
+    expect((await listMailboxes({ parent: 'Missing' }))['data']).toBeUndefined();
+  });
+
+  it('omits mailboxes the account policy denies', async () => {
+    process.env['MAIL_IMAP_DEFAULT_DENIED_MAILBOXES'] = 'Legal/*';
+    useMailboxes([
+      { path: 'INBOX' },
+      { path: 'Legal' },
+      { path: 'Legal/Contracts', parentPath: 'Legal' },
+    ]);
+
+    expect(names(await listMailboxes({}))).toEqual(['INBOX', 'Legal']);
+  });
+
+  it('pages with a cursor and fetches counts per page without LIST-STATUS', async () => {
+    const { list, status } = useMailboxes([
+      { path: 'INBOX', status: { messages: 5, unseen: 1 } },
+      { path: 'Archive', status: { messages: 50, unseen: 0 } },
+      { path: 'Projects', flags: ['\\Noselect'] },
+      { path: 'Projects/2024', parentPath: 'Projects', status: { messages: 7, unseen: 2 } },
+    ]);
+
+    const first = await listMailboxes({ include_counts: true, limit: 2, tree: true });
+    expect(list).toHaveBeenCalledWith({});
+    expect(status).toHaveBeenCalledTimes(2);
+    expect(first['_meta']).toEqual({ counts_strategy: 'status' });
+    const firstData = first['data'] as Record<string, unknown>;
+    expect(firstData).toMatchObject({ total: 4, has_more: true });
+    expect(names(first)).toEqual(['INBOX', 'Archive']);
+
+    const second = await listMailboxes({ cursor: firstData['next_cursor'], limit: 2 });
+    expect(list).toHaveBeenCalledTimes(1);
+    expect(second['data']).toMatchObject({
+      has_more: false,
+      mailboxes: [
+        {
+          name: 'Projects',
+          noselect: true,
+          children: [{ name: 'Projects/2024', message_count: 7, unread_count: 2, children: [] }],
+        },
+      ],
+    });
+    expect(status).toHaveBeenCalledTimes(3);
+
+    const expired = await listMailboxes({ cursor: firstData['next_cursor'] });
+    expect(expired['data']).toBeUndefined();
+  });
+});
@@ -0,0 +1,128 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import type * as runtime from '../src/tools/runtime.js';
+import { handleCreateMailbox } from '../src/tools/create_mailbox.js';
+import { handleDeleteMailbox } from '../src/tools/delete_mailbox.js';
+import { handleRenameMailbox } from '../src/tools/rename_mailbox.js';
+import { handleSubscribeMailbox } from '../src/tools/subscribe_mailbox.js';
+import { listedMailbox, parseData, useImapClient, useTestEnv } from './helpers.js';
+
+vi.mock('../src/tools/runtime.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof runtime>()),
+  withImapClient: vi.fn(),
+}));
+
+function fakeClient(messages: Record<string, number>) {
+  return {
+    list: vi.fn(() =>
+      Promise.resolve([
+        listedMailbox('INBOX', { delimiter: '.' }),
+        listedMailbox('INBOX.Projects', { delimiter: '.' }),
+        listedMailbox('INBOX.Projects.2024', { delimiter: '.' }),
+        listedMailbox('INBOX.Empty', { delimiter: '.' }),
+        listedMailbox('INBOX.Leaf', { delimiter: '.', flags: ['\\Noinferiors'] }),
+      ]),
+    ),
+    status: vi.fn((path: string) => Promise.resolve({ path, messages: messages[path] ?? 0 })),
+    mailboxCreate: vi.fn((path: string) => Promise.resolve({ path, created: true })),
+    mailboxRename: vi.fn((path: string, newPath: string) => Promise.resolve({ path, newPath })),
+    mailboxDelete: vi.fn((path: string) => Promise.resolve({ path })),
+    mailboxSubscribe: vi.fn(() => Promise.resolve(true)),
+  };
+}
+
+describe('mailbox management', () => {
+  useTestEnv();
+
+  it("creates child mailboxes with the parent's delimiter", async () => {
+    const client = fakeClient({});
+    useImapClient(client);
+
+    const result = await handleCreateMailbox({
+      account_id: 'default',
+      mailbox: '2025',
+      parent: 'INBOX.Projects',
+    });
+    expect(result.isError).toBe(false);
+    expect(client.mailboxCreate).toHaveBeenCalledWith('INBOX.Projects.2025');
+    expect(parseData(result)).toMatchObject({ mailbox: 'INBOX.Projects.2025', created: true });
+
+    const existing = await handleCreateMailbox({
+      account_id: 'default',
+      mailbox: '2024',
+      parent: 'INBOX.Projects',
+    });
+    expect(parseData(existing)).toMatchObject({ created: false });
+
+    const leaf = await handleCreateMailbox({
+      account_id: 'default',
+      mailbox: 'Child',
+      parent: 'INBOX.Leaf',
+    });
+    expect(leaf.isError).toBe(true);
+    expect(client.mailboxCreate).toHaveBeenCalledTimes(1);
+  });
+
+  it('refuses to delete non-empty mailboxes unless forced', async () => {
+    const client = fakeClient({ 'INBOX.Projects': 3 });
+    useImapClient(client);
+
+    const refused = await handleDeleteMailbox({
+      account_id: 'default',
+      mailbox: 'INBOX.Projects',
+      force: false,
+      confirm: true,
+    });
+    expect(refused.isError).toBe(true);
+    expect(refused.content[0]?.text).toContain('3 messages and 1 child mailboxes');
+    expect(client.mailboxDelete).not.toHaveBeenCalled();
+
+    const forced = await handleDeleteMailbox({
+      account_id: 'default',
+      mailbox: 'INBOX.Projects',
+      force: true,
+      confirm: true,
+    });
+    expect(parseData(forced)).toMatchObject({ messages: 3, child_mailboxes: 1 });
+
+    const empty = await handleDeleteMailbox({
+      account_id: 'default',
+      mailbox: 'INBOX.Empty',
+      force: false,
+      confirm: true,
+    });
+    expect(empty.isError).toBe(false);
+    expect(client.mailboxDelete).toHaveBeenCalledTimes(2);
+  });
+
+  it('refuses to rename INBOX or onto an existing mailbox', async () => {
+    const client = fakeClient({});
+    useImapClient(client);
+
+    const inbox = await handleRenameMailbox({
+      account_id: 'default',
+      mailbox: 'inbox',
+      new_mailbox: 'Old',
+    });
+    expect(inbox.isError).toBe(true);
+
+    const taken = await handleRenameMailbox({
+      account_id: 'default',
+      mailbox: 'INBOX.Empty',
+      new_mailbox: 'INBOX.Projects',
+    });
+    expect(taken.isError).toBe(true);
+    expect(client.mailboxRename).not.toHaveBeenCalled();
+  });
+
+  it('only subscribes to existing mailboxes', async () => {
+    const client = fakeClient({});
+    useImapClient(client);
+
+    const missing = await handleSubscribeMailbox({ account_id: 'default', mailbox: 'Nope' });
+    expect(missing.isError).toBe(true);
+
+    const result = await handleSubscribeMailbox({ account_id: 'default', mailbox: 'INBOX.Empty' });
+    expect(parseData(result)).toMatchObject({ mailbox: 'INBOX.Empty', subscribed: true });
+  });
+});
@@ -0,0 +1,93 @@
+import { EventEmitter } from 'node:events';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { ImapFlow } from 'imapflow';
+
+import type { AccountConfig } from '../src/config.js';
+import { MailboxWatcher } from '../src/mailbox-watcher.js';
+
+class FakeClient extends EventEmitter {
+  connect = vi.fn(() => Promise.resolve());
+  mailboxOpen = vi.fn(() => Promise.resolve());
+  logout = vi.fn(() => Promise.resolve());
+  close = vi.fn(() => undefined);
+}
+
+const account: AccountConfig = {
+  host: 'imap.example.com',
+  port: 993,
+  secure: true,
+  user: 'user',
+  pass: 'pass',
+};
+
+function createWatcher(max_watches = 2): { watcher: MailboxWatcher; created: FakeClient[] } {
+  const created: FakeClient[] = [];
+  const watcher = new MailboxWatcher(
+    { max_watches, debounce_ms: 100, reconnect_delay_ms: 1_000, max_reconnect_delay_ms: 4_000 },
+    () => {
+      const client = new FakeClient();
+      created.push(client);
+      return client as unknown as ImapFlow;
+    },
+  );
+  return { watcher, created };
+}
+
+describe('MailboxWatcher', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('coalesces mailbox events into one change notification', async () => {
+    vi.useFakeTimers();
+    const { watcher, created } = createWatcher();
+    const onChange = vi.fn();
+    await watcher.watch('imap://default/mailbox/INBOX', account, 'INBOX', onChange);
+    const [client] = created;
+    expect(client?.mailboxOpen).toHaveBeenCalledWith('INBOX', { readOnly: true });
+
+    client?.emit('exists', { path: 'INBOX', count: 3, prevCount: 2 });
+    client?.emit('flags', { path: 'INBOX', seq: 3 });
+    client?.emit('exists', { path: 'Other', count: 1, prevCount: 0 });
+    await vi.advanceTimersByTimeAsync(100);
+    expect(onChange).toHaveBeenCalledTimes(1);
+
+    client?.emit('expunge', { path: 'INBOX', seq: 1 });
+    await vi.advanceTimersByTimeAsync(100);
+    expect(onChange).toHaveBeenCalledTimes(2);
+  });
+
+  it('reconnects dropped connections and reports a change afterwards', async () => {
+    vi.useFakeTimers();
+    const { watcher, created } = createWatcher();
+    const onChange = vi.fn();
+    await watcher.watch('inbox', account, 'INBOX', onChange);
+    created[0]?.emit('close');
+
+    await vi.advanceTimersByTimeAsync(1_000);
+    expect(created).toHaveLength(2);
+    await vi.advanceTimersByTimeAsync(100);
+    expect(onChange).toHaveBeenCalledTimes(1);
+  });
+
+  it('enforces the watch limit and releases connections on unwatch', async () => {
+    const { watcher, created } = createWatcher(1);
+    expect(await watcher.watch('a', account, 'INBOX', vi.fn())).toEqual({ ok: true });
+    expect(await watcher.watch('a', account, 'INBOX', vi.fn())).toEqual({ ok: true });
+    expect(await watcher.watch('b', account, 'Archive', vi.fn())).toHaveProperty('error');
+
+    expect(await watcher.unwatch('a')).toBe(true);
+    expect(created[0]?.logout).toHaveBeenCalledTimes(1);
+    expect(watcher.keys()).toEqual([]);
+    expect(await watcher.unwatch('a')).toBe(false);
+  });
+
+  it('does not keep a watch whose mailbox cannot be opened', async () => {
+    const { watcher, created } = createWatcher();
+    const pending = watcher.watch('a', account, 'Missing', vi.fn());
+    created[0]?.mailboxOpen.mockRejectedValueOnce(new Error('Mailbox does not exist'));
+    await expect(pending).rejects.toThrow('Mailbox does not exist');
+    expect(created[0]?.close).toHaveBeenCalledTimes(1);
+    expect(watcher.keys()).toEqual([]);
+  });
+});
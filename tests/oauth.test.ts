@@ -0,0 +1,125 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { loadAccountConfig } from '../src/config.js';
+import { getAccessToken } from '../src/oauth.js';
+
+function tokenResponse(body: Record<string, unknown>, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'content-type': 'application/json' },
+  });
+}
+
+describe('loadAccountConfig with AUTH=oauth2', () => {
+  const originalEnv = process.env;
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  it('loads refresh credentials and infers the token URL for known providers', () => {
+    process.env = {
+      MAIL_IMAP_WORK_HOST: 'outlook.office365.com',
+      MAIL_IMAP_WORK_USER: 'me@company.com',
+      MAIL_IMAP_WORK_AUTH: 'oauth2',
+      MAIL_IMAP_WORK_OAUTH_REFRESH_TOKEN: 'refresh',
+      MAIL_IMAP_WORK_OAUTH_CLIENT_ID: 'client',
+    };
+    expect(loadAccountConfig('work')).toEqual({
+      host: 'outlook.office365.com',
+      port: 993,
+      secure: true,
+      user: 'me@company.com',
+      oauth2: {
+        access_token: undefined,
+        refresh_token: 'refresh',
+        client_id: 'client',
+        client_secret: undefined,
+        token_url: 'https://login.microsoftonline.com/common/oauth2/v2.0/token',
+        scope: undefined,
+      },
+    });
+  });
+
+  it('rejects oauth2 accounts without a usable token source', () => {
+    process.env = {
+      MAIL_IMAP_WORK_HOST: 'imap.example.com',
+      MAIL_IMAP_WORK_USER: 'me@example.com',
+      MAIL_IMAP_WORK_AUTH: 'oauth2',
+      MAIL_IMAP_WORK_OAUTH_REFRESH_TOKEN: 'refresh',
+      MAIL_IMAP_WORK_OAUTH_CLIENT_ID: 'client',
+    };
+    expect(loadAccountConfig('work')).toBeNull();
+  });
+});
+
+describe('getAccessToken', () => {
+  const fetchMock = vi.fn<typeof fetch>();
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+  });
+
+  it('returns a static access token without refreshing', async () => {
+    await expect(getAccessToken({ access_token: 'static' })).resolves.toBe('static');
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('caches refreshed tokens and refreshes again before expiry with the rotated token', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const config = {
+      refresh_token: 'refresh-1',
+      client_id: 'client',
+      client_secret: 'secret',
+      token_url: 'https://login.example.com/token',
+    };
+    fetchMock
+      .mockResolvedValueOnce(
+        tokenResponse({ access_token: 'access-1', expires_in: 3600, refresh_token: 'refresh-2' }),
+      )
+      .mockResolvedValueOnce(tokenResponse({ access_token: 'access-2', expires_in: 3600 }));
+
+    const [first, concurrent] = await Promise.all([getAccessToken(config), getAccessToken(config)]);
+    expect([first, concurrent]).toEqual(['access-1', 'access-1']);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    const body = fetchMock.mock.calls[0]?.[1]?.body as URLSearchParams;
+    expect(Object.fromEntries(body)).toEqual({
+      grant_type: 'refresh_token',
+      refresh_token: 'refresh-1',
+      client_id: 'client',
+      client_secret: 'secret',
+    });
+
+    vi.setSystemTime(Date.now() + 50 * 60_000);
+    await expect(getAccessToken(config)).resolves.toBe('access-1');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    // Within the refresh margin, a new token is requested with the rotated refresh token
+    vi.setSystemTime(Date.now() + 6 * 60_000);
+    await expect(getAccessToken(config)).resolves.toBe('access-2');
+    const refreshed = fetchMock.mock.calls[1]?.[1]?.body as URLSearchParams;
+    expect(refreshed.get('refresh_token')).toBe('refresh-2');
+  });
+
+  it('reports refresh failures without exposing credentials', async () => {
+    fetchMock.mockResolvedValueOnce(
+      tokenResponse({ error: 'invalid_grant', error_description: 'Token refresh-x expired' }, 400),
+    );
+    const error = await getAccessToken({
+      refresh_token: 'refresh-x',
+      client_id: 'client',
+      token_url: 'https://login.example.com/token',
+    }).catch((caught: unknown) => caught);
+    expect(error).toMatchObject({
+      code: 'EOAUTH',
+      oauth_error: 'invalid_grant',
+      message: 'OAuth2 token refresh failed (invalid_grant).',
+    });
+  });
+});
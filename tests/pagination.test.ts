@@ -1,6 +1,8 @@
 import { describe, expect, it, vi } from 'vitest';
 import {
   CursorStore,
+  mergeSourcePage,
+  sliceCursorUids,
   sliceUidsFromDescendingRanges,
   uidsToDescendingRanges,
 } from '../src/pagination.js';
@@ -25,6 +27,23 @@ describe('CursorStore', () => {
     expect(updated?.offset).toBe(2);
   });
 
+  it('keeps mailbox list cursors apart from search cursors', () => {
+    const store = new CursorStore({ ttl_ms: 60_000, max_entries: 5 });
+    const cursor = store.createMailboxListCursor({
+      tool: 'imap_list_mailboxes',
+      account_id: 'default',
+      mailboxes: [{ name: 'INBOX', subscribed: true, noselect: false, has_children: false }],
+      tree: false,
+      offset: 0,
+      total: 1,
+    });
+
+    expect(store.getSearchCursor(cursor.id)).toBeNull();
+    expect(store.updateMailboxListCursor(cursor.id, 1)?.offset).toBe(1);
+    expect(store.updateMailboxListCursor(cursor.id, 2)).toBeNull();
+    expect(store.getMailboxListCursor(cursor.id)).toBeNull();
+  });
+
   it('expires cursors after ttl', () => {
     vi.useFakeTimers();
     const store = new CursorStore({ ttl_ms: 1000, max_entries: 5 });
@@ -123,4 +142,63 @@ describe('CursorStore', () => {
     expect(sliceUidsFromDescendingRanges(ranges, 2, 2)).toEqual([10, 7]);
     expect(sliceUidsFromDescendingRanges(ranges, 5, 5)).toEqual([3]);
   });
+
+  it('slices sorted cursors in their stored order', () => {
+    const store = new CursorStore({ ttl_ms: 60_000, max_entries: 5 });
+    const cursor = store.createSearchCursor({
+      tool: 'imap_search_messages',
+      account_id: 'default',
+      mailbox: 'INBOX',
+      uidvalidity: 1,
+      uid_ranges: [],
+      sort: { field: 'subject', order: 'asc' },
+      ordered_uids: [7, 3, 12, 6],
+      offset: 2,
+      total: 4,
+      include_snippet: false,
+      snippet_max_chars: 200,
+    });
+
+    expect(sliceCursorUids(cursor, 2, 10)).toEqual([12, 6]);
+    expect(store.getSearchCursor(cursor.id)?.sort).toEqual({ field: 'subject', order: 'asc' });
+  });
+
+  it('merges multi-mailbox sources newest first and resumes from offsets', () => {
+    const source = (mailbox: string, dates: number[]) => ({
+      account_id: 'default',
+      mailbox,
+      uidvalidity: 1,
+      matches: dates.map((date_ms, index) => ({ uid: 100 - index, date_ms })),
+      offset: 0,
+    });
+    const sources = [source('INBOX', [50, 30, 10]), source('Archive', [40, 30, 20])];
+
+    const first = mergeSourcePage(sources, 4);
+    expect(first.page).toEqual([
+      { source: 0, uid: 100 },
+      { source: 1, uid: 100 },
+      { source: 0, uid: 99 },
+      { source: 1, uid: 99 },
+    ]);
+    expect(first.offsets).toEqual([2, 2]);
+
+    const store = new CursorStore({ ttl_ms: 60_000, max_entries: 5 });
+    const cursor = store.createSearchCursor({
+      tool: 'imap_search_messages',
+      account_id: 'default',
+      mailbox: '*',
+      uidvalidity: 0,
+      uid_ranges: [],
+      offset: 0,
+      total: 6,
+      include_snippet: false,
+      snippet_max_chars: 200,
+      sources,
+    });
+    const updated = store.updateSearchCursor(cursor.id, 4, first.offsets);
+    expect(mergeSourcePage(updated?.sources ?? [], 4).page).toEqual([
+      { source: 1, uid: 98 },
+      { source: 0, uid: 98 },
+    ]);
+  });
 });
@@ -0,0 +1,218 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { getListedTools } from '../src/handler.js';
+import { evaluateMailboxPolicy, evaluateToolPolicy } from '../src/policy.js';
+
+function account(id: string, options: Record<string, string> = {}): Record<string, string> {
+  const prefix = `MAIL_IMAP_${id.toUpperCase()}_`;
+  return {
+    [`${prefix}HOST`]: 'imap.example.com',
+    [`${prefix}USER`]: `${id}@example.com`,
+    [`${prefix}PASS`]: 'secret',
+    ...Object.fromEntries(Object.entries(options).map(([key, value]) => [prefix + key, value])),
+  };
+}
+
+describe('account policies', () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = {
+      ...account('work', { ALLOWED_MAILBOXES: 'INBOX,Projects' }),
+      ...account('archive', { READ_ONLY: 'true', DENIED_TOOLS: 'imap_search_messages' }),
+      ...account('shared', {
+        DENIED_TOOLS: 'imap_delete_*,imap_get_message_raw',
+        DENIED_MAILBOXES: 'Legal/*',
+        MAX_MESSAGES_PER_CALL: '10',
+      }),
+      ...account('reports', {
+        ALLOWED_TOOLS: 'imap_list_mailboxes,imap_search_messages,imap_get_message',
+      }),
+    };
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  it('enforces read-only accounts and mailbox allowlists', () => {
+    expect(
+      evaluateToolPolicy('imap_update_message_flags', {
+        account_id: 'archive',
+        message_id: 'imap:archive:INBOX:1:2',
+      }),
+    ).toBe("Account 'archive' is read-only.");
+    expect(
+      evaluateToolPolicy('imap_get_message', {
+        account_id: 'archive',
+        message_id: 'imap:archive:INBOX:1:2',
+      }),
+    ).toBeUndefined();
+
+    expect(
+      evaluateToolPolicy('imap_search_messages', { account_id: 'work', mailbox: 'inbox' }),
+    ).toBeUndefined();
+    expect(
+      evaluateToolPolicy('imap_move_message', {
+        account_id: 'work',
+        message_id: 'imap:work:Projects:1:2',
+        destination_mailbox: 'Personal',
+      }),
+    ).toBe("Mailbox 'Personal' is not allowed for account 'work'.");
+    expect(
+      evaluateToolPolicy('imap_search_messages', {
+        account_id: 'work',
+        mailbox: 'INBOX',
+        mailboxes: 'all',
+      }),
+    ).toContain('list them instead of "all"');
+  });
+
+  it('enforces tool and mailbox deny lists and message limits', () => {
+    expect(
+      evaluateToolPolicy('imap_delete_message', {
+        account_id: 'shared',
+        message_id: 'imap:shared:INBOX:1:2',
+      }),
+    ).toBe("Tool 'imap_delete_message' is not allowed for account 'shared'.");
+    expect(
+      evaluateToolPolicy('imap_delete_message', {
+        account_id: 'reports',
+        message_id: 'imap:reports:INBOX:1:2',
+      }),
+    ).toBe("Tool 'imap_delete_message' is not allowed for account 'reports'.");
+
+    expect(
+      evaluateToolPolicy('imap_get_message', {
+        account_id: 'shared',
+        message_id: 'imap:shared:Legal/Contracts:1:2',
+      }),
+    ).toBe("Mailbox 'Legal/Contracts' is not allowed for account 'shared'.");
+    expect(
+      evaluateToolPolicy('imap_get_message', {
+        account_id: 'shared',
+        message_id: 'imap:shared:Legal:1:2',
+      }),
+    ).toBeUndefined();
+
+    expect(
+      evaluateToolPolicy('imap_update_message_flags', {
+        account_id: 'shared',
+        message_ids: Array.from({ length: 11 }, (_, uid) => `imap:shared:INBOX:1:${uid + 1}`),
+      }),
+    ).toContain('At most 10 messages may be changed per call');
+    expect(
+      evaluateToolPolicy('imap_apply_to_search', {
+        account_id: 'shared',
+        mailbox: 'INBOX',
+        max_messages: 100,
+      }),
+    ).toBe('At most 10 messages may be changed per call; set max_messages to 10 or less.');
+  });
+
+  it('refuses renaming or deleting a mailbox above a denied mailbox', () => {
+    expect(
+      evaluateToolPolicy('imap_rename_mailbox', {
+        account_id: 'shared',
+        mailbox: 'Legal',
+        new_mailbox: 'Open',
+      }),
+    ).toBe("Mailbox 'Legal' contains mailboxes that are not allowed for account 'shared'.");
+    process.env['MAIL_IMAP_SHARED_DENIED_TOOLS'] = 'imap_get_message_raw';
+    expect(
+      evaluateToolPolicy('imap_delete_mailbox', { account_id: 'shared', mailbox: 'Legal' }),
+    ).toBe("Mailbox 'Legal' contains mailboxes that are not allowed for account 'shared'.");
+    expect(
+      evaluateToolPolicy('imap_rename_mailbox', {
+        account_id: 'shared',
+        mailbox: 'Legalese',
+        new_mailbox: 'Open',
+      }),
+    ).toBeUndefined();
+    expect(
+      evaluateToolPolicy('imap_create_mailbox', { account_id: 'shared', mailbox: 'Legal' }),
+    ).toBeUndefined();
+  });
+
+  it('checks every account of a multi-account search', () => {
+    expect(
+      evaluateToolPolicy('imap_search_messages', {
+        account_id: 'default',
+        account_ids: ['reports', 'shared'],
+        mailbox: 'INBOX',
+      }),
+    ).toBeUndefined();
+    expect(
+      evaluateToolPolicy('imap_search_messages', {
+        account_id: 'default',
+        account_ids: ['reports', 'archive'],
+        mailbox: 'INBOX',
+      }),
+    ).toBe("Tool 'imap_search_messages' is not allowed for account 'archive'.");
+    expect(
+      evaluateToolPolicy('imap_search_messages', {
+        account_id: 'default',
+        account_ids: 'all',
+        mailbox: 'INBOX',
+      }),
+    ).toBe("Tool 'imap_search_messages' is not allowed for account 'archive'.");
+    expect(
+      evaluateToolPolicy('imap_search_messages', {
+        account_id: 'default',
+        account_ids: ['reports', 'shared'],
+        mailbox: 'Legal/Contracts',
+      }),
+    ).toBe("Mailbox 'Legal/Contracts' is not allowed for account 'shared'.");
+    expect(
+      evaluateToolPolicy('imap_search_messages', {
+        account_id: 'default',
+        account_ids: ['reports', 'shared'],
+        mailbox: 'INBOX',
+        mailboxes: 'all',
+      }),
+    ).toBe(`Account 'shared' restricts mailboxes; list them instead of "all".`);
+    // Special-use attributes are checked once the search resolves them to a mailbox
+    expect(
+      evaluateToolPolicy('imap_search_messages', {
+        account_id: 'work',
+        mailbox: 'INBOX',
+        mailboxes: ['\\Sent'],
+      }),
+    ).toBeUndefined();
+  });
+
+  it('treats Gmail labels and resource mailboxes as mailboxes', () => {
+    expect(
+      evaluateToolPolicy('imap_update_message_labels', {
+        account_id: 'shared',
+        message_id: 'imap:shared:INBOX:1:2',
+        add_labels: ['Legal/Hold'],
+      }),
+    ).toBe("Mailbox 'Legal/Hold' is not allowed for account 'shared'.");
+    expect(
+      evaluateToolPolicy('imap_update_message_labels', {
+        account_id: 'work',
+        message_id: 'imap:work:INBOX:1:2',
+        remove_labels: ['\\Inbox'],
+      }),
+    ).toBeUndefined();
+
+    expect(evaluateMailboxPolicy('shared', 'Legal/Contracts')).toBe(
+      "Mailbox 'Legal/Contracts' is not allowed for account 'shared'.",
+    );
+    expect(evaluateMailboxPolicy('work', 'inbox')).toBeUndefined();
+    expect(evaluateMailboxPolicy('unknown', 'Legal/Contracts')).toBeUndefined();
+  });
+
+  it('hides tools that no configured account permits', () => {
+    process.env = {
+      ...account('shared', { DENIED_TOOLS: 'imap_get_message_raw' }),
+      ...account('reports', { ALLOWED_TOOLS: 'imap_get_message' }),
+    };
+
+    const names = getListedTools().map((tool) => tool.name);
+    expect(names).toContain('imap_list_accounts');
+    expect(names).toContain('imap_get_message');
+    expect(names).not.toContain('imap_get_message_raw');
+  });
+});
@@ -6,8 +6,10 @@ import {
   attachmentTextResourceUri,
   decodeMailboxSegment,
   encodeMailboxSegment,
+  mailboxResourceUri,
   messageRawResourceUri,
   messageResourceUri,
+  parseMailboxResourceUri,
 } from '../src/resources/uri.js';
 
 describe('resources uri helpers', () => {
@@ -49,4 +51,14 @@ describe('resources uri helpers', () => {
     expect(match?.['uidvalidity']).toBe('999');
     expect(match?.['uid']).toBe('7');
   });
+
+  it('builds and parses mailbox URIs', () => {
+    const uri = mailboxResourceUri({ account_id: 'work', mailbox: 'Work/Projects' });
+    expect(uri).toBe('imap://work/mailbox/Work%2FProjects');
+    expect(parseMailboxResourceUri(uri)).toEqual({ account_id: 'work', mailbox: 'Work/Projects' });
+    expect(parseMailboxResourceUri('imap://work/mailbox/INBOX/message/1/2')).toBeNull();
+
+    const t = new ResourceTemplate('imap://{account_id}/mailbox/{mailbox}', { list: undefined });
+    expect(t.uriTemplate.match('imap://default/mailbox/INBOX/message/999/7')).toBeNull();
+  });
 });
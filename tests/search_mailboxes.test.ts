@@ -0,0 +1,65 @@
+import type { ImapFlow } from 'imapflow';
+import { describe, expect, it } from 'vitest';
+
+import { resolveSearchMailboxes } from '../src/utils/mailbox.js';
+import { listedMailbox } from './helpers.js';
+
+function fakeClient(
+  mailboxes: Array<{ path: string; specialUse?: string; flags?: string[] }>,
+): ImapFlow {
+  return {
+    list: () => Promise.resolve(mailboxes.map((mailbox) => listedMailbox(mailbox.path, mailbox))),
+  } as unknown as ImapFlow;
+}
+
+describe('resolveSearchMailboxes', () => {
+  it('resolves names and special-use attributes', async () => {
+    const client = fakeClient([
+      { path: 'INBOX', specialUse: '\\Inbox' },
+      { path: 'Archive', specialUse: '\\Archive' },
+      { path: 'Sent Items', specialUse: '\\Sent' },
+      { path: 'Projects' },
+    ]);
+
+    await expect(
+      resolveSearchMailboxes(client, ['\\Inbox', '\\sent', 'Projects', '\\Drafts', 'INBOX']),
+    ).resolves.toEqual({
+      mailboxes: ['INBOX', 'Sent Items', 'Projects'],
+      unresolved: ['\\Drafts'],
+    });
+  });
+
+  it('uses Gmail All Mail instead of label mailboxes for "all"', async () => {
+    const client = fakeClient([
+      { path: 'INBOX', specialUse: '\\Inbox' },
+      { path: '[Gmail]', flags: ['\\Noselect'] },
+      { path: '[Gmail]/All Mail', specialUse: '\\All' },
+      { path: '[Gmail]/Sent Mail', specialUse: '\\Sent' },
+      { path: '[Gmail]/Spam', specialUse: '\\Junk' },
+      { path: '[Gmail]/Trash', specialUse: '\\Trash' },
+      { path: 'Receipts' },
+    ]);
+
+    await expect(resolveSearchMailboxes(client, 'all')).resolves.toEqual({
+      mailboxes: ['[Gmail]/Spam', '[Gmail]/Trash', '[Gmail]/All Mail'],
+      unresolved: [],
+    });
+    await expect(resolveSearchMailboxes(client, ['\\All', 'Receipts'])).resolves.toEqual({
+      mailboxes: ['Receipts', '[Gmail]/All Mail'],
+      unresolved: [],
+    });
+  });
+
+  it('searches every selectable mailbox without All Mail', async () => {
+    const client = fakeClient([
+      { path: 'INBOX' },
+      { path: 'Lists', flags: ['\\Noselect'] },
+      { path: 'Lists/Dev' },
+    ]);
+
+    await expect(resolveSearchMailboxes(client, 'all')).resolves.toEqual({
+      mailboxes: ['INBOX', 'Lists/Dev'],
+      unresolved: [],
+    });
+  });
+});
@@ -0,0 +1,66 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import { SearchMessagesInputSchema } from '../src/contracts.js';
+import type * as runtime from '../src/tools/runtime.js';
+import { handleMultiMailboxSearch } from '../src/tools/search_multi.js';
+import { listedMailbox, parseResponse, useImapClient } from './helpers.js';
+
+vi.mock('../src/tools/runtime.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof runtime>()),
+  withImapClient: vi.fn(),
+}));
+
+describe('handleMultiMailboxSearch', () => {
+  const originalEnv = process.env;
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  it('refuses "all" accounts when more than can be searched at once are configured', async () => {
+    process.env = {};
+    for (let index = 0; index < 11; index += 1) {
+      process.env[`MAIL_IMAP_ACCOUNT${index}_HOST`] = 'imap.example.com';
+      process.env[`MAIL_IMAP_ACCOUNT${index}_USER`] = `user${index}`;
+      process.env[`MAIL_IMAP_ACCOUNT${index}_PASS`] = 'pass';
+    }
+
+    const result = await handleMultiMailboxSearch(
+      SearchMessagesInputSchema.parse({ account_ids: 'all', mailbox: 'INBOX' }),
+    );
+    expect(result.isError).toBe(true);
+    expect(parseResponse(result)).toMatchObject({
+      summary:
+        'account_ids "all" covers 11 accounts, but at most 10 can be searched at once. List at most 10 account IDs to search instead.',
+      hints: [{ tool: 'imap_list_accounts' }],
+    });
+  });
+
+  it('checks special-use mailboxes against the account policy once resolved', async () => {
+    process.env = {
+      MAIL_IMAP_DEFAULT_HOST: 'imap.example.com',
+      MAIL_IMAP_DEFAULT_USER: 'user',
+      MAIL_IMAP_DEFAULT_PASS: 'pass',
+      MAIL_IMAP_DEFAULT_DENIED_MAILBOXES: 'Sent Items',
+    };
+    const client = {
+      list: vi.fn(() =>
+        Promise.resolve([
+          listedMailbox('INBOX'),
+          listedMailbox('Sent Items', { specialUse: '\\Sent' }),
+        ]),
+      ),
+      getMailboxLock: vi.fn(),
+    };
+    useImapClient(client);
+
+    const result = await handleMultiMailboxSearch(
+      SearchMessagesInputSchema.parse({ mailbox: 'INBOX', mailboxes: ['INBOX', '\\Sent'] }),
+    );
+    expect(result.isError).toBe(true);
+    expect(parseResponse(result)).toMatchObject({
+      summary: "Mailbox 'Sent Items' is not allowed for account 'default'.",
+    });
+    expect(client.getMailboxLock).not.toHaveBeenCalled();
+  });
+});
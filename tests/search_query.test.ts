@@ -0,0 +1,166 @@
+import { describe, expect, it } from 'vitest';
+
+import { SearchMessagesInputSchema } from '../src/contracts.js';
+import { buildSearchQuery } from '../src/tools/runtime.js';
+import { hasAttachmentParts } from '../src/utils/attachments.js';
+
+describe('buildSearchQuery', () => {
+  it('maps flag, size, address, and header filters', () => {
+    expect(
+      buildSearchQuery({
+        cc: 'team@example.com',
+        bcc: 'audit@example.com',
+        header: { name: 'List-Id', value: 'announce.example.com' },
+        flagged: true,
+        answered: false,
+        draft: false,
+        deleted: false,
+        larger_than: 1000,
+        smaller_than: 50_000,
+      }),
+    ).toEqual({
+      cc: 'team@example.com',
+      bcc: 'audit@example.com',
+      header: { 'List-Id': 'announce.example.com' },
+      flagged: true,
+      answered: false,
+      draft: false,
+      deleted: false,
+      larger: 1000,
+      smaller: 50_000,
+    });
+  });
+
+  it('nests repeated keyword terms into a conjunction', () => {
+    expect(
+      buildSearchQuery({ keywords: ['$Work', '$Urgent'], exclude_keywords: ['$Done'] }),
+    ).toEqual({ keyword: '$Work', unKeyword: '$Done', or: [{ keyword: '$Urgent' }] });
+  });
+
+  it('replaces keywords the mailbox cannot store with their outcome', () => {
+    const none = (): boolean => false;
+
+    expect(buildSearchQuery({ keywords: ['$Work'] }, none)).toEqual({ not: { all: true } });
+    expect(buildSearchQuery({ exclude_keywords: ['$Work'] }, none)).toEqual({ all: true });
+  });
+
+  it('compiles any_of and none_of groups to OR and NOT', () => {
+    expect(
+      buildSearchQuery({
+        unread_only: true,
+        any_of: [{ from: 'alice@example.com' }, { from: 'bob@example.com' }],
+        none_of: [{ subject: 'newsletter' }],
+      }),
+    ).toEqual({
+      seen: false,
+      not: { subject: 'newsletter' },
+      or: [{ or: [{ from: 'alice@example.com' }, { from: 'bob@example.com' }] }],
+    });
+  });
+
+  it('expresses multi-criteria groups as a single key', () => {
+    expect(
+      buildSearchQuery({
+        any_of: [{ from: 'alice@example.com', flagged: true }, { subject: 'urgent' }],
+        none_of: [{ from: 'noreply@example.com' }, { subject: 'digest' }],
+      }),
+    ).toEqual({
+      not: { or: [{ from: 'noreply@example.com' }, { subject: 'digest' }] },
+      or: [
+        {
+          or: [
+            {
+              not: {
+                or: [{ not: { from: 'alice@example.com' } }, { not: { flagged: true } }],
+              },
+            },
+            { subject: 'urgent' },
+          ],
+        },
+      ],
+    });
+  });
+});
+
+describe('SearchMessagesInputSchema filters', () => {
+  it('rejects contradictory size and keyword filters', () => {
+    expect(
+      SearchMessagesInputSchema.safeParse({ mailbox: 'INBOX', larger_than: 100, smaller_than: 200 })
+        .success,
+    ).toBe(true);
+    expect(
+      SearchMessagesInputSchema.safeParse({ mailbox: 'INBOX', larger_than: 100, smaller_than: 101 })
+        .success,
+    ).toBe(false);
+    expect(
+      SearchMessagesInputSchema.safeParse({
+        mailbox: 'INBOX',
+        keywords: ['$Work'],
+        exclude_keywords: ['$Work'],
+      }).success,
+    ).toBe(false);
+    expect(
+      SearchMessagesInputSchema.safeParse({ mailbox: 'INBOX', keywords: ['\\Flagged'] }).success,
+    ).toBe(false);
+    expect(
+      SearchMessagesInputSchema.safeParse({
+        mailbox: 'INBOX',
+        header: { name: 'X-Spam:', value: 'yes' },
+      }).success,
+    ).toBe(false);
+  });
+
+  it('bounds group nesting and rejects empty groups', () => {
+    const nest = (depth: number): Record<string, unknown> =>
+      depth === 0 ? { from: 'alice@example.com' } : { any_of: [nest(depth - 1)] };
+
+    expect(SearchMessagesInputSchema.safeParse({ mailbox: 'INBOX', ...nest(3) }).success).toBe(
+      true,
+    );
+    expect(SearchMessagesInputSchema.safeParse({ mailbox: 'INBOX', ...nest(4) }).success).toBe(
+      false,
+    );
+    expect(SearchMessagesInputSchema.safeParse({ mailbox: 'INBOX', any_of: [{}] }).success).toBe(
+      false,
+    );
+    const wide = Array.from({ length: 5 }, () => ({
+      any_of: [nest(0), nest(0), nest(0), nest(0)],
+    }));
+    expect(SearchMessagesInputSchema.safeParse({ mailbox: 'INBOX', any_of: wide }).success).toBe(
+      false,
+    );
+    expect(
+      SearchMessagesInputSchema.safeParse({ mailbox: 'INBOX', none_of: [{ has_attachment: true }] })
+        .success,
+    ).toBe(false);
+  });
+});
+
+describe('hasAttachmentParts', () => {
+  it('detects attachments and ignores inline body parts', () => {
+    expect(
+      hasAttachmentParts({
+        type: 'multipart/mixed',
+        childNodes: [
+          { part: '1', type: 'text/plain', disposition: 'inline', size: 10 },
+          {
+            part: '2',
+            type: 'application/pdf',
+            disposition: 'attachment',
+            dispositionParameters: { filename: 'invoice.pdf' },
+            size: 100,
+          },
+        ],
+      }),
+    ).toBe(true);
+    expect(
+      hasAttachmentParts({
+        type: 'multipart/alternative',
+        childNodes: [
+          { part: '1', type: 'text/plain', disposition: 'inline', size: 10 },
+          { part: '2', type: 'text/html', size: 20 },
+        ],
+      }),
+    ).toBe(false);
+  });
+});
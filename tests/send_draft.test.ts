@@ -0,0 +1,217 @@
+import { createServer, type AddressInfo, type Server } from 'node:net';
+import { Readable } from 'node:stream';
+
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { findDisallowedRecipients } from '../src/policy.js';
+import { stripBccHeader } from '../src/smtp.js';
+import type * as runtime from '../src/tools/runtime.js';
+import { handleSendDraft } from '../src/tools/send_draft.js';
+import { parseResponse, useImapClient, useTestEnv } from './helpers.js';
+
+vi.mock('../src/tools/runtime.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof runtime>()),
+  withImapClient: vi.fn(),
+}));
+
+type Submission = { from: string; to: string[]; data: string };
+
+/**
+ * Minimal SMTP sink that records submissions and rejects recipients containing "reject".
+ */
+function startSmtpSink(submissions: Submission[]): Promise<Server> {
+  const server = createServer((socket) => {
+    let buffer = '';
+    let current: Submission = { from: '', to: [], data: '' };
+    let inData = false;
+    socket.write('220 sink ESMTP\r\n');
+    socket.on('data', (chunk) => {
+      buffer += chunk.toString('latin1');
+      for (;;) {
+        if (inData) {
+          const end = buffer.indexOf('\r\n.\r\n');
+          if (end < 0) {
+            return;
+          }
+          current.data = buffer.slice(0, end + 2);
+          buffer = buffer.slice(end + 5);
+          inData = false;
+          submissions.push(current);
+          current = { from: '', to: [], data: '' };
+          socket.write('250 queued\r\n');
+          continue;
+        }
+        const lineEnd = buffer.indexOf('\r\n');
+        if (lineEnd < 0) {
+          return;
+        }
+        const line = buffer.slice(0, lineEnd);
+        buffer = buffer.slice(lineEnd + 2);
+        const command = line.slice(0, 4).toUpperCase();
+        if (command === 'EHLO') {
+          socket.write('250-sink\r\n250 AUTH PLAIN\r\n');
+        } else if (command === 'AUTH') {
+          socket.write('235 authenticated\r\n');
+        } else if (command === 'MAIL') {
+          current.from = /<([^>]*)>/.exec(line)?.[1] ?? '';
+          socket.write('250 ok\r\n');
+        } else if (command === 'RCPT') {
+          const address = /<([^>]*)>/.exec(line)?.[1] ?? '';
+          if (address.includes('reject')) {
+            socket.write('550 no such user\r\n');
+          } else {
+            current.to.push(address);
+            socket.write('250 ok\r\n');
+          }
+        } else if (command === 'DATA') {
+          inData = true;
+          socket.write('354 go ahead\r\n');
+        } else if (command === 'QUIT') {
+          socket.end('221 bye\r\n');
+        } else {
+          socket.write('250 ok\r\n');
+        }
+      }
+    });
+  });
+  return new Promise((resolve) => server.listen(0, '127.0.0.1', () => resolve(server)));
+}
+
+const DRAFT = [
+  'From: me@example.com',
+  'To: Jane <jane@example.com>',
+  'Cc: reject@example.com',
+  'Bcc: audit@example.org',
+  'Subject: Report',
+  'Message-ID: <draft@example.com>',
+  '',
+  'Numbers attached.',
+  '',
+].join('\r\n');
+
+function fakeClient(flags: string[] = ['\\Draft', '\\Seen']) {
+  return {
+    mailbox: { uidValidity: 10n },
+    capabilities: new Map(),
+    getMailboxLock: vi.fn(() => Promise.resolve({ release: vi.fn() })),
+    fetchOne: vi.fn(() => Promise.resolve({ uid: 7, flags: new Set(flags), size: DRAFT.length })),
+    download: vi.fn(() => Promise.resolve({ content: Readable.from([Buffer.from(DRAFT)]) })),
+    list: vi.fn(() => Promise.resolve([{ path: 'Sent Items', specialUse: '\\Sent' }])),
+    append: vi.fn((path: string) =>
+      Promise.resolve({ destination: path, uid: 31, uidValidity: 20n }),
+    ),
+  };
+}
+
+describe('imap_send_draft', () => {
+  const submissions: Submission[] = [];
+  let server: Server;
+
+  beforeAll(async () => {
+    server = await startSmtpSink(submissions);
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  useTestEnv(() => ({
+    MAIL_IMAP_DEFAULT_USER: 'me@example.com',
+    MAIL_SMTP_DEFAULT_HOST: '127.0.0.1',
+    MAIL_SMTP_DEFAULT_PORT: String((server.address() as AddressInfo).port),
+    MAIL_SMTP_DEFAULT_SECURE: 'false',
+  }));
+
+  beforeEach(() => {
+    submissions.length = 0;
+  });
+
+  it('submits the draft without Bcc and files it in the Sent mailbox', async () => {
+    const client = fakeClient();
+    useImapClient(client);
+
+    const result = await handleSendDraft({
+      account_id: 'default',
+      message_id: 'imap:default:Drafts:10:7',
+      save_to_sent: true,
+      confirm: true,
+    });
+    const response = parseResponse(result);
+    expect(result.isError).toBe(false);
+    expect(response['data']).toEqual({
+      account_id: 'default',
+      message_id: 'imap:default:Drafts:10:7',
+      header_message_id: '<draft@example.com>',
+      accepted: ['jane@example.com', 'audit@example.org'],
+      rejected: ['reject@example.com'],
+      sent_mailbox: 'Sent Items',
+      sent_message_id: 'imap:default:Sent Items:20:31',
+    });
+    expect(response['_meta']).toMatchObject({ sent_copy: 'appended' });
+    // Deleting the draft is suggested, but confirming it is left to the caller
+    expect(response['hints']).toEqual([
+      expect.objectContaining({
+        tool: 'imap_delete_message',
+        arguments: { account_id: 'default', message_id: 'imap:default:Drafts:10:7' },
+      }),
+    ]);
+
+    expect(submissions).toHaveLength(1);
+    const [submission] = submissions;
+    expect(submission?.from).toBe('me@example.com');
+    expect(submission?.to).toEqual(['jane@example.com', 'audit@example.org']);
+    expect(submission?.data).not.toMatch(/^bcc:/im);
+    expect(submission?.data).toContain('Subject: Report');
+
+    const [mailbox, raw, flags] = client.append.mock.calls[0] as unknown as [
+      string,
+      Buffer,
+      string[],
+    ];
+    expect(mailbox).toBe('Sent Items');
+    expect(raw.toString()).toContain('Bcc: audit@example.org');
+    expect(flags).toEqual(['\\Seen']);
+  });
+
+  it('refuses non-drafts and recipients outside the allowlist before sending', async () => {
+    useImapClient(fakeClient(['\\Seen']));
+    const notDraft = await handleSendDraft({
+      account_id: 'default',
+      message_id: 'imap:default:INBOX:10:7',
+      save_to_sent: true,
+      confirm: true,
+    });
+    expect(notDraft.isError).toBe(true);
+
+    process.env['MAIL_SMTP_DEFAULT_ALLOWED_RECIPIENTS'] = 'jane@example.com, @example.org';
+    useImapClient(fakeClient());
+    const blocked = await handleSendDraft({
+      account_id: 'default',
+      message_id: 'imap:default:Drafts:10:7',
+      save_to_sent: false,
+      confirm: true,
+    });
+    expect(blocked.isError).toBe(true);
+    expect(blocked.content[0]?.text).toContain('reject@example.com');
+    expect(submissions).toHaveLength(0);
+  });
+
+  it('matches allowlist entries by address or @domain', () => {
+    expect(
+      findDisallowedRecipients(
+        ['Jane@Example.com', 'bob@example.org', 'eve@evil.test'],
+        ['jane@example.com', '@example.org'],
+      ),
+    ).toEqual(['eve@evil.test']);
+    expect(findDisallowedRecipients(['eve@evil.test'], [])).toEqual([]);
+  });
+
+  it('strips folded Bcc headers without touching the body', () => {
+    const raw = Buffer.from(
+      'To: a@example.com\r\nBcc: b@example.com,\r\n c@example.com\r\nSubject: x\r\n\r\nBcc: body\r\n',
+    );
+    expect(stripBccHeader(raw).toString()).toBe(
+      'To: a@example.com\r\nSubject: x\r\n\r\nBcc: body\r\n',
+    );
+  });
+});
@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+
+import { toSequenceSet } from '../src/utils/imap_command.js';
+import { baseSubject, compareSortKeys } from '../src/utils/sort.js';
+
+describe('sort helpers', () => {
+  it('reduces subjects to their base subject', () => {
+    expect(baseSubject('Re: Fwd: [list] Quarterly report (fwd)')).toBe('quarterly report');
+    expect(baseSubject('RE:  re:Budget')).toBe('budget');
+    expect(baseSubject(undefined)).toBe('');
+  });
+
+  it('orders keys and breaks ties by uid', () => {
+    const keys = [
+      { uid: 4, key: 'b' },
+      { uid: 2, key: 'a' },
+      { uid: 1, key: 'b' },
+    ];
+
+    expect(keys.sort(compareSortKeys).map((entry) => entry.uid)).toEqual([2, 1, 4]);
+    expect(compareSortKeys({ uid: 1, key: 10 }, { uid: 2, key: 9 })).toBeGreaterThan(0);
+  });
+
+  it('formats uids as a sequence set', () => {
+    expect(toSequenceSet([12, 1, 2, 3, 5, 10, 11])).toBe('1:3,5,10:12');
+    expect(toSequenceSet([7])).toBe('7');
+  });
+});
@@ -0,0 +1,198 @@
+import { EventEmitter } from 'node:events';
+import { describe, expect, it, vi } from 'vitest';
+
+import { decodeSyncToken, encodeSyncToken } from '../src/sync-token.js';
+import type * as runtime from '../src/tools/runtime.js';
+import { handleSyncMailbox } from '../src/tools/sync_mailbox.js';
+import { expandSequenceSet } from '../src/utils/imap_command.js';
+import { parseResponse, useImapClient, useTestEnv } from './helpers.js';
+
+vi.mock('../src/tools/runtime.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof runtime>()),
+  withImapClient: vi.fn(),
+}));
+
+type FakeMessage = { uid: number; flags: string[]; modseq: bigint };
+
+class FakeClient extends EventEmitter {
+  capabilities = new Map<string, boolean>();
+  enabled = new Set<string>();
+  mailbox: Record<string, unknown> = {};
+  messages: FakeMessage[] = [];
+  vanished: number[] = [];
+
+  constructor(uidvalidity: number, messages: FakeMessage[], modseq?: bigint) {
+    super();
+    this.messages = messages;
+    this.mailbox = {
+      path: 'INBOX',
+      uidValidity: BigInt(uidvalidity),
+      uidNext: Math.max(0, ...messages.map((message) => message.uid)) + 1,
+      exists: messages.length,
+      highestModseq: modseq,
+    };
+    if (modseq !== undefined) {
+      this.enabled.add('CONDSTORE');
+    }
+  }
+
+  getMailboxLock = vi.fn(() => Promise.resolve({ release: vi.fn() }));
+
+  search = vi.fn((query: { uid: string }) => {
+    const [start = '1', end = '*'] = query.uid.split(':');
+    const high = end === '*' ? Infinity : Number(end);
+    const uids = this.messages
+      .map((message) => message.uid)
+      .filter((uid) => uid >= Number(start) && uid <= high);
+    // `n:*` always includes the highest UID
+    const last = this.messages.at(-1)?.uid;
+    if (end === '*' && uids.length === 0 && last !== undefined) {
+      uids.push(last);
+    }
+    return Promise.resolve(uids);
+  });
+
+  async *fetch(
+    range: string | number[],
+    _query: unknown,
+    options: { changedSince?: bigint },
+  ): AsyncGenerator<Record<string, unknown>> {
+    await Promise.resolve();
+    let selected: FakeMessage[];
+    if (typeof range === 'string') {
+      const high = Number(range.split(':')[1]);
+      selected = this.messages.filter((message) => message.uid <= high);
+      if (options.changedSince !== undefined && this.enabled.has('QRESYNC')) {
+        for (const uid of this.vanished) {
+          this.emit('expunge', { path: 'INBOX', uid, vanished: true, earlier: true });
+        }
+      }
+    } else {
+      selected = this.messages.filter((message) => range.includes(message.uid));
+    }
+    for (const message of selected) {
+      if (options.changedSince !== undefined && message.modseq <= options.changedSince) {
+        continue;
+      }
+      yield {
+        uid: message.uid,
+        flags: new Set(message.flags),
+        envelope: { subject: `Message ${message.uid}`, date: new Date('2026-01-01T00:00:00Z') },
+      };
+    }
+  }
+}
+
+async function sync(syncToken?: string, limit = 50): Promise<Record<string, unknown>> {
+  const result = await handleSyncMailbox({
+    account_id: 'default',
+    mailbox: 'INBOX',
+    limit,
+    ...(syncToken ? { sync_token: syncToken } : {}),
+  });
+  expect(result.isError).toBe(false);
+  return parseResponse(result);
+}
+
+function data(response: Record<string, unknown>): Record<string, unknown> {
+  return response['data'] as Record<string, unknown>;
+}
+
+describe('imap_sync_mailbox', () => {
+  useTestEnv();
+
+  it('diffs UID sets when the server lacks CONDSTORE', async () => {
+    const client = new FakeClient(7, [
+      { uid: 1, flags: [], modseq: 0n },
+      { uid: 2, flags: [], modseq: 0n },
+      { uid: 3, flags: [], modseq: 0n },
+    ]);
+    useImapClient(client);
+    const baseline = data(await sync());
+    expect(baseline['new_messages']).toEqual([]);
+
+    client.messages = [
+      { uid: 1, flags: [], modseq: 0n },
+      { uid: 3, flags: [], modseq: 0n },
+      { uid: 4, flags: [], modseq: 0n },
+      { uid: 5, flags: [], modseq: 0n },
+    ];
+    client.mailbox['uidNext'] = 6;
+    const response = await sync(String(baseline['sync_token']), 1);
+    const changes = data(response);
+    expect(changes['vanished_uids']).toEqual([2]);
+    expect((changes['new_messages'] as { uid: number }[]).map((message) => message.uid)).toEqual([
+      4,
+    ]);
+    expect(changes['has_more']).toBe(true);
+    expect(response['_meta']).toMatchObject({
+      sync_strategy: 'uid_diff',
+      flag_changes_tracked: false,
+      vanished_tracked: true,
+    });
+
+    const next = data(await sync(String(changes['sync_token'])));
+    expect((next['new_messages'] as { uid: number }[]).map((message) => message.uid)).toEqual([5]);
+    expect(next['vanished_uids']).toEqual([]);
+    expect(decodeSyncToken(String(next['sync_token']))).toMatchObject({
+      last_uid: 5,
+      uids: '1,3:5',
+    });
+  });
+
+  it('reports flag changes and vanished UIDs with QRESYNC', async () => {
+    const client = new FakeClient(
+      7,
+      [
+        { uid: 1, flags: [], modseq: 10n },
+        { uid: 2, flags: [], modseq: 11n },
+      ],
+      11n,
+    );
+    client.enabled.add('QRESYNC');
+    useImapClient(client);
+    const baseline = data(await sync());
+
+    client.messages = [{ uid: 1, flags: ['\\Seen'], modseq: 12n }];
+    client.vanished = [2];
+    client.mailbox['highestModseq'] = 13n;
+    const response = await sync(String(baseline['sync_token']));
+    const changes = data(response);
+    expect(changes['flag_changes']).toEqual([
+      { message_id: 'imap:default:INBOX:7:1', uid: 1, flags: ['\\Seen'] },
+    ]);
+    expect(changes['vanished_uids']).toEqual([2]);
+    expect(response['_meta']).toMatchObject({ sync_strategy: 'qresync' });
+    expect(decodeSyncToken(String(changes['sync_token']))).toMatchObject({ modseq: '13' });
+  });
+
+  it('requires a full resync after a UIDVALIDITY change', async () => {
+    useImapClient(new FakeClient(8, [{ uid: 1, flags: [], modseq: 0n }]));
+    const token = encodeSyncToken({
+      account_id: 'default',
+      mailbox: 'INBOX',
+      uidvalidity: 7,
+      last_uid: 9,
+    });
+    const response = await sync(token);
+    expect(data(response)).toMatchObject({ full_resync_required: true, uidvalidity: 8 });
+    expect(response['_meta']).toMatchObject({ resync_reason: 'uidvalidity_changed' });
+    expect(decodeSyncToken(String(data(response)['sync_token']))).toMatchObject({
+      uidvalidity: 8,
+      last_uid: 0,
+    });
+  });
+
+  it('rejects malformed tokens and sequence sets', async () => {
+    const result = await handleSyncMailbox({
+      account_id: 'default',
+      mailbox: 'INBOX',
+      limit: 10,
+      sync_token: 'not-a-token',
+    });
+    expect(result.isError).toBe(true);
+    expect(expandSequenceSet('1:3,7', 10)).toEqual([1, 2, 3, 7]);
+    expect(expandSequenceSet('1:100', 10)).toBeNull();
+    expect(expandSequenceSet('x', 10)).toBeNull();
+  });
+});
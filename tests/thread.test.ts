@@ -0,0 +1,268 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import { handleGetThread } from '../src/tools/get_thread.js';
+import type * as runtime from '../src/tools/runtime.js';
+import {
+  findThreadUids,
+  orderThread,
+  parseMessageIdList,
+  readHeaderValue,
+} from '../src/utils/thread.js';
+import { listedMailbox, parseData, parseResponse, useImapClient, useTestEnv } from './helpers.js';
+
+vi.mock('../src/tools/runtime.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof runtime>()),
+  withImapClient: vi.fn(),
+}));
+
+type StoredMessage = { uid: number; messageId: string; inReplyTo?: string; references: string[] };
+
+describe('thread helpers', () => {
+  it('finds the thread containing a uid in a THREAD response', () => {
+    // * THREAD (2)(3 6 (4 23)(44 7 96))
+    const threads = [
+      [atom(2)],
+      [atom(3), atom(6), [atom(4), atom(23)], [atom(44), atom(7), atom(96)]],
+    ];
+
+    expect(findThreadUids(threads, 7)).toEqual([3, 6, 4, 23, 44, 7, 96]);
+    expect(findThreadUids(threads, 2)).toEqual([2]);
+    expect(findThreadUids(threads, 99)).toEqual([]);
+  });
+
+  it('handles threads without a common parent', () => {
+    // * THREAD ((3)(5))
+    expect(findThreadUids([[[atom(3)], [atom(5)]]], 5)).toEqual([3, 5]);
+  });
+
+  it('parses msg-id lists and folded headers', () => {
+    const headers = Buffer.from('References: <a@example.com>\r\n <b@example.com>\r\n\r\n');
+
+    expect(readHeaderValue(headers, 'references')).toBe('<a@example.com> <b@example.com>');
+    expect(parseMessageIdList(readHeaderValue(headers, 'References'))).toEqual([
+      '<a@example.com>',
+      '<b@example.com>',
+    ]);
+    expect(parseMessageIdList(undefined)).toEqual([]);
+  });
+
+  it('orders messages into a reply tree', () => {
+    const ordered = orderThread([
+      {
+        value: 'reply-2',
+        header_message_id: '<c@x>',
+        in_reply_to: '<a@x>',
+        references: ['<a@x>'],
+        date_ms: 3,
+      },
+      {
+        value: 'root',
+        header_message_id: '<a@x>',
+        references: [],
+        date_ms: 1,
+      },
+      {
+        value: 'nested',
+        header_message_id: '<d@x>',
+        references: ['<a@x>', '<b@x>'],
+        date_ms: 4,
+      },
+      {
+        value: 'reply-1',
+        header_message_id: '<b@x>',
+        in_reply_to: '<a@x>',
+        references: ['<a@x>'],
+        date_ms: 2,
+      },
+    ]);
+
+    expect(ordered).toEqual([
+      { value: 'root', depth: 0 },
+      { value: 'reply-1', depth: 1, parent: 'root' },
+      { value: 'nested', depth: 2, parent: 'reply-1' },
+      { value: 'reply-2', depth: 1, parent: 'root' },
+    ]);
+  });
+
+  it('keeps messages with missing ancestors as roots', () => {
+    const ordered = orderThread([
+      {
+        value: 'orphan',
+        header_message_id: '<b@x>',
+        in_reply_to: '<a@x>',
+        references: [],
+        date_ms: 2,
+      },
+      { value: 'other', header_message_id: '<c@x>', references: [], date_ms: 1 },
+    ]);
+
+    expect(ordered).toEqual([
+      { value: 'other', depth: 0 },
+      { value: 'orphan', depth: 0 },
+    ]);
+  });
+});
+
+const atom = (value: number): { type: string; value: string } => ({
+  type: 'ATOM',
+  value: String(value),
+});
+
+const headerIds = (message: StoredMessage): string[] => [
+  message.messageId,
+  ...(message.inReplyTo ? [message.inReplyTo] : []),
+  ...message.references,
+];
+
+/**
+ * A client serving the given mailboxes; with `threads`, it advertises
+ * THREAD=REFERENCES and answers UID THREAD with them.
+ */
+function fakeThreadClient(stored: Record<string, StoredMessage[]>, threads?: unknown[]) {
+  let selected = 'INBOX';
+  return {
+    capabilities: new Map(threads ? [['THREAD=REFERENCES', true]] : []),
+    mailbox: { uidValidity: 1n },
+    list: vi.fn(() =>
+      Promise.resolve([listedMailbox('INBOX'), listedMailbox('Sent', { specialUse: '\\Sent' })]),
+    ),
+    getMailboxLock: vi.fn((path: string) => {
+      selected = path;
+      return Promise.resolve({ release: vi.fn() });
+    }),
+    exec: vi.fn(
+      async (
+        _command: string,
+        _attributes: unknown[],
+        options: {
+          untagged: Record<string, (response: { attributes: unknown[] }) => Promise<void>>;
+        },
+      ) => {
+        await options.untagged['THREAD']?.({ attributes: threads ?? [] });
+        return { next: vi.fn() };
+      },
+    ),
+    search: vi.fn((query: { or: { header: Record<string, string> }[] }) => {
+      const ids = new Set(query.or.flatMap((criterion) => Object.values(criterion.header)));
+      return Promise.resolve(
+        (stored[selected] ?? [])
+          .filter((message) => headerIds(message).some((id) => ids.has(id)))
+          .map((message) => message.uid),
+      );
+    }),
+    fetch: vi.fn(async function* (uids: number[]) {
+      for (const message of stored[selected] ?? []) {
+        if (uids.includes(message.uid)) {
+          yield await Promise.resolve({
+            uid: message.uid,
+            flags: new Set<string>(),
+            envelope: {
+              messageId: message.messageId,
+              inReplyTo: message.inReplyTo,
+              date: new Date(Date.UTC(2026, 0, message.uid)),
+              subject: 'Report',
+            },
+            headers: Buffer.from(`References: ${message.references.join(' ')}\r\n\r\n`),
+          });
+        }
+      }
+    }),
+  };
+}
+
+async function getThread(mailboxes?: string[]): Promise<{
+  messages: [string, number][];
+  meta: Record<string, unknown>;
+}> {
+  const result = await handleGetThread({
+    account_id: 'default',
+    message_id: 'imap:default:INBOX:1:1',
+    limit: 50,
+    ...(mailboxes ? { mailboxes } : {}),
+  });
+  expect(result.isError).toBe(false);
+  const messages = parseData(result)['messages'] as { mailbox: string; uid: number }[];
+  return {
+    messages: messages.map((message) => [message.mailbox, message.uid]),
+    meta: parseResponse(result)['_meta'] as Record<string, unknown>,
+  };
+}
+
+describe('imap_get_thread', () => {
+  useTestEnv();
+
+  const stored: Record<string, StoredMessage[]> = {
+    INBOX: [
+      { uid: 1, messageId: '<a@x>', references: [] },
+      { uid: 2, messageId: '<b@x>', inReplyTo: '<a@x>', references: ['<a@x>'] },
+      // A reply to the sent message, found by headers only once <c@x> is known
+      { uid: 3, messageId: '<d@x>', inReplyTo: '<c@x>', references: ['<c@x>'] },
+      { uid: 9, messageId: '<z@x>', references: [] },
+    ],
+    Sent: [{ uid: 5, messageId: '<c@x>', inReplyTo: '<b@x>', references: ['<a@x>', '<b@x>'] }],
+  };
+
+  it('falls back to header matching in every mailbox without THREAD', async () => {
+    const client = fakeThreadClient(stored);
+    useImapClient(client);
+
+    const { messages, meta } = await getThread();
+
+    expect(messages).toEqual([
+      ['INBOX', 1],
+      ['INBOX', 2],
+      ['Sent', 5],
+      ['INBOX', 3],
+    ]);
+    expect(meta['thread_strategy']).toBe('headers');
+    expect(client.exec).not.toHaveBeenCalled();
+  });
+
+  it('takes the source mailbox thread from UID THREAD and merges header matches from \\Sent', async () => {
+    // * THREAD (1 2 3)(9)
+    const client = fakeThreadClient(stored, [[atom(1), atom(2), atom(3)], [atom(9)]]);
+    useImapClient(client);
+
+    const { messages, meta } = await getThread();
+
+    expect(messages).toEqual([
+      ['INBOX', 1],
+      ['INBOX', 2],
+      ['Sent', 5],
+      ['INBOX', 3],
+    ]);
+    expect(meta['thread_strategy']).toBe('thread:references');
+    expect(client.exec).toHaveBeenCalledWith(
+      'UID THREAD',
+      [
+        { type: 'ATOM', value: 'REFERENCES' },
+        { type: 'ATOM', value: 'UTF-8' },
+        { type: 'ATOM', value: 'ALL' },
+      ],
+      expect.anything(),
+    );
+    // The server's thread covers INBOX, so only Sent is searched by headers
+    expect(client.getMailboxLock.mock.calls.map(([path]) => path)).toEqual(['INBOX', 'Sent']);
+  });
+
+  it('resolves special-use entries and checks every mailbox against the account policy', async () => {
+    useImapClient(fakeThreadClient(stored));
+    const { meta } = await getThread(['\\Sent']);
+    expect(meta['mailboxes_searched']).toEqual(['INBOX', 'Sent']);
+
+    process.env['MAIL_IMAP_DEFAULT_DENIED_MAILBOXES'] = 'Sent';
+    const denied = await handleGetThread({
+      account_id: 'default',
+      message_id: 'imap:default:INBOX:1:1',
+      mailboxes: ['\\Sent'],
+      limit: 50,
+    });
+    expect(denied.isError).toBe(true);
+    expect(parseResponse(denied)['summary']).toBe(
+      "Mailbox 'Sent' is not allowed for account 'default'.",
+    );
+
+    // The default \Sent mailbox is left out instead
+    expect((await getThread()).meta['mailboxes_searched']).toEqual(['INBOX']);
+  });
+});
@@ -0,0 +1,205 @@
+import { afterAll, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { handleToolCall } from '../src/handler.js';
+import type * as runtime from '../src/tools/runtime.js';
+import { fakeImapServer, parseResponse, useTestEnv } from './helpers.js';
+
+// Read once when the config module loads, so they are set before any import
+vi.hoisted(() => {
+  process.env['MAIL_IMAP_WRITE_ENABLED'] = 'true';
+  process.env['MAIL_IMAP_UNDO_MAILBOX'] = 'Undo';
+});
+
+vi.mock('../src/tools/runtime.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof runtime>()),
+  withImapClient: vi.fn(),
+}));
+
+function undoOperationId(result: { content: { text: string }[] }): string {
+  const meta = parseResponse(result)['_meta'] as Record<string, unknown>;
+  return meta['undo_operation_id'] as string;
+}
+
+describe('imap_undo', () => {
+  useTestEnv();
+
+  afterAll(() => {
+    delete process.env['MAIL_IMAP_WRITE_ENABLED'];
+    delete process.env['MAIL_IMAP_UNDO_MAILBOX'];
+  });
+
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  it('moves a message back to its original mailbox', async () => {
+    const { mailboxes } = fakeImapServer({ INBOX: { 7: ['\\Seen'] }, Archive: {} });
+
+    const moved = await handleToolCall('imap_move_message', {
+      message_id: 'imap:default:INBOX:1:7',
+      destination_mailbox: 'Archive',
+    });
+    expect(moved.isError).toBe(false);
+    const operationId = undoOperationId(moved);
+
+    const undone = await handleToolCall('imap_undo', { operation_id: operationId });
+    expect(undone.isError).toBe(false);
+    expect(parseResponse(undone)['data']).toMatchObject({
+      succeeded: 1,
+      operations: [
+        {
+          operation_id: operationId,
+          kind: 'move',
+          results: [
+            {
+              message_id: 'imap:default:INBOX:1:7',
+              ok: true,
+              new_message_id: 'imap:default:INBOX:1:8',
+            },
+          ],
+        },
+      ],
+    });
+    expect(mailboxes.get('Archive')?.messages.size).toBe(0);
+    expect([...(mailboxes.get('INBOX')?.messages.get(8) ?? [])]).toEqual(['\\Seen']);
+
+    const again = await handleToolCall('imap_undo', { operation_id: operationId });
+    expect(again.isError).toBe(true);
+  });
+
+  it('moves deleted messages to Trash and back', async () => {
+    const { mailboxes } = fakeImapServer({ INBOX: { 3: [] }, Trash: { 9: [] } });
+
+    const trashed = await handleToolCall('imap_delete_message', {
+      message_id: 'imap:default:INBOX:1:3',
+      confirm: true,
+    });
+    expect(parseResponse(trashed)).toMatchObject({
+      data: { trash_mailbox: 'Trash', new_message_id: 'imap:default:Trash:2:10' },
+      _meta: { delete_strategy: 'trash' },
+    });
+    expect(mailboxes.get('INBOX')?.messages.size).toBe(0);
+
+    // Deleting from Trash is permanent
+    const purged = await handleToolCall('imap_delete_message', {
+      message_id: 'imap:default:Trash:2:9',
+      confirm: true,
+    });
+    expect(parseResponse(purged)).toMatchObject({
+      summary: 'Deleted message imap:default:Trash:2:9 permanently.',
+      _meta: { delete_strategy: 'expunge' },
+    });
+
+    const undone = await handleToolCall('imap_undo', { count: 2 });
+    expect(parseResponse(undone)['data']).toMatchObject({ succeeded: 2, failed: 0 });
+    expect(mailboxes.get('INBOX')?.messages.size).toBe(1);
+    expect([...(mailboxes.get('Trash')?.messages.keys() ?? [])]).toEqual([11]);
+  });
+
+  it('restores permanently deleted messages from the undo mailbox', async () => {
+    const { mailboxes } = fakeImapServer({ INBOX: { 3: [], 4: ['\\Flagged'] } });
+
+    const deleted = await handleToolCall('imap_delete_message', {
+      message_ids: ['imap:default:INBOX:1:3', 'imap:default:INBOX:1:4'],
+      permanent: true,
+      confirm: true,
+    });
+    expect(deleted.isError).toBe(false);
+    expect(mailboxes.get('INBOX')?.messages.size).toBe(0);
+    expect(mailboxes.get('Undo')?.messages.size).toBe(2);
+
+    const undone = await handleToolCall('imap_undo', {});
+    expect(parseResponse(undone)['data']).toMatchObject({ succeeded: 2, failed: 0 });
+    expect(mailboxes.get('Undo')?.messages.size).toBe(0);
+    expect(mailboxes.get('INBOX')?.messages.size).toBe(2);
+  });
+
+  it('refuses permanent deletes when the account policy denies the undo mailbox', async () => {
+    process.env['MAIL_IMAP_DEFAULT_ALLOWED_MAILBOXES'] = 'INBOX,Archive';
+    const { mailboxes } = fakeImapServer({ INBOX: { 3: [] } });
+
+    const deleted = await handleToolCall('imap_delete_message', {
+      message_id: 'imap:default:INBOX:1:3',
+      permanent: true,
+      confirm: true,
+    });
+    expect(deleted.isError).toBe(true);
+    expect(parseResponse(deleted)['summary']).toContain("Mailbox 'Undo' is not allowed");
+    expect(mailboxes.has('Undo')).toBe(false);
+    expect(mailboxes.get('INBOX')?.messages.size).toBe(1);
+  });
+
+  it('leaves messages that changed since the operation alone', async () => {
+    const { mailboxes } = fakeImapServer({ INBOX: { 5: [] } });
+
+    const flagged = await handleToolCall('imap_update_message_flags', {
+      message_id: 'imap:default:INBOX:1:5',
+      add_flags: ['\\Seen'],
+    });
+    expect(flagged.isError).toBe(false);
+    mailboxes.get('INBOX')?.messages.get(5)?.add('\\Flagged');
+
+    const undone = await handleToolCall('imap_undo', {
+      operation_id: undoOperationId(flagged),
+    });
+    expect(undone.isError).toBe(true);
+    expect(parseResponse(undone)['_meta']).toMatchObject({
+      failed: 1,
+      operations: [
+        {
+          results: [
+            {
+              ok: false,
+              error: 'Message flags have changed since the operation; not reverted.',
+            },
+          ],
+        },
+      ],
+    });
+    expect([...(mailboxes.get('INBOX')?.messages.get(5) ?? [])]).toEqual(['\\Seen', '\\Flagged']);
+  });
+
+  it('restores messages that had the same flags with one UID STORE', async () => {
+    const { mailboxes, client } = fakeImapServer({ INBOX: { 5: [], 6: [], 7: ['\\Flagged'] } });
+
+    const flagged = await handleToolCall('imap_update_message_flags', {
+      message_ids: ['imap:default:INBOX:1:5', 'imap:default:INBOX:1:6', 'imap:default:INBOX:1:7'],
+      add_flags: ['\\Seen'],
+    });
+    expect(flagged.isError).toBe(false);
+
+    const undone = await handleToolCall('imap_undo', { operation_id: undoOperationId(flagged) });
+    expect(parseResponse(undone)['data']).toMatchObject({ succeeded: 3, failed: 0 });
+    expect(client.messageFlagsSet.mock.calls).toEqual([
+      [[5, 6], [], { uid: true }],
+      [[7], ['\\Flagged'], { uid: true }],
+    ]);
+    expect([...(mailboxes.get('INBOX')?.messages.get(6) ?? [])]).toEqual([]);
+  });
+
+  it('checks the current account policy and message limit before undoing', async () => {
+    const { mailboxes } = fakeImapServer({ INBOX: { 3: [], 4: [] }, Archive: {} });
+    for (const uid of [3, 4]) {
+      const moved = await handleToolCall('imap_move_message', {
+        message_id: `imap:default:INBOX:1:${uid}`,
+        destination_mailbox: 'Archive',
+      });
+      expect(moved.isError).toBe(false);
+    }
+
+    process.env['MAIL_IMAP_DEFAULT_MAX_MESSAGES_PER_CALL'] = '1';
+    const tooMany = await handleToolCall('imap_undo', { count: 2 });
+    expect(tooMany.isError).toBe(true);
+    expect(parseResponse(tooMany)['summary']).toBe(
+      'Undoing would change 2 messages, but at most 1 messages may be changed per call; undo fewer operations.',
+    );
+
+    process.env['MAIL_IMAP_DEFAULT_DENIED_MAILBOXES'] = 'INBOX';
+    const denied = await handleToolCall('imap_undo', {});
+    expect(denied.isError).toBe(true);
+    expect(parseResponse(denied)['summary']).toBe(
+      "Mailbox 'INBOX' is not allowed for account 'default'.",
+    );
+    expect(mailboxes.get('Archive')?.messages.size).toBe(2);
+  });
+});
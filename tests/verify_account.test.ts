@@ -50,6 +50,16 @@ vi.mock('../src/tools/runtime.js', () => {
     makeError,
     nowUtcIso: () => '2026-01-27T00:00:00.000Z',
     withImapClient: vi.fn(),
+    getConnectionPoolStats: () => ({
+      max_size: 3,
+      open: 1,
+      idle: 1,
+      busy: 0,
+      waiting: 0,
+      created_total: 1,
+      reused_total: 0,
+      discarded_total: 0,
+    }),
   };
 });
 
@@ -100,6 +110,7 @@ describe('imap_verify_account', () => {
         latency_ms: number;
         server: { host: string; port: number; secure: boolean };
         capabilities: string[];
+        pool: { max_size: number; open: number; created_total: number };
       };
     };
 
@@ -112,6 +123,7 @@ describe('imap_verify_account', () => {
     });
     expect(response.data?.capabilities).toEqual(['IMAP4rev1', 'UIDPLUS']);
     expect(response.data?.latency_ms).toBeGreaterThanOrEqual(0);
+    expect(response.data?.pool).toMatchObject({ max_size: 3, open: 1, created_total: 1 });
   });
 
   it('returns a configuration error when the account is missing', async () => {